@@ -0,0 +1,3 @@
+-- Opt-in PgBouncer in front of Postgres deployments, with its own NodePort
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS pooler JSONB;
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS pooler_node_port INTEGER UNIQUE;
@@ -0,0 +1,3 @@
+-- Opt-in streaming replicas of Postgres deployments, read through their own NodePort
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS replication JSONB;
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS read_only_node_port INTEGER UNIQUE;
@@ -0,0 +1,24 @@
+-- Compute resources per deployment
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS resource_preset TEXT;
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS cpu_request TEXT;
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS memory_request TEXT;
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS cpu_limit TEXT;
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS memory_limit TEXT;
+
+-- Create user_quotas table (per-user overrides of the default compute quota)
+CREATE TABLE IF NOT EXISTS user_quotas (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+
+    cpu_millicores INTEGER NOT NULL,
+    memory_mi INTEGER NOT NULL,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_user_quotas_updated_at ON user_quotas;
+CREATE TRIGGER update_user_quotas_updated_at
+    BEFORE UPDATE ON user_quotas
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
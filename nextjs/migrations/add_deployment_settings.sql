@@ -0,0 +1,2 @@
+-- App settings per deployment, rendered into the template's config file (e.g. redis.conf)
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS settings JSONB;
@@ -0,0 +1,50 @@
+-- Create deployment_backup_schedules table (backup settings, one row per deployment)
+CREATE TABLE IF NOT EXISTS deployment_backup_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    deployment_id UUID NOT NULL UNIQUE REFERENCES deployments(id) ON DELETE CASCADE,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+    -- Schedule
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    schedule TEXT NOT NULL,
+
+    -- Target
+    target TEXT NOT NULL,
+    storage_size INTEGER,
+
+    -- Retention
+    retention_count INTEGER NOT NULL,
+    retention_days INTEGER,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create deployment_backups table (one row per backup run)
+CREATE TABLE IF NOT EXISTS deployment_backups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    deployment_id UUID NOT NULL REFERENCES deployments(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+    -- Run
+    job_name TEXT NOT NULL,
+    trigger TEXT NOT NULL,
+    status TEXT NOT NULL,
+
+    -- Result
+    target TEXT NOT NULL,
+    location TEXT NOT NULL,
+    size_bytes BIGINT,
+    duration_ms INTEGER,
+    error_message TEXT,
+
+    -- Timestamps
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS deployment_backups_deployment_id_idx ON deployment_backups(deployment_id);
+CREATE UNIQUE INDEX IF NOT EXISTS deployment_backups_deployment_job_idx ON deployment_backups(deployment_id, job_name);
+CREATE INDEX IF NOT EXISTS deployment_backups_started_at_idx ON deployment_backups(started_at);
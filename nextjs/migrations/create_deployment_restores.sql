@@ -0,0 +1,26 @@
+-- Create deployment_restores table (one row per restore of a backup)
+CREATE TABLE IF NOT EXISTS deployment_restores (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    deployment_id UUID NOT NULL REFERENCES deployments(id) ON DELETE CASCADE,
+    source_deployment_id UUID REFERENCES deployments(id) ON DELETE SET NULL,
+    backup_id UUID REFERENCES deployment_backups(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+    -- Restore
+    mode TEXT NOT NULL,
+    job_name TEXT,
+    status TEXT NOT NULL,
+    step TEXT,
+    error_message TEXT,
+    duration_ms INTEGER,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS deployment_restores_deployment_id_idx ON deployment_restores(deployment_id);
+CREATE INDEX IF NOT EXISTS deployment_restores_source_deployment_id_idx ON deployment_restores(source_deployment_id);
+CREATE INDEX IF NOT EXISTS deployment_restores_status_idx ON deployment_restores(status);
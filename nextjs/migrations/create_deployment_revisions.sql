@@ -0,0 +1,23 @@
+-- Create deployment_revisions table (one row per successful apply)
+CREATE TABLE IF NOT EXISTS deployment_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    deployment_id UUID NOT NULL REFERENCES deployments(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+    -- Revision Info
+    revision INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    source_revision INTEGER,
+
+    -- Configuration
+    tag TEXT NOT NULL,
+    config JSONB NOT NULL,
+    manifests JSONB NOT NULL,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS deployment_revisions_deployment_id_idx ON deployment_revisions(deployment_id);
+CREATE UNIQUE INDEX IF NOT EXISTS deployment_revisions_deployment_revision_idx ON deployment_revisions(deployment_id, revision);
@@ -0,0 +1,40 @@
+-- Create exec_sessions table (audit log of terminals opened into pods)
+CREATE TABLE IF NOT EXISTS exec_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    deployment_id UUID REFERENCES deployments(id) ON DELETE SET NULL,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+
+    -- Target
+    namespace TEXT NOT NULL,
+    pod_name TEXT NOT NULL,
+    container_name TEXT NOT NULL,
+    command TEXT NOT NULL,
+
+    -- Client
+    client_ip TEXT,
+    user_agent TEXT,
+
+    -- Result
+    exit_code INTEGER,
+    close_reason TEXT,
+
+    -- Timestamps
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMPTZ
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS exec_sessions_deployment_id_idx ON exec_sessions(deployment_id);
+CREATE INDEX IF NOT EXISTS exec_sessions_user_id_idx ON exec_sessions(user_id);
+CREATE INDEX IF NOT EXISTS exec_sessions_started_at_idx ON exec_sessions(started_at);
+
+-- Permission to open terminals, granted to admins (see src/db/seed.ts)
+INSERT INTO permissions (name, resource, action, description, is_system, is_active)
+VALUES ('deployments:exec', 'deployments', 'exec', 'Open a terminal into own deployments', true, true)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT roles.id, permissions.id
+FROM roles, permissions
+WHERE roles.slug = 'admin' AND permissions.name = 'deployments:exec'
+ON CONFLICT DO NOTHING;
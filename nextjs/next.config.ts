@@ -4,6 +4,7 @@ const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
   output: 'standalone', // Required for Docker deployment
+  serverExternalPackages: ['ws'], // Bundling breaks its optional native addons
 };
 
 export default nextConfig;
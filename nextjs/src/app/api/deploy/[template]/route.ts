@@ -0,0 +1,337 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deploymentEnvVars, deployments } from "@/db/schema";
+import { getAppTemplate } from "@/lib/app-templates";
+import { auth } from "@/lib/auth";
+import { failDeploy } from "@/lib/deploy";
+import {
+  generateExternalUrl,
+  generateStrongPassword,
+  getExternalHost,
+  getNextAvailableNodePort,
+  isValidImageTag,
+} from "@/lib/deployment-utils";
+import { enqueueJob, type Job } from "@/lib/job-queue";
+import {
+  DEFAULT_POOLER_SETTINGS,
+  type PoolerSettings,
+  resolvePoolerSettings,
+} from "@/lib/pooler-config";
+import type { PostgresSettings } from "@/lib/postgres-config";
+import { checkResourceQuota } from "@/lib/quotas";
+import {
+  DEFAULT_REPLICATION_SETTINGS,
+  getInstanceCount,
+  type ReplicationSettings,
+  resolveReplicationSettings,
+} from "@/lib/replication-config";
+import {
+  parseMemoryQuantity,
+  type ResourceRequest,
+  resolveResources,
+} from "@/lib/resources";
+
+export const dynamic = "force-dynamic";
+
+interface DeployRequest {
+  tag: string;
+  containerName?: string;
+  port?: string;
+  pvcSize?: string;
+  envVars?: Record<string, string>;
+  resources?: ResourceRequest;
+  settings?: unknown; // Rendered into the template's config file, if it has one
+  pooler?: Partial<PoolerSettings> | null; // Postgres only, omit or null for none
+  replication?: Pick<ReplicationSettings, "readReplicas"> | null; // Postgres only, omit or null for a single instance
+}
+
+/**
+ * API Route to deploy an app from a template
+ * POST /api/deploy/[template] (e.g. /api/deploy/postgres)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ template: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { template: templateId } = await params;
+    const template = getAppTemplate(templateId);
+
+    if (!template) {
+      return NextResponse.json(
+        { error: `Unknown app template: ${templateId}` },
+        { status: 404 },
+      );
+    }
+
+    const body: DeployRequest = await request.json();
+
+    // Validate required fields
+    if (!body.tag || !isValidImageTag(body.tag)) {
+      return NextResponse.json(
+        { error: "A valid tag is required" },
+        { status: 400 },
+      );
+    }
+
+    const pvcSize = parseInt(
+      body.pvcSize || `${template.storage.defaultSize}`,
+      10,
+    );
+    if (Number.isNaN(pvcSize) || pvcSize < 1 || pvcSize > 1000) {
+      return NextResponse.json(
+        { error: "Storage size must be between 1 and 1000 GB" },
+        { status: 400 },
+      );
+    }
+
+    // Resolve CPU/memory and check them against the user's quota
+    const resolved = resolveResources(body.resources);
+    if (resolved.errors) {
+      return NextResponse.json(
+        { error: "Invalid resources", details: resolved.errors },
+        { status: 400 },
+      );
+    }
+
+    // Optional read replicas of Postgres, each one needs the same resources
+    let replication: ReplicationSettings | null = null;
+    if (body.replication) {
+      if (template.type !== "postgres") {
+        return NextResponse.json(
+          { error: "Replication is only available for Postgres" },
+          { status: 400 },
+        );
+      }
+      const resolvedReplication = resolveReplicationSettings(
+        body.replication,
+        DEFAULT_REPLICATION_SETTINGS,
+        { tag: body.tag },
+      );
+      if (resolvedReplication.errors) {
+        return NextResponse.json(
+          {
+            error: "Invalid replication settings",
+            details: resolvedReplication.errors,
+          },
+          { status: 400 },
+        );
+      }
+      replication = resolvedReplication.settings;
+    }
+
+    const quotaErrors = await checkResourceQuota(
+      session.user.id,
+      resolved.resources,
+      { instances: replication ? getInstanceCount(replication) : 1 },
+    );
+    if (quotaErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Resource quota exceeded", details: quotaErrors },
+        { status: 403 },
+      );
+    }
+
+    // App settings on top of the template's defaults
+    let settings: object | null = null;
+    if (template.configFile) {
+      const resolvedSettings = template.configFile.resolve(
+        body.settings,
+        template.configFile.defaults,
+        {
+          memoryLimitMi: parseMemoryQuantity(resolved.resources.memoryLimit),
+        },
+      );
+      if (resolvedSettings.errors) {
+        return NextResponse.json(
+          { error: "Invalid settings", details: resolvedSettings.errors },
+          { status: 400 },
+        );
+      }
+      settings = resolvedSettings.settings;
+    } else if (body.settings !== undefined) {
+      return NextResponse.json(
+        { error: `${template.name} has no configurable settings` },
+        { status: 400 },
+      );
+    }
+
+    // Optional connection pooler in front of Postgres
+    let pooler: PoolerSettings | null = null;
+    if (body.pooler) {
+      if (template.type !== "postgres") {
+        return NextResponse.json(
+          { error: "Connection pooling is only available for Postgres" },
+          { status: 400 },
+        );
+      }
+      const resolvedPooler = resolvePoolerSettings(
+        body.pooler,
+        DEFAULT_POOLER_SETTINGS,
+        { maxConnections: (settings as PostgresSettings).maxConnections },
+      );
+      if (resolvedPooler.errors) {
+        return NextResponse.json(
+          { error: "Invalid pooler settings", details: resolvedPooler.errors },
+          { status: 400 },
+        );
+      }
+      pooler = resolvedPooler.settings;
+    }
+
+    // Resolve environment variables: provided value, then default, then generated
+    const envVarsConfig: Record<string, string> = {};
+    const envErrors: string[] = [];
+
+    for (const env of template.env) {
+      const value =
+        body.envVars?.[env.key] ||
+        env.default ||
+        (env.generate ? generateStrongPassword(32) : "");
+
+      if (env.required && !value) {
+        envErrors.push(`${env.key} is required`);
+        continue;
+      }
+
+      const validationError = env.validate?.(value);
+      if (validationError) {
+        envErrors.push(validationError);
+      }
+
+      envVarsConfig[env.key] = value;
+    }
+
+    if (envErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid environment variables", details: envErrors },
+        { status: 400 },
+      );
+    }
+
+    // Generate deployment configuration
+    const containerName =
+      body.containerName || `${template.id}-${body.tag.replace(/\./g, "-")}`;
+
+    // Allocate NodePort
+    const nodePort = await getNextAvailableNodePort();
+    const poolerNodePort = pooler
+      ? await getNextAvailableNodePort([nodePort])
+      : null;
+    const readOnlyNodePort = replication
+      ? await getNextAvailableNodePort([nodePort, poolerNodePort])
+      : null;
+
+    // Generate external URL
+    const externalHost = getExternalHost();
+    const externalUrl = generateExternalUrl(externalHost, nodePort);
+
+    // Create deployment record and its env vars in database
+    const deployment = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(deployments)
+        .values({
+          userId: session.user.id,
+          name: containerName,
+          type: template.type,
+          image: template.image,
+          tag: body.tag,
+          containerName,
+          // namespace will be auto-generated UUID
+          port: template.ports[0].containerPort, // Internal container port
+          nodePort,
+          pvcSize,
+          resourcePreset: resolved.preset,
+          ...resolved.resources,
+          settings,
+          pooler,
+          poolerNodePort,
+          replication,
+          readOnlyNodePort,
+          externalUrl,
+          externalHost,
+          argocdAppName: containerName,
+          argocdUrl: `${process.env.ARGOCD_URL || "https://argocd.dockify.app"}/applications/${containerName}`,
+          status: "pending",
+          metadata: {
+            requestedAt: new Date().toISOString(),
+            template: template.id,
+            // Never keep secret values in metadata, they live in deploymentEnvVars
+            requestBody: { ...body, envVars: undefined },
+          },
+        })
+        .returning();
+
+      await tx.insert(deploymentEnvVars).values(
+        template.env.map((env) => ({
+          deploymentId: created.id,
+          key: env.key,
+          value: envVarsConfig[env.key],
+          isSecret: env.secret === true,
+        })),
+      );
+
+      return created;
+    });
+
+    // Kubernetes calls run in the background, the deploy page polls the job
+    let job: Job;
+    try {
+      job = await enqueueJob({
+        type: "deploy",
+        deploymentId: deployment.id,
+        userId: session.user.id,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await failDeploy(deployment.id, {
+        step: "queue deploy",
+        error: message,
+        transient: true,
+        rolledBack: [],
+      });
+      return NextResponse.json(
+        { error: "Failed to queue deployment", details: message },
+        { status: 503 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `${template.name} deployment queued`,
+        job: { id: job.id, status: job.status },
+        deployment: {
+          id: deployment.id,
+          name: deployment.name,
+          image: `${deployment.image}:${deployment.tag}`,
+          namespace: deployment.namespace,
+          nodePort: deployment.nodePort,
+          poolerNodePort: deployment.poolerNodePort,
+          readOnlyNodePort: deployment.readOnlyNodePort,
+          externalUrl: deployment.externalUrl,
+          argocdUrl: deployment.argocdUrl,
+          status: deployment.status,
+        },
+        // Returned only once, secrets are hidden by GET /api/deployments
+        credentials: template.credentials(envVarsConfig),
+      },
+      { status: 202 },
+    );
+  } catch (error) {
+    console.error("Error deploying app:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to deploy app",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,323 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deploymentEnvVars, deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { failDeploy } from "@/lib/deploy";
+import {
+  generateExternalUrl,
+  getExternalHost,
+  getNextAvailableNodePort,
+  isValidEnvVarName,
+  isValidImageName,
+  isValidImageTag,
+} from "@/lib/deployment-utils";
+import { enqueueJob, type Job } from "@/lib/job-queue";
+import type {
+  ContainerPort,
+  CustomAppConfig,
+  ManifestEnvVar,
+} from "@/lib/k8s-manifests";
+import { checkResourceQuota } from "@/lib/quotas";
+import { type ResourceRequest, resolveResources } from "@/lib/resources";
+
+export const dynamic = "force-dynamic";
+
+interface DeployRequest {
+  image: string;
+  tag: string;
+  containerName?: string;
+  ports: ContainerPort[];
+  envVars?: Array<{
+    key: string;
+    value: string;
+    isSecret?: boolean;
+  }>;
+  command?: string[];
+  args?: string[];
+  resources?: ResourceRequest;
+  volume?: {
+    mountPath: string;
+    size: number; // GB
+  };
+}
+
+// Used for Service names, which must be DNS-1035 labels
+const CONTAINER_NAME_PATTERN = /^[a-z]([a-z0-9-]{0,50}[a-z0-9])?$/;
+
+/**
+ * Container name of a request, derived from its image and tag when not given
+ * e.g. ghcr.io/org/App:1.0 -> app-1-0, 3proxy:latest -> app-3proxy-latest
+ */
+function getContainerName(body: DeployRequest) {
+  if (body.containerName) {
+    return body.containerName;
+  }
+
+  const name = `${body.image.split("/").pop()}-${body.tag}`
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/^-+/, "");
+  return (/^[a-z]/.test(name) ? name : `app-${name}`)
+    .slice(0, 52)
+    .replace(/-+$/, "");
+}
+
+/**
+ * Validate a custom deploy request
+ * @returns A list of validation errors (empty if the request is valid)
+ */
+function validateDeployRequest(body: DeployRequest): string[] {
+  const errors: string[] = [];
+
+  if (!body.image || !isValidImageName(body.image)) {
+    errors.push("A valid image name is required (e.g. ghcr.io/org/app)");
+  }
+
+  if (!body.tag || !isValidImageTag(body.tag)) {
+    errors.push("A valid image tag is required");
+  }
+
+  // Checked whether given or derived from a valid image and tag
+  if (
+    (body.containerName || errors.length === 0) &&
+    !CONTAINER_NAME_PATTERN.test(getContainerName(body))
+  ) {
+    errors.push(
+      "Container name must be lowercase letters, numbers and dashes, starting with a letter",
+    );
+  }
+
+  if (!Array.isArray(body.ports) || body.ports.length === 0) {
+    errors.push("At least one container port is required");
+  } else {
+    const portNames = new Set<string>();
+    for (const port of body.ports) {
+      if (
+        !Number.isInteger(port.containerPort) ||
+        port.containerPort < 1 ||
+        port.containerPort > 65535
+      ) {
+        errors.push(`Invalid container port: ${port.containerPort}`);
+      }
+      if (port.protocol && port.protocol !== "TCP" && port.protocol !== "UDP") {
+        errors.push(`Invalid protocol for port ${port.containerPort}`);
+      }
+      if (port.name) {
+        // Kubernetes port names must be IANA service names
+        if (!/^[a-z0-9]([a-z0-9-]{0,13}[a-z0-9])?$/.test(port.name)) {
+          errors.push(`Invalid port name: ${port.name}`);
+        }
+        if (portNames.has(port.name)) {
+          errors.push(`Duplicate port name: ${port.name}`);
+        }
+        portNames.add(port.name);
+      }
+    }
+  }
+
+  const envKeys = new Set<string>();
+  for (const env of body.envVars || []) {
+    if (!isValidEnvVarName(env.key)) {
+      errors.push(`Invalid environment variable name: ${env.key}`);
+    }
+    if (envKeys.has(env.key)) {
+      errors.push(`Duplicate environment variable: ${env.key}`);
+    }
+    if (typeof env.value !== "string") {
+      errors.push(`Environment variable ${env.key} must be a string`);
+    }
+    envKeys.add(env.key);
+  }
+
+  const isStringArray = (value: unknown) =>
+    Array.isArray(value) && value.every((part) => typeof part === "string");
+
+  if (body.command != null && !isStringArray(body.command)) {
+    errors.push("Command must be an array of strings");
+  }
+
+  if (body.args != null && !isStringArray(body.args)) {
+    errors.push("Args must be an array of strings");
+  }
+
+  if (body.volume) {
+    if (!body.volume.mountPath?.startsWith("/")) {
+      errors.push("Volume mount path must be absolute");
+    }
+    if (
+      !Number.isInteger(body.volume.size) ||
+      body.volume.size < 1 ||
+      body.volume.size > 1000
+    ) {
+      errors.push("Volume size must be between 1 and 1000 GB");
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * API Route to deploy a custom image
+ * POST /api/deploy/custom
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body: DeployRequest = await request.json();
+
+    // Validate request
+    const validationErrors = validateDeployRequest(body);
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid deployment request", details: validationErrors },
+        { status: 400 },
+      );
+    }
+
+    // Resolve CPU/memory and check them against the user's quota
+    const resolved = resolveResources(body.resources);
+    if (resolved.errors) {
+      return NextResponse.json(
+        { error: "Invalid resources", details: resolved.errors },
+        { status: 400 },
+      );
+    }
+
+    const quotaErrors = await checkResourceQuota(
+      session.user.id,
+      resolved.resources,
+    );
+    if (quotaErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Resource quota exceeded", details: quotaErrors },
+        { status: 403 },
+      );
+    }
+
+    // Generate deployment configuration
+    const containerName = getContainerName(body);
+
+    // Allocate NodePort
+    const nodePort = await getNextAvailableNodePort();
+
+    // Generate external URL
+    const externalHost = getExternalHost();
+    const externalUrl = generateExternalUrl(externalHost, nodePort);
+
+    // Prepare environment variables
+    const envVarsConfig: ManifestEnvVar[] = (body.envVars || []).map((env) => ({
+      key: env.key,
+      value: env.value,
+      isSecret: env.isSecret === true,
+    }));
+
+    // Rendering inputs that have no dedicated column, kept to regenerate manifests
+    const config: CustomAppConfig = {
+      ports: body.ports,
+      command: body.command,
+      args: body.args,
+      volume: body.volume,
+    };
+
+    // Create deployment record and its env vars in database
+    const deployment = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(deployments)
+        .values({
+          userId: session.user.id,
+          name: containerName,
+          type: "custom",
+          image: body.image,
+          tag: body.tag,
+          containerName,
+          // namespace will be auto-generated UUID
+          port: body.ports[0].containerPort, // Primary container port
+          nodePort,
+          pvcSize: body.volume?.size ?? null,
+          resourcePreset: resolved.preset,
+          ...resolved.resources,
+          externalUrl,
+          externalHost,
+          argocdAppName: containerName,
+          argocdUrl: `${process.env.ARGOCD_URL || "https://argocd.dockify.app"}/applications/${containerName}`,
+          status: "pending",
+          metadata: {
+            requestedAt: new Date().toISOString(),
+            // Never keep secret values in metadata, they live in deploymentEnvVars
+            requestBody: { ...body, envVars: undefined },
+            config,
+          },
+        })
+        .returning();
+
+      if (envVarsConfig.length > 0) {
+        await tx.insert(deploymentEnvVars).values(
+          envVarsConfig.map((env) => ({
+            deploymentId: created.id,
+            key: env.key,
+            value: env.value,
+            isSecret: env.isSecret,
+          })),
+        );
+      }
+
+      return created;
+    });
+
+    // Kubernetes calls run in the background, the deploy page polls the job
+    let job: Job;
+    try {
+      job = await enqueueJob({
+        type: "deploy",
+        deploymentId: deployment.id,
+        userId: session.user.id,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await failDeploy(deployment.id, {
+        step: "queue deploy",
+        error: message,
+        transient: true,
+        rolledBack: [],
+      });
+      return NextResponse.json(
+        { error: "Failed to queue deployment", details: message },
+        { status: 503 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Custom deployment queued",
+        job: { id: job.id, status: job.status },
+        deployment: {
+          id: deployment.id,
+          name: deployment.name,
+          image: `${deployment.image}:${deployment.tag}`,
+          namespace: deployment.namespace,
+          nodePort: deployment.nodePort,
+          externalUrl: deployment.externalUrl,
+          argocdUrl: deployment.argocdUrl,
+          status: deployment.status,
+          ports: body.ports,
+        },
+      },
+      { status: 202 },
+    );
+  } catch (error) {
+    console.error("Error deploying custom image:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to deploy custom image",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import {
+  deploymentBackupSchedules,
+  deploymentBackups,
+  deployments,
+} from "@/db/schema";
+import { auth } from "@/lib/auth";
+import {
+  DEFAULT_BACKUP_SCHEDULE,
+  getS3BackupConfig,
+  startBackup,
+} from "@/lib/backups";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Get the backup schedule and the recorded backup runs of a Postgres
+ * deployment, newest first
+ * GET /api/deployments/[id]/backups
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "postgres") {
+      return NextResponse.json(
+        { error: "Backups are only available for Postgres" },
+        { status: 400 },
+      );
+    }
+
+    const [schedule] = await db
+      .select()
+      .from(deploymentBackupSchedules)
+      .where(eq(deploymentBackupSchedules.deploymentId, deployment.id))
+      .limit(1);
+
+    const backups = await db
+      .select()
+      .from(deploymentBackups)
+      .where(eq(deploymentBackups.deploymentId, deployment.id))
+      .orderBy(desc(deploymentBackups.startedAt))
+      .limit(100);
+
+    return NextResponse.json({
+      schedule: schedule || null,
+      defaults: DEFAULT_BACKUP_SCHEDULE,
+      targets: { pvc: true, s3: getS3BackupConfig() !== null },
+      backups,
+    });
+  } catch (error) {
+    console.error("Error fetching backups:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch backups",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Start a backup now, using the deployment's backup schedule settings
+ * POST /api/deployments/[id]/backups
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "postgres") {
+      return NextResponse.json(
+        { error: "Backups are only available for Postgres" },
+        { status: 400 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    const [schedule] = await db
+      .select()
+      .from(deploymentBackupSchedules)
+      .where(eq(deploymentBackupSchedules.deploymentId, deployment.id))
+      .limit(1);
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Configure backups before starting one" },
+        { status: 400 },
+      );
+    }
+
+    const result = await startBackup(deployment, schedule, session.user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to start backup", details: result.error },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ backupId: result.backupId }, { status: 202 });
+  } catch (error) {
+    console.error("Error starting backup:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to start backup",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
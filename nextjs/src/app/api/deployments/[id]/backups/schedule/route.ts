@@ -0,0 +1,236 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import {
+  type BackupScheduleInput,
+  getS3BackupConfig,
+  isValidCronSchedule,
+  MAX_BACKUP_RETENTION_COUNT,
+  MAX_BACKUP_STORAGE_SIZE,
+  removeBackupSchedule,
+  saveBackupSchedule,
+} from "@/lib/backups";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Create or change the backup schedule of a Postgres deployment
+ * Applies the backup CronJob; a disabled schedule only allows manual backups
+ * PUT /api/deployments/[id]/backups/schedule
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "postgres") {
+      return NextResponse.json(
+        { error: "Backups are only available for Postgres" },
+        { status: 400 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    const body: Partial<BackupScheduleInput> = await request.json();
+
+    if (
+      typeof body.schedule !== "string" ||
+      !isValidCronSchedule(body.schedule.trim())
+    ) {
+      return NextResponse.json(
+        { error: "schedule must be a cron expression, e.g. 0 3 * * *" },
+        { status: 400 },
+      );
+    }
+
+    if (body.target !== "pvc" && body.target !== "s3") {
+      return NextResponse.json(
+        { error: "target must be pvc or s3" },
+        { status: 400 },
+      );
+    }
+
+    if (body.target === "s3" && !getS3BackupConfig()) {
+      return NextResponse.json(
+        { error: "S3 backups are not configured on this platform" },
+        { status: 400 },
+      );
+    }
+
+    const storageSize = body.target === "pvc" ? body.storageSize : null;
+    if (
+      body.target === "pvc" &&
+      (!Number.isInteger(storageSize) ||
+        (storageSize as number) < 1 ||
+        (storageSize as number) > MAX_BACKUP_STORAGE_SIZE)
+    ) {
+      return NextResponse.json(
+        {
+          error: `storageSize must be between 1 and ${MAX_BACKUP_STORAGE_SIZE} GB`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const retentionCount = body.retentionCount;
+    if (
+      !Number.isInteger(retentionCount) ||
+      (retentionCount as number) < 1 ||
+      (retentionCount as number) > MAX_BACKUP_RETENTION_COUNT
+    ) {
+      return NextResponse.json(
+        {
+          error: `retentionCount must be between 1 and ${MAX_BACKUP_RETENTION_COUNT}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const retentionDays = body.retentionDays ?? null;
+    if (
+      retentionDays !== null &&
+      (!Number.isInteger(retentionDays) || retentionDays < 1)
+    ) {
+      return NextResponse.json(
+        { error: "retentionDays must be a positive number of days or null" },
+        { status: 400 },
+      );
+    }
+
+    const result = await saveBackupSchedule(
+      deployment,
+      {
+        enabled: body.enabled !== false,
+        schedule: body.schedule.trim(),
+        target: body.target,
+        storageSize: storageSize ?? null,
+        retentionCount: retentionCount as number,
+        retentionDays,
+      },
+      session.user.id,
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to save backup schedule", details: result.error },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ schedule: result.schedule });
+  } catch (error) {
+    console.error("Error saving backup schedule:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save backup schedule",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Stop backing up a Postgres deployment
+ * Existing backups are kept
+ * DELETE /api/deployments/[id]/backups/schedule
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "postgres") {
+      return NextResponse.json(
+        { error: "Backups are only available for Postgres" },
+        { status: 400 },
+      );
+    }
+
+    const result = await removeBackupSchedule(deployment);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to remove backup schedule", details: result.error },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing backup schedule:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to remove backup schedule",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
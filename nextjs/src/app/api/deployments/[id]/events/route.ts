@@ -0,0 +1,95 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { listNamespaceEvents, summarizeEvent } from "@/lib/kubectl";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * List the Kubernetes events in a deployment's namespace
+ * Warnings come first, then everything else; newest first within each group
+ * GET /api/deployments/[id]/events?limit=50
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const limitParam = request.nextUrl.searchParams.get("limit");
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+    if (Number.isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_LIMIT}` },
+        { status: 400 },
+      );
+    }
+
+    const result = await listNamespaceEvents(deployment.namespace);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: "Failed to list events from Kubernetes",
+          details: result.error,
+        },
+        { status: 500 },
+      );
+    }
+
+    // Already sorted newest first, a stable sort keeps that order per group
+    const events = (result.events || [])
+      .map(summarizeEvent)
+      .sort(
+        (a, b) => Number(b.type === "Warning") - Number(a.type === "Warning"),
+      );
+
+    return NextResponse.json({
+      events: events.slice(0, limit),
+      warnings: events.filter((event) => event.type === "Warning").length,
+      total: events.length,
+    });
+  } catch (error) {
+    console.error("Error listing deployment events:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to list deployment events",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
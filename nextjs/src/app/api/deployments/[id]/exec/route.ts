@@ -0,0 +1,145 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { userHasPermission } from "@/db/queries";
+import { deployments } from "@/db/schema";
+import { getAppTemplateForType } from "@/lib/app-templates";
+import { auth } from "@/lib/auth";
+import {
+  createExecTicket,
+  EXEC_PERMISSION,
+  getExecUrl,
+} from "@/lib/exec-server";
+import { listDeploymentPods } from "@/lib/kubectl";
+
+export const dynamic = "force-dynamic";
+
+interface ExecRequest {
+  target?: "client" | "shell"; // Database client (psql, redis-cli...) or /bin/sh
+  pod?: string; // Default: the newest running pod
+}
+
+/**
+ * Issue a ticket to open a terminal into a deployment's pod
+ * The terminal itself is served by the exec server (see lib/exec-server.ts)
+ * POST /api/deployments/[id]/exec
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (!(await userHasPermission(session.user.id, EXEC_PERMISSION))) {
+      return NextResponse.json(
+        { error: `Missing permission ${EXEC_PERMISSION}` },
+        { status: 403 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        {
+          error: `Terminal is not available while ${deployment.status}`,
+        },
+        { status: 409 },
+      );
+    }
+
+    const body: ExecRequest = await request.json().catch(() => ({}));
+
+    const template = getAppTemplateForType(deployment.type);
+    const command =
+      body.target === "shell" || !template ? ["/bin/sh"] : template.cli.exec;
+
+    // Pick the pod to open
+    const podList = await listDeploymentPods(
+      deployment.containerName,
+      deployment.namespace,
+    );
+    if (!podList.success) {
+      return NextResponse.json(
+        { error: "Failed to list pods", details: podList.error },
+        { status: 500 },
+      );
+    }
+
+    const pods = (podList.pods || [])
+      .filter((p) => p.status?.phase === "Running")
+      .sort(
+        (a, b) =>
+          new Date(b.metadata?.creationTimestamp || 0).getTime() -
+          new Date(a.metadata?.creationTimestamp || 0).getTime(),
+      );
+    const pod = body.pod
+      ? pods.find((p) => p.metadata?.name === body.pod)
+      : pods[0];
+    const podName = pod?.metadata?.name;
+    const containerName = pod?.spec?.containers[0]?.name;
+
+    if (!podName || !containerName) {
+      return NextResponse.json(
+        {
+          error: body.pod
+            ? `Pod ${body.pod} is not running`
+            : "Deployment has no running pods",
+        },
+        { status: 404 },
+      );
+    }
+
+    const ticket = await createExecTicket({
+      userId: session.user.id,
+      deploymentId: deployment.id,
+      namespace: deployment.namespace,
+      podName,
+      containerName,
+      command,
+    });
+
+    return NextResponse.json({
+      url: getExecUrl(request.url),
+      ticket,
+      pod: podName,
+      pods: pods.map((p) => p.metadata?.name),
+      command: command.join(" "),
+    });
+  } catch (error) {
+    console.error("Error opening deployment terminal:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to open deployment terminal",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,201 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { listDeploymentPods, streamPodLogs } from "@/lib/kubectl";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_TAIL_LINES = 500;
+const MAX_TAIL_LINES = 10_000;
+
+/**
+ * Read or follow the logs of a deployment's pod as plain text
+ * GET /api/deployments/[id]/logs
+ *
+ * Query parameters:
+ * - pod        pod to read (default: the newest pod)
+ * - tail       number of lines from the end (default 500, max 10000)
+ * - sinceTime  only lines after this time (ISO 8601)
+ * - previous   read the previous, terminated container (e.g. after a crash)
+ * - follow     keep the response open and stream new lines
+ * - timestamps prefix every line with its timestamp
+ *
+ * The pod that was read and all pods of the deployment are returned in the
+ * X-Pod-Name and X-Pods headers.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const query = request.nextUrl.searchParams;
+
+    const tailLines = query.has("tail")
+      ? parseInt(query.get("tail") || "", 10)
+      : DEFAULT_TAIL_LINES;
+    if (
+      Number.isNaN(tailLines) ||
+      tailLines < 1 ||
+      tailLines > MAX_TAIL_LINES
+    ) {
+      return NextResponse.json(
+        { error: `tail must be between 1 and ${MAX_TAIL_LINES}` },
+        { status: 400 },
+      );
+    }
+
+    const since = query.get("sinceTime");
+    const sinceTime = since ? new Date(since) : null;
+    if (sinceTime && Number.isNaN(sinceTime.getTime())) {
+      return NextResponse.json(
+        { error: "sinceTime must be an ISO 8601 date" },
+        { status: 400 },
+      );
+    }
+
+    // Pick the pod to read
+    const podList = await listDeploymentPods(
+      deployment.containerName,
+      deployment.namespace,
+    );
+    if (!podList.success) {
+      return NextResponse.json(
+        { error: "Failed to list pods", details: podList.error },
+        { status: 500 },
+      );
+    }
+
+    const pods = (podList.pods || []).sort(
+      (a, b) =>
+        new Date(b.metadata?.creationTimestamp || 0).getTime() -
+        new Date(a.metadata?.creationTimestamp || 0).getTime(),
+    );
+    const requestedPod = query.get("pod");
+    const pod = requestedPod
+      ? pods.find((p) => p.metadata?.name === requestedPod)
+      : pods[0];
+    const podName = pod?.metadata?.name;
+    const containerName = pod?.spec?.containers[0]?.name;
+
+    if (!podName || !containerName) {
+      return NextResponse.json(
+        {
+          error: requestedPod
+            ? `Pod ${requestedPod} not found`
+            : "Deployment has no running pods",
+        },
+        { status: 404 },
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let output!: ReadableStreamDefaultController<Uint8Array>;
+    let closed = false;
+    let stop = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        output = controller;
+      },
+      cancel() {
+        closed = true;
+        stop();
+      },
+    });
+
+    const close = (error?: Error) => {
+      if (closed) {
+        return;
+      }
+      if (error) {
+        output.enqueue(
+          encoder.encode(`\n[Log stream ended: ${error.message}]\n`),
+        );
+      }
+      closed = true;
+      output.close();
+    };
+
+    try {
+      stop = await streamPodLogs(
+        deployment.namespace,
+        podName,
+        containerName,
+        {
+          tailLines,
+          sinceTime: sinceTime?.toISOString(),
+          previous: query.get("previous") === "true",
+          follow: query.get("follow") === "true",
+          timestamps: query.get("timestamps") === "true",
+        },
+        (chunk) => {
+          if (!closed) {
+            output.enqueue(encoder.encode(chunk));
+          }
+        },
+        close,
+      );
+    } catch (error) {
+      // Rejected by Kubernetes, e.g. no previous container to read
+      return NextResponse.json(
+        {
+          error: "Failed to read logs",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 },
+      );
+    }
+
+    request.signal.addEventListener("abort", () => stop());
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        "X-Accel-Buffering": "no", // Disable proxy buffering
+        "X-Pod-Name": podName,
+        "X-Pods": pods.map((p) => p.metadata?.name).join(","),
+      },
+    });
+  } catch (error) {
+    console.error("Error reading deployment logs:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to read deployment logs",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { type Deployment, deploymentEnvVars, deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import {
+  getProgressSteps,
+  watchDeploymentProgress,
+} from "@/lib/deployment-progress";
+import { generateDeploymentManifests } from "@/lib/k8s-manifests";
+
+export const dynamic = "force-dynamic";
+
+const STREAM_TIMEOUT_MS = 10 * 60_000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const STATUS_POLL_INTERVAL_MS = 2_000;
+
+// Nothing left to follow once a deployment reached one of these
+const FINAL_STATUSES = ["failed", "deleting", "deleted"];
+
+/**
+ * Stream the rollout progress of a deployment as Server-Sent Events
+ * GET /api/deployments/[id]/progress
+ *
+ * Events:
+ * - steps     all steps with their current state (sent first)
+ * - step      a step was reached
+ * - event     a Kubernetes event in the deployment's namespace
+ * - status    the deployment's status or error message changed
+ * - complete  the pod passed its readiness check; the stream ends
+ * - failed    the deployment failed; the stream ends
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const envVars = await db
+      .select()
+      .from(deploymentEnvVars)
+      .where(eq(deploymentEnvVars.deploymentId, deployment.id));
+
+    // Failed deployments released their NodePort and have no manifests
+    const steps = getProgressSteps(
+      deployment.nodePort
+        ? generateDeploymentManifests(deployment, envVars)
+        : [],
+    );
+
+    const encoder = new TextEncoder();
+    let close = () => {};
+    let stop: () => boolean = () => false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let closed = false;
+        let stopWatches = () => {};
+        let lastStatus: Pick<Deployment, "status" | "errorMessage"> | null =
+          null;
+
+        const send = (event: string, data: unknown) => {
+          if (!closed) {
+            controller.enqueue(
+              encoder.encode(
+                `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+              ),
+            );
+          }
+        };
+
+        const sendStatus = (
+          row: Pick<Deployment, "status" | "errorMessage">,
+        ) => {
+          if (
+            row.status !== lastStatus?.status ||
+            row.errorMessage !== lastStatus?.errorMessage
+          ) {
+            lastStatus = row;
+            send("status", row);
+          }
+        };
+
+        const heartbeat = setInterval(() => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(": heartbeat\n\n"));
+          }
+        }, HEARTBEAT_INTERVAL_MS);
+
+        // The deploy job reports retries and failures through the row
+        const statusPoll = setInterval(async () => {
+          try {
+            const [row] = await db
+              .select({
+                status: deployments.status,
+                errorMessage: deployments.errorMessage,
+              })
+              .from(deployments)
+              .where(eq(deployments.id, deployment.id))
+              .limit(1);
+
+            if (!row) {
+              close();
+              return;
+            }
+
+            sendStatus(row);
+            if (FINAL_STATUSES.includes(row.status)) {
+              send("failed", row);
+              close();
+            }
+          } catch (error) {
+            console.error("Error polling deployment status:", error);
+          }
+        }, STATUS_POLL_INTERVAL_MS);
+
+        const timeout = setTimeout(() => close(), STREAM_TIMEOUT_MS);
+
+        // Stops the timers and watches, once
+        stop = () => {
+          if (closed) {
+            return false;
+          }
+          closed = true;
+          clearInterval(heartbeat);
+          clearInterval(statusPoll);
+          clearTimeout(timeout);
+          stopWatches();
+          return true;
+        };
+
+        close = () => {
+          if (stop()) {
+            controller.close();
+          }
+        };
+
+        request.signal.addEventListener("abort", () => close());
+
+        send("steps", steps);
+        sendStatus(deployment);
+
+        if (FINAL_STATUSES.includes(deployment.status)) {
+          send("failed", lastStatus);
+          close();
+          return;
+        }
+
+        try {
+          stopWatches = await watchDeploymentProgress(
+            deployment,
+            steps,
+            (update) => {
+              if (update.type === "event") {
+                send("event", update.event);
+                return;
+              }
+
+              send("step", update.step);
+              if (update.step.id === "ready") {
+                send("complete", { steps });
+                close();
+              }
+            },
+          );
+        } catch (error) {
+          console.error("Error watching deployment progress:", error);
+          send("failed", {
+            status: deployment.status,
+            errorMessage: "Failed to watch deployment progress",
+          });
+          close();
+        }
+
+        // Closed while the watches were starting
+        if (closed) {
+          stopWatches();
+        }
+      },
+      // The client went away, the stream is already closed
+      cancel() {
+        stop();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no", // Disable proxy buffering
+      },
+    });
+  } catch (error) {
+    console.error("Error streaming deployment progress:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to stream deployment progress",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,170 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { enqueueJob } from "@/lib/job-queue";
+import { getReplicationStatus, queryInstance } from "@/lib/replication";
+import {
+  getInstanceCount,
+  getInstanceName,
+  type ReplicationSettings,
+} from "@/lib/replication-config";
+
+export const dynamic = "force-dynamic";
+
+interface PromoteRequest {
+  instance: number; // Ordinal of the replica, e.g. 1 for <name>-1
+  confirm?: boolean;
+}
+
+/**
+ * Promote a read replica of a replicated Postgres deployment to primary
+ * Only a streaming replica can be promoted, or one whose promotion stopped
+ * halfway. Answers requiresConfirmation until sent again with confirm: true,
+ * then runs as a background job
+ * POST /api/deployments/[id]/promote
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const replication = deployment.replication as ReplicationSettings | null;
+    if (!replication) {
+      return NextResponse.json(
+        { error: "Only replicated Postgres deployments have read replicas" },
+        { status: 400 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    const body: PromoteRequest = await request.json();
+
+    if (
+      !Number.isInteger(body.instance) ||
+      body.instance < 0 ||
+      body.instance >= getInstanceCount(replication)
+    ) {
+      return NextResponse.json(
+        {
+          error: `Instance must be from 0 to ${getInstanceCount(replication) - 1}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const primary = getInstanceName(
+      deployment.containerName,
+      replication.primary,
+    );
+    if (body.instance === replication.primary) {
+      return NextResponse.json(
+        { error: `${primary} is already the primary` },
+        { status: 400 },
+      );
+    }
+
+    // A replica that doesn't stream may be far behind or diverged
+    const status = await getReplicationStatus(deployment);
+    if (!status.success) {
+      return NextResponse.json(
+        { error: "Failed to get the replication state", details: status.error },
+        { status: 500 },
+      );
+    }
+
+    const replica = status.replication.instances[body.instance];
+    // Out of recovery, the replica was promoted by a job that stopped before
+    // the deployment followed it, and promoting it again finishes that
+    const recovery =
+      replica.state === "streaming"
+        ? null
+        : await queryInstance(
+            deployment,
+            replica.name,
+            "SELECT pg_is_in_recovery()",
+          );
+    const resumed = recovery?.success === true && recovery.output === "f";
+    if (replica.state !== "streaming" && !resumed) {
+      return NextResponse.json(
+        {
+          error: `${replica.name} is ${replica.state}, only a streaming replica can be promoted`,
+        },
+        { status: 409 },
+      );
+    }
+
+    if (body.confirm !== true) {
+      return NextResponse.json(
+        {
+          error: resumed
+            ? `${replica.name} was already promoted. Finishing its promotion restarts every instance and ${primary} becomes a replica of it, losing writes it took after the promotion`
+            : `Promoting ${replica.name} restarts every instance. ${primary} turns read-only until ${replica.name} has caught up (${replica.lagBytes ?? 0} bytes behind), then becomes a replica of it`,
+          requiresConfirmation: true,
+        },
+        { status: 409 },
+      );
+    }
+
+    const job = await enqueueJob({
+      type: "promote",
+      deploymentId: deployment.id,
+      userId: session.user.id,
+      payload: { instance: body.instance },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Promotion of ${replica.name} queued`,
+        job: { id: job.id, status: job.status },
+      },
+      { status: 202 },
+    );
+  } catch (error) {
+    console.error("Error promoting replica:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to promote replica",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import {
+  DEFAULT_QUERY_OPTIONS,
+  MAX_QUERY_ROWS,
+  MAX_QUERY_TIMEOUT_MS,
+  runQuery,
+} from "@/lib/sql-console";
+
+export const dynamic = "force-dynamic";
+
+interface QueryRequest {
+  query: string;
+  readOnly?: boolean; // Default true
+  timeoutMs?: number; // Default 10000, max 60000
+  maxRows?: number; // Default 1000, max 10000
+}
+
+/**
+ * Run one SQL statement against a Postgres deployment
+ * Read-only unless readOnly is false; SQL errors are returned with status 400
+ * POST /api/deployments/[id]/query
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "postgres") {
+      return NextResponse.json(
+        { error: "The SQL console is only available for Postgres" },
+        { status: 400 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    const body: QueryRequest = await request.json();
+
+    if (typeof body.query !== "string" || !body.query.trim()) {
+      return NextResponse.json(
+        { error: "A query is required" },
+        { status: 400 },
+      );
+    }
+
+    const timeoutMs = body.timeoutMs ?? DEFAULT_QUERY_OPTIONS.timeoutMs;
+    if (
+      !Number.isInteger(timeoutMs) ||
+      timeoutMs < 1 ||
+      timeoutMs > MAX_QUERY_TIMEOUT_MS
+    ) {
+      return NextResponse.json(
+        { error: `timeoutMs must be between 1 and ${MAX_QUERY_TIMEOUT_MS}` },
+        { status: 400 },
+      );
+    }
+
+    const maxRows = body.maxRows ?? DEFAULT_QUERY_OPTIONS.maxRows;
+    if (!Number.isInteger(maxRows) || maxRows < 1 || maxRows > MAX_QUERY_ROWS) {
+      return NextResponse.json(
+        { error: `maxRows must be between 1 and ${MAX_QUERY_ROWS}` },
+        { status: 400 },
+      );
+    }
+
+    const result = await runQuery(deployment, body.query, {
+      readOnly: body.readOnly !== false,
+      timeoutMs,
+      maxRows,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: result.error,
+          code: result.code,
+          position: result.position,
+        },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    console.error("Error running query:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to run query",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import {
+  checkCommand,
+  parseCommandLine,
+  runCommand,
+} from "@/lib/redis-browser";
+
+export const dynamic = "force-dynamic";
+
+interface CommandRequest {
+  command: string; // One command line, e.g. HGETALL "user:1"
+  confirm?: boolean; // Required for FLUSHALL, CONFIG, KEYS...
+}
+
+/**
+ * Run one command against a Redis deployment
+ * Commands that wipe or reconfigure the server return 409 with
+ * requiresConfirmation until sent again with confirm: true; Redis errors are
+ * returned with status 400
+ * POST /api/deployments/[id]/redis/command
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "redis") {
+      return NextResponse.json(
+        { error: "The key browser is only available for Redis" },
+        { status: 400 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    const body: CommandRequest = await request.json();
+
+    if (typeof body.command !== "string" || !body.command.trim()) {
+      return NextResponse.json(
+        { error: "A command is required" },
+        { status: 400 },
+      );
+    }
+
+    let args: string[];
+    try {
+      args = parseCommandLine(body.command);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 400 },
+      );
+    }
+
+    const check = checkCommand(args);
+
+    if (check === "refused") {
+      return NextResponse.json(
+        { error: `${args[0].toUpperCase()} can't be run from the browser` },
+        { status: 400 },
+      );
+    }
+
+    if (check === "dangerous" && body.confirm !== true) {
+      return NextResponse.json(
+        {
+          error: `${args[0].toUpperCase()} can wipe data or reconfigure the server`,
+          requiresConfirmation: true,
+        },
+        { status: 409 },
+      );
+    }
+
+    const result = await runCommand(deployment, args);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    console.error("Error running command:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to run command",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { getServerInfo } from "@/lib/redis-browser";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Get INFO of a Redis deployment (server, memory, clients, keyspace...),
+ * parsed into sections
+ * GET /api/deployments/[id]/redis/info
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "redis") {
+      return NextResponse.json(
+        { error: "The key browser is only available for Redis" },
+        { status: 400 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    const result = await getServerInfo(deployment);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to read server info", details: result.error },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ sections: result.data });
+  } catch (error) {
+    console.error("Error reading server info:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to read server info",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
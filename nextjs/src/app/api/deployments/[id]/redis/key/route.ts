@@ -0,0 +1,277 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { deleteKey, readKey, setKeyTtl } from "@/lib/redis-browser";
+
+export const dynamic = "force-dynamic";
+
+interface UpdateKeyRequest {
+  key: string;
+  ttl: number | null; // Seconds, null removes the expiry
+}
+
+/**
+ * Read a key of a Redis deployment with its type, TTL and memory usage
+ * Query: key, cursor (next page of a hash, list, set, sorted set or stream)
+ * GET /api/deployments/[id]/redis/key
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "redis") {
+      return NextResponse.json(
+        { error: "The key browser is only available for Redis" },
+        { status: 400 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const key = searchParams.get("key");
+    if (!key) {
+      return NextResponse.json({ error: "A key is required" }, { status: 400 });
+    }
+
+    const result = await readKey(
+      deployment,
+      key,
+      searchParams.get("cursor") || undefined,
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to read key", details: result.error },
+        { status: 500 },
+      );
+    }
+
+    if (result.data.type === "none") {
+      return NextResponse.json({ error: "Key not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    console.error("Error reading key:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to read key",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Change the TTL of a key
+ * PATCH /api/deployments/[id]/redis/key
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "redis") {
+      return NextResponse.json(
+        { error: "The key browser is only available for Redis" },
+        { status: 400 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    const body: UpdateKeyRequest = await request.json();
+
+    if (typeof body.key !== "string" || !body.key) {
+      return NextResponse.json({ error: "A key is required" }, { status: 400 });
+    }
+
+    if (body.ttl !== null && (!Number.isInteger(body.ttl) || body.ttl < 1)) {
+      return NextResponse.json(
+        { error: "ttl must be a positive number of seconds or null" },
+        { status: 400 },
+      );
+    }
+
+    const result = await setKeyTtl(deployment, body.key, body.ttl);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to update TTL", details: result.error },
+        { status: 500 },
+      );
+    }
+
+    if (!result.data) {
+      return NextResponse.json({ error: "Key not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating TTL:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update TTL",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Delete a key
+ * Query: key
+ * DELETE /api/deployments/[id]/redis/key
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "redis") {
+      return NextResponse.json(
+        { error: "The key browser is only available for Redis" },
+        { status: 400 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    const key = request.nextUrl.searchParams.get("key");
+    if (!key) {
+      return NextResponse.json({ error: "A key is required" }, { status: 400 });
+    }
+
+    const result = await deleteKey(deployment, key);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to delete key", details: result.error },
+        { status: 500 },
+      );
+    }
+
+    if (!result.data) {
+      return NextResponse.json({ error: "Key not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting key:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to delete key",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { type RedisKeyType, scanKeys } from "@/lib/redis-browser";
+
+export const dynamic = "force-dynamic";
+
+const KEY_TYPES: RedisKeyType[] = [
+  "string",
+  "hash",
+  "list",
+  "set",
+  "zset",
+  "stream",
+];
+
+/**
+ * List the keys of a Redis deployment, one SCAN page per request
+ * Query: cursor (default 0), pattern (default *), type
+ * A returned cursor of "0" means the scan is complete
+ * GET /api/deployments/[id]/redis/keys
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "redis") {
+      return NextResponse.json(
+        { error: "The key browser is only available for Redis" },
+        { status: 400 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const cursor = searchParams.get("cursor") || "0";
+    const pattern = searchParams.get("pattern") || "*";
+    const type = searchParams.get("type") as RedisKeyType | null;
+
+    if (!/^\d+$/.test(cursor)) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    if (type && !KEY_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `type must be one of ${KEY_TYPES.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    const result = await scanKeys(deployment, {
+      cursor,
+      pattern,
+      type: type || undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to list keys", details: result.error },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    console.error("Error listing keys:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to list keys",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,406 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import {
+  deploymentBackups,
+  deploymentEnvVars,
+  deploymentRestores,
+  deployments,
+} from "@/db/schema";
+import { getAppTemplateForType } from "@/lib/app-templates";
+import { auth } from "@/lib/auth";
+import { failDeploy } from "@/lib/deploy";
+import {
+  generateExternalUrl,
+  generateStrongPassword,
+  getExternalHost,
+  getNextAvailableNodePort,
+} from "@/lib/deployment-utils";
+import { enqueueJob, type Job } from "@/lib/job-queue";
+import { checkResourceQuota } from "@/lib/quotas";
+import {
+  getInstanceCount,
+  type ReplicationSettings,
+} from "@/lib/replication-config";
+import { getDeploymentResources } from "@/lib/resources";
+import {
+  hasActiveRestore,
+  listRestores,
+  type RestoreMode,
+  startRestore,
+} from "@/lib/restores";
+
+export const dynamic = "force-dynamic";
+
+interface RestoreRequest {
+  backupId: string;
+  mode: RestoreMode;
+  confirm?: boolean; // Required to restore in place
+  name?: string; // Name of the cloned deployment
+}
+
+/**
+ * List the restores into or from a Postgres deployment, newest first
+ * GET /api/deployments/[id]/restore
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const restores = await listRestores(deployment.id);
+
+    return NextResponse.json({ restores });
+  } catch (error) {
+    console.error("Error fetching restores:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch restores",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Restore a backup of a Postgres deployment, either in place (replacing its
+ * current data, requires confirm: true) or into a new deployment cloned from it
+ * POST /api/deployments/[id]/restore
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "postgres") {
+      return NextResponse.json(
+        { error: "Restores are only available for Postgres" },
+        { status: 400 },
+      );
+    }
+
+    const body: RestoreRequest = await request.json();
+
+    if (!body.backupId || typeof body.backupId !== "string") {
+      return NextResponse.json(
+        { error: "backupId is required" },
+        { status: 400 },
+      );
+    }
+
+    if (body.mode !== "in_place" && body.mode !== "clone") {
+      return NextResponse.json(
+        { error: "mode must be in_place or clone" },
+        { status: 400 },
+      );
+    }
+
+    // Used for Service names, which must be DNS-1035 labels
+    if (
+      body.mode === "clone" &&
+      body.name &&
+      !/^[a-z]([a-z0-9-]{0,50}[a-z0-9])?$/.test(body.name)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Name must start with a letter and contain only lowercase letters, digits and dashes (max 52)",
+        },
+        { status: 400 },
+      );
+    }
+
+    const [backup] = await db
+      .select()
+      .from(deploymentBackups)
+      .where(
+        and(
+          eq(deploymentBackups.id, body.backupId),
+          eq(deploymentBackups.deploymentId, deployment.id),
+        ),
+      )
+      .limit(1);
+
+    if (!backup) {
+      return NextResponse.json({ error: "Backup not found" }, { status: 404 });
+    }
+
+    if (backup.status !== "succeeded") {
+      return NextResponse.json(
+        { error: `Backup is ${backup.status}` },
+        { status: 409 },
+      );
+    }
+
+    if (await hasActiveRestore(deployment.id)) {
+      return NextResponse.json(
+        { error: "A restore of this deployment is already in progress" },
+        { status: 409 },
+      );
+    }
+
+    if (body.mode === "in_place") {
+      if (deployment.status !== "deployed") {
+        return NextResponse.json(
+          { error: `Deployment is ${deployment.status}` },
+          { status: 409 },
+        );
+      }
+
+      if (body.confirm !== true) {
+        return NextResponse.json(
+          {
+            error:
+              "Restoring replaces all current data of this deployment with the backup",
+            requiresConfirmation: true,
+          },
+          { status: 409 },
+        );
+      }
+
+      const [restore] = await db
+        .insert(deploymentRestores)
+        .values({
+          deploymentId: deployment.id,
+          sourceDeploymentId: deployment.id,
+          backupId: backup.id,
+          createdBy: session.user.id,
+          mode: "in_place",
+          status: "pending",
+          step: "Starting the restore Job",
+        })
+        .returning();
+
+      const result = await startRestore(restore);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: "Failed to start restore", details: result.error },
+          { status: 500 },
+        );
+      }
+
+      return NextResponse.json(
+        { restore: { id: restore.id, mode: restore.mode } },
+        { status: 202 },
+      );
+    }
+
+    // Clone: a new deployment with the same configuration and new secrets;
+    // a replicated one starts over with instance 0 as its primary
+    const resources = getDeploymentResources(deployment);
+    const replication = deployment.replication
+      ? {
+          ...(deployment.replication as ReplicationSettings),
+          primary: 0,
+        }
+      : null;
+    const quotaErrors = await checkResourceQuota(session.user.id, resources, {
+      instances: replication ? getInstanceCount(replication) : 1,
+    });
+    if (quotaErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Resource quota exceeded", details: quotaErrors },
+        { status: 403 },
+      );
+    }
+
+    const sourceEnvVars = await db
+      .select()
+      .from(deploymentEnvVars)
+      .where(eq(deploymentEnvVars.deploymentId, deployment.id));
+    const envVars = sourceEnvVars.map((env) => ({
+      key: env.key,
+      value: env.isSecret ? generateStrongPassword(32) : env.value,
+      isSecret: env.isSecret,
+    }));
+
+    const containerName =
+      body.name ||
+      `${deployment.containerName.slice(0, 38)}-clone-${Math.floor(Date.now() / 1000).toString(36)}`;
+
+    // Allocate NodePort
+    const nodePort = await getNextAvailableNodePort();
+    const poolerNodePort = deployment.pooler
+      ? await getNextAvailableNodePort([nodePort])
+      : null;
+    const readOnlyNodePort = replication
+      ? await getNextAvailableNodePort([nodePort, poolerNodePort])
+      : null;
+
+    // Generate external URL
+    const externalHost = getExternalHost();
+    const externalUrl = generateExternalUrl(externalHost, nodePort);
+
+    // Create the cloned deployment, its env vars and the pending restore
+    const { clone, restore } = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(deployments)
+        .values({
+          userId: session.user.id,
+          name: containerName,
+          type: deployment.type,
+          image: deployment.image,
+          tag: deployment.tag,
+          containerName,
+          // namespace will be auto-generated UUID
+          port: deployment.port,
+          nodePort,
+          pvcSize: deployment.pvcSize,
+          resourcePreset: deployment.resourcePreset,
+          ...resources,
+          settings: deployment.settings,
+          pooler: deployment.pooler,
+          poolerNodePort,
+          replication,
+          readOnlyNodePort,
+          externalUrl,
+          externalHost,
+          argocdAppName: containerName,
+          argocdUrl: `${process.env.ARGOCD_URL || "https://argocd.dockify.app"}/applications/${containerName}`,
+          status: "pending",
+          metadata: {
+            requestedAt: new Date().toISOString(),
+            template: "postgres",
+            clonedFrom: { deploymentId: deployment.id, backupId: backup.id },
+          },
+        })
+        .returning();
+
+      if (envVars.length > 0) {
+        await tx
+          .insert(deploymentEnvVars)
+          .values(envVars.map((env) => ({ deploymentId: created.id, ...env })));
+      }
+
+      const [pending] = await tx
+        .insert(deploymentRestores)
+        .values({
+          deploymentId: created.id,
+          sourceDeploymentId: deployment.id,
+          backupId: backup.id,
+          createdBy: session.user.id,
+          mode: "clone",
+          status: "pending",
+          step: "Waiting for the cloned deployment",
+        })
+        .returning();
+
+      return { clone: created, restore: pending };
+    });
+
+    // The restore starts once the deploy job deployed the clone
+    let job: Job;
+    try {
+      job = await enqueueJob({
+        type: "deploy",
+        deploymentId: clone.id,
+        userId: session.user.id,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await failDeploy(clone.id, {
+        step: "queue deploy",
+        error: message,
+        transient: true,
+        rolledBack: [],
+      });
+      return NextResponse.json(
+        { error: "Failed to queue deployment", details: message },
+        { status: 503 },
+      );
+    }
+
+    const template = getAppTemplateForType(clone.type);
+
+    return NextResponse.json(
+      {
+        restore: { id: restore.id, mode: restore.mode },
+        job: { id: job.id, status: job.status },
+        deployment: {
+          id: clone.id,
+          name: clone.name,
+          image: `${clone.image}:${clone.tag}`,
+          namespace: clone.namespace,
+          nodePort: clone.nodePort,
+          poolerNodePort: clone.poolerNodePort,
+          externalUrl: clone.externalUrl,
+          status: clone.status,
+        },
+        // Returned only once, secrets are hidden by GET /api/deployments
+        credentials: template?.credentials(
+          Object.fromEntries(envVars.map((env) => [env.key, env.value])),
+        ),
+      },
+      { status: 202 },
+    );
+  } catch (error) {
+    console.error("Error restoring backup:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to restore backup",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { desc, eq } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deploymentRevisions, deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * List the revisions of a deployment, newest first
+ * GET /api/deployments/[id]/revisions
+ * Pass ?manifests=true to include the rendered manifests
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(eq(deployments.id, deploymentId))
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const includeManifests =
+      request.nextUrl.searchParams.get("manifests") === "true";
+
+    const revisions = await db
+      .select()
+      .from(deploymentRevisions)
+      .where(eq(deploymentRevisions.deploymentId, deploymentId))
+      .orderBy(desc(deploymentRevisions.revision));
+
+    return NextResponse.json({
+      success: true,
+      currentRevision: revisions[0]?.revision ?? null,
+      revisions: revisions.map(({ manifests, ...revision }) => ({
+        ...revision,
+        manifests: includeManifests ? manifests : undefined,
+      })),
+      count: revisions.length,
+    });
+  } catch (error) {
+    console.error("Error fetching deployment revisions:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch deployment revisions",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
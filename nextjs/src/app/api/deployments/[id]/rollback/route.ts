@@ -0,0 +1,401 @@
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import {
+  deploymentEnvVars,
+  deploymentRevisions,
+  deployments,
+} from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { syncBackupSchedule } from "@/lib/backups";
+import { getNextAvailableNodePort } from "@/lib/deployment-utils";
+import { lockDeployment } from "@/lib/job-queue";
+import {
+  getRemovedInstanceClaims,
+  getRemovedManifests,
+} from "@/lib/k8s-manifests";
+import { applyManifests, deleteManifests } from "@/lib/kubectl";
+import { enqueueConfigReload } from "@/lib/postgres-reload";
+import { checkResourceQuota } from "@/lib/quotas";
+import {
+  getInstanceCount,
+  type ReplicationSettings,
+} from "@/lib/replication-config";
+import { type RevisionConfig, recordRevision } from "@/lib/revisions";
+
+export const dynamic = "force-dynamic";
+
+interface RollbackRequest {
+  revision: number;
+}
+
+const isPersistentVolumeClaim = (manifest: unknown) =>
+  (manifest as { kind?: string }).kind === "PersistentVolumeClaim";
+
+/**
+ * Replace the NodePorts of a revision's Services
+ * @param nodePorts - Recorded NodePort to the one to use now
+ */
+function remapNodePorts(manifest: unknown, nodePorts: Map<number, number>) {
+  const object = manifest as {
+    kind?: string;
+    spec?: { ports?: Array<{ nodePort?: number }> };
+  };
+  if (object.kind !== "Service" || !object.spec?.ports) {
+    return manifest;
+  }
+
+  return {
+    ...object,
+    spec: {
+      ...object.spec,
+      ports: object.spec.ports.map((port) =>
+        port.nodePort && nodePorts.has(port.nodePort)
+          ? { ...port, nodePort: nodePorts.get(port.nodePort) }
+          : port,
+      ),
+    },
+  };
+}
+
+/**
+ * Roll a deployment back by reapplying the manifests of an earlier revision
+ * Storage is left as is: PVCs can be expanded but never shrunk
+ * POST /api/deployments/[id]/rollback
+ * Pass ?dryRun=true to get the diff against the cluster without changing anything
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let unlock = async () => {};
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Operations on a deployment never overlap, see lib/job-queue.ts
+    const release = await lockDeployment(deploymentId);
+    if (!release) {
+      return NextResponse.json(
+        { error: "Another operation on this deployment is in progress" },
+        { status: 409 },
+      );
+    }
+    unlock = release;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (["pending", "deploying", "deleting"].includes(deployment.status)) {
+      return NextResponse.json(
+        {
+          error: `Deployment cannot be rolled back while ${deployment.status}`,
+        },
+        { status: 409 },
+      );
+    }
+
+    const body: RollbackRequest = await request.json();
+
+    if (!Number.isInteger(body.revision)) {
+      return NextResponse.json(
+        { error: "A revision number is required" },
+        { status: 400 },
+      );
+    }
+
+    const revisions = await db
+      .select()
+      .from(deploymentRevisions)
+      .where(eq(deploymentRevisions.deploymentId, deployment.id))
+      .orderBy(desc(deploymentRevisions.revision));
+
+    const current = revisions[0];
+    const target = revisions.find(
+      (revision) => revision.revision === body.revision,
+    );
+
+    if (!target) {
+      return NextResponse.json(
+        { error: `Revision ${body.revision} not found` },
+        { status: 404 },
+      );
+    }
+
+    if (target.revision === current.revision) {
+      return NextResponse.json(
+        { error: `Revision ${body.revision} is already the current revision` },
+        { status: 400 },
+      );
+    }
+
+    const config = target.config as RevisionConfig;
+
+    // Its manifests name the primary of that time; restarting the instances
+    // with another one would run two diverging primaries
+    const replication = deployment.replication as ReplicationSettings | null;
+    const targetReplication =
+      "replication" in config
+        ? (config.replication as ReplicationSettings | null)
+        : replication;
+    if (
+      replication &&
+      targetReplication &&
+      targetReplication.primary !== replication.primary
+    ) {
+      return NextResponse.json(
+        {
+          error: `Revision ${target.revision} has another primary, roll back to a revision recorded since the last promotion`,
+        },
+        { status: 409 },
+      );
+    }
+
+    // The target revision may hold more resources than the deployment has now
+    const instances = targetReplication
+      ? getInstanceCount(targetReplication)
+      : 1;
+    const quotaErrors = await checkResourceQuota(session.user.id, config, {
+      excludeDeploymentId: deployment.id,
+      instances,
+    });
+    if (quotaErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Resource quota exceeded", details: quotaErrors },
+        { status: 403 },
+      );
+    }
+
+    // The NodePorts the revision recorded may belong to another deployment
+    // by now: keep the current ones, allocate those the deployment lacks
+    const pooler = "pooler" in config ? config.pooler : deployment.pooler;
+    const poolerNodePort = pooler
+      ? (deployment.poolerNodePort ??
+        (await getNextAvailableNodePort([
+          deployment.nodePort,
+          deployment.readOnlyNodePort,
+        ])))
+      : null;
+    const readOnlyNodePort = targetReplication
+      ? (deployment.readOnlyNodePort ??
+        (await getNextAvailableNodePort([deployment.nodePort, poolerNodePort])))
+      : null;
+    const nodePorts = new Map<number, number>();
+    if (config.poolerNodePort && poolerNodePort) {
+      nodePorts.set(config.poolerNodePort, poolerNodePort);
+    }
+    if (config.readOnlyNodePort && readOnlyNodePort) {
+      nodePorts.set(config.readOnlyNodePort, readOnlyNodePort);
+    }
+
+    // Replica counts follow the current state, not the one the revision was
+    // recorded in: a stopped deployment stays scaled to zero, a running one
+    // keeps running even if the revision was recorded while stopped
+    const stopped = deployment.status === "stopped";
+    const manifests = (target.manifests as unknown[])
+      .filter((manifest) => !isPersistentVolumeClaim(manifest))
+      .map((manifest) => remapNodePorts(manifest, nodePorts))
+      .map((manifest) => {
+        const object = manifest as { kind?: string; spec?: object };
+        if (object.kind === "Deployment") {
+          return {
+            ...object,
+            spec: { ...object.spec, replicas: stopped ? 0 : 1 },
+          };
+        }
+        if (object.kind === "StatefulSet") {
+          return {
+            ...object,
+            spec: { ...object.spec, replicas: stopped ? 0 : instances },
+          };
+        }
+        return manifest;
+      });
+
+    if (request.nextUrl.searchParams.get("dryRun") === "true") {
+      const dryRunResult = await applyManifests(manifests, { dryRun: true });
+
+      return NextResponse.json(
+        dryRunResult.success
+          ? { success: true, dryRun: true, results: dryRunResult.results }
+          : {
+              error: "Rollback was rejected by Kubernetes",
+              details: dryRunResult.error,
+            },
+        { status: dryRunResult.success ? 200 : 400 },
+      );
+    }
+
+    // Apply manifests to Kubernetes cluster
+    const k8sResult = await applyManifests(manifests);
+
+    if (!k8sResult.success) {
+      await db
+        .update(deployments)
+        .set({
+          errorMessage: `Failed to roll back to revision ${target.revision}`,
+          errorDetails: { error: k8sResult.error },
+        })
+        .where(eq(deployments.id, deployment.id));
+
+      return NextResponse.json(
+        {
+          error: "Failed to roll back deployment in Kubernetes",
+          details: k8sResult.error,
+        },
+        { status: 500 },
+      );
+    }
+
+    // Objects the target revision doesn't have, e.g. a pooler enabled since
+    const removed = [
+      ...getRemovedManifests(current.manifests as unknown[], manifests),
+      ...getRemovedInstanceClaims(deployment, replication, targetReplication),
+    ];
+    if (removed.length > 0) {
+      const cleanup = await deleteManifests(removed);
+      if (!cleanup.success) {
+        console.error(
+          `Failed to delete objects removed from ${deployment.id}:`,
+          cleanup.errors,
+        );
+      }
+    }
+
+    // Restore non-secret environment variables
+    const currentEnvVars = await db
+      .select()
+      .from(deploymentEnvVars)
+      .where(eq(deploymentEnvVars.deploymentId, deployment.id));
+
+    for (const env of currentEnvVars.filter((env) => !env.isSecret)) {
+      if (!(env.key in config.envVars)) {
+        await db
+          .delete(deploymentEnvVars)
+          .where(eq(deploymentEnvVars.id, env.id));
+      } else if (config.envVars[env.key] !== env.value) {
+        await db
+          .update(deploymentEnvVars)
+          .set({ value: config.envVars[env.key] })
+          .where(eq(deploymentEnvVars.id, env.id));
+      }
+    }
+
+    for (const [key, value] of Object.entries(config.envVars)) {
+      if (!currentEnvVars.some((env) => env.key === key)) {
+        await db
+          .insert(deploymentEnvVars)
+          .values({ deploymentId: deployment.id, key, value, isSecret: false });
+      }
+    }
+
+    const [updated] = await db
+      .update(deployments)
+      .set({
+        tag: target.tag,
+        resourcePreset: config.resourcePreset,
+        cpuRequest: config.cpuRequest,
+        memoryRequest: config.memoryRequest,
+        cpuLimit: config.cpuLimit,
+        memoryLimit: config.memoryLimit,
+        settings: "settings" in config ? config.settings : deployment.settings,
+        pooler,
+        poolerNodePort,
+        replication: targetReplication,
+        readOnlyNodePort,
+        status: stopped ? "stopped" : "deployed",
+        errorMessage: null,
+        errorDetails: null,
+        metadata: {
+          ...(deployment.metadata && typeof deployment.metadata === "object"
+            ? deployment.metadata
+            : {}),
+          k8sOutput: k8sResult.output,
+        },
+      })
+      .where(eq(deployments.id, deployment.id))
+      .returning();
+
+    // Settings that don't need a restart are applied by a reload job, which
+    // waits for the kubelet to refresh the config file
+    if (
+      JSON.stringify(updated.settings) !== JSON.stringify(deployment.settings)
+    ) {
+      await enqueueConfigReload(updated.id, session.user.id);
+    }
+
+    // Backups dump with the deployment's image, which may have another tag
+    const backups = await syncBackupSchedule(updated);
+    if (!backups.success) {
+      console.error(
+        `Failed to update the backup schedule of ${deployment.id}:`,
+        backups.error,
+      );
+    }
+
+    const envVars = await db
+      .select()
+      .from(deploymentEnvVars)
+      .where(eq(deploymentEnvVars.deploymentId, deployment.id));
+
+    // The PVC kept its current size, so record it from the current revision
+    const revision = await recordRevision({
+      deployment: updated,
+      envVars,
+      manifests: [
+        ...manifests,
+        ...(current.manifests as unknown[]).filter(isPersistentVolumeClaim),
+      ],
+      reason: "rollback",
+      createdBy: session.user.id,
+      sourceRevision: target.revision,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Deployment rolled back to revision ${target.revision}`,
+      revision: revision.revision,
+      results: k8sResult.results,
+      deployment: {
+        id: updated.id,
+        name: updated.name,
+        image: `${updated.image}:${updated.tag}`,
+        status: updated.status,
+      },
+    });
+  } catch (error) {
+    console.error("Error rolling back deployment:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to roll back deployment",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  } finally {
+    await unlock();
+  }
+}
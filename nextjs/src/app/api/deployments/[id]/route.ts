@@ -1,17 +1,68 @@
-import { auth } from "@/lib/auth";
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
-import { deployments } from "@/db/schema";
-import { eq, and, isNull } from "drizzle-orm";
-import { NextRequest, NextResponse } from "next/server";
-import { deleteNamespace } from "@/lib/kubectl";
+import { deploymentEnvVars, deployments } from "@/db/schema";
+import {
+  getAppTemplate,
+  getAppTemplateForType,
+  getTemplateSettings,
+} from "@/lib/app-templates";
+import { auth } from "@/lib/auth";
+import type { DeploymentUpdate } from "@/lib/deploy";
+import {
+  getNextAvailableNodePort,
+  isValidEnvVarName,
+  isValidImageTag,
+} from "@/lib/deployment-utils";
+import { enqueueJob } from "@/lib/job-queue";
+import {
+  generateDeploymentManifests,
+  type ManifestEnvVar,
+} from "@/lib/k8s-manifests";
+import { applyManifests } from "@/lib/kubectl";
+import {
+  DEFAULT_POOLER_SETTINGS,
+  type PoolerSettings,
+  resolvePoolerSettings,
+} from "@/lib/pooler-config";
+import {
+  DEFAULT_POSTGRES_SETTINGS,
+  type PostgresSettings,
+} from "@/lib/postgres-config";
+import { checkResourceQuota } from "@/lib/quotas";
+import {
+  getInstanceCount,
+  type ReplicationSettings,
+  resolveReplicationSettings,
+} from "@/lib/replication-config";
+import {
+  getDeploymentResources,
+  parseMemoryQuantity,
+  type ResourceRequest,
+  resolveResources,
+} from "@/lib/resources";
 
 export const dynamic = "force-dynamic";
 
+interface UpdateDeploymentRequest {
+  tag?: string;
+  pvcSize?: number; // GB, can only grow
+  resources?: ResourceRequest;
+  envVars?: Record<string, string>; // Non-secret variables only
+  settings?: unknown; // Changed app settings, rendered into the config file
+  pooler?: Partial<PoolerSettings> | null; // Postgres only, null disables it
+  replication?: Pick<ReplicationSettings, "readReplicas">; // Replicated deployments only
+}
+
 /**
- * Delete a deployment (soft delete in DB, hard delete from K8s and ArgoCD)
- * DELETE /api/deployments/[id]
+ * Update a deployment in place (image tag, storage, resources, env vars,
+ * app settings, connection pooler, number of read replicas)
+ * The request is validated here; manifests are regenerated and reapplied by
+ * a background job (see runUpdate in lib/deploy.ts)
+ * PATCH /api/deployments/[id]
+ * Pass ?dryRun=true to get the diff against the cluster without changing anything
  */
-export async function DELETE(
+export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
@@ -29,10 +80,7 @@ export async function DELETE(
       .select()
       .from(deployments)
       .where(
-        and(
-          eq(deployments.id, deploymentId),
-          isNull(deployments.deletedAt)
-        )
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
       )
       .limit(1);
 
@@ -48,84 +96,365 @@ export async function DELETE(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    if (["pending", "deploying", "deleting"].includes(deployment.status)) {
+      return NextResponse.json(
+        { error: `Deployment cannot be updated while ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    // A failed deploy released its NodePorts, there is nothing to update
+    if (deployment.status === "failed") {
+      return NextResponse.json(
+        {
+          error:
+            "A failed deployment cannot be updated, delete it and deploy again",
+        },
+        { status: 409 },
+      );
+    }
+
+    const body: UpdateDeploymentRequest = await request.json();
     const errors: string[] = [];
+    const updates: Partial<typeof deployments.$inferInsert> = {};
 
-    // Delete from Kubernetes (namespace and all resources including PVC)
-    if (deployment.namespace) {
-      try {
-        const result = await deleteNamespace(deployment.namespace);
-        if (result.success) {
-          console.log(`Deleted namespace ${deployment.namespace} from Kubernetes`);
-        } else {
-          const errorMsg = `Failed to delete namespace from Kubernetes: ${result.error}`;
-          console.error(errorMsg);
-          errors.push(errorMsg);
-        }
-      } catch (error) {
-        const errorMsg = `Failed to delete namespace from Kubernetes: ${error instanceof Error ? error.message : String(error)}`;
-        console.error(errorMsg);
-        errors.push(errorMsg);
+    // Image tag
+    if (body.tag !== undefined && body.tag !== deployment.tag) {
+      if (!isValidImageTag(body.tag)) {
+        errors.push("Invalid image tag");
+      } else {
+        updates.tag = body.tag;
+      }
+    }
+
+    const replication = deployment.replication as ReplicationSettings | null;
+
+    // Storage (PVCs can be expanded but never shrunk)
+    if (body.pvcSize !== undefined && body.pvcSize !== deployment.pvcSize) {
+      if (deployment.pvcSize === null) {
+        errors.push("Deployment has no persistent volume");
+      } else if (replication) {
+        // Volumes come from the StatefulSet's claim template, which can't change
+        errors.push("Storage of a replicated deployment cannot be resized");
+      } else if (
+        !Number.isInteger(body.pvcSize) ||
+        body.pvcSize < deployment.pvcSize ||
+        body.pvcSize > 1000
+      ) {
+        errors.push(
+          `Storage size can only be expanded, from ${deployment.pvcSize} up to 1000 GB`,
+        );
+      } else {
+        updates.pvcSize = body.pvcSize;
+      }
+    }
+
+    // Compute resources
+    if (body.resources) {
+      const resolved = resolveResources(body.resources);
+      if (resolved.errors) {
+        errors.push(...resolved.errors);
+      } else {
+        updates.resourcePreset = resolved.preset;
+        Object.assign(updates, resolved.resources);
       }
     }
 
-    // Delete from ArgoCD
-    if (deployment.argocdAppName) {
-      try {
-        const argocdUrl = process.env.ARGOCD_URL;
-        const argocdToken = process.env.ARGOCD_TOKEN;
-
-        if (argocdUrl && argocdToken) {
-          const deleteResponse = await fetch(
-            `${argocdUrl}/api/v1/applications/${deployment.argocdAppName}?cascade=true`,
-            {
-              method: "DELETE",
-              headers: {
-                "Authorization": `Bearer ${argocdToken}`,
-                "Content-Type": "application/json",
-              },
-            }
+    // Environment variables
+    const currentEnvVars = await db
+      .select()
+      .from(deploymentEnvVars)
+      .where(eq(deploymentEnvVars.deploymentId, deployment.id));
+
+    const metadata =
+      deployment.metadata && typeof deployment.metadata === "object"
+        ? (deployment.metadata as Record<string, unknown>)
+        : {};
+    const template =
+      deployment.type === "custom"
+        ? undefined
+        : (typeof metadata.template === "string" &&
+            getAppTemplate(metadata.template)) ||
+          getAppTemplateForType(deployment.type);
+
+    // App settings; resizing re-checks the current ones (maxmemory must fit)
+    if (body.settings !== undefined || body.resources) {
+      if (!template?.configFile) {
+        if (body.settings !== undefined) {
+          errors.push(
+            `${template?.name || "This deployment"} has no configurable settings`,
           );
+        }
+      } else {
+        const resolvedSettings = template.configFile.resolve(
+          body.settings,
+          getTemplateSettings(template, deployment.settings),
+          {
+            memoryLimitMi: parseMemoryQuantity(
+              getDeploymentResources({ ...deployment, ...updates }).memoryLimit,
+            ),
+          },
+        );
+        if (resolvedSettings.errors) {
+          errors.push(...resolvedSettings.errors);
+        } else if (
+          body.settings !== undefined &&
+          JSON.stringify(resolvedSettings.settings) !==
+            JSON.stringify(deployment.settings)
+        ) {
+          updates.settings = resolvedSettings.settings;
+        }
+      }
+    }
 
-          if (deleteResponse.ok) {
-            console.log(`Deleted application ${deployment.argocdAppName} from ArgoCD`);
-          } else {
-            const errorText = await deleteResponse.text();
-            const errorMsg = `Failed to delete from ArgoCD: ${deleteResponse.status} ${errorText}`;
-            console.error(errorMsg);
-            errors.push(errorMsg);
-          }
-        } else {
-          errors.push("ArgoCD credentials not configured");
+    // Connection pooler; changing max_connections re-checks the pool size
+    if (body.pooler !== undefined && deployment.type !== "postgres") {
+      errors.push("Connection pooling is only available for Postgres");
+    } else if (body.pooler === null) {
+      if (deployment.pooler) {
+        updates.pooler = null;
+        updates.poolerNodePort = null;
+      }
+    } else if (
+      body.pooler !== undefined ||
+      (deployment.pooler && updates.settings)
+    ) {
+      const postgresSettings = (updates.settings ??
+        (template && getTemplateSettings(template, deployment.settings))) as
+        | PostgresSettings
+        | undefined;
+      const resolvedPooler = resolvePoolerSettings(
+        body.pooler,
+        (deployment.pooler as PoolerSettings | null) ?? DEFAULT_POOLER_SETTINGS,
+        {
+          maxConnections:
+            postgresSettings?.maxConnections ??
+            DEFAULT_POSTGRES_SETTINGS.maxConnections,
+        },
+      );
+      if (resolvedPooler.errors) {
+        errors.push(...resolvedPooler.errors);
+      } else if (
+        body.pooler !== undefined &&
+        JSON.stringify(resolvedPooler.settings) !==
+          JSON.stringify(deployment.pooler)
+      ) {
+        updates.pooler = resolvedPooler.settings;
+        // Enabling allocates the pooler's NodePort
+        if (!deployment.poolerNodePort) {
+          updates.poolerNodePort = await getNextAvailableNodePort([
+            deployment.nodePort,
+          ]);
         }
-      } catch (error) {
-        const errorMsg = `Failed to delete from ArgoCD: ${error instanceof Error ? error.message : String(error)}`;
-        console.error(errorMsg);
-        errors.push(errorMsg);
       }
     }
 
-    // Soft delete from database (mark as deleted)
+    // Read replicas; replication itself is chosen when the deployment is
+    // created and a new tag must still support it
+    if (body.replication !== undefined && !replication) {
+      errors.push("Only replicated Postgres deployments have read replicas");
+    } else if (replication && (body.replication !== undefined || updates.tag)) {
+      const resolvedReplication = resolveReplicationSettings(
+        body.replication,
+        replication,
+        { tag: updates.tag ?? deployment.tag },
+      );
+      if (resolvedReplication.errors) {
+        errors.push(...resolvedReplication.errors);
+      } else if (
+        resolvedReplication.settings.readReplicas !== replication.readReplicas
+      ) {
+        updates.replication = resolvedReplication.settings;
+      }
+    }
+
+    const changedEnvVars: Record<string, string> = {};
+    for (const [key, value] of Object.entries(body.envVars || {})) {
+      const current = currentEnvVars.find((env) => env.key === key);
+      const templateEnv = template?.env.find((env) => env.key === key);
+      const validationError =
+        typeof value === "string" ? templateEnv?.validate?.(value) : null;
+
+      if (current?.isSecret || templateEnv?.secret) {
+        errors.push(`${key} is a secret and cannot be changed`);
+      } else if (typeof value !== "string") {
+        errors.push(`${key} must be a string`);
+      } else if (template && !templateEnv) {
+        errors.push(`${key} is not a ${template.name} setting`);
+      } else if (!isValidEnvVarName(key)) {
+        errors.push(`Invalid environment variable name: ${key}`);
+      } else if (templateEnv?.required && !value) {
+        errors.push(`${key} is required`);
+      } else if (validationError) {
+        errors.push(validationError);
+      } else if (value !== current?.value) {
+        changedEnvVars[key] = value;
+      }
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid update", details: errors },
+        { status: 400 },
+      );
+    }
+
+    if (
+      Object.keys(updates).length === 0 &&
+      Object.keys(changedEnvVars).length === 0
+    ) {
+      return NextResponse.json(
+        { error: "No changes requested" },
+        { status: 400 },
+      );
+    }
+
+    // Resizing and adding replicas count against the quota, minus what this
+    // deployment already holds
+    if (body.resources || updates.replication) {
+      const nextReplication = (updates.replication ??
+        replication) as ReplicationSettings | null;
+      const quotaErrors = await checkResourceQuota(
+        session.user.id,
+        getDeploymentResources({ ...deployment, ...updates }),
+        {
+          excludeDeploymentId: deployment.id,
+          instances: nextReplication ? getInstanceCount(nextReplication) : 1,
+        },
+      );
+      if (quotaErrors.length > 0) {
+        return NextResponse.json(
+          { error: "Resource quota exceeded", details: quotaErrors },
+          { status: 403 },
+        );
+      }
+    }
+
+    const update: DeploymentUpdate = { updates, envVars: changedEnvVars };
+
+    if (request.nextUrl.searchParams.get("dryRun") === "true") {
+      // Regenerate manifests from the updated configuration
+      const envVars: ManifestEnvVar[] = [
+        ...currentEnvVars.map((env) => ({
+          key: env.key,
+          value: changedEnvVars[env.key] ?? env.value,
+          isSecret: env.isSecret,
+        })),
+        ...Object.entries(changedEnvVars)
+          .filter(([key]) => !currentEnvVars.some((env) => env.key === key))
+          .map(([key, value]) => ({ key, value, isSecret: false })),
+      ];
+      const manifests = generateDeploymentManifests(
+        { ...deployment, ...updates },
+        envVars,
+      );
+      const dryRunResult = await applyManifests(manifests, { dryRun: true });
+
+      return NextResponse.json(
+        dryRunResult.success
+          ? { success: true, dryRun: true, results: dryRunResult.results }
+          : {
+              error: "Update was rejected by Kubernetes",
+              details: dryRunResult.error,
+            },
+        { status: dryRunResult.success ? 200 : 400 },
+      );
+    }
+
+    // Kubernetes calls run in the background, poll the job for progress
+    const job = await enqueueJob({
+      type: "update",
+      deploymentId: deployment.id,
+      userId: session.user.id,
+      payload: { ...update },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Deployment update queued",
+        job: { id: job.id, status: job.status },
+      },
+      { status: 202 },
+    );
+  } catch (error) {
+    console.error("Error updating deployment:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update deployment",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Delete a deployment (soft delete in DB, hard delete from K8s and ArgoCD)
+ * The cleanup runs as a background job, poll GET /api/jobs/[id] for progress
+ * DELETE /api/deployments/[id]
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.status === "deleting") {
+      return NextResponse.json(
+        { error: "Deployment is already being deleted" },
+        { status: 409 },
+      );
+    }
+
+    // Kubernetes and ArgoCD cleanup run in the background
+    const job = await enqueueJob({
+      type: "delete",
+      deploymentId: deployment.id,
+      userId: session.user.id,
+    });
+
     await db
       .update(deployments)
-      .set({
-        deletedAt: new Date(),
-        status: "deleted",
-        metadata: {
-          ...(deployment.metadata && typeof deployment.metadata === 'object' ? deployment.metadata : {}),
-          deletedBy: session.user.id,
-          deletedAt: new Date().toISOString(),
-          deleteErrors: errors.length > 0 ? errors : undefined,
-        },
-      })
+      .set({ status: "deleting" })
       .where(eq(deployments.id, deploymentId));
 
-    return NextResponse.json({
-      success: true,
-      message: errors.length > 0
-        ? "Deployment marked as deleted, but some cleanup operations failed"
-        : "Deployment deleted successfully",
-      warnings: errors.length > 0 ? errors : undefined,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Deployment deletion queued",
+        job: { id: job.id, status: job.status },
+      },
+      { status: 202 },
+    );
   } catch (error) {
     console.error("Error deleting deployment:", error);
     return NextResponse.json(
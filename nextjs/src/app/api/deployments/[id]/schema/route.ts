@@ -0,0 +1,82 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { getSchema } from "@/lib/sql-console";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * List the tables and views of a Postgres deployment with their columns
+ * GET /api/deployments/[id]/schema
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (deployment.type !== "postgres") {
+      return NextResponse.json(
+        { error: "The SQL console is only available for Postgres" },
+        { status: 400 },
+      );
+    }
+
+    if (deployment.status !== "deployed") {
+      return NextResponse.json(
+        { error: `Deployment is ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    const result = await getSchema(deployment);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to read schema", details: result.error },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ tables: result.data });
+  } catch (error) {
+    console.error("Error reading schema:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to read schema",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
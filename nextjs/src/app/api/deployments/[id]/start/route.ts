@@ -0,0 +1,132 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { lockDeployment } from "@/lib/job-queue";
+import { scaleDeployment } from "@/lib/kubectl";
+import {
+  getInstanceCount,
+  type ReplicationSettings,
+} from "@/lib/replication-config";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Start a stopped deployment by scaling it back to one replica (all instances
+ * of a replicated deployment)
+ * POST /api/deployments/[id]/start
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let unlock = async () => {};
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: deploymentId } = await params;
+
+    // Operations on a deployment never overlap, see lib/job-queue.ts
+    const release = await lockDeployment(deploymentId);
+    if (!release) {
+      return NextResponse.json(
+        { error: "Another operation on this deployment is in progress" },
+        { status: 409 },
+      );
+    }
+    unlock = release;
+
+    // Get deployment from database
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
+      .limit(1);
+
+    if (!deployment) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 },
+      );
+    }
+
+    // Check if user owns this deployment
+    if (deployment.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (!["stopped"].includes(deployment.status)) {
+      return NextResponse.json(
+        { error: `Deployment cannot be started while ${deployment.status}` },
+        { status: 409 },
+      );
+    }
+
+    // A replicated deployment runs as a StatefulSet of all its instances
+    const replication = deployment.replication as ReplicationSettings | null;
+    const result = await scaleDeployment(
+      deployment.containerName,
+      deployment.namespace,
+      replication ? getInstanceCount(replication) : 1,
+      replication ? "StatefulSet" : "Deployment",
+    );
+
+    // The connection pooler follows the database
+    if (result.success && deployment.pooler && deployment.poolerNodePort) {
+      const poolerResult = await scaleDeployment(
+        `${deployment.containerName}-pooler`,
+        deployment.namespace,
+        1,
+      );
+      if (!poolerResult.success) {
+        console.error(
+          `Failed to start the pooler of ${deployment.id}:`,
+          poolerResult.error,
+        );
+      }
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: "Failed to start deployment in Kubernetes",
+          details: result.error,
+        },
+        { status: 500 },
+      );
+    }
+
+    await db
+      .update(deployments)
+      .set({ status: "deployed" })
+      .where(eq(deployments.id, deployment.id));
+
+    return NextResponse.json({
+      success: true,
+      message: "Deployment started successfully",
+      deployment: {
+        id: deployment.id,
+        name: deployment.name,
+        status: "deployed",
+      },
+    });
+  } catch (error) {
+    console.error("Error starting deployment:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to start deployment",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  } finally {
+    await unlock();
+  }
+}
@@ -1,18 +1,24 @@
-import { auth } from "@/lib/auth";
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { deployments } from "@/db/schema";
-import { getApplicationStatus } from "@/lib/argocd-client";
-import { eq } from "drizzle-orm";
-import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getDeploymentHealth } from "@/lib/health";
+import { getReplicationStatus } from "@/lib/replication";
 
 export const dynamic = "force-dynamic";
 
+const CLUSTER_PENDING_STATUSES = ["pending", "deploying", "failed", "deleting"];
+
 /**
- * Get deployment status from ArgoCD
+ * Get deployment health from Kubernetes
+ * Checks replicas, pod conditions, restarts, the PVC and recent events, and
+ * stores the resulting state in healthStatus. A replicated Postgres
+ * deployment also reports the state and lag of each replica
  * GET /api/deployments/[id]/status
  */
 export async function GET(
-  request: NextRequest,
+  _request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
@@ -28,7 +34,9 @@ export async function GET(
     const [deployment] = await db
       .select()
       .from(deployments)
-      .where(eq(deployments.id, deploymentId))
+      .where(
+        and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)),
+      )
       .limit(1);
 
     if (!deployment) {
@@ -43,39 +51,64 @@ export async function GET(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Get status from ArgoCD
-    const argoStatus = await getApplicationStatus(
-      deployment.argocdAppName || deployment.containerName,
-    );
-
-    if (!argoStatus.success) {
+    // Nothing to check in the cluster while the deploy job owns the deployment
+    if (CLUSTER_PENDING_STATUSES.includes(deployment.status)) {
       return NextResponse.json({
         id: deployment.id,
         status: deployment.status,
         health: deployment.healthStatus,
-        argocdError: argoStatus.error,
-        lastUpdated: deployment.updatedAt,
+        lastUpdated: deployment.lastSyncTime || deployment.updatedAt,
+        externalUrl: deployment.externalUrl,
       });
     }
 
-    // Update deployment status in database
+    const result = await getDeploymentHealth(deployment);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: "Failed to get deployment health from Kubernetes",
+          details: result.error,
+        },
+        { status: 500 },
+      );
+    }
+
+    const { health } = result;
+
+    // Reported by the primary, unavailable while it is down
+    const replication =
+      deployment.replication && deployment.status === "deployed"
+        ? await getReplicationStatus(deployment)
+        : null;
+
+    // Update deployment health in database
     await db
       .update(deployments)
       .set({
-        status: argoStatus.status === "Synced" ? "deployed" : "deploying",
-        healthStatus: argoStatus.health,
-        lastSyncTime: new Date(),
+        healthStatus: health.state,
+        lastSyncTime: new Date(health.checkedAt),
       })
       .where(eq(deployments.id, deploymentId));
 
     return NextResponse.json({
       id: deployment.id,
-      status: argoStatus.status === "Synced" ? "deployed" : "deploying",
-      health: argoStatus.health,
-      syncStatus: argoStatus.status,
-      lastUpdated: new Date().toISOString(),
+      status: deployment.status,
+      health: health.state,
+      reasons: health.reasons,
+      replicas: health.replicas,
+      pods: health.pods,
+      pvcPhase: health.pvcPhase,
+      warnings: health.warnings,
+      ...(replication
+        ? {
+            replication: replication.success
+              ? replication.replication
+              : { error: replication.error },
+          }
+        : {}),
+      lastUpdated: health.checkedAt,
       externalUrl: deployment.externalUrl,
-      argocdUrl: deployment.argocdUrl,
     });
   } catch (error) {
     console.error("Error getting deployment status:", error);
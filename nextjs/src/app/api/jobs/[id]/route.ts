@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getJob } from "@/lib/job-queue";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Get the progress of a background job (deploy, update, delete)
+ * GET /api/jobs/[id]
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: jobId } = await params;
+    const job = await getJob(jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    // Check if user owns this job
+    if (job.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // The payload is input for the worker, not progress
+    const { payload: _payload, ...progress } = job;
+
+    return NextResponse.json({ success: true, job: progress });
+  } catch (error) {
+    console.error("Error fetching job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch job",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
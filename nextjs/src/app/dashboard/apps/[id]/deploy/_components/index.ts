@@ -0,0 +1,4 @@
+export { PoolerSettingsForm } from "./pooler-settings";
+export { PostgresSettingsForm } from "./postgres-settings";
+export { RedisSettingsForm } from "./redis-settings";
+export { ReplicationSettingsForm } from "./replication-settings";
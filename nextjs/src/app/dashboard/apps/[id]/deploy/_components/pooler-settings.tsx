@@ -0,0 +1,128 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  POOL_MODES,
+  type PoolerSettings,
+  type PoolMode,
+} from "@/lib/pooler-config";
+
+const inputClassName =
+  "w-full h-9 px-3 text-xs rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 disabled:opacity-50";
+
+/**
+ * Opt-in PgBouncer in front of a Postgres deployment, published on its own
+ * NodePort
+ */
+export function PoolerSettingsForm({
+  enabled,
+  onEnabledChange,
+  value,
+  onChange,
+}: {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  value: PoolerSettings;
+  onChange: (value: PoolerSettings) => void;
+}) {
+  return (
+    <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4">
+      <div className="flex items-center gap-2 mb-4">
+        <Checkbox
+          id="pooler-enabled"
+          checked={enabled}
+          onCheckedChange={(checked: boolean) =>
+            onEnabledChange(checked === true)
+          }
+        />
+        <label
+          htmlFor="pooler-enabled"
+          className="text-lg font-semibold text-primary/80"
+        >
+          Connection Pooler
+        </label>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        Runs PgBouncer next to the database with its own port, so many short
+        lived clients share a few database connections.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label
+            htmlFor="pooler-mode"
+            className="block text-xs font-medium text-primary/80 mb-2"
+          >
+            Pool mode
+          </label>
+          <select
+            id="pooler-mode"
+            value={value.poolMode}
+            disabled={!enabled}
+            onChange={(e) =>
+              onChange({ ...value, poolMode: e.target.value as PoolMode })
+            }
+            className={inputClassName}
+          >
+            {POOL_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+          {value.poolMode === "transaction" && (
+            <p className="mt-1 text-[10px] text-muted-foreground">
+              Session features (prepared statements, LISTEN, advisory locks)
+              don&apos;t work across transactions
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label
+            htmlFor="pooler-pool-size"
+            className="block text-xs font-medium text-primary/80 mb-2"
+          >
+            Pool size
+          </label>
+          <input
+            id="pooler-pool-size"
+            type="number"
+            min={1}
+            value={value.defaultPoolSize}
+            disabled={!enabled}
+            onChange={(e) =>
+              onChange({ ...value, defaultPoolSize: Number(e.target.value) })
+            }
+            autoComplete="off"
+            className={inputClassName}
+          />
+          <p className="mt-1 text-[10px] text-muted-foreground">
+            Database connections, below max_connections
+          </p>
+        </div>
+
+        <div>
+          <label
+            htmlFor="pooler-max-clients"
+            className="block text-xs font-medium text-primary/80 mb-2"
+          >
+            Max client connections
+          </label>
+          <input
+            id="pooler-max-clients"
+            type="number"
+            min={10}
+            value={value.maxClientConn}
+            disabled={!enabled}
+            onChange={(e) =>
+              onChange({ ...value, maxClientConn: Number(e.target.value) })
+            }
+            autoComplete="off"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
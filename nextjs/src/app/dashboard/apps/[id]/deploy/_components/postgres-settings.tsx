@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  getPostgresPreset,
+  POSTGRES_RESTART_SETTINGS,
+  POSTGRES_WORKLOADS,
+  type PostgresSettings,
+  type PostgresWorkload,
+} from "@/lib/postgres-config";
+
+const inputClassName =
+  "w-full h-9 px-3 text-xs rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 disabled:opacity-50";
+
+const FIELDS: Array<{
+  key: keyof PostgresSettings;
+  label: string; // postgresql.conf parameter
+  unit?: string;
+  step?: number;
+}> = [
+  { key: "maxConnections", label: "max_connections" },
+  { key: "sharedBuffersMb", label: "shared_buffers", unit: "MB" },
+  { key: "effectiveCacheSizeMb", label: "effective_cache_size", unit: "MB" },
+  { key: "maintenanceWorkMemMb", label: "maintenance_work_mem", unit: "MB" },
+  { key: "workMemMb", label: "work_mem", unit: "MB" },
+  { key: "minWalSizeMb", label: "min_wal_size", unit: "MB" },
+  { key: "maxWalSizeMb", label: "max_wal_size", unit: "MB" },
+  {
+    key: "checkpointCompletionTarget",
+    label: "checkpoint_completion_target",
+    step: 0.05,
+  },
+  { key: "randomPageCost", label: "random_page_cost", step: 0.1 },
+  { key: "effectiveIoConcurrency", label: "effective_io_concurrency" },
+];
+
+/**
+ * Tuning of a Postgres deployment, rendered into its postgresql.conf
+ * A workload preset is recomputed whenever the memory limit changes; editing
+ * a field switches to custom values
+ */
+export function PostgresSettingsForm({
+  value,
+  onChange,
+  memoryLimitMi,
+}: {
+  value: PostgresSettings;
+  onChange: (value: PostgresSettings) => void;
+  memoryLimitMi: number | null;
+}) {
+  const [workload, setWorkload] = useState<PostgresWorkload | "custom">("web");
+
+  useEffect(() => {
+    if (workload !== "custom" && memoryLimitMi) {
+      onChange(getPostgresPreset(workload, memoryLimitMi));
+    }
+  }, [workload, memoryLimitMi, onChange]);
+
+  return (
+    <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4">
+      <h2 className="text-lg font-semibold text-primary/80 mb-4">Tuning</h2>
+
+      <div className="mb-4">
+        <label
+          htmlFor="postgres-workload"
+          className="block text-xs font-medium text-primary/80 mb-2"
+        >
+          Preset
+        </label>
+        <select
+          id="postgres-workload"
+          value={workload}
+          onChange={(e) =>
+            setWorkload(e.target.value as PostgresWorkload | "custom")
+          }
+          className={inputClassName}
+        >
+          {POSTGRES_WORKLOADS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label} - {option.description}
+            </option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+        <p className="mt-1 text-[10px] text-muted-foreground">
+          {memoryLimitMi
+            ? `Derived from the ${memoryLimitMi}Mi memory limit`
+            : "Set a valid memory limit to derive the preset"}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {FIELDS.map((field) => (
+          <div key={field.key}>
+            <label
+              htmlFor={`postgres-${field.key}`}
+              className="block text-[10px] font-mono font-medium text-primary/80 mb-2 truncate"
+              title={field.label}
+            >
+              {field.label}
+              {field.unit && ` (${field.unit})`}
+            </label>
+            <input
+              id={`postgres-${field.key}`}
+              type="number"
+              min={0}
+              step={field.step ?? 1}
+              value={value[field.key]}
+              onChange={(e) => {
+                setWorkload("custom");
+                onChange({ ...value, [field.key]: Number(e.target.value) });
+              }}
+              autoComplete="off"
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="mt-3 text-[10px] text-muted-foreground">
+        Changing{" "}
+        {POSTGRES_RESTART_SETTINGS.map(
+          (key) => FIELDS.find((field) => field.key === key)?.label,
+        ).join(" or ")}{" "}
+        later restarts the database, other settings are reloaded without a
+        restart
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  REDIS_APPEND_FSYNC_MODES,
+  REDIS_EVICTION_POLICIES,
+  REDIS_SNAPSHOT_PRESETS,
+  type RedisAppendFsync,
+  type RedisEvictionPolicy,
+  type RedisSettings,
+} from "@/lib/redis-config";
+
+const inputClassName =
+  "w-full h-9 px-3 text-xs rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 disabled:opacity-50";
+
+/**
+ * Persistence and memory settings of a Redis deployment, rendered into its
+ * redis.conf
+ */
+export function RedisSettingsForm({
+  value,
+  onChange,
+}: {
+  value: RedisSettings;
+  onChange: (value: RedisSettings) => void;
+}) {
+  const snapshotPreset = REDIS_SNAPSHOT_PRESETS.findIndex(
+    (preset) =>
+      JSON.stringify(preset.snapshots) === JSON.stringify(value.snapshots),
+  );
+
+  return (
+    <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4">
+      <h2 className="text-lg font-semibold text-primary/80 mb-4">
+        Persistence & Memory
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label
+            htmlFor="redis-snapshots"
+            className="block text-xs font-medium text-primary/80 mb-2"
+          >
+            RDB snapshots
+          </label>
+          <select
+            id="redis-snapshots"
+            value={snapshotPreset}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                snapshots:
+                  REDIS_SNAPSHOT_PRESETS[Number(e.target.value)].snapshots,
+              })
+            }
+            className={inputClassName}
+          >
+            {snapshotPreset === -1 && <option value={-1}>Custom</option>}
+            {REDIS_SNAPSHOT_PRESETS.map((preset, index) => (
+              <option key={preset.label} value={index}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-[10px] text-muted-foreground font-mono">
+            {value.snapshots.length > 0
+              ? `save ${value.snapshots.map((rule) => `${rule.seconds} ${rule.changes}`).join(" ")}`
+              : 'save ""'}
+          </p>
+        </div>
+
+        <div>
+          <label
+            htmlFor="redis-appendfsync"
+            className="block text-xs font-medium text-primary/80 mb-2"
+          >
+            Append only file (AOF)
+          </label>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="redis-appendonly"
+              checked={value.appendOnly}
+              onCheckedChange={(checked: boolean) =>
+                onChange({ ...value, appendOnly: checked === true })
+              }
+              title="Write every change to the append only file"
+            />
+            <select
+              id="redis-appendfsync"
+              value={value.appendFsync}
+              disabled={!value.appendOnly}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  appendFsync: e.target.value as RedisAppendFsync,
+                })
+              }
+              className={inputClassName}
+            >
+              {REDIS_APPEND_FSYNC_MODES.map((mode) => (
+                <option key={mode.value} value={mode.value}>
+                  fsync: {mode.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="redis-maxmemory"
+            className="block text-xs font-medium text-primary/80 mb-2"
+          >
+            Max memory (MB)
+          </label>
+          <input
+            id="redis-maxmemory"
+            type="number"
+            min={1}
+            value={value.maxmemoryMb ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                maxmemoryMb: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+            placeholder="No limit"
+            autoComplete="off"
+            className={inputClassName}
+          />
+          <p className="mt-1 text-[10px] text-muted-foreground">
+            At most 75% of the memory limit
+          </p>
+        </div>
+
+        <div>
+          <label
+            htmlFor="redis-eviction"
+            className="block text-xs font-medium text-primary/80 mb-2"
+          >
+            Eviction policy
+          </label>
+          <select
+            id="redis-eviction"
+            value={value.maxmemoryPolicy}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                maxmemoryPolicy: e.target.value as RedisEvictionPolicy,
+              })
+            }
+            className={inputClassName}
+          >
+            {REDIS_EVICTION_POLICIES.map((policy) => (
+              <option key={policy} value={policy}>
+                {policy}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-[10px] text-muted-foreground">
+            What happens to keys once max memory is reached
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
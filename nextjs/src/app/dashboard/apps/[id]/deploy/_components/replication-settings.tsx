@@ -0,0 +1,79 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  MAX_READ_REPLICAS,
+  type ReplicationSettings,
+} from "@/lib/replication-config";
+
+const inputClassName =
+  "w-full h-9 px-3 text-xs rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 disabled:opacity-50";
+
+/**
+ * Opt-in streaming read replicas next to the Postgres primary, read through
+ * their own NodePort
+ */
+export function ReplicationSettingsForm({
+  enabled,
+  onEnabledChange,
+  value,
+  onChange,
+}: {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  value: ReplicationSettings;
+  onChange: (value: ReplicationSettings) => void;
+}) {
+  return (
+    <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4">
+      <div className="flex items-center gap-2 mb-4">
+        <Checkbox
+          id="replication-enabled"
+          checked={enabled}
+          onCheckedChange={(checked: boolean) =>
+            onEnabledChange(checked === true)
+          }
+        />
+        <label
+          htmlFor="replication-enabled"
+          className="text-lg font-semibold text-primary/80"
+        >
+          Read Replicas
+        </label>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        Runs hot standbys that stream every change from the primary. Reads can
+        go to the replicas through a separate port, and a replica can be
+        promoted if the primary has to be replaced. Can only be chosen now.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label
+            htmlFor="replication-replicas"
+            className="block text-xs font-medium text-primary/80 mb-2"
+          >
+            Replicas
+          </label>
+          <input
+            id="replication-replicas"
+            type="number"
+            min={1}
+            max={MAX_READ_REPLICAS}
+            value={value.readReplicas}
+            disabled={!enabled}
+            onChange={(e) =>
+              onChange({ ...value, readReplicas: Number(e.target.value) })
+            }
+            autoComplete="off"
+            className={inputClassName}
+          />
+          <p className="mt-1 text-[10px] text-muted-foreground">
+            Each replica has its own volume and the same resources, counted
+            against your quota
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,18 +2,19 @@
 
 import { motion } from "framer-motion";
 import { useParams, useRouter } from "next/navigation";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
   MdArrowBack,
   MdCheckCircle,
   MdContentCopy,
+  MdError,
   MdInfo,
+  MdRadioButtonUnchecked,
   MdKey,
   MdRefresh,
   MdOpenInNew,
   MdLink,
 } from "react-icons/md";
-import { SiPostgresql, SiRedis } from "react-icons/si";
 import { cn } from "@/lib/utils";
 import {
   Dialog,
@@ -22,6 +23,45 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  appTemplates,
+  getAppTemplate,
+  type TemplateCredentials,
+} from "@/lib/app-templates";
+import { templateIcons } from "@/lib/app-templates/icons";
+import type {
+  ProgressClusterEvent,
+  ProgressStep,
+} from "@/lib/deployment-progress";
+import {
+  DEFAULT_POOLER_SETTINGS,
+  type PoolerSettings,
+} from "@/lib/pooler-config";
+import {
+  DEFAULT_POSTGRES_SETTINGS,
+  type PostgresSettings,
+} from "@/lib/postgres-config";
+import {
+  DEFAULT_REDIS_SETTINGS,
+  type RedisSettings,
+} from "@/lib/redis-config";
+import {
+  DEFAULT_REPLICATION_SETTINGS,
+  type ReplicationSettings,
+} from "@/lib/replication-config";
+import {
+  DEFAULT_RESOURCE_PRESET,
+  type DeploymentResources,
+  parseMemoryQuantity,
+  RESOURCE_PRESETS,
+  type ResourcePreset,
+} from "@/lib/resources";
+import {
+  PoolerSettingsForm,
+  PostgresSettingsForm,
+  RedisSettingsForm,
+  ReplicationSettingsForm,
+} from "./_components";
 
 interface DockerTag {
   name: string;
@@ -41,38 +81,22 @@ export default function DeployAppPage() {
   const router = useRouter();
   const appId = params.id as string;
 
-  // App-specific configuration
-  const appConfig = {
-    postgres: {
-      name: "PostgreSQL",
-      icon: SiPostgresql,
-      color: "bg-blue-500/80",
-      defaultPort: "30432",
-      internalPort: 5432,
-      defaultEnvVars: {
-        POSTGRES_USER: "postgres",
-        POSTGRES_PASSWORD: "",
-        POSTGRES_DB: "postgres",
-      },
-    },
-    redis: {
-      name: "Redis",
-      icon: SiRedis,
-      color: "bg-red-500/80",
-      defaultPort: "30379",
-      internalPort: 6379,
-      defaultEnvVars: {
-        REDIS_PASSWORD: "",
-      },
-    },
-  };
-
-  const currentApp = appConfig[appId as keyof typeof appConfig] || appConfig.postgres;
+  // App-specific configuration comes from the template registry
+  const currentApp = getAppTemplate(appId) || appTemplates[0];
+  const AppIcon = templateIcons[currentApp.icon];
+  const formEnvVars = currentApp.env.filter((env) => !env.internal);
 
   const [tags, setTags] = useState<DockerTag[]>([]);
   const [loading, setLoading] = useState(true);
   const [deploying, setDeploying] = useState(false);
   const [showDialog, setShowDialog] = useState(false);
+  const [progress, setProgress] = useState<{
+    state: "deploying" | "ready" | "failed";
+    steps: ProgressStep[];
+    events: ProgressClusterEvent[];
+    message?: string | null;
+  }>({ state: "deploying", steps: [], events: [] });
+  const progressSource = useRef<EventSource | null>(null);
   const [deploymentResult, setDeploymentResult] = useState<{
     success: boolean;
     message?: string;
@@ -82,31 +106,52 @@ export default function DeployAppPage() {
       image: string;
       namespace: string;
       nodePort: number;
+      poolerNodePort: number | null;
+      readOnlyNodePort: number | null;
       externalUrl: string;
       argocdUrl: string;
       status: string;
     };
-    credentials?: {
-      user?: string;
-      password: string;
-      database?: string;
-    };
+    credentials?: TemplateCredentials;
   } | null>(null);
   const [selectedTag, setSelectedTag] = useState<string>("");
   const [containerName, setContainerName] = useState("");
 
   // Initialize port and envVars based on appId to prevent hydration mismatch
-  const [port, setPort] = useState(() => {
-    const config = appConfig[appId as keyof typeof appConfig] || appConfig.postgres;
-    return config.defaultPort;
-  });
-  const [pvcSize, setPvcSize] = useState("10");
-  const [envVars, setEnvVars] = useState<Record<string, string>>(() => {
-    const config = appConfig[appId as keyof typeof appConfig] || appConfig.postgres;
-    return config.defaultEnvVars;
-  });
+  const [port, setPort] = useState(() => currentApp.defaultNodePort);
+  const [pvcSize, setPvcSize] = useState(() =>
+    String(currentApp.storage.defaultSize),
+  );
+  const [resourcePreset, setResourcePreset] = useState<ResourcePreset>(
+    DEFAULT_RESOURCE_PRESET,
+  );
+  const [customResources, setCustomResources] = useState<DeploymentResources>(
+    () => {
+      const { label: _label, ...defaults } =
+        RESOURCE_PRESETS[DEFAULT_RESOURCE_PRESET];
+      return defaults;
+    },
+  );
+  const [redisSettings, setRedisSettings] = useState<RedisSettings>(
+    DEFAULT_REDIS_SETTINGS,
+  );
+  const [postgresSettings, setPostgresSettings] = useState<PostgresSettings>(
+    DEFAULT_POSTGRES_SETTINGS,
+  );
+  const [poolerEnabled, setPoolerEnabled] = useState(false);
+  const [poolerSettings, setPoolerSettings] = useState<PoolerSettings>(
+    DEFAULT_POOLER_SETTINGS,
+  );
+  const [replicationEnabled, setReplicationEnabled] = useState(false);
+  const [replicationSettings, setReplicationSettings] =
+    useState<ReplicationSettings>(DEFAULT_REPLICATION_SETTINGS);
+  const [envVars, setEnvVars] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      formEnvVars.map((env) => [env.key, env.generate ? "" : env.default || ""]),
+    ),
+  );
 
-  const generatePassword = () => {
+  const generatePassword = (key: string) => {
     // Generate strong password (32 chars, alphanumeric + special)
     const charset =
       "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*()-_=+";
@@ -118,12 +163,7 @@ export default function DeployAppPage() {
       password += charset[randomBytes[i] % charset.length];
     }
 
-    // Set password based on app type
-    if (appId === "postgres") {
-      setEnvVars({ ...envVars, POSTGRES_PASSWORD: password });
-    } else if (appId === "redis") {
-      setEnvVars({ ...envVars, REDIS_PASSWORD: password });
-    }
+    setEnvVars({ ...envVars, [key]: password });
   };
 
   const copyToClipboard = (text: string, label?: string) => {
@@ -145,10 +185,19 @@ export default function DeployAppPage() {
     }
   };
 
-  // Helper function to URL encode password for connection string
-  const urlEncodePassword = (password: string): string => {
-    return encodeURIComponent(password);
-  };
+  // Connection parameters for the template's connection string and CLI command
+  const getConnectionParams = (
+    deployment: { externalUrl: string; nodePort: number },
+    credentials: TemplateCredentials,
+  ) => ({
+    host: getHostFromUrl(deployment.externalUrl),
+    port: deployment.nodePort,
+    credentials,
+  });
+
+  const missingRequiredEnv = formEnvVars.some(
+    (env) => env.required && !envVars[env.key],
+  );
 
   useEffect(() => {
     fetchTags();
@@ -157,7 +206,7 @@ export default function DeployAppPage() {
   const fetchTags = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/docker/tags?image=${appId}&limit=20`);
+      const response = await fetch(`/api/docker/tags?image=${currentApp.image}&limit=20`);
       const data: TagsResponse = await response.json();
 
       if (data.tags) {
@@ -179,38 +228,64 @@ export default function DeployAppPage() {
       setDeploying(true);
       setDeploymentResult(null);
 
-      const response = await fetch(`/api/deploy/${appId}`, {
+      const response = await fetch(`/api/deploy/${currentApp.id}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          image: appId,
           tag: selectedTag,
-          containerName: containerName || `${appId}-${selectedTag.replace(/\./g, "-")}`,
+          containerName: containerName || `${currentApp.id}-${selectedTag.replace(/\./g, "-")}`,
           port,
           pvcSize,
           envVars,
+          resources:
+            resourcePreset === "custom"
+              ? { preset: resourcePreset, ...customResources }
+              : { preset: resourcePreset },
+          settings:
+            currentApp.type === "redis"
+              ? redisSettings
+              : currentApp.type === "postgres"
+                ? postgresSettings
+                : undefined,
+          pooler:
+            currentApp.type === "postgres" && poolerEnabled
+              ? poolerSettings
+              : undefined,
+          replication:
+            currentApp.type === "postgres" && replicationEnabled
+              ? { readReplicas: replicationSettings.readReplicas }
+              : undefined,
         }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || "Deployment failed");
+        throw new Error(
+          [
+            data.error || "Deployment failed",
+            data.step && `failed at ${data.step}`,
+            ...[data.details].flat(),
+          ]
+            .filter(Boolean)
+            .join(": "),
+        );
       }
 
       setDeploymentResult({
         success: true,
-        message: data.message,
+        message: `${currentApp.name} deployment created successfully`,
         deployment: data.deployment,
         credentials: data.credentials,
       });
 
-      // Open the dialog
+      // Kubernetes work runs in a background job, the dialog follows its progress
+      followProgress(data.deployment.id);
       setShowDialog(true);
 
-      console.log("Deployment successful:", data);
+      console.log("Deployment queued:", data);
     } catch (error) {
       console.error("Deployment error:", error);
       setDeploymentResult({
@@ -222,6 +297,105 @@ export default function DeployAppPage() {
     }
   };
 
+  // Subscribe to the deployment's progress stream (Server-Sent Events)
+  const followProgress = (deploymentId: string) => {
+    progressSource.current?.close();
+    setProgress({ state: "deploying", steps: [], events: [] });
+
+    const source = new EventSource(`/api/deployments/${deploymentId}/progress`);
+    progressSource.current = source;
+
+    source.addEventListener("steps", (event) => {
+      setProgress((prev) => ({ ...prev, steps: JSON.parse(event.data) }));
+    });
+
+    source.addEventListener("step", (event) => {
+      const step: ProgressStep = JSON.parse(event.data);
+      setProgress((prev) => ({
+        ...prev,
+        steps: prev.steps.map((s) => (s.id === step.id ? step : s)),
+      }));
+    });
+
+    source.addEventListener("event", (event) => {
+      const clusterEvent: ProgressClusterEvent = JSON.parse(event.data);
+      setProgress((prev) => ({
+        ...prev,
+        events: [...prev.events, clusterEvent].slice(-50),
+      }));
+    });
+
+    source.addEventListener("status", (event) => {
+      const { status, errorMessage } = JSON.parse(event.data);
+      setProgress((prev) => ({ ...prev, message: errorMessage }));
+      setDeploymentResult((prev) =>
+        prev?.deployment
+          ? { ...prev, deployment: { ...prev.deployment, status } }
+          : prev,
+      );
+    });
+
+    // Close before the server ends the stream, otherwise EventSource reconnects
+    source.addEventListener("complete", (event) => {
+      source.close();
+      const { steps } = JSON.parse(event.data);
+      setProgress((prev) => ({ ...prev, state: "ready", steps, message: null }));
+    });
+
+    source.addEventListener("failed", (event) => {
+      source.close();
+      const { errorMessage } = JSON.parse(event.data);
+      setProgress((prev) => ({
+        ...prev,
+        state: "failed",
+        message: errorMessage || "Deployment failed",
+      }));
+    });
+  };
+
+  // Stop following progress when leaving the page
+  useEffect(() => () => progressSource.current?.close(), []);
+
+  const connectionParams =
+    deploymentResult?.deployment && deploymentResult.credentials
+      ? getConnectionParams(
+          deploymentResult.deployment,
+          deploymentResult.credentials,
+        )
+      : null;
+  const connectionString =
+    connectionParams && currentApp.connectionString(connectionParams);
+  const cliCommand = connectionParams && currentApp.cli.command(connectionParams);
+
+  // Same credentials as the database, through PgBouncer's NodePort
+  const poolerConnectionString =
+    deploymentResult?.deployment?.poolerNodePort && deploymentResult.credentials
+      ? currentApp.connectionString(
+          getConnectionParams(
+            {
+              externalUrl: deploymentResult.deployment.externalUrl,
+              nodePort: deploymentResult.deployment.poolerNodePort,
+            },
+            deploymentResult.credentials,
+          ),
+        )
+      : null;
+
+  // Same credentials, through the read replicas' NodePort
+  const readOnlyConnectionString =
+    deploymentResult?.deployment?.readOnlyNodePort &&
+    deploymentResult.credentials
+      ? currentApp.connectionString(
+          getConnectionParams(
+            {
+              externalUrl: deploymentResult.deployment.externalUrl,
+              nodePort: deploymentResult.deployment.readOnlyNodePort,
+            },
+            deploymentResult.credentials,
+          ),
+        )
+      : null;
+
   return (
     <div className="flex flex-1 flex-col gap-6">
       {/* Header */}
@@ -237,14 +411,14 @@ export default function DeployAppPage() {
 
         <div className="flex items-center gap-3">
           <div className={cn("flex h-12 w-12 items-center justify-center rounded-md border border-primary/80", currentApp.color)}>
-            <currentApp.icon className="h-6 w-6 text-white" />
+            <AppIcon className="h-6 w-6 text-white" />
           </div>
           <div>
             <h1 className="text-2xl font-bold tracking-tight text-primary/80">
               Deploy {currentApp.name}
             </h1>
             <p className="text-sm text-muted-foreground">
-              Configure and deploy your {appId === "postgres" ? "database" : "cache"}
+              Configure and deploy your {currentApp.kind}
             </p>
           </div>
         </div>
@@ -316,14 +490,18 @@ export default function DeployAppPage() {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
               {/* Container Name */}
               <div>
-                <label className="block text-xs font-medium text-primary/80 mb-2">
+                <label
+                  htmlFor="deploy-container-name"
+                  className="block text-xs font-medium text-primary/80 mb-2"
+                >
                   Container Name
                 </label>
                 <input
+                  id="deploy-container-name"
                   type="text"
                   value={containerName}
                   onChange={(e) => setContainerName(e.target.value)}
-                  placeholder={`my-${appId}`}
+                  placeholder={`my-${currentApp.id}`}
                   autoComplete="off"
                   className="w-full h-9 px-3 text-xs rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
                 />
@@ -331,10 +509,14 @@ export default function DeployAppPage() {
 
               {/* Port */}
               <div>
-                <label className="block text-xs font-medium text-primary/80 mb-2">
+                <label
+                  htmlFor="deploy-port"
+                  className="block text-xs font-medium text-primary/80 mb-2"
+                >
                   Port
                 </label>
                 <input
+                  id="deploy-port"
                   type="text"
                   value={port}
                   onChange={(e) => setPort(e.target.value)}
@@ -348,10 +530,14 @@ export default function DeployAppPage() {
 
               {/* PVC Size */}
               <div>
-                <label className="block text-xs font-medium text-primary/80 mb-2">
+                <label
+                  htmlFor="deploy-pvc-size"
+                  className="block text-xs font-medium text-primary/80 mb-2"
+                >
                   Storage Size (GB)
                 </label>
                 <input
+                  id="deploy-pvc-size"
                   type="number"
                   value={pvcSize}
                   onChange={(e) => setPvcSize(e.target.value)}
@@ -367,127 +553,201 @@ export default function DeployAppPage() {
             </div>
           </div>
 
-          {/* Environment Variables */}
+          {/* Resources */}
           <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4">
             <h2 className="text-lg font-semibold text-primary/80 mb-4">
-              Environment Variables
+              Resources
             </h2>
 
-            {appId === "postgres" ? (
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                <div>
-                  <label className="block text-xs font-medium text-primary/80 mb-2">
-                    POSTGRES_USER
-                  </label>
-                  <input
-                    type="text"
-                    value={envVars.POSTGRES_USER || ""}
-                    onChange={(e) =>
-                      setEnvVars({ ...envVars, POSTGRES_USER: e.target.value })
-                    }
-                    autoComplete="off"
-                    className="w-full h-9 px-3 text-xs rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm text-primary/80 focus:outline-none focus:ring-2 focus:ring-primary/20"
-                  />
-                </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {(
+                Object.entries(RESOURCE_PRESETS) as [
+                  Exclude<ResourcePreset, "custom">,
+                  (typeof RESOURCE_PRESETS)[keyof typeof RESOURCE_PRESETS],
+                ][]
+              ).map(([preset, values]) => (
+                <button
+                  key={preset}
+                  type="button"
+                  onClick={() => setResourcePreset(preset)}
+                  className={cn(
+                    "rounded-md border border-primary/80 border-r-[3px] p-3 text-left text-xs shadow-sm transition-colors",
+                    resourcePreset === preset
+                      ? "bg-primary/10"
+                      : "bg-card hover:bg-muted/30",
+                  )}
+                >
+                  <p className="font-semibold text-primary/80">{values.label}</p>
+                  <p className="font-mono text-muted-foreground mt-1">
+                    {values.cpuLimit} / {values.memoryLimit}
+                  </p>
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => setResourcePreset("custom")}
+                className={cn(
+                  "rounded-md border border-primary/80 border-r-[3px] p-3 text-left text-xs shadow-sm transition-colors",
+                  resourcePreset === "custom"
+                    ? "bg-primary/10"
+                    : "bg-card hover:bg-muted/30",
+                )}
+              >
+                <p className="font-semibold text-primary/80">Custom</p>
+                <p className="font-mono text-muted-foreground mt-1">
+                  Set requests & limits
+                </p>
+              </button>
+            </div>
 
-                <div>
-                  <label className="block text-xs font-medium text-primary/80 mb-2">
-                    POSTGRES_PASSWORD *
-                  </label>
-                  <div className="flex gap-2">
+            {resourcePreset === "custom" && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4">
+                {(
+                  [
+                    ["cpuRequest", "CPU Request"],
+                    ["cpuLimit", "CPU Limit"],
+                    ["memoryRequest", "Memory Request"],
+                    ["memoryLimit", "Memory Limit"],
+                  ] as [keyof DeploymentResources, string][]
+                ).map(([key, label]) => (
+                  <div key={key}>
+                    <label
+                      htmlFor={`deploy-resource-${key}`}
+                      className="block text-xs font-medium text-primary/80 mb-2"
+                    >
+                      {label}
+                    </label>
                     <input
-                      type="password"
-                      value={envVars.POSTGRES_PASSWORD || ""}
-                      readOnly
-                      placeholder="Click generate button"
-                      autoComplete="new-password"
-                      className="flex-1 h-9 px-3 text-xs rounded-md border border-primary/80 border-r-[3px] bg-muted/30 shadow-sm text-primary/80 placeholder:text-muted-foreground cursor-not-allowed"
+                      id={`deploy-resource-${key}`}
+                      type="text"
+                      value={customResources[key]}
+                      onChange={(e) =>
+                        setCustomResources({
+                          ...customResources,
+                          [key]: e.target.value,
+                        })
+                      }
+                      autoComplete="off"
+                      className="w-full h-9 px-3 text-xs font-mono rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm text-primary/80 focus:outline-none focus:ring-2 focus:ring-primary/20"
                     />
-                    <motion.button
-                      type="button"
-                      onClick={generatePassword}
-                      className="relative flex h-9 w-9 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-green-500/80 shadow-sm transition-colors isolate"
-                      whileHover={{ scale: 1.05 }}
-                      whileTap={{ scale: 0.95 }}
-                      title="Generate Password"
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {currentApp.type === "postgres" && (
+            <PostgresSettingsForm
+              value={postgresSettings}
+              onChange={setPostgresSettings}
+              memoryLimitMi={parseMemoryQuantity(
+                resourcePreset === "custom"
+                  ? customResources.memoryLimit
+                  : RESOURCE_PRESETS[resourcePreset].memoryLimit,
+              )}
+            />
+          )}
+
+          {currentApp.type === "postgres" && (
+            <PoolerSettingsForm
+              enabled={poolerEnabled}
+              onEnabledChange={setPoolerEnabled}
+              value={poolerSettings}
+              onChange={setPoolerSettings}
+            />
+          )}
+
+          {currentApp.type === "postgres" && (
+            <ReplicationSettingsForm
+              enabled={replicationEnabled}
+              onEnabledChange={setReplicationEnabled}
+              value={replicationSettings}
+              onChange={setReplicationSettings}
+            />
+          )}
+
+          {currentApp.type === "redis" && (
+            <RedisSettingsForm
+              value={redisSettings}
+              onChange={setRedisSettings}
+            />
+          )}
+
+          {/* Environment Variables */}
+          <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4">
+            <h2 className="text-lg font-semibold text-primary/80 mb-4">
+              Environment Variables
+            </h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {formEnvVars.map((env) =>
+                env.generate ? (
+                  <div key={env.key}>
+                    <label
+                      htmlFor={`deploy-env-${env.key}`}
+                      className="block text-xs font-medium text-primary/80 mb-2"
                     >
-                      <MdKey className="h-4 w-4 text-white" />
-                    </motion.button>
-                    {envVars.POSTGRES_PASSWORD && (
+                      {env.key}
+                      {env.required && " *"}
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        id={`deploy-env-${env.key}`}
+                        type="password"
+                        value={envVars[env.key] || ""}
+                        readOnly
+                        placeholder="Click generate button"
+                        autoComplete="new-password"
+                        className="flex-1 h-9 px-3 text-xs rounded-md border border-primary/80 border-r-[3px] bg-muted/30 shadow-sm text-primary/80 placeholder:text-muted-foreground cursor-not-allowed"
+                      />
                       <motion.button
                         type="button"
-                        onClick={() =>
-                          navigator.clipboard.writeText(envVars.POSTGRES_PASSWORD || "")
-                        }
-                        className="relative flex h-9 w-9 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
+                        onClick={() => generatePassword(env.key)}
+                        className="relative flex h-9 w-9 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-green-500/80 shadow-sm transition-colors isolate"
                         whileHover={{ scale: 1.05 }}
                         whileTap={{ scale: 0.95 }}
-                        title="Copy Password"
+                        title="Generate Password"
                       >
-                        <MdContentCopy className="h-4 w-4 text-white" />
+                        <MdKey className="h-4 w-4 text-white" />
                       </motion.button>
-                    )}
+                      {envVars[env.key] && (
+                        <motion.button
+                          type="button"
+                          onClick={() =>
+                            navigator.clipboard.writeText(envVars[env.key] || "")
+                          }
+                          className="relative flex h-9 w-9 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          title="Copy Password"
+                        >
+                          <MdContentCopy className="h-4 w-4 text-white" />
+                        </motion.button>
+                      )}
+                    </div>
                   </div>
-                </div>
-
-                <div>
-                  <label className="block text-xs font-medium text-primary/80 mb-2">
-                    POSTGRES_DB
-                  </label>
-                  <input
-                    type="text"
-                    value={envVars.POSTGRES_DB || ""}
-                    onChange={(e) =>
-                      setEnvVars({ ...envVars, POSTGRES_DB: e.target.value })
-                    }
-                    autoComplete="off"
-                    className="w-full h-9 px-3 text-xs rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm text-primary/80 focus:outline-none focus:ring-2 focus:ring-primary/20"
-                  />
-                </div>
-              </div>
-            ) : appId === "redis" ? (
-              <div className="grid grid-cols-1 gap-3">
-                <div>
-                  <label className="block text-xs font-medium text-primary/80 mb-2">
-                    REDIS_PASSWORD *
-                  </label>
-                  <div className="flex gap-2">
+                ) : (
+                  <div key={env.key}>
+                    <label
+                      htmlFor={`deploy-env-${env.key}`}
+                      className="block text-xs font-medium text-primary/80 mb-2"
+                    >
+                      {env.key}
+                    </label>
                     <input
-                      type="password"
-                      value={envVars.REDIS_PASSWORD || ""}
-                      readOnly
-                      placeholder="Click generate button"
-                      autoComplete="new-password"
-                      className="flex-1 h-9 px-3 text-xs rounded-md border border-primary/80 border-r-[3px] bg-muted/30 shadow-sm text-primary/80 placeholder:text-muted-foreground cursor-not-allowed"
+                      id={`deploy-env-${env.key}`}
+                      type={env.secret ? "password" : "text"}
+                      value={envVars[env.key] || ""}
+                      onChange={(e) =>
+                        setEnvVars({ ...envVars, [env.key]: e.target.value })
+                      }
+                      autoComplete="off"
+                      className="w-full h-9 px-3 text-xs rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm text-primary/80 focus:outline-none focus:ring-2 focus:ring-primary/20"
                     />
-                    <motion.button
-                      type="button"
-                      onClick={generatePassword}
-                      className="relative flex h-9 w-9 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-green-500/80 shadow-sm transition-colors isolate"
-                      whileHover={{ scale: 1.05 }}
-                      whileTap={{ scale: 0.95 }}
-                      title="Generate Password"
-                    >
-                      <MdKey className="h-4 w-4 text-white" />
-                    </motion.button>
-                    {envVars.REDIS_PASSWORD && (
-                      <motion.button
-                        type="button"
-                        onClick={() =>
-                          navigator.clipboard.writeText(envVars.REDIS_PASSWORD || "")
-                        }
-                        className="relative flex h-9 w-9 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                        title="Copy Password"
-                      >
-                        <MdContentCopy className="h-4 w-4 text-white" />
-                      </motion.button>
-                    )}
                   </div>
-                </div>
-              </div>
-            ) : null}
+                ),
+              )}
+            </div>
           </div>
         </div>
 
@@ -503,25 +763,25 @@ export default function DeployAppPage() {
               <div>
                 <span className="text-muted-foreground">Image:</span>
                 <p className="font-mono text-primary/80 mt-1">
-                  {appId}:{selectedTag || "latest"}
+                  {currentApp.image}:{selectedTag || "latest"}
                 </p>
               </div>
 
               <div>
                 <span className="text-muted-foreground">Docker Hub:</span>
                 <a
-                  href={`https://hub.docker.com/_/${appId}`}
+                  href={`https://hub.docker.com/_/${currentApp.image}`}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="flex items-center gap-1 font-mono text-primary/80 hover:text-primary mt-1 underline underline-offset-2 text-[10px]"
                 >
-                  hub.docker.com/_/{appId}
+                  hub.docker.com/_/{currentApp.image}
                 </a>
               </div>
 
               <div>
                 <span className="text-muted-foreground">Port:</span>
-                <p className="font-mono text-primary/80 mt-1">{port}:{currentApp.internalPort}</p>
+                <p className="font-mono text-primary/80 mt-1">{port}:{currentApp.ports[0].containerPort}</p>
               </div>
 
               <div>
@@ -529,6 +789,15 @@ export default function DeployAppPage() {
                 <p className="font-mono text-primary/80 mt-1">{pvcSize} GB</p>
               </div>
 
+              <div>
+                <span className="text-muted-foreground">Resources:</span>
+                <p className="font-mono text-primary/80 mt-1">
+                  {resourcePreset === "custom"
+                    ? `${customResources.cpuLimit} / ${customResources.memoryLimit}`
+                    : `${RESOURCE_PRESETS[resourcePreset].cpuLimit} / ${RESOURCE_PRESETS[resourcePreset].memoryLimit}`}
+                </p>
+              </div>
+
               {containerName && (
                 <div>
                   <span className="text-muted-foreground">Container:</span>
@@ -572,12 +841,7 @@ export default function DeployAppPage() {
           {/* Deploy Button */}
           <motion.button
             onClick={handleDeploy}
-            disabled={
-              !selectedTag ||
-              (appId === "postgres" && !envVars.POSTGRES_PASSWORD) ||
-              (appId === "redis" && !envVars.REDIS_PASSWORD) ||
-              deploying
-            }
+            disabled={!selectedTag || missingRequiredEnv || deploying}
             className="relative flex h-12 w-full items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-primary/80 shadow-sm transition-colors isolate font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed"
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
@@ -590,14 +854,90 @@ export default function DeployAppPage() {
             <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle className="flex items-center gap-2">
-                  <MdCheckCircle className="h-6 w-6 text-green-500" />
-                  Deployment Successful!
+                  {progress.state === "ready" && (
+                    <>
+                      <MdCheckCircle className="h-6 w-6 text-green-500" />
+                      Deployment Successful!
+                    </>
+                  )}
+                  {progress.state === "deploying" && (
+                    <>
+                      <MdRefresh className="h-6 w-6 text-primary/80 animate-spin" />
+                      Deploying {currentApp.name}...
+                    </>
+                  )}
+                  {progress.state === "failed" && (
+                    <>
+                      <MdError className="h-6 w-6 text-red-500" />
+                      Deployment Failed
+                    </>
+                  )}
                 </DialogTitle>
                 <DialogDescription>
-                  Your {currentApp.name} {appId === "postgres" ? "database" : "cache"} has been deployed successfully. Here are your connection details.
+                  {progress.state === "ready" &&
+                    `Your ${currentApp.name} ${currentApp.kind} has been deployed successfully. Here are your connection details.`}
+                  {progress.state === "deploying" &&
+                    `Your ${currentApp.name} ${currentApp.kind} is starting. Connection details work once the readiness check passed.`}
+                  {progress.state === "failed" && progress.message}
                 </DialogDescription>
               </DialogHeader>
 
+              {/* Progress Timeline */}
+              {progress.steps.length > 0 && (
+                <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4 mt-4">
+                  <h3 className="text-sm font-semibold text-primary/80 mb-3">Progress</h3>
+                  <ol className="space-y-2">
+                    {progress.steps.map((step, index) => {
+                      const current =
+                        progress.state === "deploying" &&
+                        !step.done &&
+                        progress.steps.slice(0, index).every((s) => s.done);
+                      return (
+                        <li key={step.id} className="flex items-center gap-2 text-xs">
+                          {step.done ? (
+                            <MdCheckCircle className="h-4 w-4 shrink-0 text-green-500" />
+                          ) : current ? (
+                            <MdRefresh className="h-4 w-4 shrink-0 text-primary/80 animate-spin" />
+                          ) : progress.state === "failed" ? (
+                            <MdError className="h-4 w-4 shrink-0 text-red-500" />
+                          ) : (
+                            <MdRadioButtonUnchecked className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          )}
+                          <span className={cn(step.done || current ? "text-primary/80" : "text-muted-foreground")}>
+                            {step.label}
+                          </span>
+                          {step.at && (
+                            <span className="ml-auto font-mono text-[10px] text-muted-foreground">
+                              {new Date(step.at).toLocaleTimeString()}
+                            </span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+
+                  {progress.state === "deploying" && progress.message && (
+                    <p className="mt-3 text-xs text-orange-600 dark:text-orange-400">{progress.message}</p>
+                  )}
+
+                  {progress.events.length > 0 && (
+                    <div className="mt-3 max-h-32 overflow-y-auto rounded-md border border-primary/20 bg-primary/5 p-2 space-y-1">
+                      {progress.events.map((event, index) => (
+                        <p
+                          key={`${event.at}-${index}`}
+                          className={cn(
+                            "font-mono text-[10px]",
+                            event.warning ? "text-red-600 dark:text-red-400" : "text-muted-foreground",
+                          )}
+                        >
+                          {new Date(event.at).toLocaleTimeString()} {event.reason} {event.object}: {event.message}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {deploymentResult && deploymentResult.success && deploymentResult.deployment && (
             <div className="space-y-4 mt-4">
               {/* External URL */}
@@ -616,7 +956,7 @@ export default function DeployAppPage() {
                     {deploymentResult.deployment.externalUrl}
                   </a>
                   <motion.button
-                    onClick={() => copyToClipboard(deploymentResult.deployment!.externalUrl, "External URL")}
+                    onClick={() => copyToClipboard(deploymentResult.deployment?.externalUrl ?? "", "External URL")}
                     className="relative flex h-8 w-8 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
@@ -640,24 +980,25 @@ export default function DeployAppPage() {
               {deploymentResult.credentials && (
                 <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4">
                   <h3 className="text-sm font-semibold text-primary/80 mb-3">
-                    {appId === "postgres" ? "Database" : "Cache"} Credentials
+                    {currentApp.kind === "database" ? "Database" : "Cache"} Credentials
                   </h3>
 
                   <div className="space-y-2">
-                    {/* PostgreSQL: User, Password, Database */}
-                    {appId === "postgres" && deploymentResult.credentials.user && (
+                    {/* User (apps with user accounts) */}
+                    {deploymentResult.credentials.user && (
                       <>
                         <div>
-                          <label className="block text-[10px] text-muted-foreground mb-1">Username</label>
+                          <label htmlFor="credentials-username" className="block text-[10px] text-muted-foreground mb-1">Username</label>
                           <div className="flex items-center gap-2">
                             <input
+                              id="credentials-username"
                               type="text"
                               value={deploymentResult.credentials.user}
                               readOnly
                               className="flex-1 px-3 py-1.5 text-xs font-mono rounded-md border border-primary/80 bg-muted/30 text-primary/80"
                             />
                             <motion.button
-                              onClick={() => copyToClipboard(deploymentResult.credentials!.user || "", "Username")}
+                              onClick={() => copyToClipboard(deploymentResult.credentials?.user || "", "Username")}
                               className="relative flex h-7 w-7 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
                               whileHover={{ scale: 1.05 }}
                               whileTap={{ scale: 0.95 }}
@@ -669,18 +1010,19 @@ export default function DeployAppPage() {
                       </>
                     )}
 
-                    {/* Password (for both PostgreSQL and Redis) */}
+                    {/* Password (for every app type) */}
                     <div>
-                      <label className="block text-[10px] text-muted-foreground mb-1">Password</label>
+                      <label htmlFor="credentials-password" className="block text-[10px] text-muted-foreground mb-1">Password</label>
                       <div className="flex items-center gap-2">
                         <input
+                          id="credentials-password"
                           type="password"
                           value={deploymentResult.credentials.password}
                           readOnly
                           className="flex-1 px-3 py-1.5 text-xs font-mono rounded-md border border-primary/80 bg-muted/30 text-primary/80"
                         />
                         <motion.button
-                          onClick={() => copyToClipboard(deploymentResult.credentials!.password, "Password")}
+                          onClick={() => copyToClipboard(deploymentResult.credentials?.password ?? "", "Password")}
                           className="relative flex h-7 w-7 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
                           whileHover={{ scale: 1.05 }}
                           whileTap={{ scale: 0.95 }}
@@ -690,18 +1032,44 @@ export default function DeployAppPage() {
                       </div>
                     </div>
 
-                    {appId === "postgres" && deploymentResult.credentials.database && (
+                    {/* Database (apps with named databases) */}
+                    {deploymentResult.credentials.database && (
                       <div>
-                        <label className="block text-[10px] text-muted-foreground mb-1">Database</label>
+                        <label htmlFor="credentials-database" className="block text-[10px] text-muted-foreground mb-1">Database</label>
                         <div className="flex items-center gap-2">
                           <input
+                            id="credentials-database"
                             type="text"
                             value={deploymentResult.credentials.database}
                             readOnly
                             className="flex-1 px-3 py-1.5 text-xs font-mono rounded-md border border-primary/80 bg-muted/30 text-primary/80"
                           />
                           <motion.button
-                            onClick={() => copyToClipboard(deploymentResult.credentials!.database || "", "Database")}
+                            onClick={() => copyToClipboard(deploymentResult.credentials?.database || "", "Database")}
+                            className="relative flex h-7 w-7 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                          >
+                            <MdContentCopy className="h-3 w-3 text-white" />
+                          </motion.button>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Root Password (apps with a separate admin account) */}
+                    {deploymentResult.credentials.rootPassword && (
+                      <div>
+                        <label htmlFor="credentials-root-password" className="block text-[10px] text-muted-foreground mb-1">Root Password</label>
+                        <div className="flex items-center gap-2">
+                          <input
+                            id="credentials-root-password"
+                            type="password"
+                            value={deploymentResult.credentials.rootPassword}
+                            readOnly
+                            className="flex-1 px-3 py-1.5 text-xs font-mono rounded-md border border-primary/80 bg-muted/30 text-primary/80"
+                          />
+                          <motion.button
+                            onClick={() => copyToClipboard(deploymentResult.credentials?.rootPassword || "", "Root Password")}
                             className="relative flex h-7 w-7 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
                             whileHover={{ scale: 1.05 }}
                             whileTap={{ scale: 0.95 }}
@@ -715,21 +1083,13 @@ export default function DeployAppPage() {
 
                   {/* Connection String */}
                   <div className="mt-4 pt-4 border-t border-primary/20">
-                    <label className="block text-[10px] text-muted-foreground mb-1">Connection String (URL Encoded)</label>
+                    <p className="block text-[10px] text-muted-foreground mb-1">Connection String (URL Encoded)</p>
                     <div className="flex items-start gap-2">
                       <code className="flex-1 px-3 py-2 text-[10px] font-mono rounded-md border border-primary/80 bg-muted/30 text-primary/80 break-all">
-                        {appId === "postgres"
-                          ? `postgresql://${deploymentResult.credentials.user}:${urlEncodePassword(deploymentResult.credentials.password)}@${getHostFromUrl(deploymentResult.deployment.externalUrl)}:${deploymentResult.deployment.nodePort}/${deploymentResult.credentials.database}`
-                          : `redis://:${urlEncodePassword(deploymentResult.credentials.password)}@${getHostFromUrl(deploymentResult.deployment.externalUrl)}:${deploymentResult.deployment.nodePort}`
-                        }
+                        {connectionString}
                       </code>
                       <motion.button
-                        onClick={() => copyToClipboard(
-                          appId === "postgres"
-                            ? `postgresql://${deploymentResult.credentials!.user}:${urlEncodePassword(deploymentResult.credentials!.password)}@${getHostFromUrl(deploymentResult.deployment!.externalUrl)}:${deploymentResult.deployment!.nodePort}/${deploymentResult.credentials!.database}`
-                            : `redis://:${urlEncodePassword(deploymentResult.credentials!.password)}@${getHostFromUrl(deploymentResult.deployment!.externalUrl)}:${deploymentResult.deployment!.nodePort}`,
-                          "Connection String"
-                        )}
+                        onClick={() => copyToClipboard(connectionString ?? "", "Connection String")}
                         className="relative flex h-7 w-7 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
                         whileHover={{ scale: 1.05 }}
                         whileTap={{ scale: 0.95 }}
@@ -739,25 +1099,57 @@ export default function DeployAppPage() {
                     </div>
                   </div>
 
+                  {/* Pooler Connection String */}
+                  {poolerConnectionString && (
+                    <div className="mt-4 pt-4 border-t border-primary/20">
+                      <p className="block text-[10px] text-muted-foreground mb-1">Pooler Connection String (PgBouncer)</p>
+                      <div className="flex items-start gap-2">
+                        <code className="flex-1 px-3 py-2 text-[10px] font-mono rounded-md border border-primary/80 bg-muted/30 text-primary/80 break-all">
+                          {poolerConnectionString}
+                        </code>
+                        <motion.button
+                          onClick={() => copyToClipboard(poolerConnectionString, "Pooler Connection String")}
+                          className="relative flex h-7 w-7 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                        >
+                          <MdContentCopy className="h-3 w-3 text-white" />
+                        </motion.button>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Read Replicas Connection String */}
+                  {readOnlyConnectionString && (
+                    <div className="mt-4 pt-4 border-t border-primary/20">
+                      <p className="block text-[10px] text-muted-foreground mb-1">Read Replicas Connection String (read-only)</p>
+                      <div className="flex items-start gap-2">
+                        <code className="flex-1 px-3 py-2 text-[10px] font-mono rounded-md border border-primary/80 bg-muted/30 text-primary/80 break-all">
+                          {readOnlyConnectionString}
+                        </code>
+                        <motion.button
+                          onClick={() => copyToClipboard(readOnlyConnectionString, "Read Replicas Connection String")}
+                          className="relative flex h-7 w-7 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                        >
+                          <MdContentCopy className="h-3 w-3 text-white" />
+                        </motion.button>
+                      </div>
+                    </div>
+                  )}
+
                   {/* CLI Command */}
                   <div className="mt-4 pt-4 border-t border-primary/20">
-                    <label className="block text-[10px] text-muted-foreground mb-1">
-                      {appId === "postgres" ? "PSQL Command" : "Redis CLI Command"}
-                    </label>
+                    <p className="block text-[10px] text-muted-foreground mb-1">
+                      {currentApp.cli.label}
+                    </p>
                     <div className="flex items-start gap-2">
                       <code className="flex-1 px-3 py-2 text-[10px] font-mono rounded-md border border-primary/80 bg-muted/30 text-primary/80 break-all">
-                        {appId === "postgres"
-                          ? `PGPASSWORD='${deploymentResult.credentials.password}' psql -h ${getHostFromUrl(deploymentResult.deployment.externalUrl)} -p ${deploymentResult.deployment.nodePort} -U ${deploymentResult.credentials.user} -d ${deploymentResult.credentials.database}`
-                          : `redis-cli -h ${getHostFromUrl(deploymentResult.deployment.externalUrl)} -p ${deploymentResult.deployment.nodePort} -a '${deploymentResult.credentials.password}' ping`
-                        }
+                        {cliCommand}
                       </code>
                       <motion.button
-                        onClick={() => copyToClipboard(
-                          appId === "postgres"
-                            ? `PGPASSWORD='${deploymentResult.credentials!.password}' psql -h ${getHostFromUrl(deploymentResult.deployment!.externalUrl)} -p ${deploymentResult.deployment!.nodePort} -U ${deploymentResult.credentials!.user} -d ${deploymentResult.credentials!.database}`
-                            : `redis-cli -h ${getHostFromUrl(deploymentResult.deployment!.externalUrl)} -p ${deploymentResult.deployment!.nodePort} -a '${deploymentResult.credentials!.password}' ping`,
-                          appId === "postgres" ? "PSQL Command" : "Redis CLI Command"
-                        )}
+                        onClick={() => copyToClipboard(cliCommand ?? "", currentApp.cli.label)}
                         className="relative flex h-7 w-7 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-blue-500/80 shadow-sm transition-colors isolate"
                         whileHover={{ scale: 1.05 }}
                         whileTap={{ scale: 0.95 }}
@@ -777,7 +1169,14 @@ export default function DeployAppPage() {
                     <span className="text-muted-foreground">Status:</span>
                     <p className="font-mono text-primary/80 mt-1">
                       <span className="inline-flex items-center gap-1">
-                        <span className="h-1.5 w-1.5 rounded-full bg-green-500"></span>
+                        <span
+                          className={cn(
+                            "h-1.5 w-1.5 rounded-full",
+                            progress.state === "ready" && "bg-green-500",
+                            progress.state === "deploying" && "bg-blue-500",
+                            progress.state === "failed" && "bg-red-500",
+                          )}
+                        ></span>
                         {deploymentResult.deployment.status}
                       </span>
                     </p>
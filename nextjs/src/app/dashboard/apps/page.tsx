@@ -3,72 +3,12 @@
 import { motion } from "framer-motion";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
-import {
-  MdCode,
-  MdDataObject,
-  MdDownload,
-  MdSearch,
-  MdStorage,
-  MdWeb,
-} from "react-icons/md";
-import {
-  SiDocker,
-  SiMongodb,
-  SiNextdotjs,
-  SiPostgresql,
-  SiRedis,
-} from "react-icons/si";
+import { MdCode, MdDataObject, MdSearch, MdStorage, MdWeb } from "react-icons/md";
+import { SiDocker } from "react-icons/si";
+import { type AppTemplate, appTemplates } from "@/lib/app-templates";
+import { templateIcons } from "@/lib/app-templates/icons";
 import { cn } from "@/lib/utils";
 
-// Sample apps data - replace with real data from API
-const apps = [
-  {
-    id: "postgres",
-    name: "PostgreSQL",
-    description: "Advanced open source relational database",
-    icon: SiPostgresql,
-    category: "Database",
-    color: "bg-blue-500/80",
-    installs: "2.3k",
-  },
-  {
-    id: "redis",
-    name: "Redis",
-    description: "In-memory data structure store",
-    icon: SiRedis,
-    category: "Database",
-    color: "bg-red-500/80",
-    installs: "1.8k",
-  },
-  {
-    id: "mongodb",
-    name: "MongoDB",
-    description: "NoSQL document database",
-    icon: SiMongodb,
-    category: "Database",
-    color: "bg-green-500/80",
-    installs: "1.5k",
-  },
-  {
-    id: "nextjs",
-    name: "Next.js",
-    description: "React framework for production",
-    icon: SiNextdotjs,
-    category: "Framework",
-    color: "bg-gray-800/80",
-    installs: "3.1k",
-  },
-  {
-    id: "docker",
-    name: "Docker Registry",
-    description: "Private Docker registry",
-    icon: SiDocker,
-    category: "Tools",
-    color: "bg-blue-600/80",
-    installs: "892",
-  },
-];
-
 const categories = [
   { id: "all", name: "All Apps", icon: MdWeb },
   { id: "database", name: "Database", icon: MdStorage },
@@ -76,9 +16,9 @@ const categories = [
   { id: "tools", name: "Tools", icon: MdDataObject },
 ];
 
-function AppCard({ app }: { app: (typeof apps)[0] }) {
+function AppCard({ app }: { app: AppTemplate }) {
   const [isHovered, setIsHovered] = useState(false);
-  const Icon = app.icon;
+  const Icon = templateIcons[app.icon];
   const router = useRouter();
 
   return (
@@ -139,10 +79,10 @@ function AppCard({ app }: { app: (typeof apps)[0] }) {
 
           {/* Bottom Row: Stats + Deploy Button */}
           <div className="flex items-center justify-between mt-3">
-            {/* Stats */}
+            {/* Image */}
             <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
-              <MdDownload className="h-3 w-3" />
-              <span>{app.installs} deploys</span>
+              <SiDocker className="h-3 w-3" />
+              <span className="font-mono">{app.image}</span>
             </div>
 
             {/* Deploy Button */}
@@ -251,7 +191,7 @@ export default function AppCatalogPage() {
   const [selectedCategory, setSelectedCategory] = useState("all");
   const [searchQuery, setSearchQuery] = useState("");
 
-  const filteredApps = apps.filter((app) => {
+  const filteredApps = appTemplates.filter((app) => {
     const matchesCategory =
       selectedCategory === "all" ||
       app.category.toLowerCase() === selectedCategory;
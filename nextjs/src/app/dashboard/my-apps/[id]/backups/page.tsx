@@ -0,0 +1,917 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import {
+  MdArrowBack,
+  MdBackup,
+  MdCheckCircle,
+  MdDelete,
+  MdError,
+  MdPlayArrow,
+  MdRefresh,
+  MdRestore,
+  MdSave,
+  MdWarning,
+} from "react-icons/md";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { BackupScheduleInput, BackupStatus } from "@/lib/backups";
+import type { RestoreMode, RestoreStatus } from "@/lib/restores";
+import { cn } from "@/lib/utils";
+
+const SCHEDULE_PRESETS = [
+  { label: "Hourly", value: "0 * * * *" },
+  { label: "Daily at 03:00 UTC", value: "0 3 * * *" },
+  { label: "Weekly on Sunday", value: "0 3 * * 0" },
+];
+
+interface Backup {
+  id: string;
+  jobName: string;
+  trigger: "schedule" | "manual";
+  status: BackupStatus;
+  target: string;
+  location: string;
+  sizeBytes: number | null;
+  durationMs: number | null;
+  errorMessage: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+interface Restore {
+  id: string;
+  deploymentId: string;
+  sourceDeploymentId: string | null;
+  mode: RestoreMode;
+  status: RestoreStatus;
+  step: string | null;
+  errorMessage: string | null;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+const STATUS_STYLES: Record<BackupStatus | RestoreStatus, string> = {
+  pending: "bg-zinc-500/10 text-muted-foreground",
+  running: "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400",
+  succeeded: "bg-green-500/10 text-green-600 dark:text-green-400",
+  failed: "bg-red-500/10 text-red-600 dark:text-red-400",
+  expired: "bg-zinc-500/10 text-muted-foreground",
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+/**
+ * Backups of a Postgres deployment: schedule, target and retention settings,
+ * manual backups, the history of runs and restores (in place or as a clone)
+ */
+export default function BackupsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const deploymentId = params.id as string;
+
+  const [deploymentName, setDeploymentName] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [backups, setBackups] = useState<Backup[]>([]);
+  const [hasSchedule, setHasSchedule] = useState(false);
+  const [s3Available, setS3Available] = useState(false);
+  const [form, setForm] = useState<BackupScheduleInput | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [restores, setRestores] = useState<Restore[]>([]);
+  const [restoreBackup, setRestoreBackup] = useState<Backup | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>("clone");
+  const [cloneName, setCloneName] = useState("");
+  const [restoreWarning, setRestoreWarning] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [clone, setClone] = useState<{
+    name: string;
+    password?: string;
+  } | null>(null);
+
+  useEffect(() => {
+    fetch("/api/deployments")
+      .then((response) => response.json())
+      .then((data) => {
+        const deployment = (data.deployments || []).find(
+          (d: { id: string }) => d.id === deploymentId,
+        );
+        setDeploymentName(deployment?.name || "");
+      })
+      .catch((error) => console.error("Error fetching deployment:", error));
+  }, [deploymentId]);
+
+  const fetchBackups = useCallback(
+    async (resetForm = false) => {
+      try {
+        setError(null);
+        const response = await fetch(
+          `/api/deployments/${deploymentId}/backups`,
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(
+            [data.error || "Failed to fetch backups", data.details]
+              .filter(Boolean)
+              .join(": "),
+          );
+        }
+
+        setBackups(data.backups || []);
+        setHasSchedule(data.schedule !== null);
+
+        const restoresResponse = await fetch(
+          `/api/deployments/${deploymentId}/restore`,
+        );
+        if (restoresResponse.ok) {
+          setRestores((await restoresResponse.json()).restores || []);
+        }
+
+        setS3Available(data.targets?.s3 === true);
+        if (resetForm) {
+          const source = data.schedule || data.defaults;
+          setForm({
+            enabled: source.enabled,
+            schedule: source.schedule,
+            target: source.target,
+            storageSize: source.storageSize ?? data.defaults.storageSize,
+            retentionCount: source.retentionCount,
+            retentionDays: source.retentionDays,
+          });
+        }
+      } catch (error) {
+        console.error("Error fetching backups:", error);
+        setError(
+          error instanceof Error ? error.message : "Failed to fetch backups",
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    [deploymentId],
+  );
+
+  useEffect(() => {
+    fetchBackups(true);
+  }, [fetchBackups]);
+
+  // Runs and restores are recorded by the reconciler, poll while one is in progress
+  const hasRunning =
+    backups.some((backup) => backup.status === "running") ||
+    restores.some(
+      (restore) => restore.status === "pending" || restore.status === "running",
+    );
+  useEffect(() => {
+    if (!hasRunning) {
+      return;
+    }
+    const interval = setInterval(() => fetchBackups(), 10_000);
+    return () => clearInterval(interval);
+  }, [hasRunning, fetchBackups]);
+
+  const handleSave = async () => {
+    if (!form) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetch(
+        `/api/deployments/${deploymentId}/backups/schedule`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(form),
+        },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          [data.error || "Failed to save backup schedule", data.details]
+            .filter(Boolean)
+            .join(": "),
+        );
+      }
+
+      setMessage("Backup schedule saved");
+      fetchBackups(true);
+    } catch (error) {
+      console.error("Error saving backup schedule:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to save backup schedule",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetch(
+        `/api/deployments/${deploymentId}/backups/schedule`,
+        { method: "DELETE" },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          [data.error || "Failed to remove backup schedule", data.details]
+            .filter(Boolean)
+            .join(": "),
+        );
+      }
+
+      setMessage("Backups turned off, existing backups are kept");
+      fetchBackups(true);
+    } catch (error) {
+      console.error("Error removing backup schedule:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to remove backup schedule",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBackupNow = async () => {
+    try {
+      setStarting(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetch(`/api/deployments/${deploymentId}/backups`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          [data.error || "Failed to start backup", data.details]
+            .filter(Boolean)
+            .join(": "),
+        );
+      }
+
+      fetchBackups();
+    } catch (error) {
+      console.error("Error starting backup:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to start backup",
+      );
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const openRestore = (backup: Backup) => {
+    setRestoreBackup(backup);
+    setRestoreMode("clone");
+    setCloneName("");
+    setRestoreWarning(null);
+  };
+
+  const handleRestore = async (confirm = false) => {
+    if (!restoreBackup) {
+      return;
+    }
+
+    try {
+      setRestoring(true);
+      setError(null);
+      setMessage(null);
+      setClone(null);
+      const response = await fetch(`/api/deployments/${deploymentId}/restore`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          backupId: restoreBackup.id,
+          mode: restoreMode,
+          name: restoreMode === "clone" && cloneName ? cloneName : undefined,
+          confirm,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.requiresConfirmation) {
+        setRestoreWarning(data.error);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(
+          [data.error || "Failed to restore backup", data.details]
+            .filter(Boolean)
+            .join(": "),
+        );
+      }
+
+      setRestoreBackup(null);
+      setRestoreWarning(null);
+      if (restoreMode === "clone") {
+        setClone({
+          name: data.deployment.name,
+          password: data.credentials?.password,
+        });
+      } else {
+        setMessage(
+          "Restore started, the database is replaced once it completes",
+        );
+      }
+      fetchBackups();
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to restore backup",
+      );
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const isPreset = SCHEDULE_PRESETS.some(
+    (preset) => preset.value === form?.schedule,
+  );
+
+  return (
+    <div className="flex flex-1 flex-col gap-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <motion.button
+          onClick={() => router.back()}
+          className="relative flex h-9 w-9 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm transition-colors isolate"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <MdArrowBack className="h-5 w-5 text-primary/80" />
+        </motion.button>
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-primary/80">
+            Backups
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {deploymentName
+              ? `pg_dump backups of ${deploymentName}`
+              : "pg_dump backups of your database"}
+          </p>
+        </div>
+        {hasSchedule && (
+          <motion.button
+            onClick={handleBackupNow}
+            disabled={starting}
+            className="ml-auto flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-xs font-medium text-primary/80 disabled:opacity-50"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            {starting ? (
+              <MdRefresh className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <MdPlayArrow className="h-3.5 w-3.5" />
+            )}
+            Backup now
+          </motion.button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-500/80 bg-red-500/5 p-3 text-xs text-red-600 dark:text-red-400 break-words">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="rounded-md border border-green-500/80 bg-green-500/5 p-3 text-xs text-green-600 dark:text-green-400">
+          {message}
+        </div>
+      )}
+
+      {clone && (
+        <div className="rounded-md border border-green-500/80 bg-green-500/5 p-3 text-xs text-green-600 dark:text-green-400 space-y-1">
+          <p>
+            Deploying <span className="font-semibold">{clone.name}</span>, the
+            backup is restored into it once it is up.
+          </p>
+          {clone.password && (
+            <p>
+              Its password is shown only once:{" "}
+              <span className="font-mono select-all">{clone.password}</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Restore */}
+      {restoreBackup && (
+        <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4 space-y-4">
+          <div>
+            <h2 className="text-sm font-semibold text-primary/80">
+              Restore backup
+            </h2>
+            <p className="text-xs text-muted-foreground">
+              Taken {new Date(restoreBackup.startedAt).toLocaleString()}
+            </p>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            {(
+              [
+                {
+                  mode: "clone",
+                  label: "Into a new deployment",
+                  description:
+                    "Deploy a copy of this database with the data of the backup",
+                },
+                {
+                  mode: "in_place",
+                  label: "Into this deployment",
+                  description:
+                    "Replace the current data, changes since the backup are lost",
+                },
+              ] as const
+            ).map((option) => (
+              <button
+                key={option.mode}
+                type="button"
+                onClick={() => {
+                  setRestoreMode(option.mode);
+                  setRestoreWarning(null);
+                }}
+                className={cn(
+                  "rounded-md border p-3 text-left transition-colors",
+                  restoreMode === option.mode
+                    ? "border-primary/80 bg-primary/10"
+                    : "border-primary/20 hover:bg-primary/5",
+                )}
+              >
+                <span className="block text-xs font-medium text-primary/80">
+                  {option.label}
+                </span>
+                <span className="block text-[10px] text-muted-foreground">
+                  {option.description}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {restoreMode === "clone" && (
+            <div className="space-y-1.5">
+              <Label htmlFor="clone-name" className="text-xs">
+                Name of the new deployment
+              </Label>
+              <input
+                id="clone-name"
+                type="text"
+                value={cloneName}
+                onChange={(e) => setCloneName(e.target.value)}
+                placeholder="Leave empty to generate one"
+                className="w-full px-2 py-1.5 text-xs rounded-md border border-primary/80 bg-background text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/40"
+              />
+            </div>
+          )}
+
+          {restoreWarning ? (
+            <div className="flex flex-wrap items-center gap-3 rounded-md border border-orange-500/80 bg-orange-500/5 p-3 text-xs text-orange-600 dark:text-orange-400">
+              <MdWarning className="h-4 w-4 shrink-0" />
+              <span className="flex-1">{restoreWarning}. Restore anyway?</span>
+              <button
+                type="button"
+                onClick={() => handleRestore(true)}
+                disabled={restoring}
+                className="h-7 px-2 rounded-md bg-orange-600 hover:bg-orange-700 text-white disabled:opacity-50"
+              >
+                Restore anyway
+              </button>
+              <button
+                type="button"
+                onClick={() => setRestoreWarning(null)}
+                className="h-7 px-2 rounded-md border border-orange-500/80 hover:bg-orange-500/10"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <motion.button
+                onClick={() => handleRestore()}
+                disabled={restoring}
+                className="flex items-center justify-center gap-2 h-8 px-4 rounded-md border border-primary/80 border-r-[3px] bg-primary/10 hover:bg-primary/20 transition-colors text-xs font-medium text-primary disabled:opacity-50"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                {restoring ? (
+                  <MdRefresh className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <MdRestore className="h-3.5 w-3.5" />
+                )}
+                Restore
+              </motion.button>
+              <button
+                type="button"
+                onClick={() => setRestoreBackup(null)}
+                className="h-8 px-3 rounded-md text-xs text-muted-foreground hover:text-primary/80"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Schedule */}
+        <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4 space-y-4 h-fit">
+          <h2 className="text-sm font-semibold text-primary/80">Schedule</h2>
+
+          {form && (
+            <>
+              <div className="flex items-center gap-1.5">
+                <Checkbox
+                  id="backup-enabled"
+                  checked={form.enabled}
+                  onCheckedChange={(checked: boolean) =>
+                    setForm({ ...form, enabled: checked === true })
+                  }
+                />
+                <Label
+                  htmlFor="backup-enabled"
+                  className="text-xs font-normal cursor-pointer"
+                >
+                  Run on schedule (manual backups only when off)
+                </Label>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="backup-schedule" className="text-xs">
+                  Frequency
+                </Label>
+                <select
+                  id="backup-schedule"
+                  value={isPreset ? form.schedule : "custom"}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      schedule:
+                        e.target.value === "custom" ? "" : e.target.value,
+                    })
+                  }
+                  className="w-full h-8 px-2 text-xs rounded-md border border-primary/80 bg-background text-primary/80"
+                >
+                  {SCHEDULE_PRESETS.map((preset) => (
+                    <option key={preset.value} value={preset.value}>
+                      {preset.label}
+                    </option>
+                  ))}
+                  <option value="custom">Custom (cron)</option>
+                </select>
+                {!isPreset && (
+                  <input
+                    type="text"
+                    value={form.schedule}
+                    onChange={(e) =>
+                      setForm({ ...form, schedule: e.target.value })
+                    }
+                    placeholder="m h dom mon dow, e.g. 30 2 * * 1-5"
+                    className="w-full px-2 py-1.5 text-xs font-mono rounded-md border border-primary/80 bg-background text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/40"
+                  />
+                )}
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="backup-target" className="text-xs">
+                  Store backups on
+                </Label>
+                <select
+                  id="backup-target"
+                  value={form.target}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      target: e.target.value as BackupScheduleInput["target"],
+                    })
+                  }
+                  className="w-full h-8 px-2 text-xs rounded-md border border-primary/80 bg-background text-primary/80"
+                >
+                  <option value="pvc">Backup volume in the cluster</option>
+                  <option value="s3" disabled={!s3Available}>
+                    S3 bucket{s3Available ? "" : " (not configured)"}
+                  </option>
+                </select>
+                {form.target === "pvc" && (
+                  <p className="text-[10px] text-muted-foreground">
+                    The backup volume is deleted together with the deployment
+                  </p>
+                )}
+              </div>
+
+              {form.target === "pvc" && (
+                <div className="space-y-1.5">
+                  <Label htmlFor="backup-storage" className="text-xs">
+                    Backup volume size (GB)
+                  </Label>
+                  <input
+                    id="backup-storage"
+                    type="number"
+                    min={1}
+                    value={form.storageSize ?? ""}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        storageSize: e.target.value
+                          ? Number(e.target.value)
+                          : null,
+                      })
+                    }
+                    className="w-full px-2 py-1.5 text-xs rounded-md border border-primary/80 bg-background text-primary/80 focus:outline-none focus:ring-2 focus:ring-primary/40"
+                  />
+                  {hasSchedule && (
+                    <p className="text-[10px] text-muted-foreground">
+                      Volumes can grow but not shrink
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="backup-keep" className="text-xs">
+                    Keep last
+                  </Label>
+                  <input
+                    id="backup-keep"
+                    type="number"
+                    min={1}
+                    value={form.retentionCount}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        retentionCount: Number(e.target.value),
+                      })
+                    }
+                    className="w-full px-2 py-1.5 text-xs rounded-md border border-primary/80 bg-background text-primary/80 focus:outline-none focus:ring-2 focus:ring-primary/40"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="backup-days" className="text-xs">
+                    Max age (days)
+                  </Label>
+                  <input
+                    id="backup-days"
+                    type="number"
+                    min={1}
+                    value={form.retentionDays ?? ""}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        retentionDays: e.target.value
+                          ? Number(e.target.value)
+                          : null,
+                      })
+                    }
+                    placeholder="No limit"
+                    className="w-full px-2 py-1.5 text-xs rounded-md border border-primary/80 bg-background text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/40"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <motion.button
+                  onClick={handleSave}
+                  disabled={saving || !form.schedule.trim()}
+                  className="flex-1 flex items-center justify-center gap-2 h-8 px-4 rounded-md border border-primary/80 border-r-[3px] bg-primary/10 hover:bg-primary/20 transition-colors text-xs font-medium text-primary disabled:opacity-50"
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  <MdSave className="h-3.5 w-3.5" />
+                  {hasSchedule ? "Save" : "Turn on backups"}
+                </motion.button>
+                {hasSchedule && (
+                  <motion.button
+                    onClick={handleRemove}
+                    disabled={saving}
+                    className="flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-red-500/80 border-r-[3px] bg-card hover:bg-red-500/5 transition-colors text-xs font-medium text-red-600 disabled:opacity-50"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    title="Turn off backups"
+                  >
+                    <MdDelete className="h-3.5 w-3.5" />
+                  </motion.button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* History */}
+        <div className="lg:col-span-2 rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-primary/20">
+            <h2 className="text-sm font-semibold text-primary/80">History</h2>
+            <button
+              type="button"
+              onClick={() => fetchBackups()}
+              className="text-muted-foreground hover:text-primary/80"
+              title="Refresh"
+            >
+              <MdRefresh
+                className={cn(
+                  "h-4 w-4",
+                  (loading || hasRunning) && "animate-spin",
+                )}
+              />
+            </button>
+          </div>
+
+          {!loading && backups.length === 0 ? (
+            <div className="flex flex-col items-center justify-center gap-2 p-8 text-muted-foreground">
+              <MdBackup className="h-8 w-8" />
+              <p className="text-xs">No backups yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="px-4 py-2 font-medium">Started</th>
+                    <th className="px-4 py-2 font-medium">Status</th>
+                    <th className="px-4 py-2 font-medium">Size</th>
+                    <th className="px-4 py-2 font-medium">Duration</th>
+                    <th className="px-4 py-2 font-medium">Location</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {backups.map((backup) => (
+                    <tr
+                      key={backup.id}
+                      className="border-t border-primary/10 align-top"
+                    >
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {new Date(backup.startedAt).toLocaleString()}
+                        <span className="block text-[10px] text-muted-foreground">
+                          {backup.trigger === "manual" ? "Manual" : "Scheduled"}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2">
+                        <span
+                          className={cn(
+                            "inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] font-medium",
+                            STATUS_STYLES[backup.status],
+                          )}
+                        >
+                          {backup.status === "succeeded" && (
+                            <MdCheckCircle className="h-3 w-3" />
+                          )}
+                          {backup.status === "failed" && (
+                            <MdError className="h-3 w-3" />
+                          )}
+                          {backup.status}
+                        </span>
+                        {backup.errorMessage && (
+                          <p className="mt-1 max-w-xs text-[10px] text-red-600 dark:text-red-400 break-words">
+                            {backup.errorMessage}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {backup.sizeBytes !== null
+                          ? formatBytes(backup.sizeBytes)
+                          : "-"}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {backup.durationMs !== null
+                          ? formatDuration(backup.durationMs)
+                          : "-"}
+                      </td>
+                      <td
+                        className={cn(
+                          "px-4 py-2 font-mono text-[10px] break-all",
+                          backup.status === "expired" &&
+                            "text-muted-foreground line-through",
+                        )}
+                      >
+                        {backup.location}
+                      </td>
+                      <td className="px-4 py-2">
+                        {backup.status === "succeeded" && (
+                          <button
+                            type="button"
+                            onClick={() => openRestore(backup)}
+                            className="flex items-center gap-1 text-primary/80 hover:text-primary"
+                            title="Restore this backup"
+                          >
+                            <MdRestore className="h-3.5 w-3.5" />
+                            Restore
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Restores */}
+      {restores.length > 0 && (
+        <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm">
+          <div className="px-4 py-3 border-b border-primary/20">
+            <h2 className="text-sm font-semibold text-primary/80">Restores</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="px-4 py-2 font-medium">Requested</th>
+                  <th className="px-4 py-2 font-medium">Into</th>
+                  <th className="px-4 py-2 font-medium">Status</th>
+                  <th className="px-4 py-2 font-medium">Duration</th>
+                </tr>
+              </thead>
+              <tbody>
+                {restores.map((restore) => (
+                  <tr
+                    key={restore.id}
+                    className="border-t border-primary/10 align-top"
+                  >
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {new Date(restore.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2">
+                      {restore.mode === "in_place"
+                        ? "This deployment"
+                        : restore.deploymentId === deploymentId
+                          ? "This deployment (cloned)"
+                          : "New deployment (clone)"}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={cn(
+                          "inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] font-medium",
+                          STATUS_STYLES[restore.status],
+                        )}
+                      >
+                        {restore.status === "succeeded" && (
+                          <MdCheckCircle className="h-3 w-3" />
+                        )}
+                        {restore.status === "failed" && (
+                          <MdError className="h-3 w-3" />
+                        )}
+                        {restore.status}
+                      </span>
+                      {restore.step && (
+                        <p className="mt-1 text-[10px] text-muted-foreground">
+                          {restore.step}
+                        </p>
+                      )}
+                      {restore.errorMessage && (
+                        <p className="mt-1 max-w-md text-[10px] text-red-600 dark:text-red-400 break-words">
+                          {restore.errorMessage}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {restore.durationMs !== null
+                        ? formatDuration(restore.durationMs)
+                        : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,498 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  MdArrowBack,
+  MdChevronRight,
+  MdDownload,
+  MdExpandMore,
+  MdPlayArrow,
+  MdRefresh,
+  MdSearch,
+  MdTableChart,
+  MdWarning,
+} from "react-icons/md";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { QueryResult, SchemaTable } from "@/lib/sql-console";
+import { cn } from "@/lib/utils";
+
+const TIMEOUT_OPTIONS = [5_000, 10_000, 30_000, 60_000];
+const MAX_ROWS_OPTIONS = [100, 1000, 5000, 10_000];
+
+// Rows have no identity of their own, number them per result
+type ResultRows = Array<{ id: number; values: unknown[] }>;
+
+interface QueryError {
+  error: string;
+  code?: string;
+  position?: string;
+}
+
+/**
+ * Quote an identifier for the generated SELECT of the schema browser
+ */
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const toCsvField = (value: unknown) => {
+  const text = formatCell(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * SQL console for a Postgres deployment: query editor, schema browser and
+ * results with CSV export
+ */
+export default function QueryConsolePage() {
+  const params = useParams();
+  const router = useRouter();
+  const deploymentId = params.id as string;
+
+  const [deploymentName, setDeploymentName] = useState("");
+  const [tables, setTables] = useState<SchemaTable[]>([]);
+  const [schemaLoading, setSchemaLoading] = useState(false);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [tableFilter, setTableFilter] = useState("");
+  const [expandedTables, setExpandedTables] = useState<string[]>([]);
+
+  const [query, setQuery] = useState("SELECT version();");
+  const [readOnly, setReadOnly] = useState(true);
+  const [timeoutMs, setTimeoutMs] = useState(10_000);
+  const [maxRows, setMaxRows] = useState(1000);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<
+    (Omit<QueryResult, "rows"> & { rows: ResultRows }) | null
+  >(null);
+  const [queryError, setQueryError] = useState<QueryError | null>(null);
+
+  useEffect(() => {
+    fetch("/api/deployments")
+      .then((response) => response.json())
+      .then((data) => {
+        const deployment = (data.deployments || []).find(
+          (d: { id: string }) => d.id === deploymentId,
+        );
+        setDeploymentName(deployment?.name || "");
+      })
+      .catch((error) => console.error("Error fetching deployment:", error));
+  }, [deploymentId]);
+
+  const fetchSchema = useCallback(async () => {
+    try {
+      setSchemaLoading(true);
+      setSchemaError(null);
+      const response = await fetch(`/api/deployments/${deploymentId}/schema`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          [data.error || "Failed to read schema", data.details]
+            .filter(Boolean)
+            .join(": "),
+        );
+      }
+
+      setTables(data.tables || []);
+    } catch (error) {
+      console.error("Error reading schema:", error);
+      setSchemaError(
+        error instanceof Error ? error.message : "Failed to read schema",
+      );
+    } finally {
+      setSchemaLoading(false);
+    }
+  }, [deploymentId]);
+
+  useEffect(() => {
+    fetchSchema();
+  }, [fetchSchema]);
+
+  const runQuery = async () => {
+    if (!query.trim() || running) {
+      return;
+    }
+
+    try {
+      setRunning(true);
+      setQueryError(null);
+      const response = await fetch(`/api/deployments/${deploymentId}/query`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, readOnly, timeoutMs, maxRows }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setResult(null);
+        setQueryError({
+          error: [data.error || "Failed to run query", data.details]
+            .filter(Boolean)
+            .join(": "),
+          code: data.code,
+          position: data.position,
+        });
+        return;
+      }
+
+      setResult({
+        ...data,
+        rows: (data as QueryResult).rows.map((values, id) => ({ id, values })),
+      });
+      // The schema may have changed
+      if (!readOnly && data.columns.length === 0) {
+        fetchSchema();
+      }
+    } catch (error) {
+      console.error("Error running query:", error);
+      setQueryError({
+        error: error instanceof Error ? error.message : "Failed to run query",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!result) {
+      return;
+    }
+
+    const lines = [
+      result.columns.map((column) => toCsvField(column.name)).join(","),
+      ...result.rows.map((row) => row.values.map(toCsvField).join(",")),
+    ];
+    const blob = new Blob([lines.join("\r\n")], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${deploymentName || "query"}-${new Date().toISOString().slice(0, 19)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const filteredTables = useMemo(() => {
+    const term = tableFilter.trim().toLowerCase();
+    return term
+      ? tables.filter((table) =>
+          `${table.schema}.${table.name}`.toLowerCase().includes(term),
+        )
+      : tables;
+  }, [tables, tableFilter]);
+
+  const toggleTable = (key: string) =>
+    setExpandedTables((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key],
+    );
+
+  return (
+    <div className="flex flex-1 flex-col gap-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <motion.button
+          onClick={() => router.back()}
+          className="relative flex h-9 w-9 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm transition-colors isolate"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <MdArrowBack className="h-5 w-5 text-primary/80" />
+        </motion.button>
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-primary/80">
+            SQL Console
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {deploymentName
+              ? `Run queries against ${deploymentName}`
+              : "Run queries against your database"}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-4">
+        {/* Schema Browser */}
+        <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4 lg:max-h-[calc(100vh-12rem)] overflow-y-auto">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-semibold text-primary/80">Schema</h2>
+            <button
+              type="button"
+              onClick={fetchSchema}
+              className="text-muted-foreground hover:text-primary/80"
+              title="Refresh schema"
+            >
+              <MdRefresh
+                className={cn("h-4 w-4", schemaLoading && "animate-spin")}
+              />
+            </button>
+          </div>
+
+          <div className="relative mb-3">
+            <MdSearch className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+            <input
+              type="text"
+              value={tableFilter}
+              onChange={(e) => setTableFilter(e.target.value)}
+              placeholder="Filter tables"
+              className="w-full pl-7 pr-2 py-1.5 text-xs rounded-md border border-primary/80 bg-background text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/40"
+            />
+          </div>
+
+          {schemaError && (
+            <p className="text-xs text-red-500 break-words">{schemaError}</p>
+          )}
+          {!schemaError && !schemaLoading && tables.length === 0 && (
+            <p className="text-xs text-muted-foreground">No tables yet</p>
+          )}
+
+          <ul className="space-y-0.5">
+            {filteredTables.map((table) => {
+              const key = `${table.schema}.${table.name}`;
+              const expanded = expandedTables.includes(key);
+              return (
+                <li key={key}>
+                  <div className="flex items-center gap-1 text-xs">
+                    <button
+                      type="button"
+                      onClick={() => toggleTable(key)}
+                      className="flex flex-1 items-center gap-1 min-w-0 text-left text-primary/80 hover:text-primary"
+                    >
+                      {expanded ? (
+                        <MdExpandMore className="h-3.5 w-3.5 shrink-0" />
+                      ) : (
+                        <MdChevronRight className="h-3.5 w-3.5 shrink-0" />
+                      )}
+                      <MdTableChart className="h-3.5 w-3.5 shrink-0" />
+                      <span className="truncate font-mono">
+                        {table.schema === "public" ? table.name : key}
+                      </span>
+                      {table.type === "view" && (
+                        <span className="text-[10px] text-muted-foreground">
+                          view
+                        </span>
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setQuery(
+                          `SELECT * FROM ${quoteIdent(table.schema)}.${quoteIdent(table.name)} LIMIT 100;`,
+                        )
+                      }
+                      className="text-muted-foreground hover:text-primary/80"
+                      title="Select rows"
+                    >
+                      <MdPlayArrow className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                  {expanded && (
+                    <ul className="ml-5 mt-0.5 mb-1 space-y-0.5 border-l border-primary/20 pl-2">
+                      {table.columns.map((column) => (
+                        <li
+                          key={column.name}
+                          className="flex items-center gap-2 text-[10px]"
+                        >
+                          <span className="font-mono text-primary/80 truncate">
+                            {column.name}
+                          </span>
+                          <span className="ml-auto text-muted-foreground whitespace-nowrap">
+                            {column.type}
+                            {column.nullable ? "" : " not null"}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        <div className="lg:col-span-3 space-y-4">
+          {/* Editor */}
+          <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4 space-y-3">
+            <textarea
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                  e.preventDefault();
+                  runQuery();
+                }
+              }}
+              spellCheck={false}
+              rows={8}
+              className="w-full resize-y rounded-md border border-primary/80 bg-zinc-950 p-3 font-mono text-xs text-zinc-100 focus:outline-none focus:ring-2 focus:ring-primary/40"
+              placeholder="One SQL statement, Ctrl+Enter to run"
+            />
+
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              <div className="flex items-center gap-1.5">
+                <Checkbox
+                  id="query-read-only"
+                  checked={readOnly}
+                  onCheckedChange={(checked: boolean) =>
+                    setReadOnly(checked === true)
+                  }
+                />
+                <Label
+                  htmlFor="query-read-only"
+                  className="text-xs font-normal cursor-pointer"
+                >
+                  Read-only
+                </Label>
+              </div>
+
+              <select
+                value={timeoutMs}
+                onChange={(e) => setTimeoutMs(Number(e.target.value))}
+                className="h-8 px-2 rounded-md border border-primary/80 bg-background text-primary/80"
+                title="Statement timeout"
+              >
+                {TIMEOUT_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    Timeout {option / 1000}s
+                  </option>
+                ))}
+              </select>
+
+              <select
+                value={maxRows}
+                onChange={(e) => setMaxRows(Number(e.target.value))}
+                className="h-8 px-2 rounded-md border border-primary/80 bg-background text-primary/80"
+                title="Maximum rows returned"
+              >
+                {MAX_ROWS_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    Max {option.toLocaleString()} rows
+                  </option>
+                ))}
+              </select>
+
+              {!readOnly && (
+                <span className="flex items-center gap-1 text-[10px] text-orange-600 dark:text-orange-400">
+                  <MdWarning className="h-3.5 w-3.5" />
+                  Writes are committed
+                </span>
+              )}
+
+              <motion.button
+                onClick={runQuery}
+                disabled={running || !query.trim()}
+                className="ml-auto flex items-center justify-center gap-2 h-8 px-4 rounded-md border border-primary/80 border-r-[3px] bg-primary/10 hover:bg-primary/20 transition-colors text-xs font-medium text-primary disabled:opacity-50"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                {running ? (
+                  <MdRefresh className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <MdPlayArrow className="h-3.5 w-3.5" />
+                )}
+                Run
+              </motion.button>
+            </div>
+          </div>
+
+          {/* Results */}
+          {queryError && (
+            <div className="rounded-md border border-red-500/80 bg-red-500/5 p-3 text-xs text-red-600 dark:text-red-400">
+              <p className="font-mono break-words">{queryError.error}</p>
+              {(queryError.code || queryError.position) && (
+                <p className="mt-1 text-[10px] text-muted-foreground">
+                  {queryError.code && `SQLSTATE ${queryError.code}`}
+                  {queryError.position &&
+                    ` at character ${queryError.position}`}
+                </p>
+              )}
+            </div>
+          )}
+
+          {result && (
+            <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm">
+              <div className="flex items-center gap-3 px-4 py-2 border-b border-primary/20 text-xs">
+                <span className="font-semibold text-primary/80">
+                  {result.command}
+                </span>
+                <span className="text-muted-foreground">
+                  {result.rowCount.toLocaleString()}{" "}
+                  {result.columns.length > 0 ? "rows" : "rows affected"} in{" "}
+                  {result.durationMs} ms
+                </span>
+                {result.truncated && (
+                  <span className="flex items-center gap-1 text-orange-600 dark:text-orange-400">
+                    <MdWarning className="h-3.5 w-3.5" />
+                    Limited to {result.rowCount.toLocaleString()} rows
+                  </span>
+                )}
+                {result.columns.length > 0 && (
+                  <motion.button
+                    onClick={handleExportCsv}
+                    className="ml-auto flex items-center justify-center gap-2 h-7 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-primary/80"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    <MdDownload className="h-3.5 w-3.5" />
+                    CSV
+                  </motion.button>
+                )}
+              </div>
+
+              {result.columns.length > 0 && (
+                <div className="max-h-[32rem] overflow-auto">
+                  <table className="w-full text-xs font-mono">
+                    <thead className="sticky top-0 bg-card">
+                      <tr>
+                        {result.columns.map((column, index) => (
+                          <th
+                            // Column names may repeat (SELECT 1, 1)
+                            key={`${index}-${column.name}`}
+                            className="px-3 py-1.5 text-left font-semibold text-primary/80 border-b border-primary/20 whitespace-nowrap"
+                          >
+                            {column.name}
+                            <span className="ml-1 font-normal text-[10px] text-muted-foreground">
+                              {column.type}
+                            </span>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.rows.map((row) => (
+                        <tr key={row.id} className="odd:bg-primary/5">
+                          {row.values.map((value, index) => (
+                            <td
+                              key={`${index}-${result.columns[index]?.name}`}
+                              className={cn(
+                                "px-3 py-1 whitespace-nowrap max-w-xs truncate",
+                                value === null &&
+                                  "text-muted-foreground italic",
+                              )}
+                              title={formatCell(value)}
+                            >
+                              {value === null ? "null" : formatCell(value)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
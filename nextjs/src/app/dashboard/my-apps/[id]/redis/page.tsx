@@ -0,0 +1,952 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import {
+  MdArrowBack,
+  MdDelete,
+  MdKey,
+  MdPlayArrow,
+  MdRefresh,
+  MdSearch,
+  MdTimer,
+  MdWarning,
+} from "react-icons/md";
+import type {
+  RedisCommandResult,
+  RedisKeySummary,
+  RedisKeyType,
+  RedisKeyValue,
+} from "@/lib/redis-browser";
+import { cn } from "@/lib/utils";
+
+const KEY_TYPES: RedisKeyType[] = [
+  "string",
+  "hash",
+  "list",
+  "set",
+  "zset",
+  "stream",
+];
+
+const TYPE_COLORS: Record<RedisKeySummary["type"], string> = {
+  string: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
+  hash: "bg-purple-500/10 text-purple-600 dark:text-purple-400",
+  list: "bg-green-500/10 text-green-600 dark:text-green-400",
+  set: "bg-orange-500/10 text-orange-600 dark:text-orange-400",
+  zset: "bg-pink-500/10 text-pink-600 dark:text-pink-400",
+  stream: "bg-cyan-500/10 text-cyan-600 dark:text-cyan-400",
+  none: "bg-zinc-500/10 text-muted-foreground",
+};
+
+// Columns of the value table, strings are shown as text
+const VALUE_COLUMNS: Record<Exclude<RedisKeyType, "string">, string[]> = {
+  hash: ["Field", "Value"],
+  list: ["Index", "Value"],
+  set: ["Member"],
+  zset: ["Member", "Score"],
+  stream: ["ID", "Fields"],
+};
+
+// Items may repeat (lists), number them per key
+type ValueRows = Array<{ id: number; cells: string[] }>;
+
+interface KeyView {
+  key: RedisKeyValue;
+  rows: ValueRows;
+}
+
+interface ConsoleEntry {
+  id: number;
+  command: string;
+  output: string;
+  error: boolean;
+  durationMs?: number;
+}
+
+const formatTtl = (ttl: number) => {
+  if (ttl === -1) {
+    return "No expiry";
+  }
+  if (ttl < 0) {
+    return "Expired";
+  }
+
+  const seconds = Math.ceil(ttl / 1000);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return (
+    [
+      days && `${days}d`,
+      hours && `${hours}h`,
+      minutes && `${minutes}m`,
+      seconds % 60 && `${seconds % 60}s`,
+    ]
+      .filter(Boolean)
+      .join(" ") || "0s"
+  );
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * Format a command reply the way redis-cli does
+ */
+const formatReply = (reply: unknown, indent = ""): string => {
+  if (reply === null || reply === undefined) {
+    return "(nil)";
+  }
+  if (typeof reply === "number") {
+    return `(integer) ${reply}`;
+  }
+  if (Array.isArray(reply)) {
+    if (reply.length === 0) {
+      return "(empty array)";
+    }
+    return reply
+      .map(
+        (item, index) =>
+          `${index === 0 ? "" : indent}${index + 1}) ${formatReply(item, `${indent}   `)}`,
+      )
+      .join("\n");
+  }
+  return typeof reply === "string" ? `"${reply}"` : JSON.stringify(reply);
+};
+
+/**
+ * Turn one page of a key's value into table rows, continuing the numbering
+ * (and list indexes) of the rows already shown
+ */
+const toRows = (value: RedisKeyValue["value"], start: number): ValueRows => {
+  const cells: string[][] =
+    value.type === "hash"
+      ? value.data.map((entry) => [entry.field, entry.value])
+      : value.type === "list"
+        ? value.data.map((item, index) => [String(start + index), item])
+        : value.type === "set"
+          ? value.data.map((member) => [member])
+          : value.type === "zset"
+            ? value.data.map((entry) => [entry.member, String(entry.score)])
+            : value.type === "stream"
+              ? value.data.map((entry) => [
+                  entry.id,
+                  Object.entries(entry.fields)
+                    .map(([field, fieldValue]) => `${field}=${fieldValue}`)
+                    .join(" "),
+                ])
+              : [];
+  return cells.map((row, index) => ({ id: start + index, cells: row }));
+};
+
+/**
+ * Key browser for a Redis deployment: SCAN-based key list, type-aware value
+ * viewer with TTL editing, server stats and a command console
+ */
+export default function RedisBrowserPage() {
+  const params = useParams();
+  const router = useRouter();
+  const deploymentId = params.id as string;
+
+  const [deploymentName, setDeploymentName] = useState("");
+  const [info, setInfo] = useState<Record<
+    string,
+    Record<string, string>
+  > | null>(null);
+  const [infoError, setInfoError] = useState<string | null>(null);
+
+  // Replacing the filters (even with equal values) restarts the scan
+  const [filters, setFilters] = useState<{
+    pattern: string;
+    type: RedisKeyType | "";
+  }>({ pattern: "*", type: "" });
+  const [patternInput, setPatternInput] = useState("*");
+  const [keys, setKeys] = useState<RedisKeySummary[]>([]);
+  const [scanCursor, setScanCursor] = useState<string | null>("0"); // null when the scan is complete
+  const [keysLoading, setKeysLoading] = useState(false);
+  const [keysError, setKeysError] = useState<string | null>(null);
+
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [keyView, setKeyView] = useState<KeyView | null>(null);
+  const [keyLoading, setKeyLoading] = useState(false);
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const [ttlInput, setTtlInput] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const [commandInput, setCommandInput] = useState("");
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+  const [pendingCommand, setPendingCommand] = useState<{
+    command: string;
+    warning: string;
+  } | null>(null);
+  const [commandRunning, setCommandRunning] = useState(false);
+
+  const apiBase = `/api/deployments/${deploymentId}/redis`;
+
+  useEffect(() => {
+    fetch("/api/deployments")
+      .then((response) => response.json())
+      .then((data) => {
+        const deployment = (data.deployments || []).find(
+          (d: { id: string }) => d.id === deploymentId,
+        );
+        setDeploymentName(deployment?.name || "");
+      })
+      .catch((error) => console.error("Error fetching deployment:", error));
+  }, [deploymentId]);
+
+  const fetchInfo = useCallback(async () => {
+    try {
+      setInfoError(null);
+      const response = await fetch(`${apiBase}/info`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          [data.error || "Failed to read server info", data.details]
+            .filter(Boolean)
+            .join(": "),
+        );
+      }
+
+      setInfo(data.sections);
+    } catch (error) {
+      console.error("Error reading server info:", error);
+      setInfoError(
+        error instanceof Error ? error.message : "Failed to read server info",
+      );
+    }
+  }, [apiBase]);
+
+  useEffect(() => {
+    fetchInfo();
+  }, [fetchInfo]);
+
+  const fetchKeys = useCallback(
+    async (cursor: string) => {
+      try {
+        setKeysLoading(true);
+        setKeysError(null);
+        const query = new URLSearchParams({
+          cursor,
+          pattern: filters.pattern || "*",
+        });
+        if (filters.type) {
+          query.set("type", filters.type);
+        }
+
+        const response = await fetch(`${apiBase}/keys?${query}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(
+            [data.error || "Failed to list keys", data.details]
+              .filter(Boolean)
+              .join(": "),
+          );
+        }
+
+        // SCAN may return a key more than once
+        setKeys((prev) => {
+          const base = cursor === "0" ? [] : prev;
+          const seen = new Set(base.map((key) => key.key));
+          return [
+            ...base,
+            ...(data.keys as RedisKeySummary[]).filter(
+              (key) => !seen.has(key.key),
+            ),
+          ];
+        });
+        setScanCursor(data.cursor === "0" ? null : data.cursor);
+      } catch (error) {
+        console.error("Error listing keys:", error);
+        setKeysError(
+          error instanceof Error ? error.message : "Failed to list keys",
+        );
+      } finally {
+        setKeysLoading(false);
+      }
+    },
+    [apiBase, filters],
+  );
+
+  useEffect(() => {
+    fetchKeys("0");
+  }, [fetchKeys]);
+
+  const fetchKey = useCallback(
+    async (key: string, cursor?: string) => {
+      try {
+        setKeyLoading(true);
+        setKeyError(null);
+        const query = new URLSearchParams({ key });
+        if (cursor) {
+          query.set("cursor", cursor);
+        }
+
+        const response = await fetch(`${apiBase}/key?${query}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(
+            [data.error || "Failed to read key", data.details]
+              .filter(Boolean)
+              .join(": "),
+          );
+        }
+
+        const value = data as RedisKeyValue;
+        setKeyView((prev) => {
+          const rows = cursor && prev ? prev.rows : [];
+          return {
+            key: value,
+            rows: [...rows, ...toRows(value.value, rows.length)],
+          };
+        });
+        // Keep the list in sync with what was just read
+        setKeys((prev) =>
+          prev.map((item) =>
+            item.key === key ? { ...item, ttl: value.ttl } : item,
+          ),
+        );
+      } catch (error) {
+        console.error("Error reading key:", error);
+        setKeyError(
+          error instanceof Error ? error.message : "Failed to read key",
+        );
+      } finally {
+        setKeyLoading(false);
+      }
+    },
+    [apiBase],
+  );
+
+  const handleSelectKey = (key: string) => {
+    setSelectedKey(key);
+    setKeyView(null);
+    setTtlInput("");
+    setConfirmDelete(false);
+    fetchKey(key);
+  };
+
+  const handleUpdateTtl = async (ttl: number | null) => {
+    if (!selectedKey) {
+      return;
+    }
+
+    try {
+      setKeyError(null);
+      const response = await fetch(`${apiBase}/key`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: selectedKey, ttl }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          [data.error || "Failed to update TTL", data.details]
+            .filter(Boolean)
+            .join(": "),
+        );
+      }
+
+      setTtlInput("");
+      fetchKey(selectedKey);
+    } catch (error) {
+      console.error("Error updating TTL:", error);
+      setKeyError(
+        error instanceof Error ? error.message : "Failed to update TTL",
+      );
+    }
+  };
+
+  const handleDeleteKey = async () => {
+    if (!selectedKey) {
+      return;
+    }
+
+    try {
+      setKeyError(null);
+      const query = new URLSearchParams({ key: selectedKey });
+      const response = await fetch(`${apiBase}/key?${query}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          [data.error || "Failed to delete key", data.details]
+            .filter(Boolean)
+            .join(": "),
+        );
+      }
+
+      setKeys((prev) => prev.filter((item) => item.key !== selectedKey));
+      setSelectedKey(null);
+      setKeyView(null);
+    } catch (error) {
+      console.error("Error deleting key:", error);
+      setKeyError(
+        error instanceof Error ? error.message : "Failed to delete key",
+      );
+    } finally {
+      setConfirmDelete(false);
+    }
+  };
+
+  const runCommand = async (command: string, confirm = false) => {
+    if (!command.trim() || commandRunning) {
+      return;
+    }
+
+    const id = Date.now();
+    try {
+      setCommandRunning(true);
+      setPendingCommand(null);
+      const response = await fetch(`${apiBase}/command`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ command, confirm }),
+      });
+      const data = await response.json();
+
+      if (data.requiresConfirmation) {
+        setPendingCommand({ command, warning: data.error });
+        return;
+      }
+
+      setCommandInput("");
+      if (!response.ok) {
+        setConsoleEntries((prev) => [
+          ...prev,
+          {
+            id,
+            command,
+            output: [data.error || "Failed to run command", data.details]
+              .filter(Boolean)
+              .join(": "),
+            error: true,
+          },
+        ]);
+        return;
+      }
+
+      const result = data as RedisCommandResult;
+      setConsoleEntries((prev) => [
+        ...prev,
+        {
+          id,
+          command,
+          output: formatReply(result.result),
+          error: false,
+          durationMs: result.durationMs,
+        },
+      ]);
+    } catch (error) {
+      console.error("Error running command:", error);
+      setConsoleEntries((prev) => [
+        ...prev,
+        {
+          id,
+          command,
+          output:
+            error instanceof Error ? error.message : "Failed to run command",
+          error: true,
+        },
+      ]);
+    } finally {
+      setCommandRunning(false);
+    }
+  };
+
+  const stats = info
+    ? (() => {
+        const hits = Number(info.Stats?.keyspace_hits || 0);
+        const misses = Number(info.Stats?.keyspace_misses || 0);
+        const keyCount = Object.values(info.Keyspace || {}).reduce(
+          (total, db) => total + Number(/keys=(\d+)/.exec(db)?.[1] || 0),
+          0,
+        );
+        return [
+          { label: "Version", value: info.Server?.redis_version || "-" },
+          {
+            label: "Uptime",
+            value: formatTtl(
+              Number(info.Server?.uptime_in_seconds || 0) * 1000,
+            ),
+          },
+          {
+            label: "Memory",
+            value: `${info.Memory?.used_memory_human || "-"}${
+              info.Memory?.maxmemory && info.Memory.maxmemory !== "0"
+                ? ` / ${info.Memory.maxmemory_human}`
+                : ""
+            }`,
+          },
+          {
+            label: "Peak memory",
+            value: info.Memory?.used_memory_peak_human || "-",
+          },
+          { label: "Keys", value: keyCount.toLocaleString() },
+          { label: "Clients", value: info.Clients?.connected_clients || "-" },
+          {
+            label: "Ops/sec",
+            value: info.Stats?.instantaneous_ops_per_sec || "-",
+          },
+          {
+            label: "Hit rate",
+            value:
+              hits + misses > 0
+                ? `${((hits / (hits + misses)) * 100).toFixed(1)}%`
+                : "-",
+          },
+        ];
+      })()
+    : [];
+
+  return (
+    <div className="flex flex-1 flex-col gap-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <motion.button
+          onClick={() => router.back()}
+          className="relative flex h-9 w-9 items-center justify-center overflow-hidden rounded-md border border-primary/80 border-r-[3px] bg-card shadow-sm transition-colors isolate"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <MdArrowBack className="h-5 w-5 text-primary/80" />
+        </motion.button>
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-primary/80">
+            Key Browser
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {deploymentName
+              ? `Browse the keys of ${deploymentName}`
+              : "Browse the keys of your Redis"}
+          </p>
+        </div>
+        <motion.button
+          onClick={() => {
+            fetchInfo();
+            setFilters((prev) => ({ ...prev }));
+          }}
+          className="ml-auto flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-xs font-medium text-primary/80"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <MdRefresh
+            className={cn("h-3.5 w-3.5", keysLoading && "animate-spin")}
+          />
+          Refresh
+        </motion.button>
+      </div>
+
+      {/* Server Stats */}
+      {infoError ? (
+        <div className="rounded-md border border-red-500/80 bg-red-500/5 p-3 text-xs text-red-600 dark:text-red-400 break-words">
+          {infoError}
+        </div>
+      ) : (
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-4 xl:grid-cols-8">
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-3"
+            >
+              <p className="text-[10px] text-muted-foreground">{stat.label}</p>
+              <p className="text-sm font-semibold text-primary/80 truncate">
+                {stat.value}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Key List */}
+        <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4 lg:max-h-[calc(100vh-16rem)] flex flex-col">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setFilters((prev) => ({ ...prev, pattern: patternInput }));
+            }}
+            className="flex gap-2 mb-3"
+          >
+            <div className="relative flex-1">
+              <MdSearch className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+              <input
+                type="text"
+                value={patternInput}
+                onChange={(e) => setPatternInput(e.target.value)}
+                placeholder="Pattern, e.g. user:*"
+                className="w-full pl-7 pr-2 py-1.5 text-xs font-mono rounded-md border border-primary/80 bg-background text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/40"
+              />
+            </div>
+            <select
+              value={filters.type}
+              onChange={(e) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  type: e.target.value as RedisKeyType | "",
+                }))
+              }
+              className="h-8 px-2 text-xs rounded-md border border-primary/80 bg-background text-primary/80"
+              title="Key type"
+            >
+              <option value="">All types</option>
+              {KEY_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </form>
+
+          {keysError && (
+            <p className="text-xs text-red-500 break-words mb-2">{keysError}</p>
+          )}
+          {!keysError && !keysLoading && keys.length === 0 && !scanCursor && (
+            <p className="text-xs text-muted-foreground">No matching keys</p>
+          )}
+
+          <ul className="flex-1 overflow-y-auto space-y-0.5">
+            {keys.map((item) => (
+              <li key={item.key}>
+                <button
+                  type="button"
+                  onClick={() => handleSelectKey(item.key)}
+                  className={cn(
+                    "flex w-full items-center gap-2 rounded px-2 py-1 text-left text-xs transition-colors",
+                    selectedKey === item.key
+                      ? "bg-primary/10 text-primary"
+                      : "text-primary/80 hover:bg-primary/5",
+                  )}
+                >
+                  <span
+                    className={cn(
+                      "shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium",
+                      TYPE_COLORS[item.type],
+                    )}
+                  >
+                    {item.type}
+                  </span>
+                  <span className="truncate font-mono">{item.key}</span>
+                  {item.ttl >= 0 && (
+                    <span className="ml-auto shrink-0 text-[10px] text-muted-foreground">
+                      {formatTtl(item.ttl)}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {scanCursor && (
+            <button
+              type="button"
+              onClick={() => fetchKeys(scanCursor)}
+              disabled={keysLoading}
+              className="mt-3 h-8 rounded-md border border-primary/80 bg-card hover:bg-primary/5 transition-colors text-xs text-primary/80 disabled:opacity-50"
+            >
+              {keysLoading ? "Scanning..." : "Load more"}
+            </button>
+          )}
+        </div>
+
+        {/* Key Viewer */}
+        <div className="lg:col-span-2 rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4 lg:max-h-[calc(100vh-16rem)] flex flex-col min-h-64">
+          {!selectedKey ? (
+            <div className="flex flex-1 flex-col items-center justify-center gap-2 text-muted-foreground">
+              <MdKey className="h-8 w-8" />
+              <p className="text-xs">Select a key to see its value</p>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-start gap-3 mb-3">
+                <div className="min-w-0 flex-1">
+                  <p className="font-mono text-sm font-semibold text-primary/80 break-all">
+                    {selectedKey}
+                  </p>
+                  {keyView && (
+                    <p className="mt-1 flex flex-wrap items-center gap-2 text-[10px] text-muted-foreground">
+                      <span
+                        className={cn(
+                          "rounded px-1.5 py-0.5 font-medium",
+                          TYPE_COLORS[keyView.key.type],
+                        )}
+                      >
+                        {keyView.key.type}
+                      </span>
+                      <span>
+                        {keyView.key.length.toLocaleString()}{" "}
+                        {keyView.key.type === "string"
+                          ? "characters"
+                          : keyView.key.type === "hash"
+                            ? "fields"
+                            : keyView.key.type === "stream"
+                              ? "entries"
+                              : "items"}
+                      </span>
+                      {keyView.key.memory !== null && (
+                        <span>{formatBytes(keyView.key.memory)}</span>
+                      )}
+                      <span className="flex items-center gap-0.5">
+                        <MdTimer className="h-3 w-3" />
+                        {formatTtl(keyView.key.ttl)}
+                      </span>
+                    </p>
+                  )}
+                </div>
+
+                {confirmDelete ? (
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="text-red-600 dark:text-red-400">
+                      Delete this key?
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleDeleteKey}
+                      className="h-7 px-2 rounded-md bg-red-600 hover:bg-red-700 text-white"
+                    >
+                      Delete
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirmDelete(false)}
+                      className="h-7 px-2 rounded-md border border-primary/80 text-primary/80 hover:bg-primary/5"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <motion.button
+                    onClick={() => setConfirmDelete(true)}
+                    className="flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-red-500/80 border-r-[3px] bg-card hover:bg-red-500/5 transition-colors text-xs font-medium text-red-600"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    title="Delete key"
+                  >
+                    <MdDelete className="h-3.5 w-3.5" />
+                  </motion.button>
+                )}
+              </div>
+
+              {/* TTL */}
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  const ttl = Number(ttlInput);
+                  if (Number.isInteger(ttl) && ttl > 0) {
+                    handleUpdateTtl(ttl);
+                  }
+                }}
+                className="flex items-center gap-2 mb-3 text-xs"
+              >
+                <input
+                  type="number"
+                  min={1}
+                  value={ttlInput}
+                  onChange={(e) => setTtlInput(e.target.value)}
+                  placeholder="TTL in seconds"
+                  className="w-36 px-2 py-1.5 rounded-md border border-primary/80 bg-background text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/40"
+                />
+                <button
+                  type="submit"
+                  disabled={!ttlInput}
+                  className="h-8 px-3 rounded-md border border-primary/80 bg-card hover:bg-primary/5 transition-colors text-primary/80 disabled:opacity-50"
+                >
+                  Set TTL
+                </button>
+                {keyView && keyView.key.ttl >= 0 && (
+                  <button
+                    type="button"
+                    onClick={() => handleUpdateTtl(null)}
+                    className="h-8 px-3 rounded-md border border-primary/80 bg-card hover:bg-primary/5 transition-colors text-primary/80"
+                  >
+                    Remove expiry
+                  </button>
+                )}
+              </form>
+
+              {keyError && (
+                <p className="text-xs text-red-500 break-words mb-2">
+                  {keyError}
+                </p>
+              )}
+
+              {/* Value */}
+              <div className="flex-1 overflow-auto rounded-md border border-primary/20">
+                {keyView?.key.value.type === "string" && (
+                  <>
+                    <pre className="p-3 font-mono text-xs text-primary/80 whitespace-pre-wrap break-all">
+                      {keyView.key.value.data}
+                    </pre>
+                    {keyView.key.value.truncated && (
+                      <p className="flex items-center gap-1 px-3 pb-3 text-[10px] text-orange-600 dark:text-orange-400">
+                        <MdWarning className="h-3.5 w-3.5" />
+                        Showing the first 64 KB
+                      </p>
+                    )}
+                  </>
+                )}
+
+                {keyView &&
+                  keyView.key.value.type !== "string" &&
+                  keyView.key.value.type !== "none" && (
+                    <table className="w-full text-xs font-mono">
+                      <thead className="sticky top-0 bg-card">
+                        <tr>
+                          {VALUE_COLUMNS[keyView.key.value.type].map(
+                            (column) => (
+                              <th
+                                key={column}
+                                className="px-3 py-1.5 text-left font-semibold text-primary/80 border-b border-primary/20"
+                              >
+                                {column}
+                              </th>
+                            ),
+                          )}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {keyView.rows.map((row) => (
+                          <tr key={row.id} className="odd:bg-primary/5">
+                            {row.cells.map((cell, index) => (
+                              <td
+                                key={`${row.id}-${index}`}
+                                className="px-3 py-1 align-top break-all"
+                              >
+                                {cell}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                {keyLoading && !keyView && (
+                  <p className="p-3 text-xs text-muted-foreground">
+                    Loading...
+                  </p>
+                )}
+              </div>
+
+              {keyView?.key.next && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    keyView.key.next && fetchKey(selectedKey, keyView.key.next)
+                  }
+                  disabled={keyLoading}
+                  className="mt-3 h-8 rounded-md border border-primary/80 bg-card hover:bg-primary/5 transition-colors text-xs text-primary/80 disabled:opacity-50"
+                >
+                  {keyLoading
+                    ? "Loading..."
+                    : `Load more (${keyView.rows.length.toLocaleString()} of ${keyView.key.length.toLocaleString()})`}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Command Console */}
+      <div className="rounded-md border border-primary/80 border-r-[3px] border-b-[3px] bg-card shadow-sm p-4 space-y-3">
+        <h2 className="text-sm font-semibold text-primary/80">Console</h2>
+
+        {consoleEntries.length > 0 && (
+          <div className="max-h-80 overflow-y-auto rounded-md bg-zinc-950 p-3 font-mono text-xs space-y-2">
+            {consoleEntries.map((entry) => (
+              <div key={entry.id}>
+                <p className="text-zinc-400">
+                  &gt; {entry.command}
+                  {entry.durationMs !== undefined && (
+                    <span className="ml-2 text-[10px] text-zinc-600">
+                      {entry.durationMs} ms
+                    </span>
+                  )}
+                </p>
+                <pre
+                  className={cn(
+                    "whitespace-pre-wrap break-all",
+                    entry.error ? "text-red-400" : "text-zinc-100",
+                  )}
+                >
+                  {entry.error ? `(error) ${entry.output}` : entry.output}
+                </pre>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {pendingCommand && (
+          <div className="flex flex-wrap items-center gap-3 rounded-md border border-orange-500/80 bg-orange-500/5 p-3 text-xs text-orange-600 dark:text-orange-400">
+            <MdWarning className="h-4 w-4 shrink-0" />
+            <span className="flex-1">
+              {pendingCommand.warning}. Run{" "}
+              <span className="font-mono">{pendingCommand.command}</span>{" "}
+              anyway?
+            </span>
+            <button
+              type="button"
+              onClick={() => runCommand(pendingCommand.command, true)}
+              className="h-7 px-2 rounded-md bg-orange-600 hover:bg-orange-700 text-white"
+            >
+              Run anyway
+            </button>
+            <button
+              type="button"
+              onClick={() => setPendingCommand(null)}
+              className="h-7 px-2 rounded-md border border-primary/80 text-primary/80 hover:bg-primary/5"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            runCommand(commandInput);
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={commandInput}
+            onChange={(e) => setCommandInput(e.target.value)}
+            spellCheck={false}
+            placeholder='Command, e.g. HGETALL "user:1"'
+            className="flex-1 px-3 py-1.5 font-mono text-xs rounded-md border border-primary/80 bg-background text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/40"
+          />
+          <motion.button
+            type="submit"
+            disabled={commandRunning || !commandInput.trim()}
+            className="flex items-center justify-center gap-2 h-8 px-4 rounded-md border border-primary/80 border-r-[3px] bg-primary/10 hover:bg-primary/20 transition-colors text-xs font-medium text-primary disabled:opacity-50"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            {commandRunning ? (
+              <MdRefresh className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <MdPlayArrow className="h-3.5 w-3.5" />
+            )}
+            Run
+          </motion.button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  MdExpandLess,
+  MdExpandMore,
+  MdRefresh,
+  MdWarning,
+} from "react-icons/md";
+import type { EventSummary } from "@/lib/kubectl";
+import { cn } from "@/lib/utils";
+
+const EVENT_LIMIT = 20;
+
+/**
+ * Kubernetes events of a deployment's namespace, warnings first
+ * Collapsed it only shows the latest warning
+ */
+export function DeploymentEvents({ deploymentId }: { deploymentId: string }) {
+  const [events, setEvents] = useState<EventSummary[]>([]);
+  const [warnings, setWarnings] = useState(0);
+  const [expanded, setExpanded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(
+        `/api/deployments/${deploymentId}/events?limit=${EVENT_LIMIT}`,
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch events");
+      }
+
+      setEvents(data.events || []);
+      setWarnings(data.warnings || 0);
+    } catch (error) {
+      console.error("Error fetching events:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to fetch events",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [deploymentId]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const visibleEvents = expanded
+    ? events
+    : events.filter((event) => event.type === "Warning").slice(0, 1);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-1">
+        <span className="text-[10px] text-muted-foreground">Events</span>
+        {warnings > 0 && (
+          <span className="inline-flex items-center gap-0.5 rounded-md border border-red-500/80 bg-red-500/10 px-1 text-[10px] font-medium text-red-600 dark:text-red-400">
+            <MdWarning className="h-3 w-3" />
+            {warnings}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            onClick={fetchEvents}
+            className="text-muted-foreground hover:text-primary/80"
+            title="Refresh events"
+          >
+            <MdRefresh
+              className={cn("h-3.5 w-3.5", loading && "animate-spin")}
+            />
+          </button>
+          {events.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setExpanded(!expanded)}
+              className="flex items-center text-[10px] text-muted-foreground hover:text-primary/80"
+            >
+              {expanded ? (
+                <MdExpandLess className="h-3.5 w-3.5" />
+              ) : (
+                <MdExpandMore className="h-3.5 w-3.5" />
+              )}
+              {expanded ? "Less" : `All (${events.length})`}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-[10px] text-red-500">{error}</p>}
+
+      {!error && !loading && events.length === 0 && (
+        <p className="text-[10px] text-muted-foreground">No recent events</p>
+      )}
+
+      {visibleEvents.length > 0 && (
+        <ul className={cn("space-y-1", expanded && "max-h-48 overflow-y-auto")}>
+          {visibleEvents.map((event) => (
+            <li
+              key={`${event.object}-${event.reason}-${event.lastSeen}`}
+              className={cn(
+                "rounded-md border px-2 py-1 text-[10px]",
+                event.type === "Warning"
+                  ? "border-red-500/40 bg-red-500/5"
+                  : "border-primary/20 bg-primary/5",
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <span
+                  className={cn(
+                    "font-semibold",
+                    event.type === "Warning"
+                      ? "text-red-600 dark:text-red-400"
+                      : "text-primary/80",
+                  )}
+                >
+                  {event.reason}
+                </span>
+                {event.count > 1 && (
+                  <span className="text-muted-foreground">×{event.count}</span>
+                )}
+                <span className="ml-auto text-muted-foreground">
+                  {new Date(event.lastSeen).toLocaleString()}
+                </span>
+              </div>
+              <p className="text-muted-foreground break-words">
+                <span className="font-mono">{event.object}</span>:{" "}
+                {event.message}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
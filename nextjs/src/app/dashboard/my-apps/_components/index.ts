@@ -0,0 +1,3 @@
+export { DeploymentEvents } from "./deployment-events";
+export { LogViewerDialog } from "./log-viewer";
+export { TerminalDialog } from "./terminal";
@@ -0,0 +1,341 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { MdArticle, MdDownload, MdRefresh, MdSearch } from "react-icons/md";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+// Older lines are dropped while following
+const MAX_LINES = 10_000;
+const TAIL_OPTIONS = [100, 500, 1000, 5000];
+
+interface LogViewerDialogProps {
+  deployment: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+/**
+ * Log panel for a deployment: reads or follows its pod logs, with search
+ * and download of the loaded lines
+ */
+export function LogViewerDialog({ deployment, onClose }: LogViewerDialogProps) {
+  const [lines, setLines] = useState<Array<{ id: number; text: string }>>([]);
+  const [pods, setPods] = useState<string[]>([]);
+  // Replacing the options (even with equal values) reads the logs again
+  const [options, setOptions] = useState({
+    pod: "", // Empty: the newest pod
+    tail: 500,
+    sinceTime: "", // datetime-local value
+    previous: false,
+    follow: false,
+  });
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const nextLineId = useRef(0);
+
+  const { pod, tail, sinceTime, previous, follow } = options;
+  const setOption = <K extends keyof typeof options>(
+    key: K,
+    value: (typeof options)[K],
+  ) => setOptions((prev) => ({ ...prev, [key]: value }));
+
+  const deploymentId = deployment?.id;
+
+  useEffect(() => {
+    if (!deploymentId) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const readLogs = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setLines([]);
+
+        const query = new URLSearchParams({
+          tail: String(options.tail),
+          timestamps: "true",
+        });
+        if (options.pod) query.set("pod", options.pod);
+        if (options.sinceTime)
+          query.set("sinceTime", new Date(options.sinceTime).toISOString());
+        if (options.previous) query.set("previous", "true");
+        if (options.follow && !options.previous) query.set("follow", "true");
+
+        const response = await fetch(
+          `/api/deployments/${deploymentId}/logs?${query}`,
+          {
+            signal: controller.signal,
+          },
+        );
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(
+            [data.error || "Failed to read logs", data.details]
+              .filter(Boolean)
+              .join(": "),
+          );
+        }
+        if (!response.body) {
+          throw new Error("Failed to read logs");
+        }
+
+        setPods(
+          (response.headers.get("X-Pods") || "").split(",").filter(Boolean),
+        );
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let partial = "";
+
+        const append = (texts: string[]) =>
+          setLines((prev) =>
+            [
+              ...prev,
+              ...texts.map((text) => ({ id: nextLineId.current++, text })),
+            ].slice(-MAX_LINES),
+          );
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) {
+            break;
+          }
+
+          partial += decoder.decode(value, { stream: true });
+          const complete = partial.split("\n");
+          partial = complete.pop() ?? "";
+
+          if (complete.length > 0) {
+            append(complete);
+          }
+          setLoading(false);
+        }
+
+        if (partial) {
+          append([partial]);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Error reading logs:", error);
+          setError(
+            error instanceof Error ? error.message : "Failed to read logs",
+          );
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    readLogs();
+    return () => controller.abort();
+  }, [deploymentId, options]);
+
+  // Keep the newest lines in view while following
+  useEffect(() => {
+    if (follow && lines.length > 0) {
+      bottomRef.current?.scrollIntoView({ block: "end" });
+    }
+  }, [follow, lines]);
+
+  const filteredLines = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return term
+      ? lines.filter((line) => line.text.toLowerCase().includes(term))
+      : lines;
+  }, [lines, search]);
+
+  const handleDownload = () => {
+    const blob = new Blob([filteredLines.map((line) => line.text).join("\n")], {
+      type: "text/plain",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${deployment?.name || "deployment"}${previous ? "-previous" : ""}.log`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const highlight = (line: string) => {
+    const term = search.trim();
+    if (!term) {
+      return line;
+    }
+
+    const index = line.toLowerCase().indexOf(term.toLowerCase());
+    return (
+      <>
+        {line.slice(0, index)}
+        <mark className="bg-yellow-300/60 text-inherit">
+          {line.slice(index, index + term.length)}
+        </mark>
+        {line.slice(index + term.length)}
+      </>
+    );
+  };
+
+  return (
+    <Dialog
+      open={deployment !== null}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-primary/80">
+            <MdArticle className="h-6 w-6" />
+            Logs
+          </DialogTitle>
+          <DialogDescription>
+            Container output of {deployment?.name}.
+            {pods.length > 1 &&
+              " The deployment has several pods, pick one below."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Options */}
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-xs">
+          {pods.length > 1 && (
+            <select
+              value={pod}
+              onChange={(e) => setOption("pod", e.target.value)}
+              className="h-8 px-2 rounded-md border border-primary/80 bg-background text-primary/80 font-mono text-[10px]"
+            >
+              <option value="">Newest pod</option>
+              {pods.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <select
+            value={tail}
+            onChange={(e) => setOption("tail", Number(e.target.value))}
+            className="h-8 px-2 rounded-md border border-primary/80 bg-background text-primary/80"
+            title="Lines from the end"
+          >
+            {TAIL_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                Last {option} lines
+              </option>
+            ))}
+          </select>
+
+          <input
+            type="datetime-local"
+            value={sinceTime}
+            onChange={(e) => setOption("sinceTime", e.target.value)}
+            className="h-8 px-2 rounded-md border border-primary/80 bg-background text-primary/80"
+            title="Only lines after this time"
+          />
+
+          <div className="flex items-center gap-1.5">
+            <Checkbox
+              id="logs-previous"
+              checked={previous}
+              onCheckedChange={(checked: boolean) =>
+                setOption("previous", checked === true)
+              }
+            />
+            <Label
+              htmlFor="logs-previous"
+              className="text-xs font-normal cursor-pointer"
+            >
+              Previous container
+            </Label>
+          </div>
+
+          <div className="flex items-center gap-1.5">
+            <Checkbox
+              id="logs-follow"
+              checked={follow}
+              disabled={previous}
+              onCheckedChange={(checked: boolean) =>
+                setOption("follow", checked === true)
+              }
+            />
+            <Label
+              htmlFor="logs-follow"
+              className="text-xs font-normal cursor-pointer"
+            >
+              Follow
+            </Label>
+          </div>
+
+          <div className="ml-auto flex items-center gap-2">
+            <motion.button
+              onClick={() => setOptions((prev) => ({ ...prev }))}
+              className="flex items-center justify-center h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-primary/80"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              title="Reload"
+            >
+              <MdRefresh
+                className={cn("h-3.5 w-3.5", loading && "animate-spin")}
+              />
+            </motion.button>
+            <motion.button
+              onClick={handleDownload}
+              disabled={filteredLines.length === 0}
+              className="flex items-center justify-center h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-primary/80 disabled:opacity-50"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              title="Download"
+            >
+              <MdDownload className="h-3.5 w-3.5" />
+            </motion.button>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="relative">
+          <MdSearch className="absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search logs"
+            className="w-full pl-8 pr-3 py-2 text-xs rounded-md border border-primary/80 bg-background text-primary/80 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/40"
+          />
+          {search && (
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground">
+              {filteredLines.length} of {lines.length} lines
+            </span>
+          )}
+        </div>
+
+        {/* Output */}
+        <div className="h-96 overflow-auto rounded-md border border-primary/80 bg-zinc-950 p-3 font-mono text-[11px] leading-relaxed text-zinc-100">
+          {error && <p className="text-red-400">{error}</p>}
+          {!error && !loading && lines.length === 0 && (
+            <p className="text-zinc-500">No log output</p>
+          )}
+          {filteredLines.map((line) => (
+            <div key={line.id} className="whitespace-pre-wrap break-all">
+              {highlight(line.text)}
+            </div>
+          ))}
+          <div ref={bottomRef} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import "@xterm/xterm/css/xterm.css";
+import { motion } from "framer-motion";
+import { useEffect, useRef, useState } from "react";
+import { MdRefresh, MdTerminal } from "react-icons/md";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+
+type TerminalTarget = "client" | "shell";
+
+type ConnectionState =
+  | { state: "connecting" }
+  | { state: "connected" }
+  | { state: "closed"; message: string }
+  | { state: "error"; message: string };
+
+interface TerminalDialogProps {
+  deployment: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+/**
+ * Interactive terminal into a deployment's pod, opening the database client
+ * (psql, redis-cli...) or a shell. Sessions are recorded on the server
+ */
+export function TerminalDialog({ deployment, onClose }: TerminalDialogProps) {
+  // Replacing the options (even with equal values) reconnects
+  const [options, setOptions] = useState<{ target: TerminalTarget }>({
+    target: "client",
+  });
+  const [connection, setConnection] = useState<ConnectionState>({
+    state: "connecting",
+  });
+  const [session, setSession] = useState<{
+    pod: string;
+    command: string;
+  } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const deploymentId = deployment?.id;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!deploymentId || !container) {
+      return;
+    }
+
+    let disposed = false;
+    const cleanup: Array<() => void> = [];
+
+    const connect = async () => {
+      try {
+        setConnection({ state: "connecting" });
+        setSession(null);
+
+        const response = await fetch(`/api/deployments/${deploymentId}/exec`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ target: options.target }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(
+            [data.error || "Failed to open terminal", data.details]
+              .filter(Boolean)
+              .join(": "),
+          );
+        }
+
+        // xterm needs the DOM, load it on the client only
+        const [{ Terminal }, { FitAddon }] = await Promise.all([
+          import("@xterm/xterm"),
+          import("@xterm/addon-fit"),
+        ]);
+        if (disposed) {
+          return;
+        }
+
+        const terminal = new Terminal({
+          cursorBlink: true,
+          fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+          fontSize: 12,
+          theme: { background: "#09090b" },
+        });
+        const fit = new FitAddon();
+        terminal.loadAddon(fit);
+        terminal.open(container);
+        fit.fit();
+        terminal.focus();
+        cleanup.push(() => terminal.dispose());
+
+        setSession({ pod: data.pod, command: data.command });
+
+        const query = new URLSearchParams({
+          ticket: data.ticket,
+          cols: String(terminal.cols),
+          rows: String(terminal.rows),
+        });
+        const socket = new WebSocket(`${data.url}?${query}`);
+        socket.binaryType = "arraybuffer";
+        cleanup.push(() => socket.close());
+
+        const send = (message: object) => {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(message));
+          }
+        };
+
+        socket.onopen = () => setConnection({ state: "connected" });
+
+        socket.onmessage = (event) => {
+          if (typeof event.data !== "string") {
+            terminal.write(new Uint8Array(event.data));
+            return;
+          }
+
+          const message = JSON.parse(event.data);
+          if (message.type === "exit") {
+            terminal.write(
+              `\r\n\x1b[90m[${
+                message.error ||
+                `Process exited${message.exitCode !== undefined ? ` with code ${message.exitCode}` : ""}`
+              }]\x1b[0m\r\n`,
+            );
+          }
+        };
+
+        socket.onclose = (event) => {
+          if (disposed) {
+            return;
+          }
+          // 4xxx: refused by the exec server, the reason says why
+          setConnection(
+            event.code >= 4000
+              ? { state: "error", message: event.reason }
+              : { state: "closed", message: "Session ended" },
+          );
+        };
+
+        const input = terminal.onData((text) =>
+          send({ type: "input", data: text }),
+        );
+        const resize = terminal.onResize(({ cols, rows }) =>
+          send({ type: "resize", cols, rows }),
+        );
+        cleanup.push(
+          () => input.dispose(),
+          () => resize.dispose(),
+        );
+
+        const observer = new ResizeObserver(() => fit.fit());
+        observer.observe(container);
+        cleanup.push(() => observer.disconnect());
+      } catch (error) {
+        if (!disposed) {
+          console.error("Error opening terminal:", error);
+          setConnection({
+            state: "error",
+            message:
+              error instanceof Error
+                ? error.message
+                : "Failed to open terminal",
+          });
+        }
+      }
+    };
+
+    connect();
+    return () => {
+      disposed = true;
+      for (const fn of cleanup.reverse()) {
+        fn();
+      }
+    };
+  }, [deploymentId, options]);
+
+  return (
+    <Dialog
+      open={deployment !== null}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-primary/80">
+            <MdTerminal className="h-6 w-6" />
+            Terminal
+          </DialogTitle>
+          <DialogDescription>
+            Runs inside the container of {deployment?.name}. Sessions are
+            recorded in the audit log.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Options */}
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-xs">
+          <div className="flex rounded-md border border-primary/80 overflow-hidden">
+            {(["client", "shell"] as const).map((target) => (
+              <button
+                key={target}
+                type="button"
+                onClick={() => setOptions({ target })}
+                className={cn(
+                  "h-8 px-3 transition-colors",
+                  options.target === target
+                    ? "bg-primary/10 text-primary font-medium"
+                    : "bg-background text-primary/80 hover:bg-primary/5",
+                )}
+              >
+                {target === "client" ? "Database client" : "Shell"}
+              </button>
+            ))}
+          </div>
+
+          <span
+            className={cn(
+              "flex items-center gap-1.5 text-[10px]",
+              connection.state === "error"
+                ? "text-red-600 dark:text-red-400"
+                : "text-muted-foreground",
+            )}
+          >
+            <span
+              className={cn(
+                "h-2 w-2 rounded-full",
+                connection.state === "connected" && "bg-green-500",
+                connection.state === "connecting" &&
+                  "bg-yellow-500 animate-pulse",
+                connection.state === "closed" && "bg-zinc-400",
+                connection.state === "error" && "bg-red-500",
+              )}
+            />
+            {connection.state === "connecting" && "Connecting..."}
+            {connection.state === "connected" && session && (
+              <span className="font-mono">
+                {session.pod} $ {session.command}
+              </span>
+            )}
+            {(connection.state === "closed" || connection.state === "error") &&
+              connection.message}
+          </span>
+
+          <motion.button
+            onClick={() => setOptions((prev) => ({ ...prev }))}
+            className="ml-auto flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-primary/80"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            title="Reconnect"
+          >
+            <MdRefresh
+              className={cn(
+                "h-3.5 w-3.5",
+                connection.state === "connecting" && "animate-spin",
+              )}
+            />
+          </motion.button>
+        </div>
+
+        {/* Output */}
+        <div className="h-96 rounded-md border border-primary/80 bg-zinc-950 p-2">
+          <div ref={containerRef} className="h-full w-full" />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,8 +13,19 @@ import {
   MdAccessTime,
   MdDelete,
   MdWarning,
+  MdHistory,
+  MdRestore,
+  MdPlayArrow,
+  MdStop,
+  MdPauseCircle,
+  MdArticle,
+  MdTerminal,
+  MdTableChart,
+  MdKey,
+  MdBackup,
 } from "react-icons/md";
-import { SiPostgresql } from "react-icons/si";
+import { type AppTemplate, getAppTemplateForType } from "@/lib/app-templates";
+import { templateIcons } from "@/lib/app-templates/icons";
 import { cn } from "@/lib/utils";
 import {
   Dialog,
@@ -23,16 +34,27 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { DeploymentEvents, LogViewerDialog, TerminalDialog } from "./_components";
 
 interface Deployment {
   id: string;
   name: string;
-  type: string;
+  type: AppTemplate["type"];
   image: string;
   tag: string;
   status: string;
+  healthStatus: string | null;
+  healthReasons?: string[];
+  metadata: {
+    // Set by the reconciler when objects were changed outside Dockify
+    drift?: {
+      detectedAt: string;
+      resources: Array<{ kind: string; name: string; action: "missing" | "modified" }>;
+    } | null;
+  } | null;
   externalUrl: string;
   nodePort: number;
+  poolerNodePort: number | null; // PgBouncer in front of Postgres, when enabled
   namespace: string;
   createdAt: string;
   deployedAt: string | null;
@@ -44,6 +66,29 @@ interface Deployment {
   }>;
 }
 
+interface DeploymentRevision {
+  id: string;
+  revision: number;
+  reason: "deploy" | "update" | "rollback";
+  sourceRevision: number | null;
+  tag: string;
+  config: {
+    pvcSize: number | null;
+    resourcePreset: string | null;
+    cpuLimit: string;
+    memoryLimit: string;
+    envVars: Record<string, string>;
+  };
+  createdAt: string;
+}
+
+// Same host as the database, on the pooler's NodePort
+const generatePoolerUrl = (deployment: Deployment) => {
+  const url = new URL(deployment.externalUrl);
+  url.port = String(deployment.poolerNodePort);
+  return url.origin;
+};
+
 export default function MyAppsPage() {
   const router = useRouter();
   const [deployments, setDeployments] = useState<Deployment[]>([]);
@@ -53,11 +98,27 @@ export default function MyAppsPage() {
   const [deploymentToDelete, setDeploymentToDelete] = useState<Deployment | null>(null);
   const [confirmText, setConfirmText] = useState("");
   const [deleting, setDeleting] = useState(false);
+  const [historyDeployment, setHistoryDeployment] = useState<Deployment | null>(null);
+  const [revisions, setRevisions] = useState<DeploymentRevision[]>([]);
+  const [revisionsLoading, setRevisionsLoading] = useState(false);
+  const [rollingBackTo, setRollingBackTo] = useState<number | null>(null);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [logsDeployment, setLogsDeployment] = useState<Deployment | null>(null);
+  const [terminalDeployment, setTerminalDeployment] = useState<Deployment | null>(null);
+  const [canExec, setCanExec] = useState(false);
 
   useEffect(() => {
     fetchDeployments();
   }, []);
 
+  // The terminal needs a permission on top of owning the deployment
+  useEffect(() => {
+    fetch("/api/auth/check-permission?permission=deployments:exec")
+      .then((response) => response.json())
+      .then((data) => setCanExec(data.hasPermission === true))
+      .catch(() => setCanExec(false));
+  }, []);
+
   const fetchDeployments = async () => {
     try {
       setLoading(true);
@@ -70,6 +131,7 @@ export default function MyAppsPage() {
       }
 
       setDeployments(data.deployments || []);
+      refreshHealth(data.deployments || []);
     } catch (error) {
       console.error("Error fetching deployments:", error);
       setError(error instanceof Error ? error.message : "Failed to fetch deployments");
@@ -78,6 +140,31 @@ export default function MyAppsPage() {
     }
   };
 
+  // Check running deployments in Kubernetes, the list only has the stored health
+  const refreshHealth = (list: Deployment[]) => {
+    for (const deployment of list) {
+      if (!["deployed", "stopped"].includes(deployment.status)) {
+        continue;
+      }
+
+      fetch(`/api/deployments/${deployment.id}/status`)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data) => {
+          if (!data) {
+            return;
+          }
+          setDeployments((prev) =>
+            prev.map((d) =>
+              d.id === deployment.id
+                ? { ...d, healthStatus: data.health, healthReasons: data.reasons }
+                : d,
+            ),
+          );
+        })
+        .catch((error) => console.error("Error fetching deployment health:", error));
+    }
+  };
+
   const copyToClipboard = (text: string, label?: string) => {
     navigator.clipboard.writeText(text);
     console.log(`Copied ${label || "text"} to clipboard`);
@@ -124,6 +211,85 @@ export default function MyAppsPage() {
     }
   };
 
+  const fetchRevisions = async (deployment: Deployment) => {
+    try {
+      setRevisionsLoading(true);
+      const response = await fetch(`/api/deployments/${deployment.id}/revisions`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch revisions");
+      }
+
+      setRevisions(data.revisions || []);
+    } catch (error) {
+      console.error("Error fetching revisions:", error);
+      setRevisions([]);
+    } finally {
+      setRevisionsLoading(false);
+    }
+  };
+
+  const handleHistoryClick = (deployment: Deployment) => {
+    setHistoryDeployment(deployment);
+    setRevisions([]);
+    fetchRevisions(deployment);
+  };
+
+  const handleRollback = async (revision: number) => {
+    if (!historyDeployment) {
+      return;
+    }
+
+    try {
+      setRollingBackTo(revision);
+      const response = await fetch(`/api/deployments/${historyDeployment.id}/rollback`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ revision }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to roll back deployment");
+      }
+
+      await Promise.all([fetchRevisions(historyDeployment), fetchDeployments()]);
+    } catch (error) {
+      console.error("Error rolling back deployment:", error);
+      alert(error instanceof Error ? error.message : "Failed to roll back deployment");
+    } finally {
+      setRollingBackTo(null);
+    }
+  };
+
+  const handleStopStart = async (deployment: Deployment) => {
+    const action = deployment.status === "stopped" ? "start" : "stop";
+
+    try {
+      setTogglingId(deployment.id);
+      const response = await fetch(`/api/deployments/${deployment.id}/${action}`, {
+        method: "POST",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} deployment`);
+      }
+
+      await fetchDeployments();
+    } catch (error) {
+      console.error(`Error trying to ${action} deployment:`, error);
+      alert(error instanceof Error ? error.message : `Failed to ${action} deployment`);
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "deployed":
@@ -134,6 +300,8 @@ export default function MyAppsPage() {
         return "text-red-500";
       case "pending":
         return "text-yellow-500";
+      case "stopped":
+        return "text-orange-500";
       default:
         return "text-muted-foreground";
     }
@@ -145,20 +313,32 @@ export default function MyAppsPage() {
         return MdCheckCircle;
       case "failed":
         return MdError;
+      case "stopped":
+        return MdPauseCircle;
       default:
         return MdAccessTime;
     }
   };
 
-  const getTypeIcon = (type: string) => {
-    switch (type) {
-      case "postgres":
-        return SiPostgresql;
+  const getHealthColor = (health: string) => {
+    switch (health) {
+      case "Healthy":
+        return "border-green-500/80 bg-green-500/10 text-green-600 dark:text-green-400";
+      case "Progressing":
+        return "border-blue-500/80 bg-blue-500/10 text-blue-600 dark:text-blue-400";
+      case "Degraded":
+      case "CrashLooping":
+        return "border-red-500/80 bg-red-500/10 text-red-600 dark:text-red-400";
       default:
-        return MdApps;
+        return "border-primary/40 bg-primary/5 text-muted-foreground";
     }
   };
 
+  const getTypeIcon = (type: Deployment["type"]) => {
+    const template = getAppTemplateForType(type);
+    return template ? templateIcons[template.icon] : MdApps;
+  };
+
   return (
     <div className="flex flex-1 flex-col gap-6">
       {/* Header */}
@@ -284,6 +464,30 @@ export default function MyAppsPage() {
                     <span className={cn("text-xs font-medium capitalize", getStatusColor(deployment.status))}>
                       {deployment.status}
                     </span>
+                    {deployment.healthStatus && ["deployed", "stopped"].includes(deployment.status) && (
+                      <span
+                        className={cn(
+                          "ml-auto rounded-md border px-1.5 py-0.5 text-[10px] font-medium",
+                          getHealthColor(deployment.healthStatus),
+                        )}
+                        title={deployment.healthReasons?.join("\n") || undefined}
+                      >
+                        {deployment.healthStatus}
+                      </span>
+                    )}
+                    {deployment.metadata?.drift && (
+                      <span
+                        className={cn(
+                          "rounded-md border border-orange-500/80 bg-orange-500/10 px-1.5 py-0.5 text-[10px] font-medium text-orange-600 dark:text-orange-400",
+                          !(deployment.healthStatus && ["deployed", "stopped"].includes(deployment.status)) && "ml-auto",
+                        )}
+                        title={deployment.metadata.drift.resources
+                          .map((resource) => `${resource.kind}/${resource.name} ${resource.action}`)
+                          .join("\n")}
+                      >
+                        Drifted
+                      </span>
+                    )}
                   </div>
                 </div>
 
@@ -328,6 +532,24 @@ export default function MyAppsPage() {
                         {deployment.type}
                       </p>
                     </div>
+                    {deployment.poolerNodePort && (
+                      <div className="col-span-2">
+                        <span className="text-muted-foreground">Pooler (PgBouncer):</span>
+                        <div className="flex items-center gap-2 mt-0.5">
+                          <p className="flex-1 font-mono text-primary/80 truncate">
+                            {generatePoolerUrl(deployment)}
+                          </p>
+                          <button
+                            type="button"
+                            onClick={() => copyToClipboard(generatePoolerUrl(deployment), "Pooler URL")}
+                            className="text-muted-foreground hover:text-primary/80"
+                            title="Copy pooler URL"
+                          >
+                            <MdContentCopy className="h-3 w-3" />
+                          </button>
+                        </div>
+                      </div>
+                    )}
                     <div className="col-span-2">
                       <span className="text-muted-foreground">Namespace:</span>
                       <p className="font-mono text-primary/80 mt-0.5 truncate" title={deployment.namespace}>
@@ -341,6 +563,11 @@ export default function MyAppsPage() {
                       </p>
                     </div>
                   </div>
+
+                  {/* Kubernetes Events */}
+                  {deployment.status !== "deleting" && (
+                    <DeploymentEvents deploymentId={deployment.id} />
+                  )}
                 </div>
 
                 {/* Footer */}
@@ -356,6 +583,86 @@ export default function MyAppsPage() {
                       ArgoCD
                     </a>
                   )}
+                  {["deployed", "failed", "stopped"].includes(deployment.status) && (
+                    <motion.button
+                      onClick={() => handleStopStart(deployment)}
+                      disabled={togglingId === deployment.id}
+                      className="flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-xs font-medium text-primary/80 disabled:opacity-50"
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      title={deployment.status === "stopped" ? "Start deployment" : "Stop deployment (data is kept)"}
+                    >
+                      {deployment.status === "stopped" ? (
+                        <MdPlayArrow className="h-3.5 w-3.5" />
+                      ) : (
+                        <MdStop className="h-3.5 w-3.5" />
+                      )}
+                    </motion.button>
+                  )}
+                  {["deployed", "deploying"].includes(deployment.status) && (
+                    <motion.button
+                      onClick={() => setLogsDeployment(deployment)}
+                      className="flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-xs font-medium text-primary/80"
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      title="Logs"
+                    >
+                      <MdArticle className="h-3.5 w-3.5" />
+                    </motion.button>
+                  )}
+                  {canExec && deployment.status === "deployed" && (
+                    <motion.button
+                      onClick={() => setTerminalDeployment(deployment)}
+                      className="flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-xs font-medium text-primary/80"
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      title="Terminal"
+                    >
+                      <MdTerminal className="h-3.5 w-3.5" />
+                    </motion.button>
+                  )}
+                  {deployment.type === "postgres" && deployment.status === "deployed" && (
+                    <motion.button
+                      onClick={() => router.push(`/dashboard/my-apps/${deployment.id}/query`)}
+                      className="flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-xs font-medium text-primary/80"
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      title="SQL console"
+                    >
+                      <MdTableChart className="h-3.5 w-3.5" />
+                    </motion.button>
+                  )}
+                  {deployment.type === "redis" && deployment.status === "deployed" && (
+                    <motion.button
+                      onClick={() => router.push(`/dashboard/my-apps/${deployment.id}/redis`)}
+                      className="flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-xs font-medium text-primary/80"
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      title="Key browser"
+                    >
+                      <MdKey className="h-3.5 w-3.5" />
+                    </motion.button>
+                  )}
+                  {deployment.type === "postgres" && ["deployed", "stopped"].includes(deployment.status) && (
+                    <motion.button
+                      onClick={() => router.push(`/dashboard/my-apps/${deployment.id}/backups`)}
+                      className="flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-xs font-medium text-primary/80"
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      title="Backups"
+                    >
+                      <MdBackup className="h-3.5 w-3.5" />
+                    </motion.button>
+                  )}
+                  <motion.button
+                    onClick={() => handleHistoryClick(deployment)}
+                    className="flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-xs font-medium text-primary/80"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    title="Revision history"
+                  >
+                    <MdHistory className="h-3.5 w-3.5" />
+                  </motion.button>
                   <motion.button
                     onClick={() => handleDeleteClick(deployment)}
                     className="flex items-center justify-center gap-2 h-8 px-3 rounded-md border border-red-500/80 border-r-[3px] bg-card hover:bg-red-500/5 transition-colors text-xs font-medium text-red-600"
@@ -372,6 +679,92 @@ export default function MyAppsPage() {
         </div>
       )}
 
+      {/* Logs Dialog */}
+      <LogViewerDialog
+        key={logsDeployment?.id}
+        deployment={logsDeployment}
+        onClose={() => setLogsDeployment(null)}
+      />
+
+      {/* Terminal Dialog */}
+      <TerminalDialog
+        key={terminalDeployment?.id}
+        deployment={terminalDeployment}
+        onClose={() => setTerminalDeployment(null)}
+      />
+
+      {/* Revision History Dialog */}
+      <Dialog
+        open={historyDeployment !== null}
+        onOpenChange={(open) => !open && setHistoryDeployment(null)}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-primary/80">
+              <MdHistory className="h-6 w-6" />
+              Revision History
+            </DialogTitle>
+            <DialogDescription>
+              Every deploy, update and rollback of {historyDeployment?.name}. Rolling back reapplies the
+              selected revision; storage size is never rolled back.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="mt-4 space-y-2 max-h-96 overflow-y-auto">
+            {revisionsLoading && revisions.length === 0 && (
+              <div className="h-16 rounded-md border border-primary/80 bg-primary/5 animate-pulse" />
+            )}
+
+            {!revisionsLoading && revisions.length === 0 && (
+              <p className="text-xs text-muted-foreground">No revisions recorded yet</p>
+            )}
+
+            {revisions.map((revision, index) => (
+              <div
+                key={revision.id}
+                className="rounded-md border border-primary/80 border-r-[3px] bg-card p-3 flex items-start justify-between gap-3"
+              >
+                <div className="min-w-0 text-[10px]">
+                  <p className="text-xs font-semibold text-primary/80">
+                    Revision {revision.revision}
+                    <span className="ml-2 font-normal capitalize text-muted-foreground">
+                      {revision.reason}
+                      {revision.sourceRevision !== null && ` of revision ${revision.sourceRevision}`}
+                    </span>
+                    {index === 0 && (
+                      <span className="ml-2 text-green-500 font-medium">current</span>
+                    )}
+                  </p>
+                  <p className="font-mono text-primary/80 mt-1 truncate">
+                    {historyDeployment?.image}:{revision.tag}
+                  </p>
+                  <p className="text-muted-foreground mt-0.5">
+                    {revision.config.cpuLimit} CPU / {revision.config.memoryLimit}
+                    {revision.config.pvcSize !== null && ` / ${revision.config.pvcSize} GB`}
+                  </p>
+                  <p className="text-muted-foreground mt-0.5">
+                    {new Date(revision.createdAt).toLocaleString()}
+                  </p>
+                </div>
+
+                {index > 0 && (
+                  <motion.button
+                    onClick={() => handleRollback(revision.revision)}
+                    disabled={rollingBackTo !== null}
+                    className="flex shrink-0 items-center gap-1 h-7 px-2 rounded-md border border-primary/80 border-r-[3px] bg-card hover:bg-primary/5 transition-colors text-[10px] font-medium text-primary/80 disabled:opacity-50"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    <MdRestore className={cn("h-3 w-3", rollingBackTo === revision.revision && "animate-spin")} />
+                    {rollingBackTo === revision.revision ? "Rolling back..." : "Roll back"}
+                  </motion.button>
+                )}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent className="max-w-md">
@@ -20,3 +20,9 @@ export * from "./schema/role-permissions";
 // Deployment tables
 export * from "./schema/deployments";
 export * from "./schema/deployment-env-vars";
+export * from "./schema/deployment-revisions";
+export * from "./schema/user-quotas";
+export * from "./schema/exec-sessions";
+export * from "./schema/deployment-backup-schedules";
+export * from "./schema/deployment-backups";
+export * from "./schema/deployment-restores";
@@ -0,0 +1,69 @@
+/**
+ * Deployment Backup Schedules Table Schema
+ *
+ * Backup settings of a Postgres deployment, at most one row per deployment.
+ * Rendered into a CronJob in the deployment's namespace
+ */
+
+import {
+  boolean,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { deployments } from "./deployments";
+import { users } from "./users";
+
+/**
+ * Deployment Backup Schedules Table
+ */
+export const deploymentBackupSchedules = pgTable(
+  "deployment_backup_schedules",
+  {
+    // ==================== PRIMARY KEY ====================
+    id: uuid("id").defaultRandom().primaryKey(),
+
+    // ==================== FOREIGN KEYS ====================
+    deploymentId: uuid("deployment_id")
+      .notNull()
+      .unique()
+      .references(() => deployments.id, { onDelete: "cascade" }),
+    updatedBy: uuid("updated_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+
+    // ==================== SCHEDULE ====================
+    enabled: boolean("enabled").notNull().default(true), // Disabled keeps manual backups
+    schedule: text("schedule").notNull(), // Cron expression, UTC (e.g., "0 3 * * *")
+
+    // ==================== TARGET ====================
+    target: text("target").notNull(), // pvc, s3
+    storageSize: integer("storage_size"), // Backup PVC size in GB (pvc target)
+
+    // ==================== RETENTION ====================
+    retentionCount: integer("retention_count").notNull(), // Successful backups kept
+    retentionDays: integer("retention_days"), // Older backups are removed, null keeps them
+
+    // ==================== TIMESTAMPS ====================
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+);
+
+/**
+ * Deployment Backup Schedule Type (for SELECT queries)
+ */
+export type DeploymentBackupSchedule =
+  typeof deploymentBackupSchedules.$inferSelect;
+
+/**
+ * Insert Deployment Backup Schedule Type (for INSERT queries)
+ */
+export type InsertDeploymentBackupSchedule =
+  typeof deploymentBackupSchedules.$inferInsert;
@@ -0,0 +1,79 @@
+/**
+ * Deployment Backups Table Schema
+ *
+ * One row per backup run of a deployment (scheduled or manual), recorded from
+ * the Kubernetes Job that ran it
+ */
+
+import {
+  bigint,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { deployments } from "./deployments";
+import { users } from "./users";
+
+/**
+ * Deployment Backups Table
+ */
+export const deploymentBackups = pgTable(
+  "deployment_backups",
+  {
+    // ==================== PRIMARY KEY ====================
+    id: uuid("id").defaultRandom().primaryKey(),
+
+    // ==================== FOREIGN KEYS ====================
+    deploymentId: uuid("deployment_id")
+      .notNull()
+      .references(() => deployments.id, { onDelete: "cascade" }),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }), // Null for scheduled runs
+
+    // ==================== RUN ====================
+    jobName: text("job_name").notNull(), // Kubernetes Job in the deployment's namespace
+    trigger: text("trigger").notNull(), // schedule, manual
+    status: text("status").notNull(), // running, succeeded, failed, expired
+
+    // ==================== RESULT ====================
+    target: text("target").notNull(), // pvc, s3
+    location: text("location").notNull(), // File path on the PVC or s3:// URI
+    sizeBytes: bigint("size_bytes", { mode: "number" }),
+    durationMs: integer("duration_ms"),
+    errorMessage: text("error_message"),
+
+    // ==================== TIMESTAMPS ====================
+    startedAt: timestamp("started_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  (table) => ({
+    // ==================== INDEXES ====================
+    deploymentIdIdx: index("deployment_backups_deployment_id_idx").on(
+      table.deploymentId,
+    ),
+    deploymentJobIdx: uniqueIndex("deployment_backups_deployment_job_idx").on(
+      table.deploymentId,
+      table.jobName,
+    ),
+    startedAtIdx: index("deployment_backups_started_at_idx").on(
+      table.startedAt,
+    ),
+  }),
+);
+
+/**
+ * Deployment Backup Type (for SELECT queries)
+ */
+export type DeploymentBackup = typeof deploymentBackups.$inferSelect;
+
+/**
+ * Insert Deployment Backup Type (for INSERT queries)
+ */
+export type InsertDeploymentBackup = typeof deploymentBackups.$inferInsert;
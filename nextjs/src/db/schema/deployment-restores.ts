@@ -0,0 +1,80 @@
+/**
+ * Deployment Restores Table Schema
+ *
+ * One row per restore of a backup, either into the deployment the backup was
+ * taken from or into a new deployment cloned from it. Progress is recorded
+ * from the Kubernetes Job that runs pg_restore.
+ */
+
+import {
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { deploymentBackups } from "./deployment-backups";
+import { deployments } from "./deployments";
+import { users } from "./users";
+
+/**
+ * Deployment Restores Table
+ */
+export const deploymentRestores = pgTable(
+  "deployment_restores",
+  {
+    // ==================== PRIMARY KEY ====================
+    id: uuid("id").defaultRandom().primaryKey(),
+
+    // ==================== FOREIGN KEYS ====================
+    deploymentId: uuid("deployment_id")
+      .notNull()
+      .references(() => deployments.id, { onDelete: "cascade" }), // Restored into
+    sourceDeploymentId: uuid("source_deployment_id").references(
+      () => deployments.id,
+      { onDelete: "set null" },
+    ), // Deployment the backup was taken from
+    backupId: uuid("backup_id").references(() => deploymentBackups.id, {
+      onDelete: "set null",
+    }),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+
+    // ==================== RESTORE ====================
+    mode: text("mode").notNull(), // in_place, clone
+    jobName: text("job_name"), // Kubernetes Job in the source's namespace, once started
+    status: text("status").notNull(), // pending, running, succeeded, failed
+    step: text("step"), // What the restore is waiting for or doing
+    errorMessage: text("error_message"),
+    durationMs: integer("duration_ms"),
+
+    // ==================== TIMESTAMPS ====================
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    startedAt: timestamp("started_at", { withTimezone: true }), // Job created
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  (table) => ({
+    // ==================== INDEXES ====================
+    deploymentIdIdx: index("deployment_restores_deployment_id_idx").on(
+      table.deploymentId,
+    ),
+    sourceDeploymentIdIdx: index(
+      "deployment_restores_source_deployment_id_idx",
+    ).on(table.sourceDeploymentId),
+    statusIdx: index("deployment_restores_status_idx").on(table.status),
+  }),
+);
+
+/**
+ * Deployment Restore Type (for SELECT queries)
+ */
+export type DeploymentRestore = typeof deploymentRestores.$inferSelect;
+
+/**
+ * Insert Deployment Restore Type (for INSERT queries)
+ */
+export type InsertDeploymentRestore = typeof deploymentRestores.$inferInsert;
@@ -0,0 +1,72 @@
+/**
+ * Deployment Revisions Table Schema
+ *
+ * One row per successful apply of a deployment (create, update, rollback).
+ * Keeps the rendered manifests so any revision can be reapplied later
+ */
+
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { deployments } from "./deployments";
+import { users } from "./users";
+
+/**
+ * Deployment Revisions Table
+ */
+export const deploymentRevisions = pgTable(
+  "deployment_revisions",
+  {
+    // ==================== PRIMARY KEY ====================
+    id: uuid("id").defaultRandom().primaryKey(),
+
+    // ==================== FOREIGN KEYS ====================
+    deploymentId: uuid("deployment_id")
+      .notNull()
+      .references(() => deployments.id, { onDelete: "cascade" }),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+
+    // ==================== REVISION INFO ====================
+    revision: integer("revision").notNull(), // 1, 2, 3... per deployment
+    reason: text("reason").notNull(), // deploy, update, rollback
+    sourceRevision: integer("source_revision"), // Revision reapplied by a rollback
+
+    // Configuration at the time of the apply
+    tag: text("tag").notNull(),
+    config: jsonb("config").notNull(), // pvcSize, resources, non-secret env vars
+    manifests: jsonb("manifests").notNull(), // Rendered manifests, without Secrets
+
+    // ==================== TIMESTAMPS ====================
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => ({
+    // ==================== INDEXES ====================
+    deploymentIdIdx: index("deployment_revisions_deployment_id_idx").on(
+      table.deploymentId,
+    ),
+    deploymentRevisionIdx: uniqueIndex(
+      "deployment_revisions_deployment_revision_idx",
+    ).on(table.deploymentId, table.revision),
+  }),
+);
+
+/**
+ * Deployment Revision Type (for SELECT queries)
+ */
+export type DeploymentRevision = typeof deploymentRevisions.$inferSelect;
+
+/**
+ * Insert Deployment Revision Type (for INSERT queries)
+ */
+export type InsertDeploymentRevision = typeof deploymentRevisions.$inferInsert;
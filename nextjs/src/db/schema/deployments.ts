@@ -82,6 +82,24 @@ export const deployments = pgTable(
     nodePort: integer("node_port").unique(), // NodePort for Cilium (must be unique across all deployments)
     pvcSize: integer("pvc_size"), // Storage size in GB
 
+    // Compute Resources (null on rows created before resources were configurable)
+    resourcePreset: text("resource_preset"), // small, medium, large, custom
+    cpuRequest: text("cpu_request"), // e.g. 250m
+    memoryRequest: text("memory_request"), // e.g. 256Mi
+    cpuLimit: text("cpu_limit"), // e.g. 1000m
+    memoryLimit: text("memory_limit"), // e.g. 1Gi
+
+    // App Settings, rendered into the template's config file (e.g. redis.conf)
+    settings: jsonb("settings"), // Null on rows created before settings existed
+
+    // Connection Pooler (PgBouncer in front of Postgres, opt-in)
+    pooler: jsonb("pooler"), // Pool settings, null while disabled
+    poolerNodePort: integer("pooler_node_port").unique(), // Allocated while enabled
+
+    // Streaming Replication (Postgres primary + read replicas, opt-in)
+    replication: jsonb("replication"), // Replica count and primary, null for a single instance
+    readOnlyNodePort: integer("read_only_node_port").unique(), // Read replicas, allocated while replicated
+
     // External Access
     externalUrl: text("external_url"), // Public URL to access the service (e.g., http://node-ip:nodePort)
     externalHost: text("external_host"), // External hostname/IP
@@ -92,8 +110,8 @@ export const deployments = pgTable(
 
     // ==================== STATUS & HEALTH ====================
     status: deploymentStatusEnum("status").notNull().default("pending"),
-    healthStatus: text("health_status"), // Healthy, Degraded, Progressing, Suspended
-    lastSyncTime: timestamp("last_sync_time", { withTimezone: true }), // Last ArgoCD sync
+    healthStatus: text("health_status"), // Healthy, Progressing, Degraded, CrashLooping, Suspended
+    lastSyncTime: timestamp("last_sync_time", { withTimezone: true }), // Last check against the cluster
 
     // Error tracking
     errorMessage: text("error_message"),
@@ -0,0 +1,74 @@
+/**
+ * Exec Sessions Table Schema
+ *
+ * Audit log of interactive terminals opened into deployment pods.
+ * Rows are kept when the user or deployment is removed
+ */
+
+import {
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { deployments } from "./deployments";
+import { users } from "./users";
+
+/**
+ * Exec Sessions Table
+ */
+export const execSessions = pgTable(
+  "exec_sessions",
+  {
+    // ==================== PRIMARY KEY ====================
+    id: uuid("id").defaultRandom().primaryKey(),
+
+    // ==================== FOREIGN KEYS ====================
+    deploymentId: uuid("deployment_id").references(() => deployments.id, {
+      onDelete: "set null",
+    }),
+    userId: uuid("user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+
+    // ==================== TARGET ====================
+    namespace: text("namespace").notNull(),
+    podName: text("pod_name").notNull(),
+    containerName: text("container_name").notNull(),
+    command: text("command").notNull(), // Command line that was run
+
+    // ==================== CLIENT ====================
+    clientIp: text("client_ip"),
+    userAgent: text("user_agent"),
+
+    // ==================== RESULT ====================
+    exitCode: integer("exit_code"), // Null when the session was disconnected
+    closeReason: text("close_reason"), // exited, disconnected, error message
+
+    // ==================== TIMESTAMPS ====================
+    startedAt: timestamp("started_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    endedAt: timestamp("ended_at", { withTimezone: true }), // Null while open
+  },
+  (table) => ({
+    // ==================== INDEXES ====================
+    deploymentIdIdx: index("exec_sessions_deployment_id_idx").on(
+      table.deploymentId,
+    ),
+    userIdIdx: index("exec_sessions_user_id_idx").on(table.userId),
+    startedAtIdx: index("exec_sessions_started_at_idx").on(table.startedAt),
+  }),
+);
+
+/**
+ * Exec Session Type (for SELECT queries)
+ */
+export type ExecSession = typeof execSessions.$inferSelect;
+
+/**
+ * Insert Exec Session Type (for INSERT queries)
+ */
+export type InsertExecSession = typeof execSessions.$inferInsert;
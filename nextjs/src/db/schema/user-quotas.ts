@@ -0,0 +1,47 @@
+/**
+ * User Quotas Table Schema
+ *
+ * Per-user overrides of the compute quota shared by all of a user's deployments.
+ * Users without a row get the defaults from lib/quotas.ts
+ */
+
+import { integer, pgTable, timestamp, uuid } from "drizzle-orm/pg-core";
+import { users } from "./users";
+
+/**
+ * User Quotas Table
+ */
+export const userQuotas = pgTable("user_quotas", {
+  // ==================== PRIMARY KEY ====================
+  id: uuid("id").defaultRandom().primaryKey(),
+
+  // ==================== FOREIGN KEYS ====================
+  userId: uuid("user_id")
+    .notNull()
+    .unique()
+    .references(() => users.id, { onDelete: "cascade" }),
+
+  // ==================== LIMITS ====================
+  // Sum of container limits across all non-deleted deployments
+  cpuMillicores: integer("cpu_millicores").notNull(),
+  memoryMi: integer("memory_mi").notNull(),
+
+  // ==================== TIMESTAMPS ====================
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+/**
+ * User Quota Type (for SELECT queries)
+ */
+export type UserQuota = typeof userQuotas.$inferSelect;
+
+/**
+ * Insert User Quota Type (for INSERT queries)
+ */
+export type InsertUserQuota = typeof userQuotas.$inferInsert;
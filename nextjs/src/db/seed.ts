@@ -222,6 +222,16 @@ const SYSTEM_PERMISSIONS: InsertPermission[] = [
     isActive: true,
   },
 
+  // ===== DEPLOYMENTS =====
+  {
+    name: "deployments:exec",
+    resource: "deployments",
+    action: "exec",
+    description: "Open a terminal into own deployments",
+    isSystem: true,
+    isActive: true,
+  },
+
   // ===== PROFILE (SELF) =====
   {
     name: "profile:read",
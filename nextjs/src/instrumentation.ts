@@ -0,0 +1,22 @@
+/**
+ * Next.js Instrumentation
+ *
+ * Runs once when a server process starts. Starts the background job worker
+ * that performs deploys, updates and deletes, the reconciler that keeps
+ * deployment rows in sync with the cluster and the WebSocket server behind
+ * the exec terminal (Node.js runtime only).
+ *
+ * @see https://nextjs.org/docs/app/guides/instrumentation
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startJobWorker } = await import("@/lib/jobs");
+    startJobWorker();
+
+    const { startReconciler } = await import("@/lib/reconciler");
+    startReconciler();
+
+    const { startExecServer } = await import("@/lib/exec-server");
+    startExecServer();
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Template Icons
+ *
+ * Maps template icon identifiers to react-icons components.
+ * Kept separate from the templates so server code doesn't import icon packages.
+ */
+
+import type { IconType } from "react-icons";
+import { SiMongodb, SiMysql, SiPostgresql, SiRedis } from "react-icons/si";
+import type { TemplateIcon } from "./types";
+
+export const templateIcons: Record<TemplateIcon, IconType> = {
+  postgres: SiPostgresql,
+  redis: SiRedis,
+  mongodb: SiMongodb,
+  mysql: SiMysql,
+};
@@ -0,0 +1,60 @@
+/**
+ * App Template Registry
+ *
+ * Every deployable app is described by one template file in this directory.
+ * To add an app, create the template and register it below; the catalog,
+ * deploy form and /api/deploy/[template] route pick it up automatically.
+ */
+
+import { mongodbTemplate } from "./mongodb";
+import { mysqlTemplate } from "./mysql";
+import { postgresTemplate } from "./postgres";
+import { redisTemplate } from "./redis";
+import type { AppTemplate } from "./types";
+
+export type * from "./types";
+
+/**
+ * All registered templates, in catalog order
+ */
+export const appTemplates: AppTemplate[] = [
+  postgresTemplate,
+  redisTemplate,
+  mongodbTemplate,
+  mysqlTemplate,
+];
+
+/**
+ * Get a template by its id (URL slug)
+ */
+export function getAppTemplate(id: string): AppTemplate | undefined {
+  return appTemplates.find((template) => template.id === id);
+}
+
+/**
+ * Get the template used to create a deployment of the given type
+ */
+export function getAppTemplateForType(
+  type: AppTemplate["type"],
+): AppTemplate | undefined {
+  return appTemplates.find((template) => template.type === type);
+}
+
+/**
+ * Settings of a template deployment, defaults for rows created before
+ * settings existed
+ */
+export function getTemplateSettings(
+  template: AppTemplate,
+  settings: unknown,
+): object {
+  if (!template.configFile) {
+    return {};
+  }
+  if (!settings || typeof settings !== "object") {
+    return template.configFile.defaults;
+  }
+  // Stored settings were validated when saved; fields added since then
+  // take their default
+  return { ...template.configFile.defaults, ...settings };
+}
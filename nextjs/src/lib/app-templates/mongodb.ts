@@ -0,0 +1,57 @@
+import type { AppTemplate } from "./types";
+
+/**
+ * MongoDB Template
+ */
+export const mongodbTemplate: AppTemplate = {
+  id: "mongodb",
+  name: "MongoDB",
+  description: "NoSQL document database",
+  category: "Database",
+  kind: "database",
+  icon: "mongodb",
+  color: "bg-green-500/80",
+
+  type: "mongodb",
+  image: "mongo",
+
+  ports: [{ name: "mongodb", containerPort: 27017 }],
+  defaultNodePort: "30017",
+  env: [
+    { key: "MONGO_INITDB_ROOT_USERNAME", default: "admin", required: true },
+    {
+      key: "MONGO_INITDB_ROOT_PASSWORD",
+      secret: true,
+      required: true,
+      generate: true,
+    },
+  ],
+  // ping is allowed without authentication, so the probes don't need credentials
+  probes: {
+    liveness: ["mongosh", "--quiet", "--eval", "db.adminCommand('ping')"],
+    readiness: ["mongosh", "--quiet", "--eval", "db.adminCommand('ping')"],
+  },
+
+  storage: {
+    mountPath: "/data/db",
+    defaultSize: 10,
+  },
+
+  credentials: (env) => ({
+    user: env.MONGO_INITDB_ROOT_USERNAME,
+    password: env.MONGO_INITDB_ROOT_PASSWORD,
+    database: "admin",
+  }),
+  connectionString: ({ host, port, credentials }) =>
+    `mongodb://${credentials.user}:${encodeURIComponent(credentials.password)}@${host}:${port}/?authSource=${credentials.database}`,
+  cli: {
+    label: "Mongo Shell Command",
+    command: ({ host, port, credentials }) =>
+      `mongosh --host ${host} --port ${port} -u ${credentials.user} -p '${credentials.password}' --authenticationDatabase ${credentials.database}`,
+    exec: [
+      "/bin/sh",
+      "-c",
+      'mongosh -u "$MONGO_INITDB_ROOT_USERNAME" -p "$MONGO_INITDB_ROOT_PASSWORD" --authenticationDatabase admin',
+    ],
+  },
+};
@@ -0,0 +1,82 @@
+import type { AppTemplate } from "./types";
+
+/**
+ * MySQL Template
+ */
+export const mysqlTemplate: AppTemplate = {
+  id: "mysql",
+  name: "MySQL",
+  description: "Popular open source relational database",
+  category: "Database",
+  kind: "database",
+  icon: "mysql",
+  color: "bg-sky-600/80",
+
+  type: "mysql",
+  image: "mysql",
+
+  ports: [{ name: "mysql", containerPort: 3306 }],
+  defaultNodePort: "30306",
+  env: [
+    {
+      key: "MYSQL_ROOT_PASSWORD",
+      secret: true,
+      required: true,
+      generate: true,
+      internal: true,
+    },
+    {
+      key: "MYSQL_USER",
+      default: "app",
+      required: true,
+      // The official image creates MYSQL_USER in addition to root
+      validate: (value) =>
+        value === "root" ? "MYSQL_USER cannot be root" : null,
+    },
+    {
+      key: "MYSQL_PASSWORD",
+      secret: true,
+      required: true,
+      generate: true,
+    },
+    { key: "MYSQL_DATABASE", default: "app", required: true },
+  ],
+  probes: {
+    liveness: [
+      "/bin/sh",
+      "-c",
+      'mysqladmin ping -h 127.0.0.1 -u root -p"$MYSQL_ROOT_PASSWORD"',
+    ],
+    readiness: [
+      "/bin/sh",
+      "-c",
+      'mysqladmin ping -h 127.0.0.1 -u root -p"$MYSQL_ROOT_PASSWORD"',
+    ],
+  },
+
+  storage: {
+    mountPath: "/var/lib/mysql",
+    // MySQL refuses to initialize a data dir containing lost+found
+    subPath: "mysql",
+    defaultSize: 10,
+  },
+
+  credentials: (env) => ({
+    user: env.MYSQL_USER,
+    password: env.MYSQL_PASSWORD,
+    database: env.MYSQL_DATABASE,
+    rootPassword: env.MYSQL_ROOT_PASSWORD,
+  }),
+  connectionString: ({ host, port, credentials }) =>
+    `mysql://${credentials.user}:${encodeURIComponent(credentials.password)}@${host}:${port}/${credentials.database}`,
+  cli: {
+    label: "MySQL Command",
+    command: ({ host, port, credentials }) =>
+      `mysql -h ${host} -P ${port} -u ${credentials.user} -p'${credentials.password}' ${credentials.database}`,
+    exec: [
+      "/bin/sh",
+      "-c",
+      'MYSQL_PWD="$MYSQL_PASSWORD" mysql -u "$MYSQL_USER" "$MYSQL_DATABASE"',
+    ],
+  },
+};
@@ -0,0 +1,80 @@
+import {
+  DEFAULT_POSTGRES_SETTINGS,
+  POSTGRES_RESTART_SETTINGS,
+  type PostgresSettings,
+  renderPostgresConf,
+  resolvePostgresSettings,
+} from "@/lib/postgres-config";
+import type { AppTemplate, TemplateConfigFile } from "./types";
+
+const postgresConfigFile: TemplateConfigFile<PostgresSettings> = {
+  fileName: "postgresql.conf",
+  mountPath: "/etc/postgresql",
+  defaults: DEFAULT_POSTGRES_SETTINGS,
+  resolve: (request, current, context) =>
+    resolvePostgresSettings(
+      request as Partial<PostgresSettings> | undefined,
+      current,
+      context,
+    ),
+  render: renderPostgresConf,
+  restartOn: (settings) =>
+    POSTGRES_RESTART_SETTINGS.map((key) => settings[key]),
+};
+
+/**
+ * PostgreSQL Template
+ */
+export const postgresTemplate: AppTemplate = {
+  id: "postgres",
+  name: "PostgreSQL",
+  description: "Advanced open source relational database",
+  category: "Database",
+  kind: "database",
+  icon: "postgres",
+  color: "bg-blue-500/80",
+
+  type: "postgres",
+  image: "postgres",
+
+  ports: [{ name: "postgres", containerPort: 5432 }],
+  defaultNodePort: "30432",
+  env: [
+    { key: "POSTGRES_USER", default: "postgres", required: true },
+    {
+      key: "POSTGRES_PASSWORD",
+      secret: true,
+      required: true,
+      generate: true,
+    },
+    { key: "POSTGRES_DB", default: "postgres", required: true },
+  ],
+  // Keep the data in a subdirectory, the volume root contains lost+found
+  extraEnv: [{ name: "PGDATA", value: "/var/lib/postgresql/data/pgdata" }],
+  // Passed to the image's entrypoint, which initializes PGDATA first
+  args: ["postgres", "-c", "config_file=/etc/postgresql/postgresql.conf"],
+  probes: {
+    liveness: ["/bin/sh", "-c", 'pg_isready -U "$POSTGRES_USER"'],
+    readiness: ["/bin/sh", "-c", 'pg_isready -U "$POSTGRES_USER"'],
+  },
+  configFile: postgresConfigFile,
+
+  storage: {
+    mountPath: "/var/lib/postgresql/data",
+    defaultSize: 10,
+  },
+
+  credentials: (env) => ({
+    user: env.POSTGRES_USER,
+    password: env.POSTGRES_PASSWORD,
+    database: env.POSTGRES_DB,
+  }),
+  connectionString: ({ host, port, credentials }) =>
+    `postgresql://${credentials.user}:${encodeURIComponent(credentials.password)}@${host}:${port}/${credentials.database}`,
+  cli: {
+    label: "PSQL Command",
+    command: ({ host, port, credentials }) =>
+      `PGPASSWORD='${credentials.password}' psql -h ${host} -p ${port} -U ${credentials.user} -d ${credentials.database}`,
+    exec: ["/bin/sh", "-c", 'psql -U "$POSTGRES_USER" -d "$POSTGRES_DB"'],
+  },
+};
@@ -0,0 +1,82 @@
+import {
+  DEFAULT_REDIS_SETTINGS,
+  type RedisSettings,
+  renderRedisConf,
+  resolveRedisSettings,
+} from "@/lib/redis-config";
+import type { AppTemplate, TemplateConfigFile } from "./types";
+
+const redisConfigFile: TemplateConfigFile<RedisSettings> = {
+  fileName: "redis.conf",
+  mountPath: "/usr/local/etc/redis",
+  defaults: DEFAULT_REDIS_SETTINGS,
+  resolve: (request, current, context) =>
+    resolveRedisSettings(
+      request as Partial<RedisSettings> | undefined,
+      current,
+      context,
+    ),
+  render: renderRedisConf,
+};
+
+/**
+ * Redis Template
+ */
+export const redisTemplate: AppTemplate = {
+  id: "redis",
+  name: "Redis",
+  description: "In-memory data structure store",
+  category: "Database",
+  kind: "cache",
+  icon: "redis",
+  color: "bg-red-500/80",
+
+  type: "redis",
+  image: "redis",
+
+  ports: [{ name: "redis", containerPort: 6379 }],
+  defaultNodePort: "30379",
+  env: [
+    {
+      key: "REDIS_PASSWORD",
+      secret: true,
+      required: true,
+      generate: true,
+    },
+  ],
+  command: ["/bin/sh", "-c"],
+  args: [
+    'redis-server /usr/local/etc/redis/redis.conf --requirepass "$REDIS_PASSWORD"',
+  ],
+  probes: {
+    liveness: [
+      "/bin/sh",
+      "-c",
+      'redis-cli -a "$REDIS_PASSWORD" ping || exit 1',
+    ],
+    readiness: [
+      "/bin/sh",
+      "-c",
+      'redis-cli -a "$REDIS_PASSWORD" ping || exit 1',
+    ],
+  },
+  preStop: ["/bin/sh", "-c", 'redis-cli -a "$REDIS_PASSWORD" SHUTDOWN SAVE'],
+  configFile: redisConfigFile,
+
+  storage: {
+    mountPath: "/data",
+    defaultSize: 10,
+  },
+
+  credentials: (env) => ({
+    password: env.REDIS_PASSWORD,
+  }),
+  connectionString: ({ host, port, credentials }) =>
+    `redis://:${encodeURIComponent(credentials.password)}@${host}:${port}`,
+  cli: {
+    label: "Redis CLI Command",
+    command: ({ host, port, credentials }) =>
+      `redis-cli -h ${host} -p ${port} -a '${credentials.password}' ping`,
+    exec: ["/bin/sh", "-c", 'redis-cli -a "$REDIS_PASSWORD" --no-auth-warning'],
+  },
+};
@@ -0,0 +1,115 @@
+/**
+ * App Template Types
+ *
+ * Declarative description of a deployable app. Templates are plain data
+ * (plus a few pure helpers) so they can be shared by the deploy API route,
+ * the app catalog and the deploy form.
+ */
+
+import type { Deployment } from "@/db/schema";
+
+/**
+ * Icon identifiers resolved to react-icons components on the client
+ * (see ./icons.ts)
+ */
+export type TemplateIcon = "postgres" | "redis" | "mongodb" | "mysql";
+
+/**
+ * Environment variable declared by a template
+ */
+export interface TemplateEnvVar {
+  key: string; // e.g. POSTGRES_USER
+  default?: string; // Default value shown in the deploy form
+  secret?: boolean; // Stored in the K8s Secret and hidden in the API
+  required?: boolean; // Must be non-empty after defaults/generation
+  generate?: boolean; // Generate a strong password when left empty
+  internal?: boolean; // Not shown in the deploy form (always defaulted/generated)
+  validate?: (value: string) => string | null; // Returns an error message
+}
+
+/**
+ * Credentials returned once after creation
+ */
+export interface TemplateCredentials {
+  user?: string;
+  password: string;
+  database?: string;
+  rootPassword?: string;
+}
+
+/**
+ * Parameters used to build client connection hints
+ */
+export interface TemplateConnectionParams {
+  host: string;
+  port: number;
+  credentials: TemplateCredentials;
+}
+
+/**
+ * Configuration file rendered from the deployment's settings
+ * (deployments.settings) into a ConfigMap mounted in the container
+ */
+export interface TemplateConfigFile<TSettings extends object = object> {
+  fileName: string; // e.g. redis.conf
+  mountPath: string; // Directory the ConfigMap is mounted at
+  defaults: TSettings; // Also used for rows created before settings existed
+  // Validate a partial settings request on top of the current settings
+  resolve(
+    request: unknown,
+    current: TSettings,
+    context: { memoryLimitMi: number | null },
+  ): { settings: TSettings; errors?: never } | { errors: string[] };
+  render(settings: TSettings): string;
+  // Settings that need a restart to apply, the others are reloaded by the
+  // server. Without it every change restarts the pod
+  restartOn?(settings: TSettings): unknown;
+}
+
+/**
+ * App Template
+ */
+export interface AppTemplate {
+  // ==================== CATALOG ====================
+  id: string; // URL slug (/dashboard/apps/[id]/deploy, /api/deploy/[id])
+  name: string; // Display name
+  description: string;
+  category: "Database" | "Framework" | "Tools";
+  kind: "database" | "cache"; // Used in copy ("Deploy your database")
+  icon: TemplateIcon;
+  color: string; // Tailwind background class for the icon tile
+
+  // ==================== IMAGE ====================
+  type: Deployment["type"]; // Value stored in deployments.type
+  image: string; // Docker Hub repository (also used for tag discovery)
+
+  // ==================== CONTAINER ====================
+  ports: Array<{ name: string; containerPort: number }>; // First port is exposed via NodePort
+  defaultNodePort: string; // Suggested external port shown in the deploy form
+  env: TemplateEnvVar[];
+  extraEnv?: Array<{ name: string; value: string }>; // Fixed, non-configurable env
+  command?: string[];
+  args?: string[];
+  probes: {
+    liveness: string[]; // exec command
+    readiness: string[]; // exec command
+  };
+  preStop?: string[]; // exec command run before the container stops
+  configFile?: TemplateConfigFile;
+
+  // ==================== STORAGE ====================
+  storage: {
+    mountPath: string;
+    subPath?: string;
+    defaultSize: number; // GB
+  };
+
+  // ==================== CONNECTION ====================
+  credentials: (env: Record<string, string>) => TemplateCredentials;
+  connectionString: (params: TemplateConnectionParams) => string;
+  cli: {
+    label: string;
+    command: (params: TemplateConnectionParams) => string;
+    exec: string[]; // Client opened inside the container by the exec terminal
+  };
+}
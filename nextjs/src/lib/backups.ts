@@ -0,0 +1,521 @@
+/**
+ * Backups
+ *
+ * Scheduled and manual pg_dump backups of Postgres deployments. The schedule
+ * (deployment_backup_schedules) is rendered into a CronJob in the deployment's
+ * namespace, see generateBackupManifests(); manual backups are Jobs created
+ * from that CronJob.
+ *
+ * Runs are recorded in deployment_backups by syncBackups(), which the
+ * reconciler calls on every pass: it reads the backup Jobs, their outcome and
+ * the dump size their pods report, then marks dumps outside the retention
+ * policy as expired (the Jobs themselves delete the files).
+ */
+
+import type { V1Job } from "@kubernetes/client-node";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  type Deployment,
+  type DeploymentBackupSchedule,
+  deploymentBackupSchedules,
+  deploymentBackups,
+  deployments,
+} from "@/db/schema";
+import { getDeploymentEnv } from "@/lib/deployment-connection";
+import {
+  BACKUP_DEPLOYMENT_LABEL,
+  BACKUP_LABEL,
+  BACKUP_LOCATION_ANNOTATION,
+  BACKUP_TRIGGER_LABEL,
+  type BackupTargetConfig,
+  generateBackupManifests,
+  getBackupCronJobName,
+} from "@/lib/k8s-manifests";
+import {
+  applyManifests,
+  createJobFromCronJob,
+  deleteManifests,
+  getJobTermination,
+  listJobs,
+} from "@/lib/kubectl";
+
+export type BackupTarget = "pvc" | "s3";
+export type BackupStatus = "running" | "succeeded" | "failed" | "expired";
+
+export interface BackupScheduleInput {
+  enabled: boolean;
+  schedule: string;
+  target: BackupTarget;
+  storageSize: number | null; // GB, pvc target only
+  retentionCount: number;
+  retentionDays: number | null;
+}
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupScheduleInput = {
+  enabled: true,
+  schedule: "0 3 * * *", // Daily at 03:00 UTC
+  target: "pvc",
+  storageSize: 10,
+  retentionCount: 7,
+  retentionDays: null,
+};
+
+export const MAX_BACKUP_RETENTION_COUNT = 100;
+export const MAX_BACKUP_STORAGE_SIZE = 500; // GB
+
+// Finished runs are never read from Kubernetes again
+const FINAL_STATUSES: BackupStatus[] = ["succeeded", "failed", "expired"];
+
+/**
+ * Whether a string is a five-field cron expression or a @macro
+ * Kubernetes validates the fields themselves when the CronJob is applied
+ */
+export function isValidCronSchedule(schedule: string): boolean {
+  return (
+    /^@(yearly|annually|monthly|weekly|daily|midnight|hourly)$/.test(
+      schedule,
+    ) || /^[\d*/,-]+( [\d*/,-]+){4}$/.test(schedule)
+  );
+}
+
+/**
+ * S3-compatible target configured for the platform (BACKUP_S3_* env vars),
+ * or null when only PVC backups are available
+ */
+export function getS3BackupConfig(): Omit<
+  Extract<BackupTargetConfig, { type: "s3" }>,
+  "prefix"
+> | null {
+  const endpoint = process.env.BACKUP_S3_ENDPOINT;
+  const bucket = process.env.BACKUP_S3_BUCKET;
+  const accessKeyId = process.env.BACKUP_S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.BACKUP_S3_SECRET_ACCESS_KEY;
+
+  if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+    return null;
+  }
+
+  return {
+    type: "s3",
+    endpoint,
+    bucket,
+    region: process.env.BACKUP_S3_REGION || "us-east-1",
+    accessKeyId,
+    secretAccessKey,
+  };
+}
+
+/**
+ * Render the backup manifests of a deployment from its schedule
+ */
+async function getBackupManifests(
+  deployment: Deployment,
+  schedule: BackupScheduleInput,
+) {
+  let target: BackupTargetConfig;
+  if (schedule.target === "s3") {
+    const s3 = getS3BackupConfig();
+    if (!s3) {
+      throw new Error("S3 backups are not configured");
+    }
+    target = { ...s3, prefix: deployment.namespace };
+  } else {
+    target = {
+      type: "pvc",
+      size: schedule.storageSize ?? 10,
+    };
+  }
+
+  const env = await getDeploymentEnv(deployment.id);
+
+  return generateBackupManifests({
+    namespace: deployment.namespace,
+    name: deployment.containerName,
+    deploymentId: deployment.id,
+    image: deployment.image,
+    tag: deployment.tag,
+    port: deployment.port ?? 5432,
+    user: env.POSTGRES_USER || "postgres",
+    database: env.POSTGRES_DB || env.POSTGRES_USER || "postgres",
+    schedule: schedule.schedule,
+    suspend: !schedule.enabled,
+    retentionCount: schedule.retentionCount,
+    retentionDays: schedule.retentionDays,
+    target,
+  });
+}
+
+/**
+ * Apply a backup schedule to the cluster, then store it
+ * @returns The stored schedule, or why the cluster rejected it
+ */
+export async function saveBackupSchedule(
+  deployment: Deployment,
+  schedule: BackupScheduleInput,
+  updatedBy: string,
+): Promise<
+  | { success: true; schedule: DeploymentBackupSchedule }
+  | { success: false; error: string }
+> {
+  try {
+    const manifests = await getBackupManifests(deployment, schedule);
+    const result = await applyManifests(manifests);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to apply backup schedule",
+      };
+    }
+
+    const values = {
+      ...schedule,
+      storageSize: schedule.target === "pvc" ? schedule.storageSize : null,
+      updatedBy,
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(deploymentBackupSchedules)
+      .values({ deploymentId: deployment.id, ...values })
+      .onConflictDoUpdate({
+        target: deploymentBackupSchedules.deploymentId,
+        set: values,
+      })
+      .returning();
+
+    return { success: true, schedule: saved };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Render the backup CronJob again after the deployment changed, so pg_dump
+ * keeps matching the server's image, port and user
+ * Does nothing for deployments without a schedule
+ */
+export async function syncBackupSchedule(
+  deployment: Deployment,
+): Promise<{ success: boolean; error?: string }> {
+  const [schedule] = await db
+    .select()
+    .from(deploymentBackupSchedules)
+    .where(eq(deploymentBackupSchedules.deploymentId, deployment.id))
+    .limit(1);
+  if (!schedule) {
+    return { success: true };
+  }
+
+  try {
+    const result = await applyManifests(
+      await getBackupManifests(deployment, {
+        ...schedule,
+        target: schedule.target as BackupTarget,
+      }),
+    );
+    return result.success
+      ? { success: true }
+      : {
+          success: false,
+          error: result.error || "Failed to apply backup schedule",
+        };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Stop backing up a deployment
+ * The CronJob is deleted; existing dumps, the backup PVC and the recorded runs
+ * are kept
+ */
+export async function removeBackupSchedule(
+  deployment: Deployment,
+): Promise<{ success: boolean; error?: string }> {
+  const result = await deleteManifests([
+    {
+      apiVersion: "batch/v1",
+      kind: "CronJob",
+      metadata: {
+        name: getBackupCronJobName(deployment.containerName),
+        namespace: deployment.namespace,
+      },
+    },
+  ]);
+  if (!result.success) {
+    return { success: false, error: result.errors.join("; ") };
+  }
+
+  await db
+    .delete(deploymentBackupSchedules)
+    .where(eq(deploymentBackupSchedules.deploymentId, deployment.id));
+
+  return { success: true };
+}
+
+/**
+ * Start a backup now, outside the schedule
+ * The run is recorded right away and completed by syncBackups()
+ */
+export async function startBackup(
+  deployment: Deployment,
+  schedule: DeploymentBackupSchedule,
+  createdBy: string,
+): Promise<{ success: boolean; backupId?: string; error?: string }> {
+  // A short suffix keeps the name, and its job-name label, within 63
+  // characters
+  const cronJobName = getBackupCronJobName(deployment.containerName);
+  const jobName = `${cronJobName}-m${Math.floor(Date.now() / 1000).toString(36)}`;
+
+  const result = await createJobFromCronJob(
+    cronJobName,
+    deployment.namespace,
+    jobName,
+    { [BACKUP_TRIGGER_LABEL]: "manual" },
+  );
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.notFound
+        ? "The backup CronJob is missing, save the schedule again"
+        : result.error,
+    };
+  }
+
+  const [backup] = await db
+    .insert(deploymentBackups)
+    .values({
+      deploymentId: deployment.id,
+      createdBy,
+      jobName,
+      trigger: "manual",
+      status: "running",
+      target: schedule.target,
+      location: getBackupLocation(deployment, schedule.target, jobName),
+    })
+    .returning();
+
+  return { success: true, backupId: backup.id };
+}
+
+/**
+ * Where a backup Job writes its dump
+ */
+function getBackupLocation(
+  deployment: Pick<Deployment, "containerName" | "namespace">,
+  target: string,
+  jobName: string,
+): string {
+  if (target === "s3") {
+    const bucket = getS3BackupConfig()?.bucket || "unknown";
+    return `s3://${bucket}/${deployment.namespace}/${jobName}.dump`;
+  }
+  return `pvc://${deployment.containerName}-backups/${jobName}.dump`;
+}
+
+/**
+ * Outcome of a backup Job as a deployment_backups update
+ */
+async function readBackupJob(job: V1Job, target: string) {
+  const name = job.metadata?.name || "";
+  const namespace = job.metadata?.namespace || "";
+  const startedAt = job.status?.startTime
+    ? new Date(job.status.startTime)
+    : new Date(job.metadata?.creationTimestamp || Date.now());
+
+  const failedCondition = job.status?.conditions?.find(
+    (condition) => condition.type === "Failed" && condition.status === "True",
+  );
+
+  if ((job.status?.succeeded ?? 0) > 0) {
+    const completedAt = new Date(job.status?.completionTime || Date.now());
+    const termination = await getJobTermination(name, namespace, "backup");
+    let sizeBytes: number | null = null;
+    try {
+      sizeBytes =
+        JSON.parse(termination.terminated?.message || "{}").sizeBytes ?? null;
+    } catch {
+      // Pod already removed or no report
+    }
+
+    return {
+      status: "succeeded" as const,
+      startedAt,
+      completedAt,
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      sizeBytes,
+      errorMessage: null,
+    };
+  }
+
+  if (failedCondition) {
+    const completedAt = new Date(
+      failedCondition.lastTransitionTime || Date.now(),
+    );
+
+    // The dump step runs as an init container when uploading to S3
+    let detail: string | undefined;
+    for (const container of target === "s3" ? ["dump", "backup"] : ["backup"]) {
+      const termination = await getJobTermination(name, namespace, container);
+      if (termination.terminated && termination.terminated.exitCode !== 0) {
+        detail =
+          termination.terminated.message?.trim() ||
+          termination.terminated.reason;
+        break;
+      }
+    }
+
+    return {
+      status: "failed" as const,
+      startedAt,
+      completedAt,
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      sizeBytes: null,
+      errorMessage: [failedCondition.message, detail]
+        .filter(Boolean)
+        .join(": "),
+    };
+  }
+
+  return { status: "running" as const, startedAt };
+}
+
+/**
+ * Mark successful backups outside a schedule's retention policy as expired,
+ * the same dumps the backup Jobs delete
+ */
+async function expireBackups(schedule: DeploymentBackupSchedule) {
+  const rows = await db
+    .select({
+      id: deploymentBackups.id,
+      completedAt: deploymentBackups.completedAt,
+    })
+    .from(deploymentBackups)
+    .where(
+      and(
+        eq(deploymentBackups.deploymentId, schedule.deploymentId),
+        eq(deploymentBackups.target, schedule.target),
+        eq(deploymentBackups.status, "succeeded"),
+      ),
+    )
+    .orderBy(desc(deploymentBackups.startedAt));
+
+  const cutoff = schedule.retentionDays
+    ? Date.now() - schedule.retentionDays * 24 * 60 * 60 * 1000
+    : null;
+  const expired = rows
+    .filter(
+      (row, index) =>
+        index >= schedule.retentionCount ||
+        (cutoff !== null &&
+          index > 0 &&
+          row.completedAt &&
+          row.completedAt.getTime() < cutoff),
+    )
+    .map((row) => row.id);
+
+  if (expired.length > 0) {
+    await db
+      .update(deploymentBackups)
+      .set({ status: "expired" })
+      .where(inArray(deploymentBackups.id, expired));
+  }
+
+  return expired.length;
+}
+
+/**
+ * Record the backup Jobs of all deployments and apply retention
+ * @returns Number of runs recorded or updated
+ */
+export async function syncBackups(): Promise<number> {
+  const listed = await listJobs(`${BACKUP_LABEL}=true`);
+  if (!listed.success) {
+    throw new Error(listed.error);
+  }
+
+  const jobs = (listed.jobs || []).filter(
+    (job) =>
+      job.metadata?.name && job.metadata.labels?.[BACKUP_DEPLOYMENT_LABEL],
+  );
+  const deploymentIds = [
+    ...new Set(
+      jobs.map((job) => job.metadata?.labels?.[BACKUP_DEPLOYMENT_LABEL] || ""),
+    ),
+  ];
+  if (deploymentIds.length === 0) {
+    return 0;
+  }
+
+  const [existingRows, knownDeployments] = await Promise.all([
+    db
+      .select()
+      .from(deploymentBackups)
+      .where(inArray(deploymentBackups.deploymentId, deploymentIds)),
+    db
+      .select({ id: deployments.id })
+      .from(deployments)
+      .where(inArray(deployments.id, deploymentIds)),
+  ]);
+  const known = new Set(knownDeployments.map((row) => row.id));
+
+  let recorded = 0;
+  for (const job of jobs) {
+    const jobName = job.metadata?.name || "";
+    const deploymentId = job.metadata?.labels?.[BACKUP_DEPLOYMENT_LABEL] || "";
+    if (!known.has(deploymentId)) {
+      continue;
+    }
+
+    const existing = existingRows.find(
+      (row) => row.deploymentId === deploymentId && row.jobName === jobName,
+    );
+    if (existing && FINAL_STATUSES.includes(existing.status as BackupStatus)) {
+      continue;
+    }
+
+    const locationPrefix =
+      job.metadata?.annotations?.[BACKUP_LOCATION_ANNOTATION] || "";
+    const target = locationPrefix.startsWith("s3://") ? "s3" : "pvc";
+    const outcome = await readBackupJob(job, target);
+
+    if (existing) {
+      if (outcome.status === "running") {
+        continue;
+      }
+      await db
+        .update(deploymentBackups)
+        .set(outcome)
+        .where(eq(deploymentBackups.id, existing.id));
+    } else {
+      await db
+        .insert(deploymentBackups)
+        .values({
+          deploymentId,
+          jobName,
+          trigger: job.metadata?.labels?.[BACKUP_TRIGGER_LABEL] || "schedule",
+          target,
+          location: `${locationPrefix}/${jobName}.dump`,
+          ...outcome,
+        })
+        .onConflictDoNothing();
+    }
+    recorded += 1;
+  }
+
+  const schedules = await db
+    .select()
+    .from(deploymentBackupSchedules)
+    .where(inArray(deploymentBackupSchedules.deploymentId, deploymentIds));
+  for (const schedule of schedules) {
+    await expireBackups(schedule);
+  }
+
+  return recorded;
+}
@@ -0,0 +1,499 @@
+/**
+ * Deployment Operations
+ *
+ * The slow part of deploying, updating and deleting a deployment: everything
+ * that talks to Kubernetes. Run by the job worker (lib/jobs.ts) after the API
+ * routes validated the request and stored it.
+ *
+ * Each deploy attempt is all-or-nothing: if a step fails, the Kubernetes
+ * objects created by that attempt are deleted again, except the namespace the
+ * next attempt applies into. Once no retry is left, failDeploy() deletes the
+ * namespace, releases the NodePort and records the failed step.
+ */
+
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/db";
+import { type Deployment, deploymentEnvVars, deployments } from "@/db/schema";
+import { syncBackupSchedule } from "@/lib/backups";
+import {
+  generateDeploymentManifests,
+  getRemovedInstanceClaims,
+  getRemovedManifests,
+  type ManifestEnvVar,
+} from "@/lib/k8s-manifests";
+import {
+  applyManifests,
+  deleteManifests,
+  deleteNamespace,
+  isTransientError,
+} from "@/lib/kubectl";
+import type { ReplicationSettings } from "@/lib/replication-config";
+import { getRevisionConfig, recordRevision } from "@/lib/revisions";
+
+export interface DeployFailure {
+  step: string; // e.g. "apply Deployment/postgres-17"
+  error: string;
+  transient: boolean; // Whether retrying may succeed
+  rolledBack: string[]; // Objects deleted again
+  cleanupErrors?: string[];
+}
+
+export type OperationResult<T> =
+  | { success: true; result: T }
+  | { success: false; error: string; transient: boolean };
+
+type StepCallback = (step: string) => Promise<void>;
+
+/**
+ * Get a deployment that hasn't been deleted, with its env vars
+ */
+async function loadDeployment(deploymentId: string) {
+  const [deployment] = await db
+    .select()
+    .from(deployments)
+    .where(and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)))
+    .limit(1);
+
+  if (!deployment) {
+    return null;
+  }
+
+  const envVars = await db
+    .select()
+    .from(deploymentEnvVars)
+    .where(eq(deploymentEnvVars.deploymentId, deployment.id));
+
+  return { deployment, envVars };
+}
+
+/**
+ * Apply the manifests of a pending deployment and mark it as deployed
+ * @returns The deployed row, or where and why this attempt failed
+ */
+export async function runDeploy(options: {
+  deploymentId: string;
+  createdBy: string;
+  onStep?: StepCallback;
+}): Promise<
+  | { success: true; deployment: Deployment; output?: string }
+  | { success: false; failure: DeployFailure }
+> {
+  let step = "load deployment";
+  let createdManifests: unknown[] = [];
+
+  const setStep = async (next: string) => {
+    step = next;
+    await options.onStep?.(next);
+  };
+
+  try {
+    const loaded = await loadDeployment(options.deploymentId);
+    if (!loaded) {
+      throw new Error("Deployment not found");
+    }
+    const { deployment, envVars } = loaded;
+
+    await setStep("generate manifests");
+    const manifests = generateDeploymentManifests(deployment, envVars);
+
+    await db
+      .update(deployments)
+      .set({ status: "deploying" })
+      .where(eq(deployments.id, deployment.id));
+
+    // Apply manifests to Kubernetes cluster
+    await setStep("apply manifests");
+    const k8sResult = await applyManifests(manifests);
+    createdManifests = manifests.filter(
+      (_, index) => k8sResult.results[index]?.action === "created",
+    );
+
+    if (!k8sResult.success) {
+      if (k8sResult.failed) {
+        step = `apply ${k8sResult.failed.kind}/${k8sResult.failed.name}`;
+      }
+      return {
+        success: false,
+        failure: await rollBackAttempt(
+          step,
+          k8sResult.error || "Failed to apply manifests",
+          k8sResult.transient ?? false,
+          createdManifests,
+        ),
+      };
+    }
+
+    await setStep("record deployment");
+    const [deployed] = await db
+      .update(deployments)
+      .set({
+        status: "deployed",
+        deployedAt: new Date(),
+        errorMessage: null,
+        errorDetails: null,
+        metadata: {
+          ...(deployment.metadata && typeof deployment.metadata === "object"
+            ? deployment.metadata
+            : {}),
+          k8sOutput: k8sResult.output,
+          deployedAt: new Date().toISOString(),
+        },
+      })
+      .where(eq(deployments.id, deployment.id))
+      .returning();
+
+    await recordRevision({
+      deployment: deployed,
+      envVars,
+      manifests,
+      reason: "deploy",
+      createdBy: options.createdBy,
+    });
+
+    return { success: true, deployment: deployed, output: k8sResult.output };
+  } catch (error) {
+    return {
+      success: false,
+      failure: await rollBackAttempt(
+        step,
+        error instanceof Error ? error.message : String(error),
+        isTransientError(error),
+        createdManifests,
+      ),
+    };
+  }
+}
+
+/**
+ * Delete the objects a failed deploy attempt created
+ * The namespace is kept: a deleted one stays Terminating for a while and the
+ * API server refuses the retry's objects until it's gone
+ */
+async function rollBackAttempt(
+  step: string,
+  error: string,
+  transient: boolean,
+  createdManifests: unknown[],
+): Promise<DeployFailure> {
+  const failure: DeployFailure = { step, error, transient, rolledBack: [] };
+
+  const created = createdManifests.filter(
+    (manifest) => (manifest as { kind?: string }).kind !== "Namespace",
+  );
+  if (created.length > 0) {
+    const cleanup = await deleteManifests(created);
+    failure.rolledBack = cleanup.deleted;
+    if (!cleanup.success) {
+      failure.cleanupErrors = cleanup.errors;
+    }
+  }
+
+  console.error(`Deploy attempt failed at ${step}:`, error);
+  return failure;
+}
+
+/**
+ * Give up on a deployment: delete its namespace, release its NodePorts and
+ * record the failed step
+ */
+export async function failDeploy(deploymentId: string, failure: DeployFailure) {
+  const [deployment] = await db
+    .select({ namespace: deployments.namespace })
+    .from(deployments)
+    .where(eq(deployments.id, deploymentId))
+    .limit(1);
+
+  if (deployment?.namespace) {
+    const cleanup = await deleteNamespace(deployment.namespace);
+    if (!cleanup.success) {
+      failure.cleanupErrors = [
+        ...(failure.cleanupErrors ?? []),
+        `Namespace/${deployment.namespace}: ${cleanup.error}`,
+      ];
+    }
+  }
+
+  await db
+    .update(deployments)
+    .set({
+      status: "failed",
+      nodePort: null,
+      poolerNodePort: null,
+      readOnlyNodePort: null,
+      errorMessage: `Deployment failed at step: ${failure.step}`,
+      errorDetails: failure,
+    })
+    .where(eq(deployments.id, deploymentId));
+}
+
+export interface DeploymentUpdate {
+  updates: Partial<typeof deployments.$inferInsert>; // Validated column changes
+  envVars: Record<string, string>; // Changed non-secret env vars
+}
+
+/**
+ * Apply a validated update to a deployment
+ * The stored configuration only changes once the cluster accepted the update;
+ * the previous configuration is kept in metadata.updates for auditing
+ */
+export async function runUpdate(options: {
+  deploymentId: string;
+  update: DeploymentUpdate;
+  updatedBy: string;
+  onStep?: StepCallback;
+}): Promise<OperationResult<{ revision: number; previous: unknown }>> {
+  const loaded = await loadDeployment(options.deploymentId);
+  if (!loaded) {
+    return { success: false, error: "Deployment not found", transient: false };
+  }
+
+  const { deployment, envVars: currentEnvVars } = loaded;
+  const { updates, envVars: changedEnvVars } = options.update;
+
+  // Regenerate manifests from the updated configuration
+  await options.onStep?.("generate manifests");
+  const envVars: ManifestEnvVar[] = [
+    ...currentEnvVars.map((env) => ({
+      key: env.key,
+      value: changedEnvVars[env.key] ?? env.value,
+      isSecret: env.isSecret,
+    })),
+    ...Object.entries(changedEnvVars)
+      .filter(([key]) => !currentEnvVars.some((env) => env.key === key))
+      .map(([key, value]) => ({ key, value, isSecret: false })),
+  ];
+
+  let manifests: unknown[];
+  let removed: unknown[];
+  try {
+    manifests = generateDeploymentManifests(
+      { ...deployment, ...updates },
+      envVars,
+    );
+    removed = [
+      ...getRemovedManifests(
+        generateDeploymentManifests(deployment, currentEnvVars),
+        manifests,
+      ),
+      ...getRemovedInstanceClaims(
+        deployment,
+        deployment.replication as ReplicationSettings | null,
+        (updates.replication ??
+          deployment.replication) as ReplicationSettings | null,
+      ),
+    ];
+  } catch (error) {
+    // The stored configuration is incomplete, retrying won't change it
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      transient: false,
+    };
+  }
+
+  // Apply manifests to Kubernetes cluster
+  await options.onStep?.("apply manifests");
+  const k8sResult = await applyManifests(manifests);
+
+  if (!k8sResult.success) {
+    return {
+      success: false,
+      error: k8sResult.error || "Failed to apply deployment update",
+      transient: k8sResult.transient ?? false,
+    };
+  }
+
+  // Objects the update turned off, a failure leaves them running unused
+  if (removed.length > 0) {
+    await options.onStep?.("delete removed objects");
+    const cleanup = await deleteManifests(removed);
+    if (!cleanup.success) {
+      console.error(
+        `Failed to delete objects removed from ${deployment.id}:`,
+        cleanup.errors,
+      );
+    }
+  }
+
+  // Save environment variables
+  await options.onStep?.("record update");
+  for (const [key, value] of Object.entries(changedEnvVars)) {
+    const current = currentEnvVars.find((env) => env.key === key);
+    if (current) {
+      await db
+        .update(deploymentEnvVars)
+        .set({ value })
+        .where(eq(deploymentEnvVars.id, current.id));
+    } else {
+      await db
+        .insert(deploymentEnvVars)
+        .values({ deploymentId: deployment.id, key, value, isSecret: false });
+    }
+  }
+
+  // Previous configuration, secrets are never part of it
+  const previous = {
+    tag: deployment.tag,
+    ...getRevisionConfig(deployment, currentEnvVars),
+  };
+
+  const metadata =
+    deployment.metadata && typeof deployment.metadata === "object"
+      ? (deployment.metadata as Record<string, unknown>)
+      : {};
+
+  const [updated] = await db
+    .update(deployments)
+    .set({
+      ...updates,
+      // Updating a stopped deployment keeps it scaled to zero
+      status: deployment.status === "stopped" ? "stopped" : "deployed",
+      errorMessage: null,
+      errorDetails: null,
+      metadata: {
+        ...metadata,
+        k8sOutput: k8sResult.output,
+        updates: [
+          ...(Array.isArray(metadata.updates) ? metadata.updates : []),
+          {
+            updatedAt: new Date().toISOString(),
+            updatedBy: options.updatedBy,
+            previous,
+            changes: { ...updates, envVars: changedEnvVars },
+          },
+        ],
+      },
+    })
+    .where(eq(deployments.id, deployment.id))
+    .returning();
+
+  const revision = await recordRevision({
+    deployment: updated,
+    envVars,
+    manifests,
+    reason: "update",
+    createdBy: options.updatedBy,
+  });
+
+  // Backups dump with the deployment's image, which may have a new tag
+  const backups = await syncBackupSchedule(updated);
+  if (!backups.success) {
+    console.error(
+      `Failed to update the backup schedule of ${deployment.id}:`,
+      backups.error,
+    );
+  }
+
+  return { success: true, result: { revision: revision.revision, previous } };
+}
+
+/**
+ * Delete a deployment from Kubernetes and ArgoCD, then soft delete it
+ *
+ * A Kubernetes failure that may be transient is returned without touching
+ * the row so the job can be retried; other cleanup errors are recorded in
+ * metadata.deleteErrors and the deployment is marked deleted anyway.
+ *
+ * @param options.final - Last attempt: soft delete even if Kubernetes failed
+ */
+export async function runDelete(options: {
+  deploymentId: string;
+  deletedBy: string;
+  final: boolean;
+  onStep?: StepCallback;
+}): Promise<OperationResult<{ warnings?: string[] }>> {
+  const [deployment] = await db
+    .select()
+    .from(deployments)
+    .where(
+      and(
+        eq(deployments.id, options.deploymentId),
+        isNull(deployments.deletedAt),
+      ),
+    )
+    .limit(1);
+
+  if (!deployment) {
+    return { success: false, error: "Deployment not found", transient: false };
+  }
+
+  const errors: string[] = [];
+
+  // Delete from Kubernetes (namespace and all resources including PVC)
+  if (deployment.namespace) {
+    await options.onStep?.("delete namespace");
+    const result = await deleteNamespace(deployment.namespace);
+    if (result.success) {
+      console.log(`Deleted namespace ${deployment.namespace} from Kubernetes`);
+    } else {
+      const errorMsg = `Failed to delete namespace from Kubernetes: ${result.error}`;
+      console.error(errorMsg);
+      if (result.transient && !options.final) {
+        return { success: false, error: errorMsg, transient: true };
+      }
+      errors.push(errorMsg);
+    }
+  }
+
+  // Delete from ArgoCD
+  if (deployment.argocdAppName) {
+    await options.onStep?.("delete ArgoCD application");
+    try {
+      const argocdUrl = process.env.ARGOCD_URL;
+      const argocdToken = process.env.ARGOCD_TOKEN;
+
+      if (argocdUrl && argocdToken) {
+        const deleteResponse = await fetch(
+          `${argocdUrl}/api/v1/applications/${deployment.argocdAppName}?cascade=true`,
+          {
+            method: "DELETE",
+            headers: {
+              Authorization: `Bearer ${argocdToken}`,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+
+        if (deleteResponse.ok) {
+          console.log(
+            `Deleted application ${deployment.argocdAppName} from ArgoCD`,
+          );
+        } else {
+          const errorText = await deleteResponse.text();
+          const errorMsg = `Failed to delete from ArgoCD: ${deleteResponse.status} ${errorText}`;
+          console.error(errorMsg);
+          errors.push(errorMsg);
+        }
+      } else {
+        errors.push("ArgoCD credentials not configured");
+      }
+    } catch (error) {
+      const errorMsg = `Failed to delete from ArgoCD: ${error instanceof Error ? error.message : String(error)}`;
+      console.error(errorMsg);
+      errors.push(errorMsg);
+    }
+  }
+
+  // Soft delete from database (mark as deleted)
+  await options.onStep?.("mark deleted");
+  await db
+    .update(deployments)
+    .set({
+      deletedAt: new Date(),
+      status: "deleted",
+      metadata: {
+        ...(deployment.metadata && typeof deployment.metadata === "object"
+          ? deployment.metadata
+          : {}),
+        deletedBy: options.deletedBy,
+        deletedAt: new Date().toISOString(),
+        deleteErrors: errors.length > 0 ? errors : undefined,
+      },
+    })
+    .where(eq(deployments.id, deployment.id));
+
+  return {
+    success: true,
+    result: { warnings: errors.length > 0 ? errors : undefined },
+  };
+}
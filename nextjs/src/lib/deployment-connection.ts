@@ -0,0 +1,57 @@
+/**
+ * Deployment Connection
+ *
+ * Where and with which credentials the app itself connects to a deployed
+ * database (SQL console, Redis browser, Postgres config reloads). Credentials
+ * come from the stored deployment env vars, the same values the container
+ * was started with.
+ */
+
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { type Deployment, deploymentEnvVars } from "@/db/schema";
+import { getExternalHost } from "@/lib/deployment-utils";
+
+/**
+ * Host and port of a deployment's Service
+ * Inside the cluster the Service DNS name; elsewhere (local development) the
+ * NodePort on the external host
+ */
+export function getServiceAddress(
+  deployment: Pick<
+    Deployment,
+    "containerName" | "namespace" | "port" | "nodePort" | "externalHost"
+  >,
+): { host: string; port: number } | null {
+  if (process.env.KUBERNETES_SERVICE_HOST) {
+    if (!deployment.port) {
+      return null;
+    }
+    return {
+      host: `${deployment.containerName}-service.${deployment.namespace}.svc.cluster.local`,
+      port: deployment.port,
+    };
+  }
+
+  if (!deployment.nodePort) {
+    return null;
+  }
+  return {
+    host: deployment.externalHost || getExternalHost(),
+    port: deployment.nodePort,
+  };
+}
+
+/**
+ * Get all stored env vars of a deployment, secrets included
+ */
+export async function getDeploymentEnv(
+  deploymentId: string,
+): Promise<Record<string, string>> {
+  const rows = await db
+    .select({ key: deploymentEnvVars.key, value: deploymentEnvVars.value })
+    .from(deploymentEnvVars)
+    .where(eq(deploymentEnvVars.deploymentId, deploymentId));
+
+  return Object.fromEntries(rows.map((row) => [row.key, row.value]));
+}
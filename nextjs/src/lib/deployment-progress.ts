@@ -0,0 +1,216 @@
+/**
+ * Deployment Progress
+ *
+ * Follows a deployment's rollout through Kubernetes watches and turns it into
+ * a fixed list of steps for the progress stream (api/deployments/[id]/progress).
+ * Steps only move forward: a step that was reached stays done even if the
+ * object changes again (e.g. the pod restarts).
+ */
+
+import type * as k8s from "@kubernetes/client-node";
+import type { Deployment } from "@/db/schema";
+import {
+  getEventTime,
+  type WatchEventType,
+  watchResource,
+} from "@/lib/kubectl";
+
+export type ProgressStepId =
+  | "namespace"
+  | "secret"
+  | "pvc"
+  | "scheduled"
+  | "image"
+  | "ready";
+
+export interface ProgressStep {
+  id: ProgressStepId;
+  label: string;
+  done: boolean;
+  at?: string; // When the step was reached
+}
+
+export interface ProgressClusterEvent {
+  reason: string; // e.g. "Pulling", "FailedScheduling"
+  message: string;
+  warning: boolean;
+  object: string; // e.g. "Pod/postgres-17-abc"
+  at: string;
+}
+
+export type ProgressUpdate =
+  | { type: "step"; step: ProgressStep }
+  | { type: "event"; event: ProgressClusterEvent };
+
+const STEP_LABELS: Record<ProgressStepId, string> = {
+  namespace: "Namespace created",
+  secret: "Secret created",
+  pvc: "Volume bound",
+  scheduled: "Pod scheduled",
+  image: "Image pulled",
+  ready: "Readiness check passed",
+};
+
+// Watches end after a server-side timeout; restart them after this delay
+const WATCH_RESTART_DELAY_MS = 2_000;
+
+/**
+ * Get the steps a deployment goes through
+ * Deployments without a Secret or PVC in their manifests skip those steps
+ */
+export function getProgressSteps(manifests: unknown[]): ProgressStep[] {
+  const kinds = new Set(
+    manifests.map((manifest) => (manifest as k8s.KubernetesObject).kind),
+  );
+
+  const ids: ProgressStepId[] = [
+    "namespace",
+    ...(kinds.has("Secret") ? (["secret"] as const) : []),
+    ...(kinds.has("PersistentVolumeClaim") ? (["pvc"] as const) : []),
+    "scheduled",
+    "image",
+    "ready",
+  ];
+
+  return ids.map((id) => ({ id, label: STEP_LABELS[id], done: false }));
+}
+
+const hasCondition = (pod: k8s.V1Pod, type: string) =>
+  pod.status?.conditions?.some(
+    (condition) => condition.type === type && condition.status === "True",
+  ) ?? false;
+
+/**
+ * Watch a deployment's Kubernetes objects and report progress
+ * @param steps - Steps from getProgressSteps(), updated in place
+ * @returns A function that stops all watches
+ */
+export async function watchDeploymentProgress(
+  deployment: Pick<Deployment, "containerName" | "namespace">,
+  steps: ProgressStep[],
+  onUpdate: (update: ProgressUpdate) => void,
+): Promise<() => void> {
+  const { containerName: name, namespace } = deployment;
+  const stops: Array<() => void> = [];
+  const timers: Array<ReturnType<typeof setTimeout>> = [];
+  const seenEvents = new Set<string>();
+  let stopped = false;
+
+  const reach = (id: ProgressStepId) => {
+    const step = steps.find((s) => s.id === id);
+    if (!step || step.done) {
+      return;
+    }
+    // A ready pod got through every earlier step, even if a watch missed one
+    if (id === "ready") {
+      for (const earlier of steps.filter((s) => s.id !== id && !s.done)) {
+        reach(earlier.id);
+      }
+    }
+    step.done = true;
+    step.at = new Date().toISOString();
+    onUpdate({ type: "step", step: { ...step } });
+  };
+
+  const watch = async <T extends k8s.KubernetesObject>(
+    path: string,
+    query: { fieldSelector?: string; labelSelector?: string },
+    onEvent: (type: WatchEventType, obj: T) => void,
+  ) => {
+    const restart = () => {
+      if (!stopped) {
+        timers.push(setTimeout(() => void start(), WATCH_RESTART_DELAY_MS));
+      }
+    };
+
+    const start = async () => {
+      try {
+        stops.push(await watchResource<T>(path, query, onEvent, restart));
+      } catch (error) {
+        console.error(`[Progress] Failed to watch ${path}:`, error);
+        restart();
+      }
+    };
+
+    await start();
+  };
+
+  await Promise.all([
+    watch<k8s.V1Namespace>(
+      "/api/v1/namespaces",
+      { fieldSelector: `metadata.name=${namespace}` },
+      (type) => type !== "DELETED" && reach("namespace"),
+    ),
+
+    watch<k8s.V1Secret>(
+      `/api/v1/namespaces/${namespace}/secrets`,
+      { fieldSelector: `metadata.name=${name}-secret` },
+      (type) => type !== "DELETED" && reach("secret"),
+    ),
+
+    watch<k8s.V1PersistentVolumeClaim>(
+      `/api/v1/namespaces/${namespace}/persistentvolumeclaims`,
+      { fieldSelector: `metadata.name=${name}-pvc` },
+      (_, pvc) => pvc.status?.phase === "Bound" && reach("pvc"),
+    ),
+
+    watch<k8s.V1Pod>(
+      `/api/v1/namespaces/${namespace}/pods`,
+      { labelSelector: `app=${name}` },
+      (type, pod) => {
+        if (type === "DELETED") {
+          return;
+        }
+        if (hasCondition(pod, "PodScheduled")) {
+          reach("scheduled");
+        }
+        // imageID is only set once the image is on the node
+        if (pod.status?.containerStatuses?.some((status) => status.imageID)) {
+          reach("image");
+        }
+        if (hasCondition(pod, "Ready")) {
+          reach("ready");
+        }
+      },
+    ),
+
+    watch<k8s.CoreV1Event>(
+      `/api/v1/namespaces/${namespace}/events`,
+      {},
+      (type, event) => {
+        if (type === "DELETED") {
+          return;
+        }
+        if (event.reason === "Pulled") {
+          reach("image");
+        }
+        // Restarted watches list existing events again
+        const key = `${event.metadata.uid}:${event.count ?? 1}`;
+        if (seenEvents.has(key)) {
+          return;
+        }
+        seenEvents.add(key);
+        onUpdate({
+          type: "event",
+          event: {
+            reason: event.reason || "",
+            message: event.message || "",
+            warning: event.type === "Warning",
+            object: `${event.involvedObject.kind}/${event.involvedObject.name}`,
+            at: getEventTime(event).toISOString(),
+          },
+        });
+      },
+    ),
+  ]);
+
+  return () => {
+    stopped = true;
+    for (const timer of timers) {
+      clearTimeout(timer);
+    }
+    for (const stop of stops) {
+      stop();
+    }
+  };
+}
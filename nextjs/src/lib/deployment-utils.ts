@@ -1,6 +1,6 @@
+import { sql } from "drizzle-orm";
 import { db } from "@/db";
 import { deployments } from "@/db/schema";
-import { sql } from "drizzle-orm";
 
 /**
  * Generate a strong random password
@@ -58,24 +58,43 @@ export function validatePasswordStrength(password: string): {
  * Get next available NodePort
  * NodePort range: 30000-32767 (Kubernetes default)
  * Returns a random available port from the range
+ * @param exclude - Ports taken by rows that are not saved yet
  */
-export async function getNextAvailableNodePort(): Promise<number> {
+export async function getNextAvailableNodePort(
+  exclude: Array<number | null> = [],
+): Promise<number> {
   const MIN_PORT = 30000;
   const MAX_PORT = 32767;
 
-  // Get all used NodePorts
+  // Get all used NodePorts, connection poolers and read replicas included
   const usedPorts = await db
-    .select({ nodePort: deployments.nodePort })
+    .select({
+      nodePort: deployments.nodePort,
+      poolerNodePort: deployments.poolerNodePort,
+      readOnlyNodePort: deployments.readOnlyNodePort,
+    })
     .from(deployments)
-    .where(sql`${deployments.nodePort} IS NOT NULL AND ${deployments.deletedAt} IS NULL`);
-
-  const usedPortSet = new Set(usedPorts.map((p) => p.nodePort).filter(Boolean));
+    .where(
+      sql`(${deployments.nodePort} IS NOT NULL OR ${deployments.poolerNodePort} IS NOT NULL OR ${deployments.readOnlyNodePort} IS NOT NULL) AND ${deployments.deletedAt} IS NULL`,
+    );
+
+  const usedPortSet = new Set(
+    [
+      ...usedPorts.flatMap((p) => [
+        p.nodePort,
+        p.poolerNodePort,
+        p.readOnlyNodePort,
+      ]),
+      ...exclude,
+    ].filter(Boolean),
+  );
 
   // Try to find an available port (max 100 attempts to avoid infinite loop)
   let attempts = 0;
   while (attempts < 100) {
     // Generate random port in range
-    const port = Math.floor(Math.random() * (MAX_PORT - MIN_PORT + 1)) + MIN_PORT;
+    const port =
+      Math.floor(Math.random() * (MAX_PORT - MIN_PORT + 1)) + MIN_PORT;
 
     if (!usedPortSet.has(port)) {
       return port;
@@ -113,5 +132,31 @@ export function generateExternalUrl(host: string, nodePort: number): string {
  * Falls back to default if not configured
  */
 export function getExternalHost(): string {
-  return process.env.EXTERNAL_HOST || process.env.KUBERNETES_NODE_IP || "localhost";
+  return (
+    process.env.EXTERNAL_HOST || process.env.KUBERNETES_NODE_IP || "localhost"
+  );
+}
+
+/**
+ * Validate a Docker image reference (without tag)
+ * Accepts Docker Hub names (redis, bitnami/redis) and registry paths (ghcr.io/org/app)
+ */
+export function isValidImageName(image: string): boolean {
+  return /^[a-z0-9]+([._-][a-z0-9]+)*(:[0-9]+)?(\/[a-z0-9]+([._-][a-z0-9]+)*)*$/.test(
+    image,
+  );
+}
+
+/**
+ * Validate a Docker image tag
+ */
+export function isValidImageTag(tag: string): boolean {
+  return /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/.test(tag);
+}
+
+/**
+ * Validate an environment variable name (POSIX style)
+ */
+export function isValidEnvVarName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
 }
@@ -0,0 +1,259 @@
+/**
+ * Exec Server
+ *
+ * WebSocket server for interactive terminals into deployment pods. Route
+ * handlers can't upgrade connections, so it listens on its own port
+ * (EXEC_WS_PORT, default 3001) and is started once per server process from
+ * instrumentation.ts.
+ *
+ * POST /api/deployments/[id]/exec checks the user and issues a single-use
+ * ticket; the browser then connects to /exec?ticket=...&cols=...&rows=...
+ * Every session is recorded in exec_sessions.
+ *
+ * Messages from the browser are JSON: { type: "input", data } and
+ * { type: "resize", cols, rows }. The server sends terminal output as binary
+ * frames and { type: "exit", exitCode?, error? } as JSON when the command ends.
+ */
+
+import { randomBytes } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { eq } from "drizzle-orm";
+import { type WebSocket, WebSocketServer } from "ws";
+import { db } from "@/db";
+import { execSessions } from "@/db/schema";
+import { execInPod, type PodTerminal } from "@/lib/kubectl";
+import { redis } from "@/lib/redis";
+
+/**
+ * What a ticket lets its holder open, decided by the API route
+ */
+export interface ExecTicket {
+  userId: string;
+  deploymentId: string;
+  namespace: string;
+  podName: string;
+  containerName: string;
+  command: string[];
+}
+
+// Permission required on top of owning the deployment
+export const EXEC_PERMISSION = "deployments:exec";
+
+type ClientMessage =
+  | { type: "input"; data: string }
+  | { type: "resize"; cols: number; rows: number };
+
+const EXEC_WS_PORT = parseInt(process.env.EXEC_WS_PORT || "3001", 10);
+const EXEC_PATH = "/exec";
+
+const TICKET_PREFIX = "exec-ticket:";
+const TICKET_TTL_SECONDS = 30;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// Close codes in the private range, shown by the terminal
+const CLOSE_INVALID_TICKET = 4001;
+const CLOSE_EXEC_FAILED = 4002;
+
+/**
+ * Store a ticket for one connection to the exec server
+ * @returns The ticket id to pass as ?ticket=
+ */
+export async function createExecTicket(ticket: ExecTicket): Promise<string> {
+  const id = randomBytes(32).toString("base64url");
+  await redis.set(
+    `${TICKET_PREFIX}${id}`,
+    JSON.stringify(ticket),
+    "EX",
+    TICKET_TTL_SECONDS,
+  );
+  return id;
+}
+
+/**
+ * Get (and delete) a ticket, null if unknown or expired
+ */
+async function consumeExecTicket(id: string): Promise<ExecTicket | null> {
+  const data = await redis.getdel(`${TICKET_PREFIX}${id}`);
+  return data ? (JSON.parse(data) as ExecTicket) : null;
+}
+
+/**
+ * URL browsers connect to
+ * EXEC_WS_URL when the exec server is published elsewhere (e.g. behind a
+ * tunnel), otherwise the exec port on the host of the request
+ */
+export function getExecUrl(requestUrl: string): string {
+  if (process.env.EXEC_WS_URL) {
+    return process.env.EXEC_WS_URL;
+  }
+
+  const url = new URL(requestUrl);
+  const protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${url.hostname}:${EXEC_WS_PORT}${EXEC_PATH}`;
+}
+
+function getClientIp(request: IncomingMessage): string | null {
+  const forwarded =
+    request.headers["cf-connecting-ip"] || request.headers["x-forwarded-for"];
+  const ip = Array.isArray(forwarded) ? forwarded[0] : forwarded;
+  return ip?.split(",")[0].trim() || request.socket.remoteAddress || null;
+}
+
+function parseSize(value: string | null, fallback: number): number {
+  const size = parseInt(value || "", 10);
+  return Number.isNaN(size) || size < 1 || size > 1000 ? fallback : size;
+}
+
+/**
+ * Attach a browser connection to a command in the pod named by its ticket
+ */
+async function handleConnection(socket: WebSocket, request: IncomingMessage) {
+  const url = new URL(request.url || "", "http://localhost");
+  const ticket = await consumeExecTicket(url.searchParams.get("ticket") || "");
+  if (!ticket) {
+    socket.close(CLOSE_INVALID_TICKET, "Invalid or expired ticket");
+    return;
+  }
+
+  const [session] = await db
+    .insert(execSessions)
+    .values({
+      deploymentId: ticket.deploymentId,
+      userId: ticket.userId,
+      namespace: ticket.namespace,
+      podName: ticket.podName,
+      containerName: ticket.containerName,
+      command: ticket.command.join(" "),
+      clientIp: getClientIp(request),
+      userAgent: request.headers["user-agent"] || null,
+    })
+    .returning({ id: execSessions.id });
+
+  console.log(
+    `[Exec] Session ${session.id}: user ${ticket.userId} opened ${ticket.namespace}/${ticket.podName}`,
+  );
+
+  let ended = false;
+  const endSession = async (exitCode: number | null, closeReason: string) => {
+    if (ended) {
+      return;
+    }
+    ended = true;
+    console.log(`[Exec] Session ${session.id} ended: ${closeReason}`);
+    await db
+      .update(execSessions)
+      .set({ exitCode, closeReason, endedAt: new Date() })
+      .where(eq(execSessions.id, session.id));
+  };
+
+  let terminal: PodTerminal | null = null;
+
+  // Handle the browser going away before the command started, too
+  socket.on("close", () => {
+    terminal?.close();
+    endSession(null, "disconnected").catch((error) =>
+      console.error("[Exec] Failed to record session end:", error),
+    );
+  });
+
+  try {
+    terminal = await execInPod(
+      ticket.namespace,
+      ticket.podName,
+      ticket.containerName,
+      ticket.command,
+      {
+        columns: parseSize(url.searchParams.get("cols"), 80),
+        rows: parseSize(url.searchParams.get("rows"), 24),
+      },
+      (chunk) => socket.send(chunk),
+      ({ exitCode, error }) => {
+        endSession(exitCode ?? null, error || "exited")
+          .catch((error) =>
+            console.error("[Exec] Failed to record session end:", error),
+          )
+          .finally(() => {
+            socket.send(JSON.stringify({ type: "exit", exitCode, error }));
+            socket.close(1000, "Command exited");
+          });
+      },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await endSession(null, message);
+    socket.close(CLOSE_EXEC_FAILED, message.slice(0, 120));
+    return;
+  }
+
+  if (socket.readyState !== socket.OPEN) {
+    terminal.close();
+    return;
+  }
+
+  socket.on("message", (data, isBinary) => {
+    if (isBinary) {
+      return;
+    }
+
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    if (message.type === "input" && typeof message.data === "string") {
+      terminal.write(message.data);
+    } else if (message.type === "resize") {
+      terminal.resize(
+        parseSize(String(message.cols), 80),
+        parseSize(String(message.rows), 24),
+      );
+    }
+  });
+}
+
+const globalForExec = globalThis as unknown as {
+  execServer?: WebSocketServer;
+};
+
+/**
+ * Start the exec server (once per process)
+ * Set EXEC_ENABLED=false on processes that shouldn't listen
+ */
+export function startExecServer() {
+  if (globalForExec.execServer || process.env.EXEC_ENABLED === "false") {
+    return;
+  }
+
+  const server = new WebSocketServer({ port: EXEC_WS_PORT, path: EXEC_PATH });
+  globalForExec.execServer = server;
+
+  server.on("listening", () =>
+    console.log(`[Exec] Listening on port ${EXEC_WS_PORT}`),
+  );
+  server.on("error", (error) => console.error("[Exec] Server error:", error));
+
+  // Drop connections that stopped answering pings (e.g. a closed laptop)
+  const alive = new WeakSet<WebSocket>();
+  setInterval(() => {
+    for (const socket of server.clients) {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      alive.delete(socket);
+      socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  server.on("connection", (socket, request) => {
+    alive.add(socket);
+    socket.on("pong", () => alive.add(socket));
+
+    handleConnection(socket, request).catch((error) => {
+      console.error("[Exec] Error:", error);
+      socket.close(CLOSE_EXEC_FAILED, "Failed to open terminal");
+    });
+  });
+}
@@ -0,0 +1,222 @@
+/**
+ * Deployment Health
+ *
+ * Computes a deployment's health from what Kubernetes reports: replicas of
+ * the Deployment (the StatefulSet of a replicated deployment), conditions and
+ * restart counts of its pods, the phase of its PVC and recent warning events.
+ * The state is stored in deployments.healthStatus.
+ */
+
+import type * as k8s from "@kubernetes/client-node";
+import type { Deployment } from "@/db/schema";
+import {
+  type EventSummary,
+  getDeploymentStatus,
+  getEventTime,
+  getPvcPhase,
+  listDeploymentPods,
+  listNamespaceEvents,
+  summarizeEvent,
+} from "@/lib/kubectl";
+import {
+  getInstanceClaimName,
+  type ReplicationSettings,
+} from "@/lib/replication-config";
+
+export type HealthState =
+  | "Healthy"
+  | "Progressing"
+  | "Degraded"
+  | "CrashLooping"
+  | "Suspended"; // Scaled to zero
+
+export interface PodHealth {
+  name: string;
+  phase: string;
+  ready: boolean;
+  restarts: number;
+  reason?: string; // e.g. "CrashLoopBackOff", "ImagePullBackOff"
+}
+
+export interface DeploymentHealth {
+  state: HealthState;
+  reasons: string[]; // Why the deployment isn't healthy
+  replicas: { desired: number; ready: number };
+  pods: PodHealth[];
+  pvcPhase?: string; // Only for deployments with a volume
+  warnings: EventSummary[]; // Recent warning events, newest first
+  checkedAt: string;
+}
+
+// Container waiting reasons that won't resolve without a change
+const FAILING_WAIT_REASONS = [
+  "ErrImagePull",
+  "ImagePullBackOff",
+  "InvalidImageName",
+  "CreateContainerConfigError",
+  "CreateContainerError",
+];
+
+// Warning events that mean the rollout is stuck
+const FAILING_EVENT_REASONS = [
+  "FailedMount",
+  "FailedAttachVolume",
+  "ProvisioningFailed",
+  "FailedCreate",
+  "Evicted",
+];
+
+const RECENT_EVENT_WINDOW_MS = 10 * 60_000;
+
+// A container that isn't ready after this many restarts is crash looping,
+// even while it is between back-offs
+const CRASH_LOOP_RESTARTS = 3;
+
+function getPodHealth(pod: k8s.V1Pod): PodHealth & { crashLooping: boolean } {
+  const containers = pod.status?.containerStatuses || [];
+  const restarts = containers.reduce((sum, c) => sum + c.restartCount, 0);
+  const waiting = containers.find((c) => c.state?.waiting?.reason);
+
+  const crashLooping = containers.some(
+    (c) =>
+      c.state?.waiting?.reason === "CrashLoopBackOff" ||
+      (!c.ready && c.restartCount >= CRASH_LOOP_RESTARTS),
+  );
+
+  return {
+    name: pod.metadata?.name || "",
+    phase: pod.status?.phase || "Unknown",
+    ready:
+      pod.status?.conditions?.some(
+        (condition) =>
+          condition.type === "Ready" && condition.status === "True",
+      ) ?? false,
+    restarts,
+    reason:
+      waiting?.state?.waiting?.reason ||
+      pod.status?.conditions?.find((condition) => condition.status === "False")
+        ?.reason,
+    crashLooping,
+  };
+}
+
+/**
+ * Check the health of a deployment in Kubernetes
+ */
+export async function getDeploymentHealth(
+  deployment: Pick<Deployment, "containerName" | "namespace" | "replication">,
+): Promise<
+  | { success: true; health: DeploymentHealth }
+  | { success: false; error: string }
+> {
+  const { containerName: name, namespace } = deployment;
+  const replication = deployment.replication as ReplicationSettings | null;
+
+  // For a replicated deployment, the volume of its primary
+  const [status, podList, pvc, eventList] = await Promise.all([
+    getDeploymentStatus(
+      name,
+      namespace,
+      replication ? "StatefulSet" : "Deployment",
+    ),
+    listDeploymentPods(name, namespace),
+    getPvcPhase(
+      replication
+        ? getInstanceClaimName(name, replication.primary)
+        : `${name}-pvc`,
+      namespace,
+    ),
+    listNamespaceEvents(namespace),
+  ]);
+
+  if (!status.success && !status.notFound) {
+    return { success: false, error: status.error || "Unknown error" };
+  }
+  if (!podList.success) {
+    return { success: false, error: podList.error || "Unknown error" };
+  }
+
+  const pods = (podList.pods || []).map(getPodHealth);
+  const pvcPhase = pvc.success ? pvc.phase : undefined;
+
+  // Events are best effort, health doesn't depend on them alone
+  const recentSince = Date.now() - RECENT_EVENT_WINDOW_MS;
+  const warnings = (eventList.events || [])
+    .filter(
+      (event) =>
+        event.type === "Warning" &&
+        getEventTime(event).getTime() >= recentSince,
+    )
+    .map(summarizeEvent);
+
+  const desired = status.replicas ?? 0;
+  const ready = status.readyReplicas ?? 0;
+  const reasons: string[] = [];
+  let state: HealthState;
+
+  const crashLooping = pods.filter((pod) => pod.crashLooping);
+  const failingPods = pods.filter(
+    (pod) =>
+      pod.phase === "Failed" ||
+      (pod.reason && FAILING_WAIT_REASONS.includes(pod.reason)) ||
+      // Unschedulable while the volume is still binding is expected
+      (pod.reason === "Unschedulable" && pvcPhase !== "Pending"),
+  );
+  const failingEvents = warnings.filter((event) =>
+    FAILING_EVENT_REASONS.includes(event.reason),
+  );
+
+  if (status.notFound) {
+    state = "Degraded";
+    reasons.push("Deployment not found in the cluster");
+  } else if (desired === 0) {
+    state = "Suspended";
+  } else if (crashLooping.length > 0) {
+    state = "CrashLooping";
+    for (const pod of crashLooping) {
+      reasons.push(`${pod.name} keeps restarting (${pod.restarts} restarts)`);
+    }
+  } else if (
+    failingPods.length > 0 ||
+    pvcPhase === "Lost" ||
+    status.progressDeadlineExceeded ||
+    (ready < desired && failingEvents.length > 0)
+  ) {
+    state = "Degraded";
+    for (const pod of failingPods) {
+      reasons.push(`${pod.name}: ${pod.reason || pod.phase}`);
+    }
+    if (pvcPhase === "Lost") {
+      reasons.push("Volume lost");
+    }
+    if (status.progressDeadlineExceeded) {
+      reasons.push("Rollout exceeded its progress deadline");
+    }
+    if (ready < desired) {
+      for (const event of failingEvents) {
+        reasons.push(`${event.reason}: ${event.message}`);
+      }
+    }
+  } else if (ready >= desired) {
+    state = "Healthy";
+  } else {
+    state = "Progressing";
+    reasons.push(`${ready} of ${desired} replicas ready`);
+    if (pvcPhase === "Pending") {
+      reasons.push("Volume not bound yet");
+    }
+  }
+
+  return {
+    success: true,
+    health: {
+      state,
+      reasons,
+      replicas: { desired, ready },
+      pods: pods.map(({ crashLooping: _crashLooping, ...pod }) => pod),
+      pvcPhase,
+      warnings,
+      checkedAt: new Date().toISOString(),
+    },
+  };
+}
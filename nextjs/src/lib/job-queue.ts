@@ -0,0 +1,346 @@
+/**
+ * Job Queue
+ *
+ * Redis-backed queue for slow deployment operations (deploy, update, delete,
+ * promotion of a Postgres replica, reload of Postgres settings).
+ * Jobs are JSON documents under `job:<id>`; their ids move between:
+ * - jobs:queue    list of jobs ready to run
+ * - jobs:delayed  sorted set of jobs waiting for a retry (score = run at)
+ * - jobs:running  list of claimed jobs, each guarded by a `job-lock:<id>` key
+ *
+ * A running job whose lock expired (the worker died) is put back in the queue.
+ *
+ * Operations on the same deployment never overlap: a job runs only while it
+ * holds `deployment-lock:<deploymentId>`, and is deferred while another job
+ * or a synchronous route (rollback, stop, start) holds it.
+ */
+
+import { randomUUID } from "node:crypto";
+import { redis } from "@/lib/redis";
+
+export type JobType = "deploy" | "update" | "delete" | "promote" | "reload";
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "retrying"
+  | "completed"
+  | "failed";
+
+export interface Job<TPayload = Record<string, unknown>> {
+  id: string;
+  type: JobType;
+  deploymentId: string;
+  userId: string;
+  payload: TPayload;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  step?: string; // Current step, e.g. "apply Deployment/postgres-17"
+  progress: Array<{ at: string; message: string }>;
+  result?: unknown;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const QUEUE_KEY = "jobs:queue";
+const DELAYED_KEY = "jobs:delayed";
+const RUNNING_KEY = "jobs:running";
+const jobKey = (id: string) => `job:${id}`;
+const lockKey = (id: string) => `job-lock:${id}`;
+const deploymentLockKey = (id: string) => `deployment-lock:${id}`;
+
+// Finished jobs are kept for a week so their progress can still be read
+const JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+export const JOB_LOCK_TTL_MS = 60_000;
+
+// Moves the next queued id to the running list and locks it in one step, so
+// recoverStalledJobs() never sees a claimed job without its lock
+const CLAIM_SCRIPT = `
+local id = redis.call("RPOPLPUSH", KEYS[1], KEYS[2])
+if id then
+  redis.call("SET", ARGV[1] .. id, "1", "PX", ARGV[2])
+end
+return id
+`;
+
+// Only the owner that took a deployment lock may extend or release it
+const EXTEND_IF_OWNER_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+end
+return 0
+`;
+const RELEASE_IF_OWNER_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2_000;
+const MAX_RETRY_DELAY_MS = 60_000;
+const DEFER_DELAY_MS = 2_000;
+// Synchronous routes don't refresh their lock, long enough to apply manifests
+const REQUEST_LOCK_TTL_MS = 5 * 60_000;
+const WAITING_MESSAGE = "Waiting for another operation on the deployment";
+
+async function saveJob(job: Job) {
+  job.updatedAt = new Date().toISOString();
+  await redis.set(jobKey(job.id), JSON.stringify(job), "EX", JOB_TTL_SECONDS);
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(options: {
+  type: JobType;
+  deploymentId: string;
+  userId: string;
+  payload?: Record<string, unknown>;
+  maxAttempts?: number;
+}): Promise<Job> {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    type: options.type,
+    deploymentId: options.deploymentId,
+    userId: options.userId,
+    payload: options.payload || {},
+    status: "queued",
+    attempts: 0,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    progress: [{ at: now, message: "Queued" }],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveJob(job);
+  await redis.lpush(QUEUE_KEY, job.id);
+
+  return job;
+}
+
+/**
+ * Get a job by id
+ */
+export async function getJob(id: string): Promise<Job | null> {
+  const data = await redis.get(jobKey(id));
+  return data ? (JSON.parse(data) as Job) : null;
+}
+
+/**
+ * Move delayed jobs whose retry time has come back into the queue
+ */
+async function promoteDelayedJobs() {
+  const due = await redis.zrangebyscore(DELAYED_KEY, 0, Date.now());
+  for (const id of due) {
+    // Only the worker that removes the entry requeues it
+    if ((await redis.zrem(DELAYED_KEY, id)) === 1) {
+      await redis.lpush(QUEUE_KEY, id);
+    }
+  }
+}
+
+/**
+ * Requeue running jobs whose worker stopped refreshing the lock
+ */
+export async function recoverStalledJobs() {
+  const running = await redis.lrange(RUNNING_KEY, 0, -1);
+  for (const id of running) {
+    if (!(await redis.exists(lockKey(id)))) {
+      if ((await redis.lrem(RUNNING_KEY, 1, id)) === 1) {
+        console.warn(`[Jobs] Requeueing stalled job ${id}`);
+        await redis.lpush(QUEUE_KEY, id);
+      }
+    }
+  }
+}
+
+/**
+ * Claim the next job to run, if any
+ */
+export async function claimJob(): Promise<Job | null> {
+  await promoteDelayedJobs();
+
+  const id = (await redis.eval(
+    CLAIM_SCRIPT,
+    2,
+    QUEUE_KEY,
+    RUNNING_KEY,
+    lockKey(""),
+    JOB_LOCK_TTL_MS,
+  )) as string | null;
+  if (!id) {
+    return null;
+  }
+
+  const job = await getJob(id);
+  if (!job) {
+    // Expired before it ran
+    await releaseJob(id);
+    return null;
+  }
+
+  job.status = "running";
+  job.attempts += 1;
+  await saveJob(job);
+
+  return job;
+}
+
+/**
+ * Keep a running job's lock alive
+ */
+export async function extendJobLock(id: string) {
+  await redis.pexpire(lockKey(id), JOB_LOCK_TTL_MS);
+}
+
+async function releaseJob(id: string) {
+  await redis.lrem(RUNNING_KEY, 1, id);
+  await redis.del(lockKey(id));
+}
+
+/**
+ * Record progress of a running job
+ */
+export async function reportJobProgress(job: Job, message: string) {
+  job.step = message;
+  job.progress.push({ at: new Date().toISOString(), message });
+  await saveJob(job);
+}
+
+/**
+ * Mark a job as completed
+ */
+export async function completeJob(job: Job, result?: unknown) {
+  job.status = "completed";
+  job.result = result;
+  job.error = undefined;
+  job.progress.push({ at: new Date().toISOString(), message: "Completed" });
+  await saveJob(job);
+  await releaseJob(job.id);
+}
+
+/**
+ * Mark a job as failed, retrying it with exponential backoff when allowed
+ * @returns Whether the job will be retried
+ */
+export async function failJob(
+  job: Job,
+  error: string,
+  options: { retry: boolean },
+): Promise<boolean> {
+  const retry = options.retry && job.attempts < job.maxAttempts;
+  job.error = error;
+
+  if (retry) {
+    const delay = Math.min(
+      BASE_RETRY_DELAY_MS * 2 ** (job.attempts - 1),
+      MAX_RETRY_DELAY_MS,
+    );
+    job.status = "retrying";
+    job.progress.push({
+      at: new Date().toISOString(),
+      message: `Attempt ${job.attempts} failed, retrying in ${Math.round(delay / 1000)}s: ${error}`,
+    });
+    await saveJob(job);
+    await redis.zadd(DELAYED_KEY, Date.now() + delay, job.id);
+  } else {
+    job.status = "failed";
+    job.progress.push({ at: new Date().toISOString(), message: "Failed" });
+    await saveJob(job);
+  }
+
+  await releaseJob(job.id);
+  return retry;
+}
+
+/**
+ * Put a claimed job back without counting the attempt, to run once the
+ * operation holding its deployment's lock is done
+ */
+export async function deferJob(job: Job) {
+  job.status = "queued";
+  job.attempts -= 1;
+  if (job.step !== WAITING_MESSAGE) {
+    job.step = WAITING_MESSAGE;
+    job.progress.push({
+      at: new Date().toISOString(),
+      message: WAITING_MESSAGE,
+    });
+  }
+  await saveJob(job);
+  await redis.zadd(DELAYED_KEY, Date.now() + DEFER_DELAY_MS, job.id);
+  await releaseJob(job.id);
+}
+
+/**
+ * Take the lock that keeps operations on a deployment from overlapping
+ * @param owner - Job or request id, the only one that can extend or release it
+ * @returns Whether the lock was free
+ */
+export async function acquireDeploymentLock(
+  deploymentId: string,
+  owner: string,
+  ttlMs = JOB_LOCK_TTL_MS,
+): Promise<boolean> {
+  const result = await redis.set(
+    deploymentLockKey(deploymentId),
+    owner,
+    "PX",
+    ttlMs,
+    "NX",
+  );
+  return result === "OK";
+}
+
+/**
+ * Keep a deployment lock alive while its owner runs
+ */
+export async function extendDeploymentLock(
+  deploymentId: string,
+  owner: string,
+  ttlMs = JOB_LOCK_TTL_MS,
+) {
+  await redis.eval(
+    EXTEND_IF_OWNER_SCRIPT,
+    1,
+    deploymentLockKey(deploymentId),
+    owner,
+    ttlMs,
+  );
+}
+
+/**
+ * Release a deployment lock, if it's still held by the owner
+ */
+export async function releaseDeploymentLock(
+  deploymentId: string,
+  owner: string,
+) {
+  await redis.eval(
+    RELEASE_IF_OWNER_SCRIPT,
+    1,
+    deploymentLockKey(deploymentId),
+    owner,
+  );
+}
+
+/**
+ * Lock a deployment for a synchronous route (rollback, stop, start)
+ * @returns Releases the lock, or null while another operation holds it
+ */
+export async function lockDeployment(
+  deploymentId: string,
+): Promise<(() => Promise<void>) | null> {
+  const owner = randomUUID();
+  if (
+    !(await acquireDeploymentLock(deploymentId, owner, REQUEST_LOCK_TTL_MS))
+  ) {
+    return null;
+  }
+  return () => releaseDeploymentLock(deploymentId, owner);
+}
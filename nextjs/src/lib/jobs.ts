@@ -0,0 +1,250 @@
+/**
+ * Job Worker
+ *
+ * Runs queued deployment jobs one at a time. Started once per server process
+ * from instrumentation.ts; several processes can share the same queue.
+ */
+
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import {
+  type DeploymentUpdate,
+  failDeploy,
+  runDelete,
+  runDeploy,
+  runUpdate,
+} from "@/lib/deploy";
+import {
+  acquireDeploymentLock,
+  claimJob,
+  completeJob,
+  deferJob,
+  extendDeploymentLock,
+  extendJobLock,
+  failJob,
+  JOB_LOCK_TTL_MS,
+  type Job,
+  type JobType,
+  recoverStalledJobs,
+  releaseDeploymentLock,
+  reportJobProgress,
+} from "@/lib/job-queue";
+import {
+  enqueueConfigReload,
+  reloadPostgresConfig,
+} from "@/lib/postgres-reload";
+import { runPromote } from "@/lib/replication";
+import { syncRestores } from "@/lib/restores";
+
+const POLL_INTERVAL_MS = 1_000;
+const RECOVERY_INTERVAL_MS = 30_000;
+const ERROR_BACKOFF_MS = 5_000;
+
+type JobOutcome =
+  | { success: true; result?: unknown }
+  | { success: false; error: string; transient: boolean };
+
+type JobHandler = (
+  job: Job,
+  onStep: (step: string) => Promise<void>,
+) => Promise<JobOutcome>;
+
+const isLastAttempt = (job: Job) => job.attempts >= job.maxAttempts;
+
+const handlers: Record<JobType, JobHandler> = {
+  deploy: async (job, onStep) => {
+    const result = await runDeploy({
+      deploymentId: job.deploymentId,
+      createdBy: job.userId,
+      onStep,
+    });
+
+    if (result.success) {
+      // A clone waits for its deployment before its backup is restored; the
+      // reconciler starts it otherwise
+      await syncRestores(job.deploymentId).catch((error) =>
+        console.error(
+          `[Jobs] Failed to start restore into ${job.deploymentId}:`,
+          error,
+        ),
+      );
+      return {
+        success: true,
+        result: { status: result.deployment.status, output: result.output },
+      };
+    }
+
+    const { failure } = result;
+    if (!failure.transient || isLastAttempt(job)) {
+      await failDeploy(job.deploymentId, failure);
+    } else {
+      await db
+        .update(deployments)
+        .set({
+          errorMessage: `Attempt ${job.attempts} failed at step: ${failure.step}, retrying`,
+          errorDetails: failure,
+        })
+        .where(eq(deployments.id, job.deploymentId));
+    }
+
+    return {
+      success: false,
+      error: `${failure.step}: ${failure.error}`,
+      transient: failure.transient,
+    };
+  },
+
+  update: async (job, onStep) => {
+    const update = job.payload as unknown as DeploymentUpdate;
+    const result = await runUpdate({
+      deploymentId: job.deploymentId,
+      update,
+      updatedBy: job.userId,
+      onStep,
+    });
+
+    // Settings that don't need a restart are applied by a reload, queued so
+    // waiting for the kubelet doesn't hold up other jobs
+    if (result.success && update.updates.settings) {
+      await onStep("queue configuration reload");
+      await enqueueConfigReload(job.deploymentId, job.userId);
+    }
+
+    if (!result.success && (!result.transient || isLastAttempt(job))) {
+      await db
+        .update(deployments)
+        .set({
+          errorMessage: "Failed to apply deployment update",
+          errorDetails: { error: result.error, update: job.payload },
+        })
+        .where(eq(deployments.id, job.deploymentId));
+    }
+
+    return result;
+  },
+
+  delete: (job, onStep) =>
+    runDelete({
+      deploymentId: job.deploymentId,
+      deletedBy: job.userId,
+      final: isLastAttempt(job),
+      onStep,
+    }),
+
+  reload: async (job, onStep) => {
+    await onStep("reload configuration");
+    return reloadPostgresConfig(job.deploymentId);
+  },
+
+  promote: (job, onStep) =>
+    runPromote({
+      deploymentId: job.deploymentId,
+      instance: job.payload.instance as number,
+      promotedBy: job.userId,
+      final: isLastAttempt(job),
+      onStep,
+    }),
+};
+
+/**
+ * Run one claimed job, keeping its locks alive while it runs
+ * A job whose deployment is busy with another operation is deferred
+ */
+async function runJob(job: Job) {
+  if (!(await acquireDeploymentLock(job.deploymentId, job.id))) {
+    await deferJob(job);
+    return;
+  }
+
+  const lockRefresh = setInterval(() => {
+    Promise.all([
+      extendJobLock(job.id),
+      extendDeploymentLock(job.deploymentId, job.id),
+    ]).catch((error) =>
+      console.error(`[Jobs] Failed to extend lock of job ${job.id}:`, error),
+    );
+  }, JOB_LOCK_TTL_MS / 3);
+
+  try {
+    await reportJobProgress(
+      job,
+      `Attempt ${job.attempts} of ${job.maxAttempts} started`,
+    );
+
+    let outcome: JobOutcome;
+    try {
+      outcome = await handlers[job.type](job, (step) =>
+        reportJobProgress(job, step),
+      );
+    } catch (error) {
+      // Unexpected errors (database, network) are retried
+      outcome = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        transient: true,
+      };
+    }
+
+    if (outcome.success) {
+      await completeJob(job, outcome.result);
+    } else {
+      const retrying = await failJob(job, outcome.error, {
+        retry: outcome.transient,
+      });
+      console.error(
+        `[Jobs] ${job.type} job ${job.id} failed${retrying ? ", retrying" : ""}: ${outcome.error}`,
+      );
+    }
+  } finally {
+    clearInterval(lockRefresh);
+    await releaseDeploymentLock(job.deploymentId, job.id);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function workLoop() {
+  let lastRecovery = 0;
+
+  while (true) {
+    try {
+      if (Date.now() - lastRecovery > RECOVERY_INTERVAL_MS) {
+        await recoverStalledJobs();
+        lastRecovery = Date.now();
+      }
+
+      const job = await claimJob();
+      if (!job) {
+        await sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+
+      await runJob(job);
+    } catch (error) {
+      console.error("[Jobs] Worker error:", error);
+      await sleep(ERROR_BACKOFF_MS);
+    }
+  }
+}
+
+const globalForJobs = globalThis as unknown as {
+  jobWorkerStarted?: boolean;
+};
+
+/**
+ * Start the job worker (once per process)
+ * Set JOB_WORKER_ENABLED=false on processes that should only enqueue jobs
+ */
+export function startJobWorker() {
+  if (
+    globalForJobs.jobWorkerStarted ||
+    process.env.JOB_WORKER_ENABLED === "false"
+  ) {
+    return;
+  }
+
+  globalForJobs.jobWorkerStarted = true;
+  console.log("[Jobs] Worker started");
+  void workLoop();
+}
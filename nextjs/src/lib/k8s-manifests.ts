@@ -1,39 +1,110 @@
 /**
  * Kubernetes Manifests Generator
- * Generates K8s manifests for database deployments (PostgreSQL, Redis, etc.)
+ * Generates K8s manifests for template-based apps (PostgreSQL, Redis, MongoDB, MySQL, etc.)
+ * and for custom images
  */
 
-interface PostgresDeploymentConfig {
+import { createHash } from "node:crypto";
+import type * as k8s from "@kubernetes/client-node";
+import type { Deployment } from "@/db/schema";
+import {
+  type AppTemplate,
+  getAppTemplate,
+  getAppTemplateForType,
+  getTemplateSettings,
+} from "@/lib/app-templates";
+import { POOLER_PORT, type PoolerSettings } from "@/lib/pooler-config";
+import {
+  getInstanceClaimName,
+  getInstanceCount,
+  getInstanceName,
+  type ReplicationSettings,
+} from "@/lib/replication-config";
+import {
+  type DeploymentResources,
+  getDeploymentResources,
+} from "@/lib/resources";
+
+export interface ContainerPort {
+  containerPort: number;
+  name?: string;
+  protocol?: "TCP" | "UDP";
+}
+
+export interface ManifestEnvVar {
+  key: string;
+  value: string;
+  isSecret: boolean;
+}
+
+export interface AppManifestConfig {
   namespace: string;
   name: string;
+  appName: string; // Container name and app.kubernetes.io/name label
   image: string;
   tag: string;
   nodePort: number;
-  pvcSize: number;
-  envVars: {
-    POSTGRES_USER: string;
-    POSTGRES_PASSWORD: string;
-    POSTGRES_DB: string;
+  replicas?: number; // Defaults to 1, 0 while the deployment is stopped
+  ports: ContainerPort[]; // The first port is exposed through the NodePort
+  envVars: ManifestEnvVar[];
+  extraEnv?: Array<{ name: string; value: string }>;
+  command?: string[];
+  args?: string[];
+  resources: DeploymentResources;
+  volume?: {
+    mountPath: string;
+    subPath?: string;
+    size: number; // GB
+  };
+  probes?: {
+    liveness: string[];
+    readiness: string[];
+  };
+  preStop?: string[];
+  configFile?: {
+    fileName: string; // e.g. redis.conf
+    mountPath: string; // Directory the ConfigMap is mounted at
+    content: string;
+    restartKey?: string; // Restarts the pod when it changes, the content by default
   };
 }
 
-interface RedisDeploymentConfig {
+/**
+ * Rendering inputs of a custom deployment that have no dedicated column
+ * Stored in deployments.metadata.config
+ */
+export type CustomAppConfig = Pick<
+  AppManifestConfig,
+  "ports" | "command" | "args" | "volume"
+>;
+
+interface TemplateDeploymentConfig {
   namespace: string;
   name: string;
-  image: string;
   tag: string;
   nodePort: number;
+  replicas?: number;
   pvcSize: number;
-  envVars: {
-    REDIS_PASSWORD: string;
-  };
+  envVars: Record<string, string>;
+  resources: DeploymentResources;
+  settings?: unknown; // deployments.settings, null before settings existed
 }
 
 /**
- * Generate all Kubernetes manifests for PostgreSQL deployment
+ * Generate all Kubernetes manifests for an app deployment
+ *
+ * The first port is published through a NodePort Service. When more than one
+ * port is declared, all of them are also reachable inside the cluster through
+ * a ClusterIP Service named `<name>-internal`.
  */
-export function generatePostgresManifests(config: PostgresDeploymentConfig) {
+export function generateAppManifests(config: AppManifestConfig) {
   const manifests = [];
+  const secretEnvVars = config.envVars.filter((env) => env.isSecret);
+  const ports = config.ports.map((port, index) => ({
+    name: port.name || `port-${index}`,
+    containerPort: port.containerPort,
+    protocol: port.protocol || "TCP",
+  }));
 
   // 1. Namespace
   manifests.push({
@@ -48,49 +119,70 @@ export function generatePostgresManifests(config: PostgresDeploymentConfig) {
     },
   });
 
-  // 2. Secret for PostgreSQL credentials
-  manifests.push({
-    apiVersion: "v1",
-    kind: "Secret",
-    metadata: {
-      name: `${config.name}-secret`,
-      namespace: config.namespace,
-      labels: {
-        app: config.name,
-        "app.kubernetes.io/managed-by": "dockify",
+  // 2. Secret for secret environment variables (if any)
+  if (secretEnvVars.length > 0) {
+    manifests.push({
+      apiVersion: "v1",
+      kind: "Secret",
+      metadata: {
+        name: `${config.name}-secret`,
+        namespace: config.namespace,
+        labels: {
+          app: config.name,
+          "app.kubernetes.io/managed-by": "dockify",
+        },
       },
-    },
-    type: "Opaque",
-    stringData: {
-      POSTGRES_USER: config.envVars.POSTGRES_USER,
-      POSTGRES_PASSWORD: config.envVars.POSTGRES_PASSWORD,
-      POSTGRES_DB: config.envVars.POSTGRES_DB,
-    },
-  });
+      type: "Opaque",
+      stringData: Object.fromEntries(
+        secretEnvVars.map((env) => [env.key, env.value]),
+      ),
+    });
+  }
 
-  // 3. PersistentVolumeClaim
-  manifests.push({
-    apiVersion: "v1",
-    kind: "PersistentVolumeClaim",
-    metadata: {
-      name: `${config.name}-pvc`,
-      namespace: config.namespace,
-      labels: {
-        app: config.name,
-        "app.kubernetes.io/managed-by": "dockify",
+  // 3. PersistentVolumeClaim (only when a volume is requested)
+  if (config.volume) {
+    manifests.push({
+      apiVersion: "v1",
+      kind: "PersistentVolumeClaim",
+      metadata: {
+        name: `${config.name}-pvc`,
+        namespace: config.namespace,
+        labels: {
+          app: config.name,
+          "app.kubernetes.io/managed-by": "dockify",
+        },
       },
-    },
-    spec: {
-      accessModes: ["ReadWriteOnce"],
-      resources: {
-        requests: {
-          storage: `${config.pvcSize}Gi`,
+      spec: {
+        accessModes: ["ReadWriteOnce"],
+        resources: {
+          requests: {
+            storage: `${config.volume.size}Gi`,
+          },
         },
       },
-    },
-  });
+    });
+  }
 
-  // 4. Deployment
+  // 4. ConfigMap for the app's config file (only when the template has one)
+  if (config.configFile) {
+    manifests.push({
+      apiVersion: "v1",
+      kind: "ConfigMap",
+      metadata: {
+        name: `${config.name}-config`,
+        namespace: config.namespace,
+        labels: {
+          app: config.name,
+          "app.kubernetes.io/managed-by": "dockify",
+        },
+      },
+      data: {
+        [config.configFile.fileName]: config.configFile.content,
+      },
+    });
+  }
+
+  // 5. Deployment
   manifests.push({
     apiVersion: "apps/v1",
     kind: "Deployment",
@@ -99,12 +191,12 @@ export function generatePostgresManifests(config: PostgresDeploymentConfig) {
       namespace: config.namespace,
       labels: {
         app: config.name,
-        "app.kubernetes.io/name": "postgres",
+        "app.kubernetes.io/name": config.appName,
         "app.kubernetes.io/managed-by": "dockify",
       },
     },
     spec: {
-      replicas: 1,
+      replicas: config.replicas ?? 1,
       selector: {
         matchLabels: {
           app: config.name,
@@ -115,102 +207,137 @@ export function generatePostgresManifests(config: PostgresDeploymentConfig) {
           labels: {
             app: config.name,
           },
+          // Rolls the pod when the config file changes in a way the server
+          // cannot reload
+          ...(config.configFile
+            ? {
+                annotations: {
+                  "dockify.app/config-checksum": createHash("sha256")
+                    .update(
+                      config.configFile.restartKey ?? config.configFile.content,
+                    )
+                    .digest("hex"),
+                },
+              }
+            : {}),
         },
         spec: {
           containers: [
             {
-              name: "postgres",
+              name: config.appName,
               image: `${config.image}:${config.tag}`,
-              ports: [
-                {
-                  containerPort: 5432,
-                  name: "postgres",
-                  protocol: "TCP",
-                },
-              ],
+              ...(config.command?.length ? { command: config.command } : {}),
+              ...(config.args?.length ? { args: config.args } : {}),
+              ports,
               env: [
-                {
-                  name: "POSTGRES_USER",
-                  valueFrom: {
-                    secretKeyRef: {
-                      name: `${config.name}-secret`,
-                      key: "POSTGRES_USER",
-                    },
-                  },
-                },
-                {
-                  name: "POSTGRES_PASSWORD",
-                  valueFrom: {
-                    secretKeyRef: {
-                      name: `${config.name}-secret`,
-                      key: "POSTGRES_PASSWORD",
-                    },
-                  },
-                },
-                {
-                  name: "POSTGRES_DB",
-                  valueFrom: {
-                    secretKeyRef: {
-                      name: `${config.name}-secret`,
-                      key: "POSTGRES_DB",
-                    },
-                  },
-                },
-                {
-                  name: "PGDATA",
-                  value: "/var/lib/postgresql/data/pgdata",
-                },
+                ...config.envVars.map((env) =>
+                  env.isSecret
+                    ? {
+                        name: env.key,
+                        valueFrom: {
+                          secretKeyRef: {
+                            name: `${config.name}-secret`,
+                            key: env.key,
+                          },
+                        },
+                      }
+                    : { name: env.key, value: env.value },
+                ),
+                ...(config.extraEnv || []),
               ],
               volumeMounts: [
-                {
-                  name: "postgres-data",
-                  mountPath: "/var/lib/postgresql/data",
-                },
+                ...(config.volume
+                  ? [
+                      {
+                        name: `${config.appName}-data`,
+                        mountPath: config.volume.mountPath,
+                        ...(config.volume.subPath
+                          ? { subPath: config.volume.subPath }
+                          : {}),
+                      },
+                    ]
+                  : []),
+                ...(config.configFile
+                  ? [
+                      {
+                        name: `${config.appName}-config`,
+                        mountPath: config.configFile.mountPath,
+                        readOnly: true,
+                      },
+                    ]
+                  : []),
               ],
               resources: {
                 requests: {
-                  memory: "256Mi",
-                  cpu: "250m",
+                  memory: config.resources.memoryRequest,
+                  cpu: config.resources.cpuRequest,
                 },
                 limits: {
-                  memory: "1Gi",
-                  cpu: "1000m",
-                },
-              },
-              livenessProbe: {
-                exec: {
-                  command: ["pg_isready", "-U", config.envVars.POSTGRES_USER],
+                  memory: config.resources.memoryLimit,
+                  cpu: config.resources.cpuLimit,
                 },
-                initialDelaySeconds: 30,
-                periodSeconds: 10,
-                timeoutSeconds: 5,
-                failureThreshold: 3,
-              },
-              readinessProbe: {
-                exec: {
-                  command: ["pg_isready", "-U", config.envVars.POSTGRES_USER],
-                },
-                initialDelaySeconds: 5,
-                periodSeconds: 5,
-                timeoutSeconds: 3,
-                failureThreshold: 3,
               },
+              ...(config.probes
+                ? {
+                    livenessProbe: {
+                      exec: {
+                        command: config.probes.liveness,
+                      },
+                      initialDelaySeconds: 30,
+                      periodSeconds: 10,
+                      timeoutSeconds: 5,
+                      failureThreshold: 3,
+                    },
+                    readinessProbe: {
+                      exec: {
+                        command: config.probes.readiness,
+                      },
+                      initialDelaySeconds: 5,
+                      periodSeconds: 5,
+                      timeoutSeconds: 3,
+                      failureThreshold: 3,
+                    },
+                  }
+                : {}),
+              ...(config.preStop
+                ? {
+                    lifecycle: {
+                      preStop: {
+                        exec: {
+                          command: config.preStop,
+                        },
+                      },
+                    },
+                  }
+                : {}),
             },
           ],
           volumes: [
-            {
-              name: "postgres-data",
-              persistentVolumeClaim: {
-                claimName: `${config.name}-pvc`,
-              },
-            },
+            ...(config.volume
+              ? [
+                  {
+                    name: `${config.appName}-data`,
+                    persistentVolumeClaim: {
+                      claimName: `${config.name}-pvc`,
+                    },
+                  },
+                ]
+              : []),
+            ...(config.configFile
+              ? [
+                  {
+                    name: `${config.appName}-config`,
+                    configMap: { name: `${config.name}-config` },
+                  },
+                ]
+              : []),
           ],
         },
       },
     },
   });
 
-  // 5. Service (NodePort with Cilium)
+  // 6. Service (NodePort) for the primary port
   manifests.push({
     apiVersion: "v1",
     kind: "Service",
@@ -229,224 +356,1095 @@ export function generatePostgresManifests(config: PostgresDeploymentConfig) {
       },
       ports: [
         {
-          name: "postgres",
-          port: 5432,
-          targetPort: 5432,
+          name: ports[0].name,
+          port: ports[0].containerPort,
+          targetPort: ports[0].containerPort,
           nodePort: config.nodePort,
-          protocol: "TCP",
+          protocol: ports[0].protocol,
         },
       ],
     },
   });
 
-  return manifests;
-}
-
-/**
- * Generate all Kubernetes manifests for Redis deployment
- */
-export function generateRedisManifests(config: RedisDeploymentConfig) {
-  const manifests = [];
-
-  // 1. Namespace
-  manifests.push({
-    apiVersion: "v1",
-    kind: "Namespace",
-    metadata: {
-      name: config.namespace,
-      labels: {
-        "app.kubernetes.io/name": config.name,
-        "app.kubernetes.io/managed-by": "dockify",
-      },
-    },
-  });
-
-  // 2. Secret for Redis password (if provided)
-  if (config.envVars.REDIS_PASSWORD) {
+  // 7. Service (ClusterIP) for every port, when there is more than one
+  if (ports.length > 1) {
     manifests.push({
       apiVersion: "v1",
-      kind: "Secret",
+      kind: "Service",
       metadata: {
-        name: `${config.name}-secret`,
+        name: `${config.name}-internal`,
         namespace: config.namespace,
         labels: {
           app: config.name,
           "app.kubernetes.io/managed-by": "dockify",
         },
       },
-      type: "Opaque",
-      stringData: {
-        REDIS_PASSWORD: config.envVars.REDIS_PASSWORD,
+      spec: {
+        type: "ClusterIP",
+        selector: {
+          app: config.name,
+        },
+        ports: ports.map((port) => ({
+          name: port.name,
+          port: port.containerPort,
+          targetPort: port.containerPort,
+          protocol: port.protocol,
+        })),
       },
     });
   }
 
-  // 3. PersistentVolumeClaim
-  manifests.push({
-    apiVersion: "v1",
-    kind: "PersistentVolumeClaim",
-    metadata: {
-      name: `${config.name}-pvc`,
-      namespace: config.namespace,
-      labels: {
-        app: config.name,
-        "app.kubernetes.io/managed-by": "dockify",
+  return manifests;
+}
+
+/**
+ * Generate all Kubernetes manifests for an app template deployment
+ */
+export function generateTemplateManifests(
+  template: AppTemplate,
+  config: TemplateDeploymentConfig,
+) {
+  const { configFile } = template;
+  const settings = getTemplateSettings(template, config.settings);
+
+  return generateAppManifests({
+    namespace: config.namespace,
+    name: config.name,
+    appName: template.id,
+    image: template.image,
+    tag: config.tag,
+    nodePort: config.nodePort,
+    replicas: config.replicas,
+    ports: template.ports,
+    envVars: template.env.map((env) => ({
+      key: env.key,
+      value: config.envVars[env.key] ?? "",
+      isSecret: env.secret === true,
+    })),
+    extraEnv: template.extraEnv,
+    command: template.command,
+    args: template.args,
+    resources: config.resources,
+    volume: {
+      mountPath: template.storage.mountPath,
+      subPath: template.storage.subPath,
+      size: config.pvcSize,
+    },
+    probes: template.probes,
+    preStop: template.preStop,
+    configFile: configFile && {
+      fileName: configFile.fileName,
+      mountPath: configFile.mountPath,
+      content: configFile.render(settings),
+      restartKey: configFile.restartOn
+        ? JSON.stringify(configFile.restartOn(settings))
+        : undefined,
+    },
+  });
+}
+
+/**
+ * Regenerate the manifests of an existing deployment from its database row
+ * Used when a deployment is changed after it was created; a stopped
+ * deployment stays scaled to zero
+ */
+export function generateDeploymentManifests(
+  deployment: Deployment,
+  envVars: ManifestEnvVar[],
+) {
+  const metadata =
+    deployment.metadata && typeof deployment.metadata === "object"
+      ? (deployment.metadata as { template?: string; config?: CustomAppConfig })
+      : {};
+
+  if (!deployment.nodePort) {
+    throw new Error(`Deployment ${deployment.id} has no NodePort`);
+  }
+
+  const resources = getDeploymentResources(deployment);
+  const replicas = deployment.status === "stopped" ? 0 : 1;
+
+  if (deployment.type === "custom") {
+    const config = metadata.config;
+    if (!config) {
+      throw new Error(
+        `Deployment ${deployment.id} has no stored custom configuration`,
+      );
+    }
+
+    return generateAppManifests({
+      namespace: deployment.namespace,
+      name: deployment.containerName,
+      appName: "app",
+      image: deployment.image,
+      tag: deployment.tag,
+      nodePort: deployment.nodePort,
+      replicas,
+      envVars,
+      resources,
+      ...config,
+      volume: config.volume && {
+        ...config.volume,
+        size: deployment.pvcSize ?? config.volume.size,
+      },
+    });
+  }
+
+  // Rows created before the template registry only know their type
+  const template =
+    (metadata.template && getAppTemplate(metadata.template)) ||
+    getAppTemplateForType(deployment.type);
+  if (!template) {
+    throw new Error(`No app template for deployment type ${deployment.type}`);
+  }
+
+  const env = Object.fromEntries(envVars.map((env) => [env.key, env.value]));
+  const config: TemplateDeploymentConfig = {
+    namespace: deployment.namespace,
+    name: deployment.containerName,
+    tag: deployment.tag,
+    nodePort: deployment.nodePort,
+    replicas,
+    pvcSize: deployment.pvcSize ?? template.storage.defaultSize,
+    envVars: env,
+    resources,
+    settings: deployment.settings,
+  };
+  const manifests: unknown[] =
+    deployment.type === "postgres" &&
+    deployment.replication &&
+    deployment.readOnlyNodePort
+      ? generatePostgresClusterManifests(template, {
+          ...config,
+          // Stopped deployments are scaled to zero, running ones get every instance
+          replicas: replicas === 0 ? 0 : undefined,
+          readOnlyNodePort: deployment.readOnlyNodePort,
+          replication: deployment.replication as ReplicationSettings,
+        })
+      : generateTemplateManifests(template, config);
+
+  if (
+    deployment.type === "postgres" &&
+    deployment.pooler &&
+    deployment.poolerNodePort
+  ) {
+    manifests.push(
+      ...generatePoolerManifests({
+        namespace: deployment.namespace,
+        name: deployment.containerName,
+        nodePort: deployment.poolerNodePort,
+        replicas,
+        port: deployment.port ?? 5432,
+        user: env.POSTGRES_USER || "postgres",
+        database: env.POSTGRES_DB || env.POSTGRES_USER || "postgres",
+        settings: deployment.pooler as PoolerSettings,
+      }),
+    );
+  }
+
+  return manifests;
+}
+
+/**
+ * Objects of a previous set of manifests that a new set no longer contains,
+ * e.g. the pooler once it is disabled
+ * The namespace and PVCs are never part of it: they go with the deployment
+ */
+export function getRemovedManifests(previous: unknown[], next: unknown[]) {
+  const key = (manifest: unknown) => {
+    const object = manifest as {
+      kind?: string;
+      metadata?: { name?: string; namespace?: string };
+    };
+    return `${object.kind}/${object.metadata?.namespace}/${object.metadata?.name}`;
+  };
+  const kept = new Set(next.map(key));
+
+  return previous.filter((manifest) => {
+    const kind = (manifest as { kind?: string }).kind;
+    return (
+      kind !== "Namespace" &&
+      kind !== "PersistentVolumeClaim" &&
+      !kept.has(key(manifest))
+    );
+  });
+}
+
+/**
+ * PVCs of the instances a smaller replica count removes, so an instance added
+ * again later is cloned fresh instead of starting from a stale volume
+ */
+export function getRemovedInstanceClaims(
+  deployment: Pick<Deployment, "containerName" | "namespace">,
+  previous: ReplicationSettings | null,
+  next: ReplicationSettings | null,
+) {
+  if (!previous || !next) {
+    return [];
+  }
+
+  return Array.from(
+    {
+      length: Math.max(getInstanceCount(previous) - getInstanceCount(next), 0),
+    },
+    (_, index): k8s.V1PersistentVolumeClaim => ({
+      apiVersion: "v1",
+      kind: "PersistentVolumeClaim",
+      metadata: {
+        name: getInstanceClaimName(
+          deployment.containerName,
+          getInstanceCount(next) + index,
+        ),
+        namespace: deployment.namespace,
       },
+    }),
+  );
+}
+
+export interface PostgresClusterManifestConfig
+  extends TemplateDeploymentConfig {
+  readOnlyNodePort: number;
+  replication: ReplicationSettings;
+}
+
+// Kept on the pods of a replicated deployment by lib/replication.ts, the
+// read-only Service selects the replicas with it
+export const ROLE_LABEL = "dockify.app/role";
+
+// Lets replicas connect for replication (pg_basebackup, streaming, pg_rewind);
+// md5 also accepts SCRAM passwords
+const CLUSTER_HBA_CONF = `# Managed by Dockify
+local all all trust
+host all all 127.0.0.1/32 trust
+host all all ::1/128 trust
+local replication all trust
+host replication all all md5
+host all all all md5
+`;
+
+// pg_rewind needs hint bits in the WAL; standbys fall this far behind before
+// they have to be cloned again
+const CLUSTER_POSTGRES_CONF = `wal_log_hints = 'on'
+wal_keep_size = '1024MB'
+`;
+
+// Prepares the data directory of an instance before Postgres starts: a new
+// replica is cloned from the primary, a former primary is rewound onto the
+// promoted one (or cloned again when that fails) and a promoted instance
+// drops its standby.signal
+const CLUSTER_INIT_SCRIPT = `set -eu
+if [ "$POD_NAME" = "$PRIMARY_POD" ]; then
+  rm -f "$PGDATA/standby.signal"
+  exit 0
+fi
+until pg_isready -q -h "$PRIMARY_HOST"; do
+  echo "Waiting for the primary $PRIMARY_HOST"
+  sleep 2
+done
+if command -v gosu >/dev/null; then as_postgres="gosu postgres"; else as_postgres="su-exec postgres"; fi
+if [ -s "$PGDATA/PG_VERSION" ] && [ ! -f "$PGDATA/standby.signal" ]; then
+  echo "Rewinding the former primary onto $PRIMARY_HOST"
+  if $as_postgres pg_rewind --target-pgdata="$PGDATA" --source-server="host=$PRIMARY_HOST user=$POSTGRES_USER dbname=$POSTGRES_DB"; then
+    touch "$PGDATA/standby.signal"
+  else
+    echo "Rewind failed, cloning the primary again"
+    rm -rf "$PGDATA"
+  fi
+fi
+if [ ! -s "$PGDATA/PG_VERSION" ]; then
+  echo "Cloning the primary $PRIMARY_HOST"
+  rm -rf "$PGDATA"
+  pg_basebackup --host="$PRIMARY_HOST" --username="$POSTGRES_USER" --pgdata="$PGDATA" --wal-method=stream --checkpoint=fast
+  touch "$PGDATA/standby.signal"
+fi`;
+
+/**
+ * Generate all Kubernetes manifests for a replicated Postgres deployment
+ *
+ * Runs the template's container in a StatefulSet: pod `<name>-<primary>` is
+ * the primary, the others stream its WAL as read-only hot standbys. Each
+ * instance has its own volume from the claim template.
+ * - `<name>-service` (NodePort) reaches the primary, for reads and writes
+ * - `<name>-ro-service` (NodePort) spreads connections over the replicas
+ * - `<name>-headless` gives every pod the DNS name replicas connect to
+ *
+ * Changing the primary changes the pod template, so every instance restarts
+ * and comes back in its new role.
+ */
+export function generatePostgresClusterManifests(
+  template: AppTemplate,
+  config: PostgresClusterManifestConfig,
+) {
+  const { configFile } = template;
+  if (!configFile) {
+    throw new Error(`Template ${template.id} has no config file`);
+  }
+
+  // The single-instance manifests provide the container, the Secret and the
+  // ConfigMap; the Deployment, its PVC and its Service are replaced
+  const single = generateTemplateManifests(template, {
+    ...config,
+    replicas: 1,
+  }) as Array<k8s.KubernetesObject>;
+  const deployment = single.find(
+    (manifest) => manifest.kind === "Deployment",
+  ) as k8s.V1Deployment;
+  const configMap = single.find(
+    (manifest) => manifest.kind === "ConfigMap",
+  ) as k8s.V1ConfigMap;
+  const podTemplate = deployment.spec?.template as k8s.V1PodTemplateSpec;
+  const [container] = podTemplate.spec?.containers || [];
+  const dataVolume = `${template.id}-data`;
+
+  const primaryPod = getInstanceName(config.name, config.replication.primary);
+  const headlessService = `${config.name}-headless`;
+  const port = template.ports[0].containerPort;
+  const labels = {
+    app: config.name,
+    "app.kubernetes.io/managed-by": "dockify",
+  };
+
+  const env: k8s.V1EnvVar[] = [
+    ...(container.env || []),
+    {
+      name: "POD_NAME",
+      valueFrom: { fieldRef: { fieldPath: "metadata.name" } },
     },
-    spec: {
-      accessModes: ["ReadWriteOnce"],
-      resources: {
-        requests: {
-          storage: `${config.pvcSize}Gi`,
+    { name: "PRIMARY_POD", value: primaryPod },
+    {
+      name: "PRIMARY_HOST",
+      value: `${primaryPod}.${headlessService}`,
+    },
+    // Used by replication connections to the primary
+    {
+      name: "PGPASSWORD",
+      valueFrom: {
+        secretKeyRef: {
+          name: `${config.name}-secret`,
+          key: "POSTGRES_PASSWORD",
         },
       },
     },
-  });
+  ];
 
-  // 4. Deployment
-  const deployment: any = {
-    apiVersion: "apps/v1",
-    kind: "Deployment",
-    metadata: {
-      name: config.name,
-      namespace: config.namespace,
-      labels: {
-        app: config.name,
-        "app.kubernetes.io/name": "redis",
-        "app.kubernetes.io/managed-by": "dockify",
-      },
+  const manifests: k8s.KubernetesObject[] = single.filter(
+    (manifest) => manifest.kind === "Namespace" || manifest.kind === "Secret",
+  );
+
+  manifests.push({
+    ...configMap,
+    data: {
+      [configFile.fileName]: `${configMap.data?.[configFile.fileName] ?? ""}${CLUSTER_POSTGRES_CONF}`,
+      "pg_hba.conf": CLUSTER_HBA_CONF,
     },
+  } as k8s.V1ConfigMap);
+
+  // Headless Service, always publishing pods so replicas can find the
+  // primary while it starts
+  manifests.push({
+    apiVersion: "v1",
+    kind: "Service",
+    metadata: { name: headlessService, namespace: config.namespace, labels },
     spec: {
-      replicas: 1,
-      selector: {
-        matchLabels: {
-          app: config.name,
-        },
+      clusterIP: "None",
+      publishNotReadyAddresses: true,
+      selector: { app: config.name },
+      ports: [{ name: "postgres", port, targetPort: port, protocol: "TCP" }],
+    },
+  } as k8s.V1Service);
+
+  manifests.push({
+    apiVersion: "apps/v1",
+    kind: "StatefulSet",
+    metadata: deployment.metadata,
+    spec: {
+      serviceName: headlessService,
+      replicas: config.replicas ?? getInstanceCount(config.replication),
+      // Replicas wait for the primary, which may have any ordinal
+      podManagementPolicy: "Parallel",
+      selector: { matchLabels: { app: config.name } },
+      persistentVolumeClaimRetentionPolicy: {
+        whenDeleted: "Retain",
+        // Stopping scales to zero, which must keep every volume. Claims of
+        // removed replicas are deleted by getRemovedInstanceClaims()
+        whenScaled: "Retain",
       },
       template: {
-        metadata: {
-          labels: {
-            app: config.name,
-          },
-        },
+        ...podTemplate,
         spec: {
-          containers: [
+          ...podTemplate.spec,
+          initContainers: [
             {
-              name: "redis",
-              image: `${config.image}:${config.tag}`,
-              command: ["/bin/sh", "-c"],
-              args: ['redis-server --requirepass "$REDIS_PASSWORD"'],
-              ports: [
-                {
-                  containerPort: 6379,
-                  name: "redis",
-                  protocol: "TCP",
-                },
-              ],
-              env: [] as any[],
-              volumeMounts: [
-                {
-                  name: "redis-data",
-                  mountPath: "/data",
-                },
-              ],
-              resources: {
-                requests: {
-                  memory: "256Mi",
-                  cpu: "250m",
-                },
-                limits: {
-                  memory: "1Gi",
-                  cpu: "1000m",
-                },
-              },
-              livenessProbe: {
-                exec: {
-                  command: ["/bin/sh", "-c", 'redis-cli -a "$REDIS_PASSWORD" ping || exit 1'],
-                },
-                initialDelaySeconds: 30,
-                periodSeconds: 10,
-                timeoutSeconds: 5,
-                failureThreshold: 3,
-              },
-              readinessProbe: {
-                exec: {
-                  command: ["/bin/sh", "-c", 'redis-cli -a "$REDIS_PASSWORD" ping || exit 1'],
-                },
-                initialDelaySeconds: 5,
-                periodSeconds: 5,
-                timeoutSeconds: 3,
-                failureThreshold: 3,
-              },
-              lifecycle: {
-                preStop: {
-                  exec: {
-                    command: ["/bin/sh", "-c", 'redis-cli -a "$REDIS_PASSWORD" SHUTDOWN SAVE'],
-                  },
-                },
-              },
+              name: "init-replica",
+              image: container.image,
+              command: ["/bin/sh", "-c", CLUSTER_INIT_SCRIPT],
+              env,
+              volumeMounts: container.volumeMounts?.filter(
+                (mount) => mount.name === dataVolume,
+              ),
+              resources: container.resources,
             },
           ],
-          volumes: [
+          containers: [
             {
-              name: "redis-data",
-              persistentVolumeClaim: {
-                claimName: `${config.name}-pvc`,
-              },
+              ...container,
+              args: [
+                ...(container.args || []),
+                "-c",
+                `hba_file=${configFile.mountPath}/pg_hba.conf`,
+                // Ignored by the primary; the password comes from PGPASSWORD
+                "-c",
+                "primary_conninfo=host=$(PRIMARY_HOST) user=$(POSTGRES_USER) application_name=$(POD_NAME)",
+              ],
+              env,
             },
           ],
+          volumes: podTemplate.spec?.volumes?.filter(
+            (volume) => volume.name !== dataVolume,
+          ),
         },
       },
-    },
-  };
-
-  // Add environment variables if password is provided
-  if (config.envVars.REDIS_PASSWORD) {
-    deployment.spec.template.spec.containers[0].env.push({
-      name: "REDIS_PASSWORD",
-      valueFrom: {
-        secretKeyRef: {
-          name: `${config.name}-secret`,
-          key: "REDIS_PASSWORD",
+      volumeClaimTemplates: [
+        {
+          metadata: { name: dataVolume, labels },
+          spec: {
+            accessModes: ["ReadWriteOnce"],
+            resources: { requests: { storage: `${config.pvcSize}Gi` } },
+          },
         },
-      },
-    });
-  }
-
-  manifests.push(deployment);
+      ],
+    },
+  } as k8s.V1StatefulSet);
 
-  // 5. Service (NodePort)
+  // Read-write Service (NodePort), the primary is picked by its pod name
   manifests.push({
     apiVersion: "v1",
     kind: "Service",
     metadata: {
       name: `${config.name}-service`,
       namespace: config.namespace,
-      labels: {
-        app: config.name,
-        "app.kubernetes.io/managed-by": "dockify",
-      },
+      labels,
     },
     spec: {
       type: "NodePort",
       selector: {
         app: config.name,
+        "statefulset.kubernetes.io/pod-name": primaryPod,
       },
       ports: [
         {
-          name: "redis",
-          port: 6379,
-          targetPort: 6379,
+          name: "postgres",
+          port,
+          targetPort: port,
           nodePort: config.nodePort,
           protocol: "TCP",
         },
       ],
     },
+  } as k8s.V1Service);
+
+  // Read-only Service (NodePort) over the replicas
+  manifests.push({
+    apiVersion: "v1",
+    kind: "Service",
+    metadata: {
+      name: `${config.name}-ro-service`,
+      namespace: config.namespace,
+      labels,
+    },
+    spec: {
+      type: "NodePort",
+      selector: { app: config.name, [ROLE_LABEL]: "replica" },
+      ports: [
+        {
+          name: "postgres",
+          port,
+          targetPort: port,
+          nodePort: config.readOnlyNodePort,
+          protocol: "TCP",
+        },
+      ],
+    },
+  } as k8s.V1Service);
+
+  return manifests;
+}
+
+export interface PoolerManifestConfig {
+  namespace: string;
+  name: string; // Name of the Postgres deployment
+  nodePort: number;
+  replicas: number;
+  port: number; // Postgres port
+  user: string;
+  database: string;
+  settings: PoolerSettings;
+}
+
+const POOLER_IMAGE = "pgbouncer/pgbouncer:1.15.0";
+
+/**
+ * Generate the PgBouncer Deployment and NodePort Service of a Postgres
+ * deployment, named `<name>-pooler`
+ *
+ * PgBouncer is configured from its environment, like the platform's own
+ * (pgbouncer/deployment.yaml), and logs in with the Postgres deployment's
+ * credentials.
+ */
+export function generatePoolerManifests(config: PoolerManifestConfig) {
+  const name = `${config.name}-pooler`;
+  const labels = {
+    app: name,
+    "app.kubernetes.io/name": "pgbouncer",
+    "app.kubernetes.io/part-of": config.name,
+    "app.kubernetes.io/managed-by": "dockify",
+  };
+
+  return [
+    {
+      apiVersion: "apps/v1",
+      kind: "Deployment",
+      metadata: { name, namespace: config.namespace, labels },
+      spec: {
+        replicas: config.replicas,
+        selector: { matchLabels: { app: name } },
+        template: {
+          metadata: { labels: { app: name } },
+          spec: {
+            containers: [
+              {
+                name: "pgbouncer",
+                image: POOLER_IMAGE,
+                ports: [
+                  {
+                    name: "pgbouncer",
+                    containerPort: POOLER_PORT,
+                    protocol: "TCP",
+                  },
+                ],
+                env: [
+                  {
+                    name: "DATABASES_HOST",
+                    value: `${config.name}-service`,
+                  },
+                  { name: "DATABASES_PORT", value: String(config.port) },
+                  { name: "DATABASES_USER", value: config.user },
+                  {
+                    name: "DATABASES_PASSWORD",
+                    valueFrom: {
+                      secretKeyRef: {
+                        name: `${config.name}-secret`,
+                        key: "POSTGRES_PASSWORD",
+                      },
+                    },
+                  },
+                  { name: "DATABASES_DBNAME", value: config.database },
+                  { name: "POOL_MODE", value: config.settings.poolMode },
+                  {
+                    name: "MAX_CLIENT_CONN",
+                    value: String(config.settings.maxClientConn),
+                  },
+                  {
+                    name: "DEFAULT_POOL_SIZE",
+                    value: String(config.settings.defaultPoolSize),
+                  },
+                ],
+                resources: {
+                  requests: { cpu: "50m", memory: "32Mi" },
+                  limits: { cpu: "500m", memory: "128Mi" },
+                },
+                livenessProbe: {
+                  tcpSocket: { port: POOLER_PORT },
+                  initialDelaySeconds: 15,
+                  periodSeconds: 10,
+                  timeoutSeconds: 5,
+                  failureThreshold: 3,
+                },
+                readinessProbe: {
+                  tcpSocket: { port: POOLER_PORT },
+                  initialDelaySeconds: 5,
+                  periodSeconds: 5,
+                  timeoutSeconds: 3,
+                  failureThreshold: 3,
+                },
+              },
+            ],
+          },
+        },
+      },
+    },
+    {
+      apiVersion: "v1",
+      kind: "Service",
+      metadata: {
+        name: `${name}-service`,
+        namespace: config.namespace,
+        labels,
+      },
+      spec: {
+        type: "NodePort",
+        selector: { app: name },
+        ports: [
+          {
+            name: "pgbouncer",
+            port: POOLER_PORT,
+            targetPort: POOLER_PORT,
+            nodePort: config.nodePort,
+            protocol: "TCP",
+          },
+        ],
+      },
+    },
+  ];
+}
+
+export type BackupTargetConfig =
+  | { type: "pvc"; size: number } // GB
+  | {
+      type: "s3";
+      endpoint: string;
+      bucket: string;
+      region: string;
+      prefix: string; // Key prefix of this deployment's dumps
+      accessKeyId: string;
+      secretAccessKey: string;
+    };
+
+export interface BackupManifestConfig {
+  namespace: string;
+  name: string; // Name of the Postgres deployment
+  deploymentId: string;
+  image: string; // Same image as the database, pg_dump must not be older
+  tag: string;
+  port: number;
+  user: string;
+  database: string;
+  schedule: string; // Cron expression, UTC
+  suspend: boolean; // Keep the CronJob for manual runs only
+  retentionCount: number;
+  retentionDays: number | null;
+  target: BackupTargetConfig;
+}
+
+// Labels and annotation the backup tracker (lib/backups.ts) reads from Jobs
+export const BACKUP_LABEL = "dockify.app/backup";
+export const BACKUP_DEPLOYMENT_LABEL = "dockify.app/deployment-id";
+export const BACKUP_TRIGGER_LABEL = "dockify.app/backup-trigger";
+export const BACKUP_LOCATION_ANNOTATION = "dockify.app/backup-location";
+
+const BACKUP_IMAGE_S3 = "amazon/aws-cli:2.31.0";
+
+// Leaves room for the suffix of the Jobs a CronJob creates, within 63
+const MAX_CRONJOB_NAME_LENGTH = 52;
+
+/**
+ * Name of the backup CronJob of a deployment
+ * Long container names are cut and kept unique by a short hash
+ */
+export function getBackupCronJobName(name: string) {
+  const suffix = "-backup";
+  if (name.length + suffix.length <= MAX_CRONJOB_NAME_LENGTH) {
+    return `${name}${suffix}`;
+  }
+
+  const hash = createHash("sha256").update(name).digest("hex").slice(0, 6);
+  const prefix = name.slice(
+    0,
+    MAX_CRONJOB_NAME_LENGTH - suffix.length - hash.length - 1,
+  );
+  return `${prefix}-${hash}${suffix}`;
+}
+
+// Dumps go to $DUMP_DIR/$JOB_NAME.dump; the size is reported as the
+// container's termination message
+const DUMP_SCRIPT = `set -eu
+file="$DUMP_DIR/$JOB_NAME.dump"
+trap 'rm -f "$file.partial"' EXIT
+pg_dump --format=custom --no-password --file="$file.partial"
+mv "$file.partial" "$file"`;
+
+const PVC_RETENTION_SCRIPT = `ls -1t "$DUMP_DIR"/*.dump | tail -n +$((RETENTION_COUNT + 1)) | xargs -r rm -f --
+if [ -n "\${RETENTION_DAYS:-}" ]; then
+  find "$DUMP_DIR" -name '*.dump' -mtime +"$RETENTION_DAYS" -delete
+fi
+printf '{"sizeBytes":%s}' "$(stat -c %s "$file")" > /dev/termination-log`;
+
+const S3_UPLOAD_SCRIPT = `set -eu
+file="$DUMP_DIR/$JOB_NAME.dump"
+aws configure set default.s3.addressing_style path
+s3() { aws --endpoint-url "$S3_ENDPOINT" s3 "$@"; }
+s3 cp --no-progress "$file" "s3://$S3_BUCKET/$S3_PREFIX/$JOB_NAME.dump"
+# Newest first: "2025-01-01 03:00:00  1234 name.dump"
+s3 ls "s3://$S3_BUCKET/$S3_PREFIX/" | grep '\\.dump$' | sort -r > /tmp/dumps
+tail -n +$((RETENTION_COUNT + 1)) /tmp/dumps | awk '{print $4}' | while read -r name; do
+  s3 rm --only-show-errors "s3://$S3_BUCKET/$S3_PREFIX/$name"
+done
+if [ -n "\${RETENTION_DAYS:-}" ]; then
+  cutoff=$(date -u -d "-$RETENTION_DAYS days" +%F)
+  awk -v cutoff="$cutoff" '$1 < cutoff {print $4}' /tmp/dumps | while read -r name; do
+    s3 rm --only-show-errors "s3://$S3_BUCKET/$S3_PREFIX/$name"
+  done
+fi
+printf '{"sizeBytes":%s}' "$(stat -c %s "$file")" > /dev/termination-log`;
+
+/**
+ * Generate the manifests of scheduled pg_dump backups for a Postgres deployment
+ *
+ * A CronJob dumps the database (custom format, for pg_restore) either onto a
+ * dedicated PVC or, through an upload container, to an S3-compatible bucket.
+ * Each run prunes the dumps outside the retention policy. Manual backups are
+ * Jobs created from the same CronJob.
+ */
+export function generateBackupManifests(config: BackupManifestConfig) {
+  const manifests = [];
+  // No app label: the deployment's Service and pod lookups select by it
+  const labels = {
+    "app.kubernetes.io/managed-by": "dockify",
+    [BACKUP_LABEL]: "true",
+    [BACKUP_DEPLOYMENT_LABEL]: config.deploymentId,
+  };
+  const pvcName = `${config.name}-backups`;
+  const s3SecretName = `${config.name}-backup-s3`;
+
+  const env = [
+    {
+      name: "JOB_NAME",
+      valueFrom: { fieldRef: { fieldPath: "metadata.labels['job-name']" } },
+    },
+    { name: "DUMP_DIR", value: "/backups" },
+    { name: "RETENTION_COUNT", value: String(config.retentionCount) },
+    ...(config.retentionDays
+      ? [{ name: "RETENTION_DAYS", value: String(config.retentionDays) }]
+      : []),
+  ];
+
+  const dumpContainer = {
+    name: config.target.type === "s3" ? "dump" : "backup",
+    image: `${config.image}:${config.tag}`,
+    command: ["/bin/sh", "-c"],
+    args: [
+      config.target.type === "s3"
+        ? DUMP_SCRIPT
+        : `${DUMP_SCRIPT}\n${PVC_RETENTION_SCRIPT}`,
+    ],
+    env: [
+      ...env,
+      { name: "PGHOST", value: `${config.name}-service` },
+      { name: "PGPORT", value: String(config.port) },
+      { name: "PGUSER", value: config.user },
+      { name: "PGDATABASE", value: config.database },
+      {
+        name: "PGPASSWORD",
+        valueFrom: {
+          secretKeyRef: {
+            name: `${config.name}-secret`,
+            key: "POSTGRES_PASSWORD",
+          },
+        },
+      },
+    ],
+    volumeMounts: [{ name: "backups", mountPath: "/backups" }],
+    // pg_dump's error ends up in the termination message on failure
+    terminationMessagePolicy: "FallbackToLogsOnError",
+    resources: {
+      requests: { memory: "128Mi", cpu: "100m" },
+      limits: { memory: "512Mi", cpu: "1" },
+    },
+  };
+
+  if (config.target.type === "pvc") {
+    manifests.push({
+      apiVersion: "v1",
+      kind: "PersistentVolumeClaim",
+      metadata: { name: pvcName, namespace: config.namespace, labels },
+      spec: {
+        accessModes: ["ReadWriteOnce"],
+        resources: { requests: { storage: `${config.target.size}Gi` } },
+      },
+    });
+  } else {
+    manifests.push({
+      apiVersion: "v1",
+      kind: "Secret",
+      metadata: { name: s3SecretName, namespace: config.namespace, labels },
+      type: "Opaque",
+      stringData: {
+        AWS_ACCESS_KEY_ID: config.target.accessKeyId,
+        AWS_SECRET_ACCESS_KEY: config.target.secretAccessKey,
+      },
+    });
+  }
+
+  const podSpec =
+    config.target.type === "pvc"
+      ? {
+          restartPolicy: "Never",
+          containers: [dumpContainer],
+          volumes: [
+            {
+              name: "backups",
+              persistentVolumeClaim: { claimName: pvcName },
+            },
+          ],
+        }
+      : {
+          restartPolicy: "Never",
+          initContainers: [dumpContainer],
+          containers: [
+            {
+              name: "backup",
+              image: BACKUP_IMAGE_S3,
+              command: ["/bin/sh", "-c"],
+              args: [S3_UPLOAD_SCRIPT],
+              env: [
+                ...env,
+                { name: "S3_ENDPOINT", value: config.target.endpoint },
+                { name: "S3_BUCKET", value: config.target.bucket },
+                { name: "S3_PREFIX", value: config.target.prefix },
+                { name: "AWS_DEFAULT_REGION", value: config.target.region },
+              ],
+              envFrom: [{ secretRef: { name: s3SecretName } }],
+              volumeMounts: [{ name: "backups", mountPath: "/backups" }],
+              terminationMessagePolicy: "FallbackToLogsOnError",
+              resources: {
+                requests: { memory: "128Mi", cpu: "100m" },
+                limits: { memory: "512Mi", cpu: "1" },
+              },
+            },
+          ],
+          volumes: [{ name: "backups", emptyDir: {} }],
+        };
+
+  const location =
+    config.target.type === "pvc"
+      ? `pvc://${pvcName}`
+      : `s3://${config.target.bucket}/${config.target.prefix}`;
+
+  manifests.push({
+    apiVersion: "batch/v1",
+    kind: "CronJob",
+    metadata: {
+      name: getBackupCronJobName(config.name),
+      namespace: config.namespace,
+      labels,
+    },
+    spec: {
+      schedule: config.schedule,
+      timeZone: "Etc/UTC",
+      suspend: config.suspend,
+      concurrencyPolicy: "Forbid",
+      successfulJobsHistoryLimit: 3,
+      failedJobsHistoryLimit: 3,
+      jobTemplate: {
+        metadata: {
+          labels: { ...labels, [BACKUP_TRIGGER_LABEL]: "schedule" },
+          annotations: { [BACKUP_LOCATION_ANNOTATION]: location },
+        },
+        spec: {
+          backoffLimit: 1,
+          activeDeadlineSeconds: 3 * 60 * 60,
+          ttlSecondsAfterFinished: 24 * 60 * 60,
+          template: {
+            metadata: { labels },
+            spec: podSpec,
+          },
+        },
+      },
+    },
   });
 
   return manifests;
 }
 
+export interface RestoreManifestConfig {
+  namespace: string; // Namespace of the backup, where the Job runs
+  name: string; // Name of the Job
+  restoreId: string;
+  image: string; // Image of the restored database, pg_restore must not be older
+  tag: string;
+  host: string; // Service of the restored database
+  port: number;
+  user: string;
+  password: string;
+  database: string;
+  clean: boolean; // Drop existing objects first (restore in place)
+  source:
+    | { type: "pvc"; claimName: string; file: string }
+    | {
+        type: "s3";
+        endpoint: string;
+        bucket: string;
+        region: string;
+        key: string;
+        accessKeyId: string;
+        secretAccessKey: string;
+      };
+}
+
+// Labels the restore tracker (lib/restores.ts) reads from Jobs
+export const RESTORE_LABEL = "dockify.app/restore";
+export const RESTORE_ID_LABEL = "dockify.app/restore-id";
+
+// A cloned database may still be starting when the Job runs; the whole dump
+// is restored in one transaction so a failure leaves the database unchanged
+const RESTORE_SCRIPT = `set -eu
+until pg_isready --quiet; do
+  echo "Waiting for $PGHOST:$PGPORT"
+  sleep 5
+done
+pg_restore --no-password --no-owner --no-privileges --single-transaction \${CLEAN_FLAGS:-} --dbname="$PGDATABASE" "$DUMP_FILE"`;
+
+const S3_DOWNLOAD_SCRIPT = `set -eu
+aws configure set default.s3.addressing_style path
+aws --endpoint-url "$S3_ENDPOINT" s3 cp --no-progress "s3://$S3_BUCKET/$S3_KEY" "$DUMP_FILE"`;
+
+/**
+ * Generate the manifests of a one-off pg_restore of a backup
+ *
+ * The Job runs next to the backup (its PVC can't be mounted from another
+ * namespace) and connects to the restored database through its Service. The
+ * Secret holds the credentials the Job needs and is named after it.
+ */
+export function generateRestoreManifests(config: RestoreManifestConfig) {
+  const labels = {
+    "app.kubernetes.io/managed-by": "dockify",
+    [RESTORE_LABEL]: "true",
+    [RESTORE_ID_LABEL]: config.restoreId,
+  };
+  const resources = {
+    requests: { memory: "128Mi", cpu: "100m" },
+    limits: { memory: "512Mi", cpu: "1" },
+  };
+  const dumpFile =
+    config.source.type === "pvc"
+      ? `/backups/${config.source.file}`
+      : "/restore/backup.dump";
+
+  const restoreContainer = {
+    name: "restore",
+    image: `${config.image}:${config.tag}`,
+    command: ["/bin/sh", "-c"],
+    args: [RESTORE_SCRIPT],
+    env: [
+      { name: "DUMP_FILE", value: dumpFile },
+      ...(config.clean
+        ? [{ name: "CLEAN_FLAGS", value: "--clean --if-exists" }]
+        : []),
+      { name: "PGHOST", value: config.host },
+      { name: "PGPORT", value: String(config.port) },
+      { name: "PGUSER", value: config.user },
+      { name: "PGDATABASE", value: config.database },
+      {
+        name: "PGPASSWORD",
+        valueFrom: { secretKeyRef: { name: config.name, key: "PGPASSWORD" } },
+      },
+    ],
+    volumeMounts: [
+      {
+        name: "backups",
+        mountPath: config.source.type === "pvc" ? "/backups" : "/restore",
+        readOnly: config.source.type === "pvc",
+      },
+    ],
+    // pg_restore's error ends up in the termination message on failure
+    terminationMessagePolicy: "FallbackToLogsOnError",
+    resources,
+  };
+
+  const podSpec =
+    config.source.type === "pvc"
+      ? {
+          restartPolicy: "Never",
+          containers: [restoreContainer],
+          volumes: [
+            {
+              name: "backups",
+              persistentVolumeClaim: {
+                claimName: config.source.claimName,
+                readOnly: true,
+              },
+            },
+          ],
+        }
+      : {
+          restartPolicy: "Never",
+          initContainers: [
+            {
+              name: "download",
+              image: BACKUP_IMAGE_S3,
+              command: ["/bin/sh", "-c"],
+              args: [S3_DOWNLOAD_SCRIPT],
+              env: [
+                { name: "DUMP_FILE", value: dumpFile },
+                { name: "S3_ENDPOINT", value: config.source.endpoint },
+                { name: "S3_BUCKET", value: config.source.bucket },
+                { name: "S3_KEY", value: config.source.key },
+                { name: "AWS_DEFAULT_REGION", value: config.source.region },
+                {
+                  name: "AWS_ACCESS_KEY_ID",
+                  valueFrom: {
+                    secretKeyRef: {
+                      name: config.name,
+                      key: "AWS_ACCESS_KEY_ID",
+                    },
+                  },
+                },
+                {
+                  name: "AWS_SECRET_ACCESS_KEY",
+                  valueFrom: {
+                    secretKeyRef: {
+                      name: config.name,
+                      key: "AWS_SECRET_ACCESS_KEY",
+                    },
+                  },
+                },
+              ],
+              volumeMounts: [{ name: "backups", mountPath: "/restore" }],
+              terminationMessagePolicy: "FallbackToLogsOnError",
+              resources,
+            },
+          ],
+          containers: [restoreContainer],
+          volumes: [{ name: "backups", emptyDir: {} }],
+        };
+
+  return [
+    {
+      apiVersion: "v1",
+      kind: "Secret",
+      metadata: { name: config.name, namespace: config.namespace, labels },
+      type: "Opaque",
+      stringData: {
+        PGPASSWORD: config.password,
+        ...(config.source.type === "s3"
+          ? {
+              AWS_ACCESS_KEY_ID: config.source.accessKeyId,
+              AWS_SECRET_ACCESS_KEY: config.source.secretAccessKey,
+            }
+          : {}),
+      },
+    },
+    {
+      apiVersion: "batch/v1",
+      kind: "Job",
+      metadata: {
+        name: config.name,
+        namespace: config.namespace,
+        labels,
+      },
+      spec: {
+        backoffLimit: 0, // A failed restore is rolled back, retrying is the user's call
+        activeDeadlineSeconds: 3 * 60 * 60,
+        ttlSecondsAfterFinished: 24 * 60 * 60,
+        template: {
+          metadata: { labels },
+          spec: podSpec,
+        },
+      },
+    },
+  ];
+}
+
 /**
  * Convert manifests array to YAML string
  */
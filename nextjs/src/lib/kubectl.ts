@@ -1,3 +1,6 @@
+import * as http from "node:http";
+import * as https from "node:https";
+import { PassThrough, Writable } from "node:stream";
 import * as k8s from "@kubernetes/client-node";
 
 // Initialize Kubernetes client
@@ -28,70 +31,315 @@ function getKubeConfig() {
 }
 
 /**
- * Apply Kubernetes manifests using the Kubernetes client
+ * Whether a failed Kubernetes call is worth retrying
+ * Throttling, server errors and network failures are; rejected requests aren't
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof k8s.ApiException) {
+    return error.code === 429 || error.code >= 500;
+  }
+  return true;
+}
+
+// Field manager recorded as the owner of every field Dockify applies
+const FIELD_MANAGER = "dockify";
+
+export type ApplyAction = "created" | "configured" | "unchanged";
+
+export interface ManifestChange {
+  path: string;
+  op: "add" | "remove" | "change";
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ApplyResult {
+  kind: string;
+  name: string;
+  namespace?: string;
+  action: ApplyAction;
+  changes?: ManifestChange[]; // Field-level diff against the live object
+}
+
+/**
+ * Drop server-managed fields so live objects can be compared
+ */
+function comparableObject(obj: k8s.KubernetesObject) {
+  const {
+    managedFields: _managedFields,
+    resourceVersion: _resourceVersion,
+    generation: _generation,
+    uid: _uid,
+    creationTimestamp: _creationTimestamp,
+    ...metadata
+  } = obj.metadata || {};
+  const { status: _status, ...rest } = obj as k8s.KubernetesObject & {
+    status?: unknown;
+  };
+
+  return { ...rest, metadata };
+}
+
+/**
+ * Field-level diff between two JSON values
+ */
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: ManifestChange[],
+) {
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return;
+  }
+
+  const isObject = (value: unknown) =>
+    typeof value === "object" && value !== null;
+
+  if (
+    isObject(before) &&
+    isObject(after) &&
+    Array.isArray(before) === Array.isArray(after)
+  ) {
+    const a = before as Record<string, unknown>;
+    const b = after as Record<string, unknown>;
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      const childPath = Array.isArray(before)
+        ? `${path}[${key}]`
+        : path
+          ? `${path}.${key}`
+          : key;
+      diffValues(a[key], b[key], childPath, changes);
+    }
+    return;
+  }
+
+  if (before === undefined) {
+    changes.push({ path, op: "add", after });
+  } else if (after === undefined) {
+    changes.push({ path, op: "remove", before });
+  } else {
+    changes.push({ path, op: "change", before, after });
+  }
+}
+
+/**
+ * Diff a live object against the result of applying a manifest to it
+ * Secret values never appear in the diff
+ */
+function diffObjects(
+  live: k8s.KubernetesObject,
+  applied: k8s.KubernetesObject,
+): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+  diffValues(comparableObject(live), comparableObject(applied), "", changes);
+
+  if (applied.kind === "Secret") {
+    return changes.map(({ path, op }) => ({
+      path,
+      op,
+      ...(op !== "add" && { before: "***HIDDEN***" }),
+      ...(op !== "remove" && { after: "***HIDDEN***" }),
+    }));
+  }
+
+  return changes;
+}
+
+/**
+ * Apply Kubernetes manifests using server-side apply
+ *
+ * Dockify owns the fields it sets (field manager "dockify"); fields set by
+ * other controllers are left alone. Ownership is forced so objects created
+ * before server-side apply can be taken over.
+ *
+ * @param options.dryRun - Validate and diff against the cluster without changing anything
  */
 export async function applyManifests(
   manifests: unknown[],
-): Promise<{ success: boolean; output?: string; error?: string }> {
+  options: { dryRun?: boolean } = {},
+): Promise<{
+  success: boolean;
+  output?: string;
+  results: ApplyResult[]; // One per applied manifest, in order
+  failed?: { kind: string; name: string }; // Manifest that was rejected
+  error?: string;
+  transient?: boolean; // Whether retrying may succeed
+}> {
+  let failed: { kind: string; name: string } | undefined;
+  const results: ApplyResult[] = [];
+
   try {
     const kc = getKubeConfig();
     const client = kc.makeApiClient(k8s.KubernetesObjectApi);
 
-    const results: string[] = [];
-
     for (const manifest of manifests) {
       const obj = manifest as k8s.KubernetesObject;
+      const kind = obj.kind || "Unknown";
+      const name = obj.metadata?.name || "";
+
+      // Read the live object to tell created from configured/unchanged
+      let live: k8s.KubernetesObject | null = null;
       try {
-        // Try to create the resource
-        await client.create(obj);
-        results.push(`Created: ${obj.kind}/${obj.metadata?.name}`);
-      } catch (error: any) {
-        // If resource already exists, try to replace/update it
-        if (error?.statusCode === 409) {
-          try {
-            await client.replace(obj);
-            results.push(`Updated: ${obj.kind}/${obj.metadata?.name}`);
-          } catch (replaceError) {
-            console.error("Failed to update resource:", replaceError);
-            throw replaceError;
-          }
-        } else {
-          console.error("Failed to create resource:", error);
+        live = await client.read({
+          apiVersion: obj.apiVersion,
+          kind: obj.kind,
+          metadata: { name, namespace: obj.metadata?.namespace },
+        });
+      } catch (error) {
+        if (!(error instanceof k8s.ApiException && error.code === 404)) {
           throw error;
         }
       }
+
+      failed = { kind, name };
+
+      let applied: k8s.KubernetesObject;
+      try {
+        applied = await client.patch(
+          obj,
+          undefined,
+          options.dryRun ? "All" : undefined,
+          FIELD_MANAGER,
+          true,
+          k8s.PatchStrategy.ServerSideApply,
+        );
+      } catch (error) {
+        console.error(`Failed to apply ${kind}/${name}:`, error);
+        throw error;
+      }
+      failed = undefined;
+
+      if (!live) {
+        results.push({
+          kind,
+          name,
+          namespace: obj.metadata?.namespace,
+          action: "created",
+        });
+        continue;
+      }
+
+      const changes = diffObjects(live, applied);
+      results.push({
+        kind,
+        name,
+        namespace: obj.metadata?.namespace,
+        action: changes.length > 0 ? "configured" : "unchanged",
+        changes: changes.length > 0 ? changes : undefined,
+      });
     }
 
     return {
       success: true,
-      output: results.join("\n"),
+      output: results
+        .map((result) => `${result.kind}/${result.name} ${result.action}`)
+        .join("\n"),
+      results,
     };
   } catch (error) {
     console.error("Error applying manifests:", error);
     return {
       success: false,
+      results,
+      failed,
       error: error instanceof Error ? error.message : String(error),
+      transient: isTransientError(error),
     };
   }
 }
 
+/**
+ * Delete Kubernetes objects, in reverse order of the given manifests
+ * Objects that are already gone are skipped
+ */
+export async function deleteManifests(
+  manifests: unknown[],
+): Promise<{ success: boolean; deleted: string[]; errors: string[] }> {
+  const deleted: string[] = [];
+  const errors: string[] = [];
+
+  try {
+    const kc = getKubeConfig();
+    const client = kc.makeApiClient(k8s.KubernetesObjectApi);
+
+    for (const manifest of [...manifests].reverse()) {
+      const obj = manifest as k8s.KubernetesObject;
+      const ref = `${obj.kind}/${obj.metadata?.name}`;
+      try {
+        await client.delete(obj);
+        deleted.push(ref);
+      } catch (error) {
+        if (!(error instanceof k8s.ApiException && error.code === 404)) {
+          errors.push(
+            `${ref}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+    }
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  return { success: errors.length === 0, deleted, errors };
+}
+
+export type WatchEventType = "ADDED" | "MODIFIED" | "DELETED";
+
+/**
+ * Watch Kubernetes objects under an API path
+ * @example watchResource("/api/v1/namespaces/<ns>/pods", { labelSelector: "app=x" }, onEvent)
+ * @param onDone - Called when the watch ends (server timeout, error or stop)
+ * @returns A function that stops the watch
+ */
+export async function watchResource<T extends k8s.KubernetesObject>(
+  path: string,
+  query: { fieldSelector?: string; labelSelector?: string },
+  onEvent: (type: WatchEventType, obj: T) => void,
+  onDone?: (error?: unknown) => void,
+): Promise<() => void> {
+  const kc = getKubeConfig();
+  const watch = new k8s.Watch(kc);
+
+  const controller = await watch.watch(
+    path,
+    query,
+    (type, obj) => onEvent(type as WatchEventType, obj as T),
+    (error) => onDone?.(error),
+  );
+
+  return () => controller.abort();
+}
+
+// Workload that runs a deployment's pods
+export type WorkloadKind = "Deployment" | "StatefulSet";
+
 /**
  * Get deployment status from Kubernetes
+ * @param kind - StatefulSet for replicated deployments
  */
 export async function getDeploymentStatus(
   name: string,
   namespace: string,
+  kind: WorkloadKind = "Deployment",
 ): Promise<{
   success: boolean;
   status?: string;
+  replicas?: number; // Desired replicas
+  readyReplicas?: number;
   availableReplicas?: number;
+  progressDeadlineExceeded?: boolean;
+  notFound?: boolean;
   error?: string;
 }> {
   try {
     const kc = getKubeConfig();
     const appsApi = kc.makeApiClient(k8s.AppsV1Api);
 
-    const deployment = await appsApi.readNamespacedDeployment({ name, namespace });
+    const deployment =
+      kind === "StatefulSet"
+        ? await appsApi.readNamespacedStatefulSet({ name, namespace })
+        : await appsApi.readNamespacedDeployment({ name, namespace });
     const status = deployment.status;
 
     return {
@@ -100,8 +348,564 @@ export async function getDeploymentStatus(
         status?.availableReplicas === deployment.spec?.replicas
           ? "running"
           : "pending",
+      replicas: deployment.spec?.replicas ?? 1,
+      readyReplicas: status?.readyReplicas || 0,
       availableReplicas: status?.availableReplicas || 0,
+      progressDeadlineExceeded:
+        status?.conditions?.some(
+          (condition) =>
+            condition.type === "Progressing" &&
+            condition.reason === "ProgressDeadlineExceeded",
+        ) ?? false,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      notFound: error instanceof k8s.ApiException && error.code === 404,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * List the pods of a deployment (matched by its app label)
+ */
+export async function listDeploymentPods(
+  name: string,
+  namespace: string,
+): Promise<{ success: boolean; pods?: k8s.V1Pod[]; error?: string }> {
+  try {
+    const kc = getKubeConfig();
+    const coreApi = kc.makeApiClient(k8s.CoreV1Api);
+
+    const pods = await coreApi.listNamespacedPod({
+      namespace,
+      labelSelector: `app=${name}`,
+    });
+
+    return { success: true, pods: pods.items };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export type PodLogOptions = Pick<
+  k8s.LogOptions,
+  "follow" | "previous" | "sinceTime" | "tailLines" | "timestamps"
+>;
+
+/**
+ * Read or follow the log of a pod's container
+ * Uses a plain HTTP request: k8s.Log can't be stopped without an unhandled
+ * stream error
+ *
+ * @param onEnd - Called once when the log ends (fully read, error or stopped)
+ * @returns A function that stops reading, once Kubernetes accepted the request
+ * @throws If Kubernetes rejected the request (e.g. no previous container)
+ */
+export async function streamPodLogs(
+  namespace: string,
+  podName: string,
+  containerName: string,
+  options: PodLogOptions,
+  onData: (chunk: string) => void,
+  onEnd: (error?: Error) => void,
+): Promise<() => void> {
+  const kc = getKubeConfig();
+  const cluster = kc.getCurrentCluster();
+  if (!cluster) {
+    throw new Error("No active Kubernetes cluster");
+  }
+
+  const url = new URL(
+    `${cluster.server}/api/v1/namespaces/${namespace}/pods/${podName}/log`,
+  );
+  url.searchParams.set("container", containerName);
+  k8s.AddOptionsToSearchParams(options, url.searchParams);
+
+  const requestOptions: https.RequestOptions = {};
+  await kc.applyToHTTPSOptions(requestOptions);
+
+  return new Promise((resolve, reject) => {
+    let started = false;
+    let ended = false;
+    const end = (error?: Error) => {
+      if (!started) {
+        reject(error || new Error("Log request ended before it started"));
+      } else if (!ended) {
+        ended = true;
+        onEnd(error);
+      }
+    };
+
+    const request = (url.protocol === "https:" ? https : http).get(
+      url,
+      requestOptions,
+      (response) => {
+        response.setEncoding("utf8");
+        response.on("error", end);
+
+        if (response.statusCode !== 200) {
+          // The body is a v1 Status explaining why
+          let body = "";
+          response.on("data", (chunk: string) => {
+            body += chunk;
+          });
+          response.on("end", () => {
+            let message = `Log request failed with status ${response.statusCode}`;
+            try {
+              message = JSON.parse(body).message || message;
+            } catch {
+              // Not a Status object
+            }
+            end(new Error(message));
+          });
+          return;
+        }
+
+        response.on("data", onData);
+        response.on("end", () => end());
+
+        started = true;
+        resolve(() => {
+          request.destroy();
+          end();
+        });
+      },
+    );
+    request.on("error", end);
+  });
+}
+
+/**
+ * Interactive command running in a pod, see execInPod
+ */
+export interface PodTerminal {
+  write: (data: string | Buffer) => void;
+  resize: (columns: number, rows: number) => void;
+  close: () => void;
+}
+
+/**
+ * Run a command with a TTY in a pod's container (like kubectl exec -it)
+ * The TTY merges stderr into stdout
+ *
+ * @param onExit - Called once when the command ends or the connection drops,
+ * with the exit code if Kubernetes reported one
+ */
+export async function execInPod(
+  namespace: string,
+  podName: string,
+  containerName: string,
+  command: string[],
+  size: { columns: number; rows: number },
+  onOutput: (chunk: Buffer) => void,
+  onExit: (result: { exitCode?: number; error?: string }) => void,
+): Promise<PodTerminal> {
+  const kc = getKubeConfig();
+
+  let exited = false;
+  const exit = (result: { exitCode?: number; error?: string }) => {
+    if (!exited) {
+      exited = true;
+      onExit(result);
+    }
+  };
+
+  const stdin = new PassThrough();
+  // Exec sends the terminal size of an output stream with columns and rows,
+  // and again whenever it emits "resize"
+  const stdout = Object.assign(
+    new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        onOutput(chunk);
+        callback();
+      },
+    }),
+    size,
+  );
+
+  const socket = await new k8s.Exec(kc).exec(
+    namespace,
+    podName,
+    containerName,
+    command,
+    stdout,
+    null,
+    stdin,
+    true,
+    (status) => {
+      if (status.status === "Success") {
+        exit({ exitCode: 0 });
+        return;
+      }
+      // A non-zero exit is reported as a failure with the code as a cause
+      const exitCode = Number(
+        status.details?.causes?.find((cause) => cause.reason === "ExitCode")
+          ?.message,
+      );
+      exit({
+        exitCode: Number.isNaN(exitCode) ? undefined : exitCode,
+        error: status.reason === "NonZeroExitCode" ? undefined : status.message,
+      });
+    },
+  );
+
+  socket.on("close", () => exit({}));
+  socket.on("error", (error) => exit({ error: error.message }));
+
+  return {
+    write: (data) => {
+      stdin.write(data);
+    },
+    resize: (columns, rows) => {
+      stdout.columns = columns;
+      stdout.rows = rows;
+      stdout.emit("resize");
+    },
+    close: () => {
+      stdin.end();
+      socket.close();
+    },
+  };
+}
+
+/**
+ * Run a command in a pod's container without a TTY and collect its output
+ * (like kubectl exec without -it)
+ */
+export async function runInPod(
+  namespace: string,
+  podName: string,
+  containerName: string,
+  command: string[],
+): Promise<{
+  success: boolean;
+  stdout: string;
+  stderr: string;
+  exitCode?: number;
+  error?: string;
+}> {
+  const kc = getKubeConfig();
+  const stdout: Buffer[] = [];
+  const stderr: Buffer[] = [];
+  const collect = (chunks: Buffer[]) =>
+    new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+
+  try {
+    const status = await new Promise<k8s.V1Status>((resolve, reject) => {
+      new k8s.Exec(kc)
+        .exec(
+          namespace,
+          podName,
+          containerName,
+          command,
+          collect(stdout),
+          collect(stderr),
+          null,
+          false,
+          resolve,
+        )
+        .then((socket) => socket.on("error", reject))
+        .catch(reject);
+    });
+
+    const output = {
+      stdout: Buffer.concat(stdout).toString(),
+      stderr: Buffer.concat(stderr).toString(),
+    };
+    if (status.status === "Success") {
+      return { success: true, ...output, exitCode: 0 };
+    }
+
+    // A non-zero exit is reported as a failure with the code as a cause
+    const exitCode = Number(
+      status.details?.causes?.find((cause) => cause.reason === "ExitCode")
+        ?.message,
+    );
+    return {
+      success: false,
+      ...output,
+      exitCode: Number.isNaN(exitCode) ? undefined : exitCode,
+      error: output.stderr.trim() || status.message,
     };
+  } catch (error) {
+    return {
+      success: false,
+      stdout: Buffer.concat(stdout).toString(),
+      stderr: Buffer.concat(stderr).toString(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Set labels on a pod (null removes a label)
+ */
+export async function labelPod(
+  namespace: string,
+  name: string,
+  labels: Record<string, string | null>,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const kc = getKubeConfig();
+    const coreApi = kc.makeApiClient(k8s.CoreV1Api);
+
+    await coreApi.patchNamespacedPod(
+      { name, namespace, body: { metadata: { labels } } },
+      k8s.setHeaderOptions("Content-Type", k8s.PatchStrategy.MergePatch),
+    );
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Get the phase of a PersistentVolumeClaim (Pending, Bound or Lost)
+ */
+export async function getPvcPhase(
+  name: string,
+  namespace: string,
+): Promise<{
+  success: boolean;
+  phase?: string;
+  notFound?: boolean;
+  error?: string;
+}> {
+  try {
+    const kc = getKubeConfig();
+    const coreApi = kc.makeApiClient(k8s.CoreV1Api);
+
+    const pvc = await coreApi.readNamespacedPersistentVolumeClaim({
+      name,
+      namespace,
+    });
+
+    return { success: true, phase: pvc.status?.phase || "Pending" };
+  } catch (error) {
+    return {
+      success: false,
+      notFound: error instanceof k8s.ApiException && error.code === 404,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * List the events in a namespace, newest first
+ */
+export async function listNamespaceEvents(
+  namespace: string,
+): Promise<{ success: boolean; events?: k8s.CoreV1Event[]; error?: string }> {
+  try {
+    const kc = getKubeConfig();
+    const coreApi = kc.makeApiClient(k8s.CoreV1Api);
+
+    const events = await coreApi.listNamespacedEvent({ namespace });
+
+    return {
+      success: true,
+      events: events.items.sort(
+        (a, b) => getEventTime(b).getTime() - getEventTime(a).getTime(),
+      ),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * When an event last happened
+ * Older event sources only set lastTimestamp, newer ones only eventTime
+ */
+export function getEventTime(event: k8s.CoreV1Event): Date {
+  return new Date(
+    event.lastTimestamp ||
+      event.eventTime ||
+      event.metadata.creationTimestamp ||
+      0,
+  );
+}
+
+export interface EventSummary {
+  type: string; // Normal or Warning
+  reason: string; // e.g. "FailedMount", "Pulled"
+  message: string;
+  object: string; // e.g. "Pod/postgres-17-abc"
+  count: number;
+  firstSeen?: string;
+  lastSeen: string;
+}
+
+/**
+ * Reduce an event to what the dashboard shows
+ */
+export function summarizeEvent(event: k8s.CoreV1Event): EventSummary {
+  return {
+    type: event.type || "Normal",
+    reason: event.reason || "",
+    message: event.message || "",
+    object: `${event.involvedObject.kind}/${event.involvedObject.name}`,
+    count: event.count ?? 1,
+    firstSeen: event.firstTimestamp
+      ? new Date(event.firstTimestamp).toISOString()
+      : undefined,
+    lastSeen: getEventTime(event).toISOString(),
+  };
+}
+
+/**
+ * Scale a deployment to the given number of replicas
+ * Scaling to 0 stops the pods but keeps the PVC and Services
+ * @param kind - StatefulSet for replicated deployments
+ */
+export async function scaleDeployment(
+  name: string,
+  namespace: string,
+  replicas: number,
+  kind: WorkloadKind = "Deployment",
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const kc = getKubeConfig();
+    const appsApi = kc.makeApiClient(k8s.AppsV1Api);
+    const request = { name, namespace, body: { spec: { replicas } } };
+    const options = k8s.setHeaderOptions(
+      "Content-Type",
+      k8s.PatchStrategy.MergePatch,
+    );
+
+    if (kind === "StatefulSet") {
+      await appsApi.patchNamespacedStatefulSetScale(request, options);
+    } else {
+      await appsApi.patchNamespacedDeploymentScale(request, options);
+    }
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Start a Job from a CronJob's template, like `kubectl create job --from`
+ * @param labels - Added to the labels of the template
+ */
+export async function createJobFromCronJob(
+  cronJobName: string,
+  namespace: string,
+  jobName: string,
+  labels: Record<string, string> = {},
+): Promise<{ success: boolean; notFound?: boolean; error?: string }> {
+  try {
+    const kc = getKubeConfig();
+    const batchApi = kc.makeApiClient(k8s.BatchV1Api);
+
+    const cronJob = await batchApi.readNamespacedCronJob({
+      name: cronJobName,
+      namespace,
+    });
+    const template = cronJob.spec?.jobTemplate;
+
+    await batchApi.createNamespacedJob({
+      namespace,
+      body: {
+        apiVersion: "batch/v1",
+        kind: "Job",
+        metadata: {
+          name: jobName,
+          namespace,
+          labels: { ...template?.metadata?.labels, ...labels },
+          annotations: {
+            ...template?.metadata?.annotations,
+            "cronjob.kubernetes.io/instantiate": "manual",
+          },
+        },
+        spec: template?.spec,
+      },
+    });
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      notFound: error instanceof k8s.ApiException && error.code === 404,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * List Jobs in all namespaces matching a label selector
+ */
+export async function listJobs(
+  labelSelector: string,
+): Promise<{ success: boolean; jobs?: k8s.V1Job[]; error?: string }> {
+  try {
+    const kc = getKubeConfig();
+    const batchApi = kc.makeApiClient(k8s.BatchV1Api);
+
+    const jobs = await batchApi.listJobForAllNamespaces({ labelSelector });
+
+    return { success: true, jobs: jobs.items };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * How a container of a Job's last pod terminated
+ * The message is what the container wrote to /dev/termination-log
+ */
+export async function getJobTermination(
+  jobName: string,
+  namespace: string,
+  containerName: string,
+): Promise<{
+  success: boolean;
+  terminated?: k8s.V1ContainerStateTerminated;
+  error?: string;
+}> {
+  try {
+    const kc = getKubeConfig();
+    const coreApi = kc.makeApiClient(k8s.CoreV1Api);
+
+    const pods = await coreApi.listNamespacedPod({
+      namespace,
+      labelSelector: `job-name=${jobName}`,
+    });
+    const [pod] = pods.items.sort(
+      (a, b) =>
+        new Date(b.metadata?.creationTimestamp || 0).getTime() -
+        new Date(a.metadata?.creationTimestamp || 0).getTime(),
+    );
+    const status = [
+      ...(pod?.status?.containerStatuses || []),
+      ...(pod?.status?.initContainerStatuses || []),
+    ].find((container) => container.name === containerName);
+
+    return { success: true, terminated: status?.state?.terminated };
   } catch (error) {
     return {
       success: false,
@@ -112,16 +916,71 @@ export async function getDeploymentStatus(
 
 /**
  * Delete all resources in a namespace
+ * A namespace that is already gone counts as deleted
  */
 export async function deleteNamespace(
   namespace: string,
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; transient?: boolean }> {
   try {
     const kc = getKubeConfig();
     const coreApi = kc.makeApiClient(k8s.CoreV1Api);
 
     await coreApi.deleteNamespace({ name: namespace });
 
+    return { success: true };
+  } catch (error) {
+    if (error instanceof k8s.ApiException && error.code === 404) {
+      return { success: true };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      transient: isTransientError(error),
+    };
+  }
+}
+
+/**
+ * List the namespaces Dockify created (labelled managed-by: dockify)
+ */
+export async function listManagedNamespaces(): Promise<{
+  success: boolean;
+  namespaces?: k8s.V1Namespace[];
+  error?: string;
+}> {
+  try {
+    const kc = getKubeConfig();
+    const coreApi = kc.makeApiClient(k8s.CoreV1Api);
+
+    const namespaces = await coreApi.listNamespace({
+      labelSelector: "app.kubernetes.io/managed-by=dockify",
+    });
+
+    return { success: true, namespaces: namespaces.items };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Set annotations on a namespace (null removes an annotation)
+ */
+export async function annotateNamespace(
+  namespace: string,
+  annotations: Record<string, string | null>,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const kc = getKubeConfig();
+    const coreApi = kc.makeApiClient(k8s.CoreV1Api);
+
+    await coreApi.patchNamespace(
+      { name: namespace, body: { metadata: { annotations } } },
+      k8s.setHeaderOptions("Content-Type", k8s.PatchStrategy.MergePatch),
+    );
+
     return { success: true };
   } catch (error) {
     return {
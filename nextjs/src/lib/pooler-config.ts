@@ -0,0 +1,96 @@
+/**
+ * Connection Pooler Configuration
+ *
+ * Opt-in PgBouncer in front of a Postgres deployment, stored in
+ * deployments.pooler (null while disabled) and passed to the PgBouncer
+ * container (see generatePoolerManifests()). Client-safe: used by both the
+ * API routes and the deploy form.
+ */
+
+export type PoolMode = "session" | "transaction" | "statement";
+
+export interface PoolerSettings {
+  poolMode: PoolMode;
+  defaultPoolSize: number; // Server connections per user and database
+  maxClientConn: number; // Client connections accepted by PgBouncer
+}
+
+export const DEFAULT_POOLER_SETTINGS: PoolerSettings = {
+  poolMode: "transaction",
+  defaultPoolSize: 20,
+  maxClientConn: 500,
+};
+
+export const POOL_MODES: Array<{ value: PoolMode; label: string }> = [
+  {
+    value: "transaction",
+    label: "Transaction (connection returned after each transaction)",
+  },
+  {
+    value: "session",
+    label: "Session (connection held until the client disconnects)",
+  },
+  { value: "statement", label: "Statement (no multi-statement transactions)" },
+];
+
+export const POOLER_PORT = 6432;
+
+// Left to superusers and connections that bypass the pooler
+const RESERVED_SERVER_CONNECTIONS = 5;
+
+/**
+ * Validate pooler settings, missing fields keep their current value
+ * @param current - Settings to start from, the defaults when enabling
+ * @param context.maxConnections - max_connections of the Postgres behind it
+ * @returns The complete settings, or a list of validation errors
+ */
+export function resolvePoolerSettings(
+  request: Partial<PoolerSettings> | undefined,
+  current: PoolerSettings,
+  context: { maxConnections: number },
+): { settings: PoolerSettings; errors?: never } | { errors: string[] } {
+  if (
+    request !== undefined &&
+    (typeof request !== "object" || request === null || Array.isArray(request))
+  ) {
+    return { errors: ["Pooler settings must be an object"] };
+  }
+
+  const settings: PoolerSettings = { ...current, ...request };
+  const errors: string[] = [];
+
+  if (!POOL_MODES.some((mode) => mode.value === settings.poolMode)) {
+    errors.push("Pool mode must be session, transaction or statement");
+  }
+
+  const maxPoolSize = context.maxConnections - RESERVED_SERVER_CONNECTIONS;
+  if (
+    !Number.isInteger(settings.defaultPoolSize) ||
+    settings.defaultPoolSize < 1 ||
+    settings.defaultPoolSize > maxPoolSize
+  ) {
+    errors.push(
+      `Pool size must be from 1 to ${maxPoolSize} with max_connections = ${context.maxConnections}`,
+    );
+  }
+
+  if (
+    !Number.isInteger(settings.maxClientConn) ||
+    settings.maxClientConn < 10 ||
+    settings.maxClientConn > 10000
+  ) {
+    errors.push("Max client connections must be from 10 to 10000");
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    settings: {
+      poolMode: settings.poolMode,
+      defaultPoolSize: settings.defaultPoolSize,
+      maxClientConn: settings.maxClientConn,
+    },
+  };
+}
@@ -0,0 +1,302 @@
+/**
+ * Postgres Configuration
+ *
+ * Connection, memory, WAL and planner settings of a Postgres deployment,
+ * stored in deployments.settings and rendered into the postgresql.conf the
+ * server is started with. Client-safe: used by both the API routes and the
+ * deploy form.
+ *
+ * Only max_connections and shared_buffers need a restart; a change to any
+ * other setting is applied with a reload (see lib/postgres-reload.ts).
+ */
+
+export type PostgresWorkload = "web" | "oltp" | "analytics";
+
+export interface PostgresSettings {
+  maxConnections: number;
+  sharedBuffersMb: number;
+  effectiveCacheSizeMb: number; // Planner hint, memory available for caching
+  maintenanceWorkMemMb: number; // VACUUM, CREATE INDEX
+  workMemMb: number; // Per sort or hash operation
+  minWalSizeMb: number;
+  maxWalSizeMb: number; // WAL grows up to this between checkpoints
+  checkpointCompletionTarget: number; // Fraction of the interval to spread writes over
+  randomPageCost: number;
+  effectiveIoConcurrency: number;
+}
+
+/**
+ * Stock Postgres, what deployments ran with before settings existed
+ */
+export const DEFAULT_POSTGRES_SETTINGS: PostgresSettings = {
+  maxConnections: 100,
+  sharedBuffersMb: 128,
+  effectiveCacheSizeMb: 4096,
+  maintenanceWorkMemMb: 64,
+  workMemMb: 4,
+  minWalSizeMb: 80,
+  maxWalSizeMb: 1024,
+  checkpointCompletionTarget: 0.9,
+  randomPageCost: 4,
+  effectiveIoConcurrency: 1,
+};
+
+/**
+ * Settings that only take effect after a restart
+ */
+export const POSTGRES_RESTART_SETTINGS: Array<keyof PostgresSettings> = [
+  "maxConnections",
+  "sharedBuffersMb",
+];
+
+export const POSTGRES_WORKLOADS: Array<{
+  value: PostgresWorkload;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "web",
+    label: "Web application",
+    description: "Many short queries, mostly reads",
+  },
+  {
+    value: "oltp",
+    label: "Transactional (OLTP)",
+    description: "Many connections, frequent small writes",
+  },
+  {
+    value: "analytics",
+    label: "Analytics",
+    description: "Few connections, large queries and bulk loads",
+  },
+];
+
+const WORKLOAD_PROFILES: Record<
+  PostgresWorkload,
+  {
+    maxConnections: number;
+    maintenanceDivisor: number; // Of the memory limit
+    workMemDivisor: number; // Of the memory left per connection
+    minWalSizeMb: number;
+    maxWalSizeMb: number;
+  }
+> = {
+  web: {
+    maxConnections: 100,
+    maintenanceDivisor: 16,
+    workMemDivisor: 1,
+    minWalSizeMb: 512,
+    maxWalSizeMb: 2048,
+  },
+  oltp: {
+    maxConnections: 200,
+    maintenanceDivisor: 16,
+    workMemDivisor: 1,
+    minWalSizeMb: 1024,
+    maxWalSizeMb: 4096,
+  },
+  analytics: {
+    maxConnections: 40,
+    maintenanceDivisor: 8,
+    workMemDivisor: 2,
+    minWalSizeMb: 1024,
+    maxWalSizeMb: 4096,
+  },
+};
+
+// shared_buffers above this share of the memory limit leaves too little for
+// connections and maintenance
+const SHARED_BUFFERS_MAX_SHARE = 0.4;
+
+/**
+ * Settings tuned for a workload and a container memory limit
+ * (a quarter of the memory for shared_buffers, three quarters assumed to be
+ * available for caching)
+ */
+export function getPostgresPreset(
+  workload: PostgresWorkload,
+  memoryLimitMi: number,
+): PostgresSettings {
+  const profile = WORKLOAD_PROFILES[workload];
+  // Every connection is a process, small containers get fewer
+  const maxConnections = Math.min(
+    profile.maxConnections,
+    Math.max(20, Math.floor(memoryLimitMi / 8)),
+  );
+  const sharedBuffersMb = Math.max(16, Math.floor(memoryLimitMi / 4));
+
+  return {
+    maxConnections,
+    sharedBuffersMb,
+    effectiveCacheSizeMb: Math.floor((memoryLimitMi * 3) / 4),
+    maintenanceWorkMemMb: Math.min(
+      2048,
+      Math.max(16, Math.floor(memoryLimitMi / profile.maintenanceDivisor)),
+    ),
+    workMemMb: Math.max(
+      1,
+      Math.floor(
+        (memoryLimitMi - sharedBuffersMb) /
+          (maxConnections * 3) /
+          profile.workMemDivisor,
+      ),
+    ),
+    minWalSizeMb: profile.minWalSizeMb,
+    maxWalSizeMb: profile.maxWalSizeMb,
+    checkpointCompletionTarget: 0.9,
+    // Volumes are network or SSD storage, random reads cost little more
+    // than sequential ones
+    randomPageCost: 1.1,
+    effectiveIoConcurrency: 200,
+  };
+}
+
+const isIntegerBetween = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) &&
+  (value as number) >= min &&
+  (value as number) <= max;
+
+/**
+ * Validate Postgres settings, missing fields keep their current value
+ * @param current - Settings to start from, the defaults for a new deployment
+ * @param context.memoryLimitMi - Container memory limit, memory settings must fit in it
+ * @returns The complete settings, or a list of validation errors
+ */
+export function resolvePostgresSettings(
+  request: Partial<PostgresSettings> | undefined,
+  current: PostgresSettings,
+  context: { memoryLimitMi: number | null },
+): { settings: PostgresSettings; errors?: never } | { errors: string[] } {
+  if (
+    request !== undefined &&
+    (typeof request !== "object" || request === null || Array.isArray(request))
+  ) {
+    return { errors: ["Settings must be an object"] };
+  }
+
+  const settings: PostgresSettings = { ...current, ...request };
+  const errors: string[] = [];
+  const memoryLimitMi = context.memoryLimitMi ?? Number.MAX_SAFE_INTEGER;
+
+  if (!isIntegerBetween(settings.maxConnections, 10, 1000)) {
+    errors.push("max_connections must be a whole number from 10 to 1000");
+  }
+
+  const sharedBuffersLimit = Math.floor(
+    memoryLimitMi * SHARED_BUFFERS_MAX_SHARE,
+  );
+  if (!isIntegerBetween(settings.sharedBuffersMb, 16, sharedBuffersLimit)) {
+    errors.push(
+      context.memoryLimitMi
+        ? `shared_buffers must be from 16 to ${sharedBuffersLimit} MB with a ${context.memoryLimitMi}Mi memory limit`
+        : "shared_buffers must be a whole number of MB, at least 16",
+    );
+  }
+
+  if (!isIntegerBetween(settings.effectiveCacheSizeMb, 1, 1024 * 1024)) {
+    errors.push("effective_cache_size must be a whole number of MB");
+  }
+
+  for (const [name, value] of [
+    ["maintenance_work_mem", settings.maintenanceWorkMemMb],
+    ["work_mem", settings.workMemMb],
+  ] as const) {
+    if (!isIntegerBetween(value, 1, memoryLimitMi)) {
+      errors.push(
+        context.memoryLimitMi
+          ? `${name} must be from 1 to ${context.memoryLimitMi} MB`
+          : `${name} must be a whole number of MB`,
+      );
+    }
+  }
+
+  if (!isIntegerBetween(settings.minWalSizeMb, 32, 64 * 1024)) {
+    errors.push("min_wal_size must be from 32 to 65536 MB");
+  }
+  if (
+    !isIntegerBetween(settings.maxWalSizeMb, 32, 64 * 1024) ||
+    settings.maxWalSizeMb < settings.minWalSizeMb
+  ) {
+    errors.push(
+      "max_wal_size must be from 32 to 65536 MB and at least min_wal_size",
+    );
+  }
+
+  if (
+    typeof settings.checkpointCompletionTarget !== "number" ||
+    !(settings.checkpointCompletionTarget >= 0) ||
+    settings.checkpointCompletionTarget > 1
+  ) {
+    errors.push("checkpoint_completion_target must be from 0 to 1");
+  }
+
+  if (
+    typeof settings.randomPageCost !== "number" ||
+    !(settings.randomPageCost > 0) ||
+    settings.randomPageCost > 100
+  ) {
+    errors.push("random_page_cost must be above 0 and at most 100");
+  }
+
+  if (!isIntegerBetween(settings.effectiveIoConcurrency, 0, 1000)) {
+    errors.push("effective_io_concurrency must be a whole number up to 1000");
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    settings: {
+      maxConnections: settings.maxConnections,
+      sharedBuffersMb: settings.sharedBuffersMb,
+      effectiveCacheSizeMb: settings.effectiveCacheSizeMb,
+      maintenanceWorkMemMb: settings.maintenanceWorkMemMb,
+      workMemMb: settings.workMemMb,
+      minWalSizeMb: settings.minWalSizeMb,
+      maxWalSizeMb: settings.maxWalSizeMb,
+      checkpointCompletionTarget: settings.checkpointCompletionTarget,
+      randomPageCost: settings.randomPageCost,
+      effectiveIoConcurrency: settings.effectiveIoConcurrency,
+    },
+  };
+}
+
+/**
+ * Parameters written to postgresql.conf, as pg_file_settings reports them
+ */
+export function getPostgresParameters(
+  settings: PostgresSettings,
+): Record<string, string> {
+  return {
+    // Set by initdb in the image's own postgresql.conf, which is no longer read
+    listen_addresses: "*",
+    timezone: "Etc/UTC",
+    log_timezone: "Etc/UTC",
+    default_text_search_config: "pg_catalog.english",
+
+    max_connections: String(settings.maxConnections),
+    shared_buffers: `${settings.sharedBuffersMb}MB`,
+    effective_cache_size: `${settings.effectiveCacheSizeMb}MB`,
+    maintenance_work_mem: `${settings.maintenanceWorkMemMb}MB`,
+    work_mem: `${settings.workMemMb}MB`,
+    min_wal_size: `${settings.minWalSizeMb}MB`,
+    max_wal_size: `${settings.maxWalSizeMb}MB`,
+    checkpoint_completion_target: String(settings.checkpointCompletionTarget),
+    random_page_cost: String(settings.randomPageCost),
+    effective_io_concurrency: String(settings.effectiveIoConcurrency),
+  };
+}
+
+/**
+ * Render settings into postgresql.conf
+ */
+export function renderPostgresConf(settings: PostgresSettings): string {
+  return [
+    "# Managed by Dockify, change it through the deployment settings",
+    ...Object.entries(getPostgresParameters(settings)).map(
+      ([name, value]) => `${name} = '${value}'`,
+    ),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,188 @@
+/**
+ * Postgres Config Reload
+ *
+ * Settings that don't need a restart (lib/postgres-config.ts) reach a running
+ * Postgres without one: the kubelet refreshes the mounted ConfigMap, then the
+ * server is told to reload it. The kubelet takes up to a minute or two, so
+ * the reload runs as its own job: each attempt checks pg_file_settings (the
+ * file as Postgres reads it right now) once and calls pg_reload_conf() if it
+ * shows the new parameters, otherwise the job queue retries it later. Every
+ * replica of a replicated deployment has its own kubelet and is reloaded the
+ * same way, over psql in its pod.
+ */
+
+import { and, eq, isNull } from "drizzle-orm";
+import postgres from "postgres";
+import { db } from "@/db";
+import { deployments } from "@/db/schema";
+import {
+  getAppTemplateForType,
+  getTemplateSettings,
+} from "@/lib/app-templates";
+import type { OperationResult } from "@/lib/deploy";
+import {
+  getDeploymentEnv,
+  getServiceAddress,
+} from "@/lib/deployment-connection";
+import { enqueueJob } from "@/lib/job-queue";
+import {
+  getPostgresParameters,
+  type PostgresSettings,
+} from "@/lib/postgres-config";
+import { queryInstance } from "@/lib/replication";
+import {
+  getInstanceCount,
+  getInstanceName,
+  type ReplicationSettings,
+} from "@/lib/replication-config";
+
+// With the queue's backoff, attempts span about three minutes
+const RELOAD_MAX_ATTEMPTS = 8;
+
+const NOT_UPDATED = "The configuration file was not updated yet";
+
+const isCurrent = (
+  expected: Record<string, string>,
+  current: Map<string, string>,
+) =>
+  Object.entries(expected).every(
+    ([name, value]) => current.get(name) === value,
+  );
+
+/**
+ * Queue a reload of a deployment's configuration, run by the job worker
+ */
+export function enqueueConfigReload(deploymentId: string, userId: string) {
+  return enqueueJob({
+    type: "reload",
+    deploymentId,
+    userId,
+    maxAttempts: RELOAD_MAX_ATTEMPTS,
+  });
+}
+
+/**
+ * Reload the configuration of a Postgres deployment if its mounted
+ * postgresql.conf matches the stored settings, the primary first
+ * A file the kubelet hasn't refreshed yet is a transient failure, to be
+ * retried. Does nothing for other types and for deployments that aren't running
+ */
+export async function reloadPostgresConfig(
+  deploymentId: string,
+): Promise<OperationResult<{ reloaded: string[] }>> {
+  const [deployment] = await db
+    .select()
+    .from(deployments)
+    .where(and(eq(deployments.id, deploymentId), isNull(deployments.deletedAt)))
+    .limit(1);
+
+  const template = deployment && getAppTemplateForType(deployment.type);
+  if (
+    !deployment ||
+    deployment.type !== "postgres" ||
+    deployment.status !== "deployed" ||
+    !template
+  ) {
+    return { success: true, result: { reloaded: [] } };
+  }
+
+  const address = getServiceAddress(deployment);
+  if (!address) {
+    return {
+      success: false,
+      error: "Deployment has no reachable service",
+      transient: false,
+    };
+  }
+
+  const env = await getDeploymentEnv(deployment.id);
+  const expected = getPostgresParameters(
+    getTemplateSettings(template, deployment.settings) as PostgresSettings,
+  );
+
+  // The pod may be restarting when the update also changed a setting that
+  // needs a restart, connection errors are retried as well
+  const sql = postgres({
+    host: address.host,
+    port: address.port,
+    username: env.POSTGRES_USER || "postgres",
+    password: env.POSTGRES_PASSWORD,
+    database: env.POSTGRES_DB || env.POSTGRES_USER || "postgres",
+    max: 1,
+    prepare: false,
+    connect_timeout: 10,
+    ssl: false,
+    onnotice: () => {},
+    connection: { application_name: "dockify-reload" },
+  });
+
+  try {
+    const rows = await sql<Array<{ name: string; setting: string }>>`
+      SELECT name, setting FROM pg_file_settings
+      WHERE sourcefile = current_setting('config_file')
+    `;
+    if (!isCurrent(expected, new Map(rows.map((r) => [r.name, r.setting])))) {
+      return { success: false, error: NOT_UPDATED, transient: true };
+    }
+    await sql`SELECT pg_reload_conf()`;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      transient: true,
+    };
+  } finally {
+    await sql.end({ timeout: 1 });
+  }
+
+  const reloaded = ["primary"];
+  const replication = deployment.replication as ReplicationSettings | null;
+  if (!replication) {
+    return { success: true, result: { reloaded } };
+  }
+
+  // A retry reloads the primary again, which changes nothing
+  const errors: string[] = [];
+  for (let ordinal = 0; ordinal < getInstanceCount(replication); ordinal++) {
+    if (ordinal === replication.primary) {
+      continue;
+    }
+
+    const podName = getInstanceName(deployment.containerName, ordinal);
+    const settings = await queryInstance(
+      deployment,
+      podName,
+      "SELECT name || '=' || setting FROM pg_file_settings WHERE sourcefile = current_setting('config_file')",
+    );
+    if (!settings.success) {
+      errors.push(`${podName}: ${settings.error}`);
+      continue;
+    }
+
+    const current = new Map(
+      settings.output.split("\n").map((line) => {
+        const index = line.indexOf("=");
+        return [line.slice(0, index), line.slice(index + 1)];
+      }),
+    );
+    if (!isCurrent(expected, current)) {
+      errors.push(`${podName}: ${NOT_UPDATED}`);
+      continue;
+    }
+
+    const reload = await queryInstance(
+      deployment,
+      podName,
+      "SELECT pg_reload_conf()",
+    );
+    if (!reload.success) {
+      errors.push(`${podName}: ${reload.error}`);
+      continue;
+    }
+    reloaded.push(podName);
+  }
+
+  return errors.length > 0
+    ? { success: false, error: errors.join("; "), transient: true }
+    : { success: true, result: { reloaded } };
+}
@@ -0,0 +1,137 @@
+/**
+ * User Resource Quotas
+ *
+ * Every user may run deployments up to a total CPU/memory limit. Every
+ * instance of a replicated deployment counts.
+ * The default quota can be raised per user with a row in user_quotas.
+ */
+
+import { and, eq, isNull, ne } from "drizzle-orm";
+import { db } from "@/db";
+import { deployments, userQuotas } from "@/db/schema";
+import {
+  getInstanceCount,
+  type ReplicationSettings,
+} from "@/lib/replication-config";
+import {
+  type DeploymentResources,
+  getDeploymentResources,
+  parseCpuQuantity,
+  parseMemoryQuantity,
+} from "@/lib/resources";
+
+export interface ResourceQuota {
+  cpuMillicores: number;
+  memoryMi: number;
+}
+
+/**
+ * Default quota for users without a user_quotas row
+ */
+export const DEFAULT_USER_QUOTA: ResourceQuota = {
+  cpuMillicores: parseInt(
+    process.env.DEFAULT_QUOTA_CPU_MILLICORES || "4000",
+    10,
+  ),
+  memoryMi: parseInt(process.env.DEFAULT_QUOTA_MEMORY_MI || "8192", 10),
+};
+
+/**
+ * Get the quota that applies to a user
+ */
+export async function getUserQuota(userId: string): Promise<ResourceQuota> {
+  const [quota] = await db
+    .select()
+    .from(userQuotas)
+    .where(eq(userQuotas.userId, userId))
+    .limit(1);
+
+  return quota
+    ? { cpuMillicores: quota.cpuMillicores, memoryMi: quota.memoryMi }
+    : DEFAULT_USER_QUOTA;
+}
+
+/**
+ * Get the resources currently allocated to a user's deployments
+ * Deleted and failed deployments don't count
+ *
+ * @param excludeDeploymentId - Leave one deployment out (used when resizing it)
+ */
+export async function getUserResourceUsage(
+  userId: string,
+  excludeDeploymentId?: string,
+): Promise<ResourceQuota> {
+  const rows = await db
+    .select({
+      id: deployments.id,
+      cpuRequest: deployments.cpuRequest,
+      memoryRequest: deployments.memoryRequest,
+      cpuLimit: deployments.cpuLimit,
+      memoryLimit: deployments.memoryLimit,
+      replication: deployments.replication,
+    })
+    .from(deployments)
+    .where(
+      and(
+        eq(deployments.userId, userId),
+        isNull(deployments.deletedAt),
+        ne(deployments.status, "failed"),
+      ),
+    );
+
+  return rows
+    .filter((row) => row.id !== excludeDeploymentId)
+    .reduce(
+      (usage, row) => {
+        const resources = getDeploymentResources(row);
+        const replication = row.replication as ReplicationSettings | null;
+        const instances = replication ? getInstanceCount(replication) : 1;
+        return {
+          cpuMillicores:
+            usage.cpuMillicores +
+            (parseCpuQuantity(resources.cpuLimit) || 0) * instances,
+          memoryMi:
+            usage.memoryMi +
+            (parseMemoryQuantity(resources.memoryLimit) || 0) * instances,
+        };
+      },
+      { cpuMillicores: 0, memoryMi: 0 },
+    );
+}
+
+/**
+ * Check whether a user can allocate the given resources
+ * Quotas are enforced on container limits
+ *
+ * @param options.instances - Pods running with these resources (default 1)
+ * @returns Errors describing which quota would be exceeded (empty if allowed)
+ */
+export async function checkResourceQuota(
+  userId: string,
+  resources: DeploymentResources,
+  options: { excludeDeploymentId?: string; instances?: number } = {},
+): Promise<string[]> {
+  const [quota, usage] = await Promise.all([
+    getUserQuota(userId),
+    getUserResourceUsage(userId, options.excludeDeploymentId),
+  ]);
+
+  const errors: string[] = [];
+  const instances = options.instances ?? 1;
+  const cpu = (parseCpuQuantity(resources.cpuLimit) || 0) * instances;
+  const memory = (parseMemoryQuantity(resources.memoryLimit) || 0) * instances;
+
+  if (usage.cpuMillicores + cpu > quota.cpuMillicores) {
+    errors.push(
+      `CPU quota exceeded: ${usage.cpuMillicores}m of ${quota.cpuMillicores}m in use, ${cpu}m requested`,
+    );
+  }
+
+  if (usage.memoryMi + memory > quota.memoryMi) {
+    errors.push(
+      `Memory quota exceeded: ${Math.round(usage.memoryMi)}Mi of ${quota.memoryMi}Mi in use, ${Math.round(memory)}Mi requested`,
+    );
+  }
+
+  return errors;
+}
@@ -0,0 +1,356 @@
+/**
+ * Reconciler
+ *
+ * Periodically compares every deployment row with its namespace:
+ * - updates status (deployed/stopped), healthStatus and lastSyncTime
+ * - detects drift: objects deleted or modified outside Dockify, stored in
+ *   metadata.drift (cleared once the cluster matches again)
+ * - flags namespaces labelled managed-by: dockify that have no deployment row
+ *   with a dockify.app/orphaned-at annotation
+ * - records backup runs and applies backup retention (lib/backups.ts)
+ * - starts pending restores and records their outcome (lib/restores.ts)
+ * - labels the pods of replicated Postgres deployments with their role, which
+ *   the read-only Service selects replicas by (lib/replication.ts)
+ *
+ * Drift is only reported, never repaired. Started once per server process from
+ * instrumentation.ts; a Redis lock makes sure only one process runs each pass.
+ */
+
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import { db } from "@/db";
+import { type Deployment, deploymentEnvVars, deployments } from "@/db/schema";
+import { syncBackups } from "@/lib/backups";
+import { getDeploymentHealth } from "@/lib/health";
+import { generateDeploymentManifests } from "@/lib/k8s-manifests";
+import {
+  annotateNamespace,
+  applyManifests,
+  listManagedNamespaces,
+  type ManifestChange,
+} from "@/lib/kubectl";
+import { redis } from "@/lib/redis";
+import { syncReplicationRoles } from "@/lib/replication";
+import { syncRestores } from "@/lib/restores";
+
+export interface DriftedResource {
+  kind: string;
+  name: string;
+  action: "missing" | "modified";
+  changes?: ManifestChange[];
+}
+
+export interface ReconcileSummary {
+  startedAt: string;
+  finishedAt: string;
+  checked: number;
+  updated: number; // Deployments whose status changed
+  drifted: string[]; // Deployment ids
+  orphanedNamespaces: string[];
+  backupsRecorded: number; // Backup runs recorded or completed
+  restoresSynced: number; // Restores started or completed
+  errors: string[];
+}
+
+const RECONCILE_INTERVAL_MS = parseInt(
+  process.env.RECONCILE_INTERVAL_MS || "60000",
+  10,
+);
+
+const LOCK_KEY = "reconciler-lock";
+const SUMMARY_KEY = "reconciler:last-run";
+const ORPHANED_ANNOTATION = "dockify.app/orphaned-at";
+
+// Other statuses are owned by a running job or have nothing in the cluster
+const RECONCILED_STATUSES: Deployment["status"][] = ["deployed", "stopped"];
+
+/**
+ * Find objects that differ from what Dockify would apply
+ * A dry-run apply reports missing objects as created and changed ones as configured
+ */
+async function detectDrift(
+  deployment: Deployment,
+): Promise<
+  | { success: true; drift: DriftedResource[] }
+  | { success: false; error: string }
+> {
+  const envVars = await db
+    .select()
+    .from(deploymentEnvVars)
+    .where(eq(deploymentEnvVars.deploymentId, deployment.id));
+
+  const manifests = generateDeploymentManifests(deployment, envVars);
+  const result = await applyManifests(manifests, { dryRun: true });
+
+  const drift: DriftedResource[] = result.results
+    .filter((r) => r.action !== "unchanged")
+    .map((r) => ({
+      kind: r.kind,
+      name: r.name,
+      action: r.action === "created" ? "missing" : "modified",
+      changes: r.changes,
+    }));
+
+  if (!result.success) {
+    // Namespaced objects can't be dry-run into a namespace that is gone
+    if (drift.some((r) => r.kind === "Namespace")) {
+      return { success: true, drift };
+    }
+    return { success: false, error: result.error || "Dry-run apply failed" };
+  }
+
+  return { success: true, drift };
+}
+
+/**
+ * Bring one deployment row in line with the cluster
+ * @returns Whether the deployment's status changed and whether it drifted
+ */
+async function reconcileDeployment(
+  deployment: Deployment,
+): Promise<{ statusChanged: boolean; drifted: boolean }> {
+  const result = await getDeploymentHealth(deployment);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  const { health } = result;
+
+  // Follow scaling done outside Dockify
+  let status = deployment.status;
+  if (status === "deployed" && health.state === "Suspended") {
+    status = "stopped";
+  } else if (status === "stopped" && health.replicas.desired > 0) {
+    status = "deployed";
+  }
+
+  if (status === "deployed" && deployment.replication) {
+    const roles = await syncReplicationRoles(deployment);
+    if (!roles.success) {
+      console.warn(
+        `[Reconciler] Failed to label the instances of ${deployment.id}: ${roles.error}`,
+      );
+    }
+  }
+
+  const driftResult = await detectDrift({ ...deployment, status });
+  if (!driftResult.success) {
+    throw new Error(driftResult.error);
+  }
+  const { drift } = driftResult;
+
+  // Merge into metadata in SQL, a job may be updating the row meanwhile;
+  // only move the status if nobody else changed it since it was read
+  await db
+    .update(deployments)
+    .set({
+      status,
+      healthStatus: health.state,
+      lastSyncTime: new Date(health.checkedAt),
+      metadata: sql`coalesce(${deployments.metadata}, '{}'::jsonb) || ${JSON.stringify(
+        {
+          drift:
+            drift.length > 0
+              ? { detectedAt: health.checkedAt, resources: drift }
+              : null,
+        },
+      )}::jsonb`,
+    })
+    .where(
+      and(
+        eq(deployments.id, deployment.id),
+        eq(deployments.status, deployment.status),
+      ),
+    );
+
+  if (drift.length > 0) {
+    console.warn(
+      `[Reconciler] Deployment ${deployment.id} drifted: ${drift
+        .map((r) => `${r.kind}/${r.name} ${r.action}`)
+        .join(", ")}`,
+    );
+  }
+
+  return {
+    statusChanged: status !== deployment.status,
+    drifted: drift.length > 0,
+  };
+}
+
+/**
+ * Flag managed namespaces without a deployment row
+ * @returns Names of the orphaned namespaces
+ */
+async function flagOrphanedNamespaces(): Promise<string[]> {
+  const listed = await listManagedNamespaces();
+  if (!listed.success) {
+    throw new Error(listed.error);
+  }
+
+  const names = (listed.namespaces || [])
+    .filter((ns) => ns.status?.phase !== "Terminating")
+    .map((ns) => ns.metadata?.name || "")
+    .filter(Boolean);
+  if (names.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select({ namespace: deployments.namespace })
+    .from(deployments)
+    .where(
+      and(inArray(deployments.namespace, names), isNull(deployments.deletedAt)),
+    );
+  const owned = new Set(rows.map((row) => row.namespace));
+
+  const orphaned: string[] = [];
+  for (const ns of listed.namespaces || []) {
+    const name = ns.metadata?.name || "";
+    if (!names.includes(name)) {
+      continue;
+    }
+
+    const flagged = Boolean(ns.metadata?.annotations?.[ORPHANED_ANNOTATION]);
+    if (owned.has(name)) {
+      if (flagged) {
+        await annotateNamespace(name, { [ORPHANED_ANNOTATION]: null });
+      }
+      continue;
+    }
+
+    orphaned.push(name);
+    if (!flagged) {
+      console.warn(`[Reconciler] Namespace ${name} has no deployment`);
+      await annotateNamespace(name, {
+        [ORPHANED_ANNOTATION]: new Date().toISOString(),
+      });
+    }
+  }
+
+  return orphaned;
+}
+
+/**
+ * Reconcile all deployments once
+ */
+export async function reconcileAll(): Promise<ReconcileSummary> {
+  const summary: ReconcileSummary = {
+    startedAt: new Date().toISOString(),
+    finishedAt: "",
+    checked: 0,
+    updated: 0,
+    drifted: [],
+    orphanedNamespaces: [],
+    backupsRecorded: 0,
+    restoresSynced: 0,
+    errors: [],
+  };
+
+  const rows = await db
+    .select()
+    .from(deployments)
+    .where(
+      and(
+        isNull(deployments.deletedAt),
+        inArray(deployments.status, RECONCILED_STATUSES),
+      ),
+    );
+
+  for (const deployment of rows) {
+    try {
+      const result = await reconcileDeployment(deployment);
+      summary.checked += 1;
+      if (result.statusChanged) {
+        summary.updated += 1;
+      }
+      if (result.drifted) {
+        summary.drifted.push(deployment.id);
+      }
+    } catch (error) {
+      summary.errors.push(
+        `${deployment.id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  try {
+    summary.orphanedNamespaces = await flagOrphanedNamespaces();
+  } catch (error) {
+    summary.errors.push(
+      `namespaces: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  try {
+    summary.backupsRecorded = await syncBackups();
+  } catch (error) {
+    summary.errors.push(
+      `backups: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  try {
+    summary.restoresSynced = await syncRestores();
+  } catch (error) {
+    summary.errors.push(
+      `restores: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  summary.finishedAt = new Date().toISOString();
+  await redis.set(SUMMARY_KEY, JSON.stringify(summary));
+
+  return summary;
+}
+
+/**
+ * Get the summary of the last reconcile pass, if any
+ */
+export async function getLastReconcileSummary(): Promise<ReconcileSummary | null> {
+  const data = await redis.get(SUMMARY_KEY);
+  return data ? (JSON.parse(data) as ReconcileSummary) : null;
+}
+
+async function tick() {
+  // Only one process reconciles per interval
+  const acquired = await redis.set(
+    LOCK_KEY,
+    "1",
+    "PX",
+    RECONCILE_INTERVAL_MS,
+    "NX",
+  );
+  if (!acquired) {
+    return;
+  }
+
+  const summary = await reconcileAll();
+  if (summary.errors.length > 0) {
+    console.error(
+      `[Reconciler] ${summary.errors.length} errors:`,
+      summary.errors,
+    );
+  }
+}
+
+const globalForReconciler = globalThis as unknown as {
+  reconcilerStarted?: boolean;
+};
+
+/**
+ * Start the reconciler (once per process)
+ * Set RECONCILER_ENABLED=false on processes that shouldn't reconcile
+ */
+export function startReconciler() {
+  if (
+    globalForReconciler.reconcilerStarted ||
+    process.env.RECONCILER_ENABLED === "false"
+  ) {
+    return;
+  }
+
+  globalForReconciler.reconcilerStarted = true;
+  console.log("[Reconciler] Started");
+
+  setInterval(() => {
+    tick().catch((error) => console.error("[Reconciler] Error:", error));
+  }, RECONCILE_INTERVAL_MS);
+}
@@ -0,0 +1,470 @@
+/**
+ * Redis Browser
+ *
+ * Key explorer for Redis deployments: SCAN-based key listing, type-aware
+ * reads of a single key, TTL changes, INFO and single commands. Connects to
+ * the deployment's Service with its stored REDIS_PASSWORD, one short-lived
+ * connection per call.
+ *
+ * Commands that wipe or reconfigure the server are refused unless the caller
+ * confirms them; commands that would hold the connection open are refused.
+ */
+
+import Redis from "ioredis";
+import type { Deployment } from "@/db/schema";
+import {
+  getDeploymentEnv,
+  getServiceAddress,
+} from "@/lib/deployment-connection";
+
+export type RedisKeyType =
+  | "string"
+  | "hash"
+  | "list"
+  | "set"
+  | "zset"
+  | "stream";
+
+export interface RedisKeySummary {
+  key: string;
+  type: RedisKeyType | "none";
+  ttl: number; // Milliseconds, -1 without expiry, -2 when gone
+}
+
+export interface RedisKeyValue extends RedisKeySummary {
+  length: number; // Characters, fields, items or entries
+  memory: number | null; // Bytes (MEMORY USAGE)
+  value:
+    | { type: "string"; data: string; truncated: boolean }
+    | { type: "hash"; data: Array<{ field: string; value: string }> }
+    | { type: "list" | "set"; data: string[] }
+    | { type: "zset"; data: Array<{ member: string; score: number }> }
+    | {
+        type: "stream";
+        data: Array<{ id: string; fields: Record<string, string> }>;
+      }
+    | { type: "none" };
+  next: string | null; // Pass as cursor to read the next page
+}
+
+export interface RedisCommandResult {
+  command: string;
+  result: unknown;
+  durationMs: number;
+}
+
+type BrowserResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+export const KEY_PAGE_SIZE = 100;
+export const VALUE_PAGE_SIZE = 100;
+const MAX_STRING_LENGTH = 64 * 1024;
+
+// Refused unless confirmed: they wipe data, stop or reconfigure the server
+export const DANGEROUS_COMMANDS = [
+  "FLUSHALL",
+  "FLUSHDB",
+  "SHUTDOWN",
+  "CONFIG",
+  "DEBUG",
+  "SWAPDB",
+  "REPLICAOF",
+  "SLAVEOF",
+  "MIGRATE",
+  "KEYS", // Blocks the server on large keyspaces, use the key list
+  "SCRIPT",
+  "FUNCTION",
+  // Scripts and functions can run any of the above
+  "EVAL",
+  "EVAL_RO",
+  "EVALSHA",
+  "EVALSHA_RO",
+  "FCALL",
+  "FCALL_RO",
+  "ACL",
+  "MODULE",
+  "CLIENT",
+];
+
+// Never allowed: they keep the connection open or switch its mode
+const REFUSED_COMMANDS = [
+  "SUBSCRIBE",
+  "PSUBSCRIBE",
+  "SSUBSCRIBE",
+  "MONITOR",
+  "SYNC",
+  "PSYNC",
+  "SELECT", // Each call uses a new connection
+  "MULTI", // Transactions span calls, which never share a connection
+  "EXEC",
+  "DISCARD",
+  "WATCH",
+  "QUIT",
+  "RESET",
+];
+
+async function connect(deployment: Deployment): Promise<Redis> {
+  const address = getServiceAddress(deployment);
+  if (!address) {
+    throw new Error("Deployment has no reachable service");
+  }
+
+  const env = await getDeploymentEnv(deployment.id);
+
+  const client = new Redis({
+    host: address.host,
+    port: address.port,
+    password: env.REDIS_PASSWORD || undefined,
+    lazyConnect: true,
+    connectTimeout: 10000,
+    commandTimeout: 15000,
+    maxRetriesPerRequest: 0,
+    enableOfflineQueue: false,
+    retryStrategy: () => null,
+    connectionName: "dockify-browser",
+  });
+  // Errors are returned to the caller, don't let them go unhandled
+  client.on("error", () => {});
+  await client.connect();
+  return client;
+}
+
+async function withClient<T>(
+  deployment: Deployment,
+  fn: (client: Redis) => Promise<T>,
+): Promise<BrowserResult<T>> {
+  let client: Redis | null = null;
+  try {
+    client = await connect(deployment);
+    return { success: true, data: await fn(client) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    client?.disconnect();
+  }
+}
+
+/**
+ * List keys with SCAN, one page per call
+ * @param cursor - "0" for the first page, then the returned cursor
+ */
+export async function scanKeys(
+  deployment: Deployment,
+  options: { cursor: string; pattern: string; type?: RedisKeyType },
+): Promise<BrowserResult<{ cursor: string; keys: RedisKeySummary[] }>> {
+  return withClient(deployment, async (client) => {
+    const args: Array<string | number> = [
+      options.cursor,
+      "MATCH",
+      options.pattern || "*",
+      "COUNT",
+      KEY_PAGE_SIZE,
+    ];
+    if (options.type) {
+      args.push("TYPE", options.type);
+    }
+
+    const [cursor, keys] = (await client.call("SCAN", ...args)) as [
+      string,
+      string[],
+    ];
+
+    const pipeline = client.pipeline();
+    for (const key of keys) {
+      pipeline.type(key);
+      pipeline.pttl(key);
+    }
+    const replies = (await pipeline.exec()) || [];
+
+    return {
+      cursor,
+      keys: keys.map((key, index) => ({
+        key,
+        type: replies[index * 2]?.[1] as RedisKeySummary["type"],
+        ttl: replies[index * 2 + 1]?.[1] as number,
+      })),
+    };
+  });
+}
+
+/**
+ * Read a key according to its type, one page of its items per call
+ * @param cursor - Position of the page: a SCAN cursor for hashes and sets,
+ * an offset for lists and sorted sets, an entry id for streams
+ */
+export async function readKey(
+  deployment: Deployment,
+  key: string,
+  cursor?: string,
+): Promise<BrowserResult<RedisKeyValue>> {
+  return withClient(deployment, async (client) => {
+    const [type, ttl] = await Promise.all([client.type(key), client.pttl(key)]);
+    const memory = (await client
+      .call("MEMORY", "USAGE", key)
+      .catch(() => null)) as number | null;
+
+    const summary = { key, ttl, memory };
+    const offset = parseInt(cursor || "0", 10) || 0;
+
+    switch (type) {
+      case "string": {
+        const length = await client.strlen(key);
+        const data = await client.getrange(key, 0, MAX_STRING_LENGTH - 1);
+        return {
+          ...summary,
+          type,
+          length,
+          value: { type, data, truncated: length > MAX_STRING_LENGTH },
+          next: null,
+        };
+      }
+      case "hash": {
+        const [next, flat] = await client.hscan(
+          key,
+          cursor || "0",
+          "COUNT",
+          VALUE_PAGE_SIZE,
+        );
+        const data: Array<{ field: string; value: string }> = [];
+        for (let i = 0; i < flat.length; i += 2) {
+          data.push({ field: flat[i], value: flat[i + 1] });
+        }
+        return {
+          ...summary,
+          type,
+          length: await client.hlen(key),
+          value: { type, data },
+          next: next === "0" ? null : next,
+        };
+      }
+      case "set": {
+        const [next, data] = await client.sscan(
+          key,
+          cursor || "0",
+          "COUNT",
+          VALUE_PAGE_SIZE,
+        );
+        return {
+          ...summary,
+          type,
+          length: await client.scard(key),
+          value: { type, data },
+          next: next === "0" ? null : next,
+        };
+      }
+      case "list": {
+        const length = await client.llen(key);
+        const data = await client.lrange(
+          key,
+          offset,
+          offset + VALUE_PAGE_SIZE - 1,
+        );
+        return {
+          ...summary,
+          type,
+          length,
+          value: { type, data },
+          next:
+            offset + VALUE_PAGE_SIZE < length
+              ? String(offset + VALUE_PAGE_SIZE)
+              : null,
+        };
+      }
+      case "zset": {
+        const length = await client.zcard(key);
+        const flat = await client.zrange(
+          key,
+          offset,
+          offset + VALUE_PAGE_SIZE - 1,
+          "WITHSCORES",
+        );
+        const data: Array<{ member: string; score: number }> = [];
+        for (let i = 0; i < flat.length; i += 2) {
+          data.push({ member: flat[i], score: Number(flat[i + 1]) });
+        }
+        return {
+          ...summary,
+          type,
+          length,
+          value: { type, data },
+          next:
+            offset + VALUE_PAGE_SIZE < length
+              ? String(offset + VALUE_PAGE_SIZE)
+              : null,
+        };
+      }
+      case "stream": {
+        // Newest first; an exclusive end ("(id") continues after the last entry
+        const entries = await client.xrevrange(
+          key,
+          cursor ? `(${cursor}` : "+",
+          "-",
+          "COUNT",
+          VALUE_PAGE_SIZE,
+        );
+        const data = entries.map(([id, flat]) => {
+          const fields: Record<string, string> = {};
+          for (let i = 0; i < flat.length; i += 2) {
+            fields[flat[i]] = flat[i + 1];
+          }
+          return { id, fields };
+        });
+        return {
+          ...summary,
+          type,
+          length: await client.xlen(key),
+          value: { type, data },
+          next:
+            data.length === VALUE_PAGE_SIZE ? data[data.length - 1].id : null,
+        };
+      }
+      default:
+        // Gone (or a module type the browser can't show)
+        return {
+          ...summary,
+          type: "none",
+          length: 0,
+          value: { type: "none" },
+          next: null,
+        };
+    }
+  });
+}
+
+/**
+ * Set the expiry of a key in seconds, or remove it with null
+ * @returns Whether the key exists
+ */
+export async function setKeyTtl(
+  deployment: Deployment,
+  key: string,
+  ttlSeconds: number | null,
+): Promise<BrowserResult<boolean>> {
+  return withClient(deployment, async (client) => {
+    const result =
+      ttlSeconds === null
+        ? await client.persist(key)
+        : await client.expire(key, ttlSeconds);
+    return (
+      result === 1 || (ttlSeconds === null && (await client.exists(key)) === 1)
+    );
+  });
+}
+
+/**
+ * Delete a key
+ * @returns Whether the key existed
+ */
+export async function deleteKey(
+  deployment: Deployment,
+  key: string,
+): Promise<BrowserResult<boolean>> {
+  return withClient(
+    deployment,
+    async (client) => (await client.del(key)) === 1,
+  );
+}
+
+/**
+ * Read INFO, parsed into sections (Server, Clients, Memory, Keyspace...)
+ */
+export async function getServerInfo(
+  deployment: Deployment,
+): Promise<BrowserResult<Record<string, Record<string, string>>>> {
+  return withClient(deployment, async (client) => {
+    const info = await client.info("everything");
+
+    const sections: Record<string, Record<string, string>> = {};
+    let current: Record<string, string> = {};
+    for (const line of info.split("\r\n")) {
+      if (line.startsWith("# ")) {
+        current = {};
+        sections[line.slice(2)] = current;
+      } else if (line.includes(":")) {
+        const index = line.indexOf(":");
+        current[line.slice(0, index)] = line.slice(index + 1);
+      }
+    }
+    return sections;
+  });
+}
+
+/**
+ * Split a command line into arguments, honouring quotes and backslash escapes
+ * like redis-cli: SET "my key" 'a value'
+ */
+export function parseCommandLine(line: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  let inArg = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote) {
+      if (char === "\\" && quote === '"' && i + 1 < line.length) {
+        current += line[++i];
+      } else if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inArg = true;
+    } else if (/\s/.test(char)) {
+      if (inArg) {
+        args.push(current);
+        current = "";
+        inArg = false;
+      }
+    } else {
+      current += char;
+      inArg = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error("Unbalanced quotes");
+  }
+  if (inArg) {
+    args.push(current);
+  }
+  return args;
+}
+
+/**
+ * Whether a command needs confirmation, or can't be run at all
+ */
+export function checkCommand(
+  args: string[],
+): "allowed" | "dangerous" | "refused" {
+  const name = (args[0] || "").toUpperCase();
+  if (REFUSED_COMMANDS.includes(name)) {
+    return "refused";
+  }
+  return DANGEROUS_COMMANDS.includes(name) ? "dangerous" : "allowed";
+}
+
+/**
+ * Run one command, already checked with checkCommand
+ */
+export async function runCommand(
+  deployment: Deployment,
+  args: string[],
+): Promise<BrowserResult<RedisCommandResult>> {
+  return withClient(deployment, async (client) => {
+    const startedAt = Date.now();
+    const result = await client.call(args[0], ...args.slice(1));
+    return {
+      command: args[0].toUpperCase(),
+      result,
+      durationMs: Date.now() - startedAt,
+    };
+  });
+}
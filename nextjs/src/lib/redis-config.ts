@@ -0,0 +1,193 @@
+/**
+ * Redis Configuration
+ *
+ * Persistence (RDB snapshots, AOF) and memory settings of a Redis deployment,
+ * stored in deployments.settings and rendered into the redis.conf the server
+ * is started with. Client-safe: used by both the API routes and the deploy
+ * form.
+ */
+
+export type RedisAppendFsync = "always" | "everysec" | "no";
+
+export type RedisEvictionPolicy =
+  | "noeviction"
+  | "allkeys-lru"
+  | "allkeys-lfu"
+  | "allkeys-random"
+  | "volatile-lru"
+  | "volatile-lfu"
+  | "volatile-random"
+  | "volatile-ttl";
+
+export interface RedisSnapshotRule {
+  seconds: number; // Snapshot after this many seconds...
+  changes: number; // ...if at least this many keys changed
+}
+
+export interface RedisSettings {
+  snapshots: RedisSnapshotRule[]; // RDB save points, empty turns RDB off
+  appendOnly: boolean; // AOF
+  appendFsync: RedisAppendFsync;
+  maxmemoryMb: number | null; // Null for no limit
+  maxmemoryPolicy: RedisEvictionPolicy;
+}
+
+/**
+ * Redis' own defaults, what deployments ran with before settings existed
+ */
+export const DEFAULT_REDIS_SETTINGS: RedisSettings = {
+  snapshots: [
+    { seconds: 3600, changes: 1 },
+    { seconds: 300, changes: 100 },
+    { seconds: 60, changes: 10000 },
+  ],
+  appendOnly: false,
+  appendFsync: "everysec",
+  maxmemoryMb: null,
+  maxmemoryPolicy: "noeviction",
+};
+
+export const REDIS_SNAPSHOT_PRESETS: Array<{
+  label: string;
+  snapshots: RedisSnapshotRule[];
+}> = [
+  { label: "Redis default", snapshots: DEFAULT_REDIS_SETTINGS.snapshots },
+  {
+    label: "Every minute when changed",
+    snapshots: [{ seconds: 60, changes: 1 }],
+  },
+  { label: "Hourly when changed", snapshots: [{ seconds: 3600, changes: 1 }] },
+  { label: "Off", snapshots: [] },
+];
+
+export const REDIS_APPEND_FSYNC_MODES: Array<{
+  value: RedisAppendFsync;
+  label: string;
+}> = [
+  { value: "everysec", label: "Every second (lose at most 1s)" },
+  { value: "always", label: "Every write (slowest, safest)" },
+  { value: "no", label: "Let the OS decide (fastest)" },
+];
+
+export const REDIS_EVICTION_POLICIES: RedisEvictionPolicy[] = [
+  "noeviction",
+  "allkeys-lru",
+  "allkeys-lfu",
+  "allkeys-random",
+  "volatile-lru",
+  "volatile-lfu",
+  "volatile-random",
+  "volatile-ttl",
+];
+
+// Leave room for the server itself, client buffers and fork on BGSAVE
+const MAXMEMORY_HEADROOM = 0.75;
+
+/**
+ * Validate Redis settings, missing fields keep their current value
+ * @param current - Settings to start from, the defaults for a new deployment
+ * @param context.memoryLimitMi - Container memory limit, maxmemory must fit in it
+ * @returns The complete settings, or a list of validation errors
+ */
+export function resolveRedisSettings(
+  request: Partial<RedisSettings> | undefined,
+  current: RedisSettings,
+  context: { memoryLimitMi: number | null },
+): { settings: RedisSettings; errors?: never } | { errors: string[] } {
+  if (
+    request !== undefined &&
+    (typeof request !== "object" || request === null || Array.isArray(request))
+  ) {
+    return { errors: ["Settings must be an object"] };
+  }
+
+  const settings: RedisSettings = { ...current, ...request };
+  const errors: string[] = [];
+
+  if (
+    !Array.isArray(settings.snapshots) ||
+    settings.snapshots.length > 10 ||
+    settings.snapshots.some(
+      (rule) =>
+        !Number.isInteger(rule?.seconds) ||
+        !Number.isInteger(rule?.changes) ||
+        rule.seconds < 1 ||
+        rule.changes < 1,
+    )
+  ) {
+    errors.push(
+      "Snapshots must be up to 10 rules of whole seconds and changes, both at least 1",
+    );
+  }
+
+  if (typeof settings.appendOnly !== "boolean") {
+    errors.push("appendOnly must be true or false");
+  }
+
+  if (
+    !REDIS_APPEND_FSYNC_MODES.some(
+      (mode) => mode.value === settings.appendFsync,
+    )
+  ) {
+    errors.push("appendFsync must be always, everysec or no");
+  }
+
+  if (settings.maxmemoryMb !== null) {
+    const limit = context.memoryLimitMi
+      ? Math.floor(context.memoryLimitMi * MAXMEMORY_HEADROOM)
+      : null;
+    if (!Number.isInteger(settings.maxmemoryMb) || settings.maxmemoryMb < 1) {
+      errors.push("maxmemory must be a whole number of MB");
+    } else if (limit !== null && settings.maxmemoryMb > limit) {
+      errors.push(
+        `maxmemory can be at most ${limit} MB with a ${context.memoryLimitMi}Mi memory limit`,
+      );
+    }
+  }
+
+  if (!REDIS_EVICTION_POLICIES.includes(settings.maxmemoryPolicy)) {
+    errors.push(`Unknown eviction policy: ${settings.maxmemoryPolicy}`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    settings: {
+      snapshots: settings.snapshots.map(({ seconds, changes }) => ({
+        seconds,
+        changes,
+      })),
+      appendOnly: settings.appendOnly,
+      appendFsync: settings.appendFsync,
+      maxmemoryMb: settings.maxmemoryMb,
+      maxmemoryPolicy: settings.maxmemoryPolicy,
+    },
+  };
+}
+
+/**
+ * Render settings into redis.conf
+ * The password is passed on the command line, it never ends up in the ConfigMap
+ */
+export function renderRedisConf(settings: RedisSettings): string {
+  return [
+    "# Managed by Dockify, change it through the deployment settings",
+    "dir /data",
+    "",
+    "# RDB snapshots",
+    settings.snapshots.length > 0
+      ? `save ${settings.snapshots.map((rule) => `${rule.seconds} ${rule.changes}`).join(" ")}`
+      : 'save ""',
+    "",
+    "# Append only file",
+    `appendonly ${settings.appendOnly ? "yes" : "no"}`,
+    `appendfsync ${settings.appendFsync}`,
+    "",
+    "# Memory",
+    `maxmemory ${settings.maxmemoryMb ? `${settings.maxmemoryMb}mb` : "0"}`,
+    `maxmemory-policy ${settings.maxmemoryPolicy}`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,96 @@
+/**
+ * Replication Configuration
+ *
+ * Opt-in streaming replication of a Postgres deployment, stored in
+ * deployments.replication (null for a single instance). The deployment then
+ * runs as a StatefulSet of `readReplicas + 1` instances named
+ * `<containerName>-<ordinal>`, of which `primary` accepts writes and the
+ * others are read-only hot standbys (see generatePostgresClusterManifests()).
+ * Client-safe: used by both the API routes and the deploy form.
+ */
+
+export interface ReplicationSettings {
+  readReplicas: number; // Hot standbys next to the primary
+  primary: number; // Ordinal of the instance that accepts writes
+}
+
+export const DEFAULT_REPLICATION_SETTINGS: ReplicationSettings = {
+  readReplicas: 1,
+  primary: 0,
+};
+
+export const MAX_READ_REPLICAS = 4;
+
+// standby.signal and pg_rewind's configuration handling need Postgres 13
+const MIN_POSTGRES_VERSION = 13;
+
+/**
+ * Number of instances (pods) of a replicated deployment
+ */
+export function getInstanceCount(settings: ReplicationSettings): number {
+  return settings.readReplicas + 1;
+}
+
+/**
+ * Pod name of an instance, given by the StatefulSet
+ */
+export function getInstanceName(containerName: string, ordinal: number) {
+  return `${containerName}-${ordinal}`;
+}
+
+/**
+ * PVC of an instance, created from the StatefulSet's postgres-data claim template
+ */
+export function getInstanceClaimName(containerName: string, ordinal: number) {
+  return `postgres-data-${getInstanceName(containerName, ordinal)}`;
+}
+
+/**
+ * Validate replication settings, missing fields keep their current value
+ * The primary can't be chosen here, it only changes through a promotion
+ * @param current - Settings to start from, the defaults when enabling
+ * @param context.tag - Postgres image tag, replication needs a recent major version
+ * @returns The complete settings, or a list of validation errors
+ */
+export function resolveReplicationSettings(
+  request: Partial<Pick<ReplicationSettings, "readReplicas">> | undefined,
+  current: ReplicationSettings,
+  context: { tag: string },
+): { settings: ReplicationSettings; errors?: never } | { errors: string[] } {
+  if (
+    request !== undefined &&
+    (typeof request !== "object" || request === null || Array.isArray(request))
+  ) {
+    return { errors: ["Replication settings must be an object"] };
+  }
+
+  const readReplicas = request?.readReplicas ?? current.readReplicas;
+  const errors: string[] = [];
+
+  if (
+    !Number.isInteger(readReplicas) ||
+    readReplicas < 1 ||
+    readReplicas > MAX_READ_REPLICAS
+  ) {
+    errors.push(`Read replicas must be from 1 to ${MAX_READ_REPLICAS}`);
+  } else if (current.primary > readReplicas) {
+    // Scaling down removes the highest ordinals
+    errors.push(
+      `Instance ${current.primary} is the primary, promote a lower instance before removing it`,
+    );
+  }
+
+  // Tags like "latest" or "alpine" are recent enough
+  const majorVersion = Number.parseInt(context.tag, 10);
+  if (majorVersion < MIN_POSTGRES_VERSION) {
+    errors.push(
+      `Replication needs Postgres ${MIN_POSTGRES_VERSION} or later, the tag is ${context.tag}`,
+    );
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return { settings: { readReplicas, primary: current.primary } };
+}
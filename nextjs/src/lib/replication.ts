@@ -0,0 +1,481 @@
+/**
+ * Postgres Replication
+ *
+ * What happens in a replicated Postgres deployment (lib/replication-config.ts)
+ * while it runs:
+ * - the state and lag of every replica, as the primary reports them in
+ *   pg_stat_replication (replicas identify themselves by pod name)
+ * - the role label the read-only Service selects pods by: only replicas that
+ *   stream from the current primary carry role=replica. Pods the StatefulSet
+ *   replaces come without it until the reconciler labels them again
+ * - manual promotion of a replica, run by the job worker, which fences the
+ *   former primary first
+ */
+
+import { and, eq, isNull } from "drizzle-orm";
+import postgres from "postgres";
+import { db } from "@/db";
+import { type Deployment, deployments } from "@/db/schema";
+import { type OperationResult, runUpdate } from "@/lib/deploy";
+import {
+  getDeploymentEnv,
+  getServiceAddress,
+} from "@/lib/deployment-connection";
+import { ROLE_LABEL } from "@/lib/k8s-manifests";
+import { labelPod, listDeploymentPods, runInPod } from "@/lib/kubectl";
+import {
+  getInstanceCount,
+  getInstanceName,
+  type ReplicationSettings,
+} from "@/lib/replication-config";
+
+export interface InstanceStatus {
+  name: string; // Pod name
+  role: "primary" | "replica";
+  state: string; // pg_stat_replication state (streaming, catchup, ...) or "disconnected"
+  lagBytes: number | null; // WAL the replica hasn't replayed yet
+  replayLagSeconds: number | null; // Null while the primary is idle
+}
+
+export interface ReplicationStatus {
+  primary: string; // Pod name
+  instances: InstanceStatus[];
+}
+
+// Container name of the Postgres template
+const POSTGRES_CONTAINER = "postgres";
+
+type StepCallback = (step: string) => Promise<void>;
+
+const getReplication = (deployment: Pick<Deployment, "replication">) =>
+  deployment.replication as ReplicationSettings | null;
+
+/**
+ * Get the state and lag of every instance of a replicated deployment
+ * Asks the primary through the read-write Service
+ */
+export async function getReplicationStatus(
+  deployment: Deployment,
+): Promise<
+  | { success: true; replication: ReplicationStatus }
+  | { success: false; error: string }
+> {
+  const replication = getReplication(deployment);
+  if (!replication) {
+    return { success: false, error: "Deployment is not replicated" };
+  }
+
+  const address = getServiceAddress(deployment);
+  if (!address) {
+    return { success: false, error: "Deployment has no reachable service" };
+  }
+
+  const env = await getDeploymentEnv(deployment.id);
+  const sql = postgres({
+    host: address.host,
+    port: address.port,
+    username: env.POSTGRES_USER || "postgres",
+    password: env.POSTGRES_PASSWORD,
+    database: env.POSTGRES_DB || env.POSTGRES_USER || "postgres",
+    max: 1,
+    prepare: false,
+    connect_timeout: 10,
+    ssl: false,
+    onnotice: () => {},
+    connection: { application_name: "dockify-replication" },
+  });
+
+  try {
+    const [{ in_recovery: inRecovery }] = await sql<
+      Array<{ in_recovery: boolean }>
+    >`SELECT pg_is_in_recovery() AS in_recovery`;
+    if (inRecovery) {
+      return {
+        success: false,
+        error: "The read-write Service reaches a standby, not the primary",
+      };
+    }
+
+    const rows = await sql<
+      Array<{
+        application_name: string;
+        state: string;
+        lag_bytes: string | null;
+        replay_lag_seconds: number | null;
+      }>
+    >`
+      SELECT application_name, state,
+        pg_wal_lsn_diff(pg_current_wal_lsn(), replay_lsn)::bigint AS lag_bytes,
+        EXTRACT(EPOCH FROM replay_lag)::float8 AS replay_lag_seconds
+      FROM pg_stat_replication
+    `;
+
+    const primary = getInstanceName(
+      deployment.containerName,
+      replication.primary,
+    );
+    const instances = Array.from(
+      { length: getInstanceCount(replication) },
+      (_, ordinal): InstanceStatus => {
+        const name = getInstanceName(deployment.containerName, ordinal);
+        if (name === primary) {
+          return {
+            name,
+            role: "primary",
+            state: "primary",
+            lagBytes: null,
+            replayLagSeconds: null,
+          };
+        }
+
+        const row = rows.find((r) => r.application_name === name);
+        return {
+          name,
+          role: "replica",
+          state: row?.state ?? "disconnected",
+          lagBytes: row?.lag_bytes != null ? Number(row.lag_bytes) : null,
+          replayLagSeconds: row?.replay_lag_seconds ?? null,
+        };
+      },
+    );
+
+    return { success: true, replication: { primary, instances } };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    await sql.end({ timeout: 1 });
+  }
+}
+
+/**
+ * Label the pods of a replicated deployment with their current role
+ * Pods that don't stream from the primary lose the replica label, so the
+ * read-only Service never sends reads to a stale or diverged instance
+ */
+export async function syncReplicationRoles(
+  deployment: Deployment,
+): Promise<{ success: boolean; error?: string }> {
+  if (!getReplication(deployment)) {
+    return { success: true };
+  }
+
+  const [status, podList] = await Promise.all([
+    getReplicationStatus(deployment),
+    listDeploymentPods(deployment.containerName, deployment.namespace),
+  ]);
+  if (!status.success) {
+    return { success: false, error: status.error };
+  }
+  if (!podList.success) {
+    return { success: false, error: podList.error };
+  }
+
+  const errors: string[] = [];
+  for (const pod of podList.pods || []) {
+    const name = pod.metadata?.name || "";
+    const instance = status.replication.instances.find((i) => i.name === name);
+    const role =
+      instance?.role === "primary"
+        ? "primary"
+        : instance?.state === "streaming"
+          ? "replica"
+          : null;
+
+    if ((pod.metadata?.labels?.[ROLE_LABEL] ?? null) !== role) {
+      const result = await labelPod(deployment.namespace, name, {
+        [ROLE_LABEL]: role,
+      });
+      if (!result.success) {
+        errors.push(`${name}: ${result.error}`);
+      }
+    }
+  }
+
+  return errors.length > 0
+    ? { success: false, error: errors.join("; ") }
+    : { success: true };
+}
+
+/**
+ * Run a query with psql in an instance, over its local socket
+ * @returns The unaligned, tuples-only output
+ */
+export async function queryInstance(
+  deployment: Pick<Deployment, "namespace">,
+  podName: string,
+  query: string,
+): Promise<
+  { success: true; output: string } | { success: false; error: string }
+> {
+  const result = await runInPod(
+    deployment.namespace,
+    podName,
+    POSTGRES_CONTAINER,
+    [
+      "/bin/sh",
+      "-c",
+      'psql -U "$POSTGRES_USER" -d "$POSTGRES_DB" -tA -c "$1"',
+      "psql",
+      query,
+    ],
+  );
+
+  return result.success
+    ? { success: true, output: result.stdout.trim() }
+    : { success: false, error: result.error || "psql failed" };
+}
+
+// Stops writes to the former primary while a replica takes over. Sessions
+// opened before the reload would keep their read-write default, so they are
+// ended. ALTER SYSTEM also runs on read-only sessions and standbys
+const FENCE_QUERIES = [
+  "ALTER SYSTEM SET default_transaction_read_only = on",
+  "SELECT pg_reload_conf()",
+  "SELECT count(pg_terminate_backend(pid)) FROM pg_stat_activity WHERE backend_type = 'client backend' AND pid <> pg_backend_pid()",
+];
+
+const UNFENCE_QUERIES = [
+  "ALTER SYSTEM RESET default_transaction_read_only",
+  "SELECT pg_reload_conf()",
+];
+
+const LSN_PATTERN = /^[0-9A-F]+\/[0-9A-F]+$/;
+
+/**
+ * Run queries one by one in an instance, stopping at the first failure
+ */
+async function runQueries(
+  deployment: Pick<Deployment, "namespace">,
+  podName: string,
+  queries: string[],
+): Promise<{ success: boolean; error?: string }> {
+  for (const query of queries) {
+    const result = await queryInstance(deployment, podName, query);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+  }
+  return { success: true };
+}
+
+/**
+ * Promote a replica of a replicated deployment to primary
+ *
+ * The former primary is fenced first: it turns read-only and its sessions are
+ * ended. Once the replica has replayed all of its WAL, the replica is promoted
+ * in place and the deployment is updated to the new primary: the read-write
+ * Service follows it and every instance restarts, the former primary rewound
+ * onto the new one as a replica. A retried job skips what an earlier attempt
+ * already did.
+ *
+ * A promotion that stops for good is recorded on the deployment. Before the
+ * replica is promoted the fence is lifted again; after, the former primary
+ * stays read-only until a new promotion of the same replica finishes.
+ * @param options.final - Last attempt of the job
+ */
+export async function runPromote(options: {
+  deploymentId: string;
+  instance: number; // Ordinal of the replica
+  promotedBy: string;
+  final: boolean;
+  onStep?: StepCallback;
+}): Promise<OperationResult<{ primary: string; revision?: number }>> {
+  const [deployment] = await db
+    .select()
+    .from(deployments)
+    .where(
+      and(
+        eq(deployments.id, options.deploymentId),
+        isNull(deployments.deletedAt),
+      ),
+    )
+    .limit(1);
+
+  const replication = deployment && getReplication(deployment);
+  if (!deployment || !replication) {
+    return {
+      success: false,
+      error: "Replicated deployment not found",
+      transient: false,
+    };
+  }
+
+  const podName = getInstanceName(deployment.containerName, options.instance);
+  if (replication.primary === options.instance) {
+    return { success: true, result: { primary: podName } };
+  }
+  if (options.instance >= getInstanceCount(replication)) {
+    return {
+      success: false,
+      error: `Instance ${options.instance} does not exist`,
+      transient: false,
+    };
+  }
+  const formerPrimary = getInstanceName(
+    deployment.containerName,
+    replication.primary,
+  );
+
+  const recordFailure = (errorMessage: string, error: string) =>
+    db
+      .update(deployments)
+      .set({
+        errorMessage,
+        errorDetails: { error, primary: formerPrimary, promoted: podName },
+      })
+      .where(eq(deployments.id, deployment.id));
+
+  const promoted = await promoteInstance(deployment, podName, formerPrimary, {
+    onStep: options.onStep,
+  });
+  if (!promoted.success) {
+    if (options.final) {
+      // A replica still in recovery was not promoted, its primary can take
+      // writes again
+      const recovery = await queryInstance(
+        deployment,
+        podName,
+        "SELECT pg_is_in_recovery()",
+      );
+      const unfenced =
+        recovery.success && recovery.output === "t"
+          ? await runQueries(deployment, formerPrimary, UNFENCE_QUERIES)
+          : { success: false };
+      await recordFailure(
+        unfenced.success
+          ? `Failed to promote ${podName}, ${formerPrimary} stays the primary`
+          : `Promotion of ${podName} stopped halfway, ${formerPrimary} is read-only until it is promoted again`,
+        promoted.error,
+      );
+    }
+    return { ...promoted, transient: true };
+  }
+
+  const result = await runUpdate({
+    deploymentId: deployment.id,
+    update: {
+      updates: { replication: { ...replication, primary: options.instance } },
+      envVars: {},
+    },
+    updatedBy: options.promotedBy,
+    onStep: options.onStep,
+  });
+  if (!result.success) {
+    if (!result.transient || options.final) {
+      await recordFailure(
+        `${podName} was promoted but the deployment still uses ${formerPrimary}, which is read-only until ${podName} is promoted again`,
+        result.error,
+      );
+    }
+    return result;
+  }
+
+  await options.onStep?.("label instances");
+  const labels = await syncReplicationRoles({
+    ...deployment,
+    replication: { ...replication, primary: options.instance },
+  });
+  if (!labels.success) {
+    console.error(
+      `Failed to label the instances of ${deployment.id}:`,
+      labels.error,
+    );
+  }
+
+  // Rewinding copies the new primary's configuration, this covers a former
+  // primary that came back without it
+  const unfenced = await runQueries(deployment, formerPrimary, UNFENCE_QUERIES);
+  if (!unfenced.success) {
+    console.error(
+      `Failed to lift the fence of ${formerPrimary} in ${deployment.id}:`,
+      unfenced.error,
+    );
+  }
+
+  return {
+    success: true,
+    result: { primary: podName, revision: result.result.revision },
+  };
+}
+
+/**
+ * Fence the primary and promote a replica in place, once it has caught up
+ * Nothing is done if the replica was already promoted
+ */
+async function promoteInstance(
+  deployment: Deployment,
+  podName: string,
+  formerPrimary: string,
+  options: { onStep?: StepCallback },
+): Promise<{ success: true } | { success: false; error: string }> {
+  await options.onStep?.(`promote ${podName}`);
+  const recovery = await queryInstance(
+    deployment,
+    podName,
+    "SELECT pg_is_in_recovery()",
+  );
+  if (!recovery.success) {
+    return recovery;
+  }
+  if (recovery.output !== "t") {
+    return { success: true };
+  }
+
+  await options.onStep?.(`fence ${formerPrimary}`);
+  const fence = await runQueries(deployment, formerPrimary, FENCE_QUERIES);
+  if (!fence.success) {
+    return { success: false, error: `${formerPrimary}: ${fence.error}` };
+  }
+
+  // Nothing is written after the fence, the replica must reach this position
+  // or promoting it loses commits
+  const position = await queryInstance(
+    deployment,
+    formerPrimary,
+    "SELECT pg_current_wal_lsn()",
+  );
+  if (!position.success) {
+    return { success: false, error: `${formerPrimary}: ${position.error}` };
+  }
+  if (!LSN_PATTERN.test(position.output)) {
+    return {
+      success: false,
+      error: `${formerPrimary} reported an invalid WAL position: ${position.output}`,
+    };
+  }
+
+  const caughtUp = await queryInstance(
+    deployment,
+    podName,
+    `SELECT pg_last_wal_replay_lsn() >= '${position.output}'::pg_lsn`,
+  );
+  if (!caughtUp.success) {
+    return caughtUp;
+  }
+  if (caughtUp.output !== "t") {
+    return {
+      success: false,
+      error: `${podName} has not replayed the WAL of ${formerPrimary} up to ${position.output} yet`,
+    };
+  }
+
+  // Waits up to a minute for the promotion to finish
+  const promote = await queryInstance(
+    deployment,
+    podName,
+    "SELECT pg_promote()",
+  );
+  if (!promote.success || promote.output !== "t") {
+    return {
+      success: false,
+      error: promote.success
+        ? `${podName} did not finish its promotion`
+        : promote.error,
+    };
+  }
+
+  return { success: true };
+}
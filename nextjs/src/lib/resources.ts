@@ -0,0 +1,171 @@
+/**
+ * Deployment Resources
+ *
+ * CPU/memory size presets and validation for container requests/limits
+ * Client-safe: used by both the deploy routes and the deploy form
+ */
+
+export type ResourcePreset = "small" | "medium" | "large" | "custom";
+
+export interface DeploymentResources {
+  cpuRequest: string; // e.g. "250m"
+  memoryRequest: string; // e.g. "256Mi"
+  cpuLimit: string; // e.g. "1000m"
+  memoryLimit: string; // e.g. "1Gi"
+}
+
+/**
+ * Resources as sent by the deploy form / API clients
+ * Either a named preset, or "custom" with all four values
+ */
+export interface ResourceRequest extends Partial<DeploymentResources> {
+  preset?: ResourcePreset;
+}
+
+/**
+ * Size presets
+ * "small" matches the values every deployment used before presets existed
+ */
+export const RESOURCE_PRESETS: Record<
+  Exclude<ResourcePreset, "custom">,
+  DeploymentResources & { label: string }
+> = {
+  small: {
+    label: "Small",
+    cpuRequest: "250m",
+    memoryRequest: "256Mi",
+    cpuLimit: "1000m",
+    memoryLimit: "1Gi",
+  },
+  medium: {
+    label: "Medium",
+    cpuRequest: "500m",
+    memoryRequest: "1Gi",
+    cpuLimit: "2000m",
+    memoryLimit: "2Gi",
+  },
+  large: {
+    label: "Large",
+    cpuRequest: "1000m",
+    memoryRequest: "2Gi",
+    cpuLimit: "4000m",
+    memoryLimit: "4Gi",
+  },
+};
+
+export const DEFAULT_RESOURCE_PRESET = "small";
+
+/**
+ * Resolve a resource request into concrete requests/limits
+ * @returns The resolved preset and resources, or a list of validation errors
+ */
+export function resolveResources(
+  request: ResourceRequest | undefined,
+):
+  | { preset: ResourcePreset; resources: DeploymentResources; errors?: never }
+  | { errors: string[] } {
+  const preset = request?.preset || DEFAULT_RESOURCE_PRESET;
+
+  if (preset !== "custom") {
+    const presetResources = RESOURCE_PRESETS[preset];
+    if (!presetResources) {
+      return { errors: [`Unknown resource preset: ${preset}`] };
+    }
+    const { label: _label, ...resources } = presetResources;
+    return { preset, resources };
+  }
+
+  const resources: DeploymentResources = {
+    cpuRequest: request?.cpuRequest || "",
+    memoryRequest: request?.memoryRequest || "",
+    cpuLimit: request?.cpuLimit || "",
+    memoryLimit: request?.memoryLimit || "",
+  };
+
+  const errors: string[] = [];
+  const cpuRequest = parseCpuQuantity(resources.cpuRequest);
+  const cpuLimit = parseCpuQuantity(resources.cpuLimit);
+  const memoryRequest = parseMemoryQuantity(resources.memoryRequest);
+  const memoryLimit = parseMemoryQuantity(resources.memoryLimit);
+
+  if (!cpuRequest || !cpuLimit) {
+    errors.push("CPU request and limit must be valid quantities (e.g. 250m)");
+  } else if (cpuRequest > cpuLimit) {
+    errors.push("CPU request cannot exceed the CPU limit");
+  }
+
+  if (!memoryRequest || !memoryLimit) {
+    errors.push(
+      "Memory request and limit must be valid quantities (e.g. 256Mi)",
+    );
+  } else if (memoryRequest > memoryLimit) {
+    errors.push("Memory request cannot exceed the memory limit");
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return { preset, resources };
+}
+
+/**
+ * Read the resources stored on a deployment row
+ * Rows created before resources were configurable fall back to the default preset
+ */
+export function getDeploymentResources(deployment: {
+  cpuRequest: string | null;
+  memoryRequest: string | null;
+  cpuLimit: string | null;
+  memoryLimit: string | null;
+}): DeploymentResources {
+  const defaults = RESOURCE_PRESETS[DEFAULT_RESOURCE_PRESET];
+
+  return {
+    cpuRequest: deployment.cpuRequest || defaults.cpuRequest,
+    memoryRequest: deployment.memoryRequest || defaults.memoryRequest,
+    cpuLimit: deployment.cpuLimit || defaults.cpuLimit,
+    memoryLimit: deployment.memoryLimit || defaults.memoryLimit,
+  };
+}
+
+/**
+ * Parse a Kubernetes CPU quantity into millicores
+ * @example parseCpuQuantity("250m") // 250
+ * @example parseCpuQuantity("1.5") // 1500
+ * @returns Millicores, or null if the quantity is invalid
+ */
+export function parseCpuQuantity(quantity: string): number | null {
+  const match = quantity.match(/^(\d+(\.\d+)?)(m?)$/);
+  if (!match) {
+    return null;
+  }
+
+  const value = parseFloat(match[1]);
+  return match[3] === "m" ? value : value * 1000;
+}
+
+/**
+ * Parse a Kubernetes memory quantity into MiB
+ * @example parseMemoryQuantity("256Mi") // 256
+ * @example parseMemoryQuantity("1Gi") // 1024
+ * @returns MiB, or null if the quantity is invalid
+ */
+export function parseMemoryQuantity(quantity: string): number | null {
+  const match = quantity.match(/^(\d+(\.\d+)?)(Mi|Gi|M|G)$/);
+  if (!match) {
+    return null;
+  }
+
+  const value = parseFloat(match[1]);
+  switch (match[3]) {
+    case "Gi":
+      return value * 1024;
+    case "G":
+      return (value * 1000 ** 3) / 1024 ** 2;
+    case "M":
+      return (value * 1000 ** 2) / 1024 ** 2;
+    default:
+      return value;
+  }
+}
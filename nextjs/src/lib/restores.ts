@@ -0,0 +1,376 @@
+/**
+ * Restores
+ *
+ * pg_restore of a recorded backup (lib/backups.ts), either in place into the
+ * deployment it was taken from or into a new deployment cloned from it.
+ *
+ * A restore is a row in deployment_restores and, once started, a Job next to
+ * the backup (see generateRestoreManifests()). An in-place restore starts
+ * right away; a clone restore stays pending until the cloned deployment is
+ * deployed. syncRestores(), called by the reconciler on every pass and by the
+ * job worker after a deploy, starts pending restores and records the outcome
+ * of running ones.
+ */
+
+import type { V1Job } from "@kubernetes/client-node";
+import { and, desc, eq, inArray, or } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  type DeploymentBackup,
+  type DeploymentRestore,
+  deploymentBackups,
+  deploymentRestores,
+  deployments,
+} from "@/db/schema";
+import { getS3BackupConfig } from "@/lib/backups";
+import { getDeploymentEnv } from "@/lib/deployment-connection";
+import {
+  generateRestoreManifests,
+  RESTORE_ID_LABEL,
+  RESTORE_LABEL,
+  type RestoreManifestConfig,
+} from "@/lib/k8s-manifests";
+import {
+  applyManifests,
+  deleteManifests,
+  getJobTermination,
+  listJobs,
+} from "@/lib/kubectl";
+
+export type RestoreMode = "in_place" | "clone";
+export type RestoreStatus = "pending" | "running" | "succeeded" | "failed";
+
+const ACTIVE_STATUSES: RestoreStatus[] = ["pending", "running"];
+
+// A Job that disappears before the restore was recorded (deleted by hand,
+// namespace gone) fails the restore after this long
+const MISSING_JOB_GRACE_MS = 5 * 60 * 1000;
+
+/**
+ * Whether a restore into or from a deployment is pending or running
+ */
+export async function hasActiveRestore(deploymentId: string): Promise<boolean> {
+  const [active] = await db
+    .select({ id: deploymentRestores.id })
+    .from(deploymentRestores)
+    .where(
+      and(
+        or(
+          eq(deploymentRestores.deploymentId, deploymentId),
+          eq(deploymentRestores.sourceDeploymentId, deploymentId),
+        ),
+        inArray(deploymentRestores.status, ACTIVE_STATUSES),
+      ),
+    )
+    .limit(1);
+
+  return Boolean(active);
+}
+
+/**
+ * Where the restore Job reads a backup from, parsed from its location
+ */
+function getRestoreSource(
+  backup: DeploymentBackup,
+): RestoreManifestConfig["source"] {
+  const match = backup.location.match(/^(pvc|s3):\/\/([^/]+)\/(.+)$/);
+  if (!match) {
+    throw new Error(`Unknown backup location: ${backup.location}`);
+  }
+  const [, type, bucketOrClaim, path] = match;
+
+  if (type === "pvc") {
+    return { type: "pvc", claimName: bucketOrClaim, file: path };
+  }
+
+  const s3 = getS3BackupConfig();
+  if (!s3) {
+    throw new Error("S3 backups are not configured");
+  }
+  return {
+    type: "s3",
+    endpoint: s3.endpoint,
+    bucket: bucketOrClaim,
+    region: s3.region,
+    key: path,
+    accessKeyId: s3.accessKeyId,
+    secretAccessKey: s3.secretAccessKey,
+  };
+}
+
+/**
+ * Mark a restore as failed
+ */
+async function failRestore(restore: DeploymentRestore, errorMessage: string) {
+  const completedAt = new Date();
+  await db
+    .update(deploymentRestores)
+    .set({
+      status: "failed",
+      step: null,
+      errorMessage,
+      completedAt,
+      durationMs: restore.startedAt
+        ? completedAt.getTime() - restore.startedAt.getTime()
+        : null,
+    })
+    .where(eq(deploymentRestores.id, restore.id));
+}
+
+/**
+ * Create the restore Job of a pending restore
+ * The restored deployment must be deployed; its data is replaced when the
+ * restore is in place
+ */
+export async function startRestore(
+  restore: DeploymentRestore,
+): Promise<{ success: boolean; error?: string }> {
+  const fail = async (error: string) => {
+    await failRestore(restore, error);
+    return { success: false, error };
+  };
+
+  const [backup] = restore.backupId
+    ? await db
+        .select()
+        .from(deploymentBackups)
+        .where(eq(deploymentBackups.id, restore.backupId))
+        .limit(1)
+    : [];
+  if (!backup || backup.status !== "succeeded") {
+    return fail("The backup is no longer available");
+  }
+
+  const rows = await db
+    .select()
+    .from(deployments)
+    .where(
+      inArray(deployments.id, [restore.deploymentId, backup.deploymentId]),
+    );
+  const target = rows.find((row) => row.id === restore.deploymentId);
+  const source = rows.find((row) => row.id === backup.deploymentId);
+  if (!target || target.deletedAt) {
+    return fail("The restored deployment was deleted");
+  }
+  if (!source || source.deletedAt) {
+    return fail("The deployment the backup was taken from was deleted");
+  }
+
+  const jobName = `restore-${restore.id}`;
+  let manifests: unknown[];
+  try {
+    const env = await getDeploymentEnv(target.id);
+    manifests = generateRestoreManifests({
+      namespace: source.namespace,
+      name: jobName,
+      restoreId: restore.id,
+      image: target.image,
+      tag: target.tag,
+      host: `${target.containerName}-service.${target.namespace}.svc.cluster.local`,
+      port: target.port ?? 5432,
+      user: env.POSTGRES_USER || "postgres",
+      password: env.POSTGRES_PASSWORD || "",
+      database: env.POSTGRES_DB || env.POSTGRES_USER || "postgres",
+      clean: restore.mode === "in_place",
+      source: getRestoreSource(backup),
+    });
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+
+  const result = await applyManifests(manifests);
+  if (!result.success) {
+    return fail(result.error || "Failed to create the restore Job");
+  }
+
+  await db
+    .update(deploymentRestores)
+    .set({
+      status: "running",
+      jobName,
+      step: "Restoring the backup",
+      startedAt: new Date(),
+    })
+    .where(eq(deploymentRestores.id, restore.id));
+
+  return { success: true };
+}
+
+/**
+ * Outcome of a restore Job as a deployment_restores update, null while it runs
+ */
+async function readRestoreJob(job: V1Job, restore: DeploymentRestore) {
+  const name = job.metadata?.name || "";
+  const namespace = job.metadata?.namespace || "";
+  const startedAt = restore.startedAt ?? new Date();
+
+  if ((job.status?.succeeded ?? 0) > 0) {
+    const completedAt = new Date(job.status?.completionTime || Date.now());
+    return {
+      status: "succeeded" as const,
+      step: null,
+      completedAt,
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+    };
+  }
+
+  const failedCondition = job.status?.conditions?.find(
+    (condition) => condition.type === "Failed" && condition.status === "True",
+  );
+  if (failedCondition) {
+    const completedAt = new Date(
+      failedCondition.lastTransitionTime || Date.now(),
+    );
+
+    // Downloading from S3 runs as an init container
+    let detail: string | undefined;
+    for (const container of ["download", "restore"]) {
+      const termination = await getJobTermination(name, namespace, container);
+      if (termination.terminated && termination.terminated.exitCode !== 0) {
+        detail =
+          termination.terminated.message?.trim() ||
+          termination.terminated.reason;
+        break;
+      }
+    }
+
+    return {
+      status: "failed" as const,
+      step: null,
+      completedAt,
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      errorMessage: [failedCondition.message, detail]
+        .filter(Boolean)
+        .join(": "),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Start the pending restores whose deployment is ready and record the outcome
+ * of running ones
+ * @param deploymentId - Only the restores into this deployment
+ * @returns Number of restores started or completed
+ */
+export async function syncRestores(deploymentId?: string): Promise<number> {
+  const restores = await db
+    .select()
+    .from(deploymentRestores)
+    .where(
+      and(
+        inArray(deploymentRestores.status, ACTIVE_STATUSES),
+        deploymentId
+          ? eq(deploymentRestores.deploymentId, deploymentId)
+          : undefined,
+      ),
+    );
+  if (restores.length === 0) {
+    return 0;
+  }
+
+  let synced = 0;
+
+  // Pending restores wait for their (cloned) deployment
+  const pending = restores.filter((restore) => restore.status === "pending");
+  const targets = pending.length
+    ? await db
+        .select({
+          id: deployments.id,
+          status: deployments.status,
+          deletedAt: deployments.deletedAt,
+        })
+        .from(deployments)
+        .where(
+          inArray(
+            deployments.id,
+            pending.map((restore) => restore.deploymentId),
+          ),
+        )
+    : [];
+
+  for (const restore of pending) {
+    const target = targets.find((row) => row.id === restore.deploymentId);
+    if (!target || target.deletedAt || target.status === "failed") {
+      await failRestore(restore, "The cloned deployment failed to deploy");
+      synced += 1;
+    } else if (target.status === "deployed") {
+      await startRestore(restore);
+      synced += 1;
+    }
+  }
+
+  const running = restores.filter((restore) => restore.status === "running");
+  if (running.length === 0) {
+    return synced;
+  }
+
+  const listed = await listJobs(`${RESTORE_LABEL}=true`);
+  if (!listed.success) {
+    throw new Error(listed.error);
+  }
+
+  for (const restore of running) {
+    const job = listed.jobs?.find(
+      (item) => item.metadata?.labels?.[RESTORE_ID_LABEL] === restore.id,
+    );
+
+    if (!job) {
+      if (
+        restore.startedAt &&
+        Date.now() - restore.startedAt.getTime() > MISSING_JOB_GRACE_MS
+      ) {
+        await failRestore(restore, "The restore Job no longer exists");
+        synced += 1;
+      }
+      continue;
+    }
+
+    const outcome = await readRestoreJob(job, restore);
+    if (!outcome) {
+      continue;
+    }
+
+    await db
+      .update(deploymentRestores)
+      .set(outcome)
+      .where(eq(deploymentRestores.id, restore.id));
+
+    // The Secret only holds the Job's credentials; the Job itself is kept
+    // until its TTL so its logs can still be read
+    await deleteManifests([
+      {
+        apiVersion: "v1",
+        kind: "Secret",
+        metadata: {
+          name: job.metadata?.name,
+          namespace: job.metadata?.namespace,
+        },
+      },
+    ]);
+    synced += 1;
+  }
+
+  return synced;
+}
+
+/**
+ * Restores into or from a deployment, newest first
+ */
+export async function listRestores(
+  deploymentId: string,
+  limit = 20,
+): Promise<DeploymentRestore[]> {
+  return db
+    .select()
+    .from(deploymentRestores)
+    .where(
+      or(
+        eq(deploymentRestores.deploymentId, deploymentId),
+        eq(deploymentRestores.sourceDeploymentId, deploymentId),
+      ),
+    )
+    .orderBy(desc(deploymentRestores.createdAt))
+    .limit(limit);
+}
@@ -0,0 +1,92 @@
+/**
+ * Deployment Revisions
+ *
+ * Every successful apply is recorded as a numbered revision so a deployment
+ * can be inspected and rolled back to an earlier configuration.
+ */
+
+import { desc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { type Deployment, deploymentRevisions } from "@/db/schema";
+import type { ManifestEnvVar } from "@/lib/k8s-manifests";
+import {
+  type DeploymentResources,
+  getDeploymentResources,
+} from "@/lib/resources";
+
+export type RevisionReason = "deploy" | "update" | "rollback";
+
+/**
+ * Configuration captured with a revision
+ * Secret env vars are left out: they can't be changed after creation
+ */
+export interface RevisionConfig extends DeploymentResources {
+  pvcSize: number | null;
+  resourcePreset: string | null;
+  envVars: Record<string, string>;
+  settings?: unknown; // Missing on revisions recorded before settings existed
+  pooler?: unknown; // Missing on revisions recorded before poolers existed
+  poolerNodePort?: number | null;
+  replication?: unknown; // Missing on revisions recorded before replication existed
+  readOnlyNodePort?: number | null;
+}
+
+/**
+ * Capture the configuration of a deployment
+ */
+export function getRevisionConfig(
+  deployment: Deployment,
+  envVars: ManifestEnvVar[],
+): RevisionConfig {
+  return {
+    pvcSize: deployment.pvcSize,
+    resourcePreset: deployment.resourcePreset,
+    ...getDeploymentResources(deployment),
+    envVars: Object.fromEntries(
+      envVars.filter((env) => !env.isSecret).map((env) => [env.key, env.value]),
+    ),
+    settings: deployment.settings,
+    pooler: deployment.pooler,
+    poolerNodePort: deployment.poolerNodePort,
+    replication: deployment.replication,
+    readOnlyNodePort: deployment.readOnlyNodePort,
+  };
+}
+
+/**
+ * Record a successful apply as the next revision of a deployment
+ * Secret manifests are not stored, so revisions never contain credentials
+ */
+export async function recordRevision(options: {
+  deployment: Deployment;
+  envVars: ManifestEnvVar[];
+  manifests: unknown[];
+  reason: RevisionReason;
+  createdBy: string;
+  sourceRevision?: number;
+}) {
+  const [latest] = await db
+    .select({ revision: deploymentRevisions.revision })
+    .from(deploymentRevisions)
+    .where(eq(deploymentRevisions.deploymentId, options.deployment.id))
+    .orderBy(desc(deploymentRevisions.revision))
+    .limit(1);
+
+  const [revision] = await db
+    .insert(deploymentRevisions)
+    .values({
+      deploymentId: options.deployment.id,
+      createdBy: options.createdBy,
+      revision: (latest?.revision ?? 0) + 1,
+      reason: options.reason,
+      sourceRevision: options.sourceRevision,
+      tag: options.deployment.tag,
+      config: getRevisionConfig(options.deployment, options.envVars),
+      manifests: options.manifests.filter(
+        (manifest) => (manifest as { kind?: string }).kind !== "Secret",
+      ),
+    })
+    .returning();
+
+  return revision;
+}
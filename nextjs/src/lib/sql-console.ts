@@ -0,0 +1,244 @@
+/**
+ * SQL Console
+ *
+ * Runs one statement at a time against a Postgres deployment for the query
+ * console. Every statement runs in its own transaction, read-only unless the
+ * caller asks otherwise, with a statement timeout and a cap on returned rows
+ * (rows are read through a cursor, the rest is never fetched).
+ */
+
+import postgres from "postgres";
+import type { Deployment } from "@/db/schema";
+import {
+  getDeploymentEnv,
+  getServiceAddress,
+} from "@/lib/deployment-connection";
+
+export interface QueryOptions {
+  readOnly: boolean;
+  timeoutMs: number;
+  maxRows: number;
+}
+
+export interface QueryColumn {
+  name: string;
+  type: string; // Postgres type name, e.g. integer, text, timestamp with time zone
+}
+
+export interface QueryResult {
+  command: string; // SELECT, INSERT, ... (first keyword when rows are returned)
+  columns: QueryColumn[];
+  rows: unknown[][];
+  rowCount: number; // Rows returned, or affected by a write
+  truncated: boolean; // More rows than maxRows
+  durationMs: number;
+}
+
+export interface SchemaTable {
+  schema: string;
+  name: string;
+  type: "table" | "view";
+  columns: Array<{ name: string; type: string; nullable: boolean }>;
+}
+
+export const DEFAULT_QUERY_OPTIONS: QueryOptions = {
+  readOnly: true,
+  timeoutMs: 10_000,
+  maxRows: 1000,
+};
+
+export const MAX_QUERY_TIMEOUT_MS = 60_000;
+export const MAX_QUERY_ROWS = 10_000;
+
+type ConsoleResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; code?: string; position?: string };
+
+/**
+ * Open a single connection to a Postgres deployment, as the user it was
+ * created with
+ */
+async function connect(deployment: Deployment): Promise<postgres.Sql> {
+  const address = getServiceAddress(deployment);
+  if (!address) {
+    throw new Error("Deployment has no reachable service");
+  }
+
+  const env = await getDeploymentEnv(deployment.id);
+
+  return postgres({
+    host: address.host,
+    port: address.port,
+    username: env.POSTGRES_USER || "postgres",
+    password: env.POSTGRES_PASSWORD,
+    database: env.POSTGRES_DB || env.POSTGRES_USER || "postgres",
+    max: 1,
+    prepare: false,
+    connect_timeout: 10,
+    ssl: false,
+    onnotice: () => {},
+    connection: { application_name: "dockify-console" },
+  });
+}
+
+/**
+ * Make driver values JSON-friendly
+ */
+function serializeValue(value: unknown): unknown {
+  if (Buffer.isBuffer(value)) {
+    return `\\x${value.toString("hex")}`;
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeValue);
+  }
+  return value;
+}
+
+async function withConnection<T>(
+  deployment: Deployment,
+  fn: (sql: postgres.Sql) => Promise<T>,
+): Promise<ConsoleResult<T>> {
+  let sql: postgres.Sql | null = null;
+  try {
+    sql = await connect(deployment);
+    return { success: true, data: await fn(sql) };
+  } catch (error) {
+    if (error instanceof postgres.PostgresError) {
+      return {
+        success: false,
+        error: error.message,
+        code: error.code,
+        position: error.position,
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    await sql?.end({ timeout: 1 });
+  }
+}
+
+/**
+ * Run one SQL statement
+ */
+export async function runQuery(
+  deployment: Deployment,
+  query: string,
+  options: QueryOptions,
+): Promise<ConsoleResult<QueryResult>> {
+  return withConnection(deployment, (sql) =>
+    sql.begin(options.readOnly ? "read only" : "read write", async (tx) => {
+      await tx.unsafe(`SET LOCAL statement_timeout = ${options.timeoutMs}`);
+      const startedAt = Date.now();
+
+      // Describing also rejects several statements at once
+      const statement = await tx.unsafe(query).describe();
+
+      if (statement.columns.length === 0) {
+        const result = await tx.unsafe(query);
+        return {
+          command: result.command,
+          columns: [],
+          rows: [],
+          rowCount: result.count ?? 0,
+          truncated: false,
+          durationMs: Date.now() - startedAt,
+        };
+      }
+
+      // One row past the cap tells whether there is more
+      let rows: unknown[][] = [];
+      for await (const batch of tx
+        .unsafe(query)
+        .values()
+        .cursor(options.maxRows + 1)) {
+        rows = batch;
+        break;
+      }
+      const durationMs = Date.now() - startedAt;
+
+      const oids = [...new Set(statement.columns.map((column) => column.type))];
+      const types = await tx<{ oid: number; name: string }[]>`
+        SELECT oid::int AS oid, format_type(oid, NULL) AS name
+        FROM pg_type
+        WHERE oid = ANY(${tx.array(oids)})
+      `;
+      const typeNames = new Map(types.map((type) => [type.oid, type.name]));
+
+      return {
+        command: statement.string.trim().split(/\s+/)[0].toUpperCase(),
+        columns: statement.columns.map((column) => ({
+          name: column.name,
+          type: typeNames.get(column.type) || String(column.type),
+        })),
+        rows: rows
+          .slice(0, options.maxRows)
+          .map((row) => row.map(serializeValue)),
+        rowCount: Math.min(rows.length, options.maxRows),
+        truncated: rows.length > options.maxRows,
+        durationMs,
+      };
+    }),
+  );
+}
+
+/**
+ * List the tables and views of all user schemas with their columns
+ */
+export async function getSchema(
+  deployment: Deployment,
+): Promise<ConsoleResult<SchemaTable[]>> {
+  return withConnection(deployment, async (sql) => {
+    const columns = await sql<
+      {
+        tableSchema: string;
+        tableName: string;
+        tableType: string;
+        columnName: string;
+        dataType: string;
+        isNullable: string;
+      }[]
+    >`
+      SELECT
+        c.table_schema AS "tableSchema",
+        c.table_name AS "tableName",
+        t.table_type AS "tableType",
+        c.column_name AS "columnName",
+        c.data_type AS "dataType",
+        c.is_nullable AS "isNullable"
+      FROM information_schema.columns c
+      JOIN information_schema.tables t
+        ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+      WHERE c.table_schema NOT IN ('pg_catalog', 'information_schema')
+        AND c.table_schema NOT LIKE 'pg_toast%'
+      ORDER BY c.table_schema, c.table_name, c.ordinal_position
+    `;
+
+    const tables = new Map<string, SchemaTable>();
+    for (const column of columns) {
+      const key = `${column.tableSchema}.${column.tableName}`;
+      let table = tables.get(key);
+      if (!table) {
+        table = {
+          schema: column.tableSchema,
+          name: column.tableName,
+          type: column.tableType === "VIEW" ? "view" : "table",
+          columns: [],
+        };
+        tables.set(key, table);
+      }
+      table.columns.push({
+        name: column.columnName,
+        type: column.dataType,
+        nullable: column.isNullable === "YES",
+      });
+    }
+
+    return [...tables.values()];
+  });
+}